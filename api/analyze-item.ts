@@ -5,44 +5,113 @@ dotenv.config();
 import {
   validateAIResponse,
   STRUCTURED_PROMPT_TEMPLATES,
+  AIResponseValidationError,
+  toRepairMetadata,
+  ItemAnalysisRequestSchema,
+  parseRequestBody,
 } from "../shared/response-schemas.js";
-import { generateWithGemini, buildFashionPrompt } from "../shared/gemini.js";
+import type {
+  ValidatedItemAnalysis,
+  StructuredResponse,
+  RepairMetadata,
+} from "../shared/response-schemas.js";
+import {
+  buildFashionPrompt,
+  fetchImageAsInlineData,
+  parseBase64Image,
+} from "../shared/gemini.js";
+import type { GeminiImageInput } from "../shared/gemini.js";
+import { getAIProvider } from "../shared/ai-provider.js";
+import { checkRateLimit, HOUR_MS } from "../shared/rate-limit.js";
+import { requireUser } from "../shared/auth.js";
+import { loadUserItem } from "../shared/wardrobe-data.js";
+import {
+  assignRequestId,
+  sendError,
+  sendInternalError,
+} from "../shared/api-errors.js";
+import {
+  cacheInfo,
+  fingerprint,
+  getCachedResult,
+  setCachedResult,
+} from "../shared/ai-cache.js";
+import { DEFAULT_CATEGORIES } from "../shared/constants.js";
+import {
+  createFallbackAnalysis,
+  generateStylingSuggestions,
+  getBestOccasions,
+  getCareInstructions,
+  getPairingItems,
+} from "../shared/item-analysis.js";
+
+// Token buckets per user and per IP, sized to stay within the free tier
+const RATE_LIMIT = {
+  name: "analyze-item",
+  limit: 25,
+  windowMs: HOUR_MS,
+};
 
-// Rate limiting helper (stay within free tier)
-let requestCount = 0;
-let lastReset = Date.now();
+// Structured calls skip repairs that would run past this, so the basic
+// fallback still goes out within vercel.json's 10s maxDuration
+const AI_DEADLINE_MS = 7000;
 
-const checkRateLimit = (): boolean => {
-  const now = Date.now();
-  const hoursPassed = (now - lastReset) / (1000 * 60 * 60);
+// Only fetch images from our own storage (or any https host when unconfigured)
+function isAllowedImageUrl(imageUrl: string): boolean {
+  try {
+    const url = new URL(imageUrl);
+    if (url.protocol !== "https:") return false;
 
-  // Reset counter every hour
-  if (hoursPassed >= 1) {
-    requestCount = 0;
-    lastReset = now;
-  }
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    if (!supabaseUrl) return true;
 
-  // Stay under 30 requests per hour for free tier
-  if (requestCount >= 25) {
+    return url.host === new URL(supabaseUrl).host;
+  } catch {
     return false;
   }
+}
 
-  requestCount++;
-  return true;
-};
+// Resolve the image pixels from an uploaded base64 payload or a storage URL
+async function loadImageInput(
+  imageUrl: string | undefined,
+  imageBase64: string | undefined,
+  mimeType: string | undefined,
+): Promise<GeminiImageInput | null> {
+  if (imageBase64) {
+    return parseBase64Image(imageBase64, mimeType);
+  }
+  if (imageUrl && isAllowedImageUrl(imageUrl)) {
+    return fetchImageAsInlineData(imageUrl);
+  }
+  return null;
+}
+
+// An analysis, and whether any Gemini call behind it failed and was filled in
+// from the item data. Photo analyses also say whether the vision call read
+// the image.
+interface AnalysisOutcome {
+  analysis: any;
+  degraded: boolean;
+  imageAnalyzed?: boolean;
+}
 
 // Analyze clothing item using Gemini AI
 async function analyzeClothingWithGemini(
-  imageUrl: string,
+  image: GeminiImageInput | null,
   itemData: any,
-): Promise<any> {
+  repairs: RepairMetadata[] = [],
+  deadline?: number,
+): Promise<AnalysisOutcome> {
   try {
     // Use multiple Gemini analyses for comprehensive understanding
-    const [visionResult, styleResult, detailResult] = await Promise.allSettled([
-      analyzeWithGeminiVision(imageUrl, itemData),
-      analyzeStyleWithGemini(itemData),
-      analyzeDetailsWithGemini(itemData),
-    ]);
+    // Each helper already reports its own settled status, so unwrap one level
+    const [visionResult, styleResult, detailResult] = (
+      await Promise.allSettled([
+        analyzeWithGeminiVision(image, itemData, repairs, deadline),
+        analyzeStyleWithGemini(itemData, repairs, deadline),
+        analyzeDetailsWithGemini(itemData),
+      ])
+    ).map((result) => (result.status === "fulfilled" ? result.value : result));
 
     // Combine results for comprehensive analysis
     const analysis = combineAnalysisResults(
@@ -52,35 +121,63 @@ async function analyzeClothingWithGemini(
       itemData,
     );
 
-    return analysis;
+    return {
+      analysis,
+      degraded: [visionResult, styleResult, detailResult].some(
+        (result) => result.status !== "fulfilled",
+      ),
+      imageAnalyzed: visionResult.status === "fulfilled",
+    };
   } catch (error) {
     console.error("Gemini analysis failed:", error);
 
     // Fallback analysis based on basic pattern matching
-    return createFallbackAnalysis(itemData);
+    return {
+      analysis: createFallbackAnalysis(itemData),
+      degraded: true,
+      imageAnalyzed: false,
+    };
   }
 }
 
 // Gemini Vision for clothing categorization
-async function analyzeWithGeminiVision(imageUrl: string, itemData: any): Promise<any> {
+async function analyzeWithGeminiVision(
+  image: GeminiImageInput | null,
+  itemData: any,
+  repairs: RepairMetadata[],
+  deadline?: number,
+): Promise<any> {
   try {
+    if (!image) {
+      throw new Error("No image available for vision analysis");
+    }
+
+    const categoryNames = DEFAULT_CATEGORIES.map((c) => c.name).join(", ");
     const prompt = buildFashionPrompt(
-      `Analyze this clothing item image and provide detailed categorization. Focus on:
-      - Accurate category identification
+      `Look at the garment in the attached image and describe only what you can see. Focus on:
+      - Category: exactly one of ${categoryNames}
+      - Specific type (sub_category), e.g. T-shirt, Chinos, Sneakers
+      - Primary color as a common color name
+      - Pattern (Solid, Striped, Plaid, Floral, Graphic, ...)
+      - Material as it appears (Cotton, Denim, Wool, Leather, Knit, ...)
+      - Formality from 1 (very casual) to 5 (very formal)
       - Style characteristics and tags
-      - Primary color identification
-      - Versatility assessment
       - Styling and pairing suggestions
       - Occasion suitability
       
-      Image URL: ${imageUrl}`,
+      The user described it as: ${itemData.category || "unknown"}, ${itemData.color || "unknown color"}. Trust the image over this description.`,
       { wardrobe: [itemData] }
     ) + STRUCTURED_PROMPT_TEMPLATES.item_analysis;
 
-    const analysis = await generateWithGemini(prompt, {
-      temperature: 0.3,
-      maxOutputTokens: 800,
-    });
+    const analysis = await withRawFallback(
+      getAIProvider().analyzeImage(image, prompt, {
+        temperature: 0.3,
+        maxOutputTokens: 800,
+        deadline,
+        context: { wardrobe: [itemData] },
+      }),
+      repairs,
+    );
 
     return {
       status: "fulfilled",
@@ -92,7 +189,11 @@ async function analyzeWithGeminiVision(imageUrl: string, itemData: any): Promise
 }
 
 // Gemini for style analysis
-async function analyzeStyleWithGemini(itemData: any): Promise<any> {
+async function analyzeStyleWithGemini(
+  itemData: any,
+  repairs: RepairMetadata[],
+  deadline?: number,
+): Promise<any> {
   try {
     const prompt = buildFashionPrompt(
       `Analyze the style characteristics of this ${itemData.category} item:
@@ -105,10 +206,15 @@ async function analyzeStyleWithGemini(itemData: any): Promise<any> {
       { wardrobe: [itemData] }
     ) + STRUCTURED_PROMPT_TEMPLATES.item_analysis;
 
-    const styleAnalysis = await generateWithGemini(prompt, {
-      temperature: 0.4,
-      maxOutputTokens: 600,
-    });
+    const styleAnalysis = await withRawFallback(
+      getAIProvider().generateStructured(prompt, "item-analysis", {
+        temperature: 0.4,
+        maxOutputTokens: 600,
+        deadline,
+        context: { wardrobe: [itemData] },
+      }),
+      repairs,
+    );
 
     return { status: "fulfilled", value: { styleAnalysis, confidence: 0.8 } };
   } catch (error) {
@@ -116,6 +222,32 @@ async function analyzeStyleWithGemini(itemData: any): Promise<any> {
   }
 }
 
+// A structured item analysis, or Gemini's raw text when it missed the schema
+// so the keyword-based extraction can still use it. Each call's repair
+// attempts are appended to `repairs` for the response metadata.
+async function withRawFallback(
+  request: Promise<StructuredResponse<ValidatedItemAnalysis>>,
+  repairs: RepairMetadata[],
+): Promise<ValidatedItemAnalysis | string> {
+  try {
+    const structured = await request;
+    repairs.push(toRepairMetadata(structured));
+    return structured.data;
+  } catch (error) {
+    if (!(error instanceof AIResponseValidationError)) throw error;
+    repairs.push(toRepairMetadata(error));
+    return error.rawResponse;
+  }
+}
+
+// Fold the repair reports of several Gemini calls into one
+function mergeRepairMetadata(repairs: RepairMetadata[]): RepairMetadata {
+  return {
+    ai_attempts: repairs.reduce((sum, repair) => sum + repair.ai_attempts, 0),
+    validation_issues: repairs.flatMap((repair) => repair.validation_issues),
+  };
+}
+
 // Gemini for detailed classification
 async function analyzeDetailsWithGemini(itemData: any): Promise<any> {
   try {
@@ -129,9 +261,10 @@ async function analyzeDetailsWithGemini(itemData: any): Promise<any> {
       { wardrobe: [itemData] }
     );
 
-    const detailAnalysis = await generateWithGemini(prompt, {
+    const detailAnalysis = await getAIProvider().generate(prompt, {
       temperature: 0.2,
       maxOutputTokens: 700,
+      context: { wardrobe: [itemData] },
     });
 
     return {
@@ -155,38 +288,72 @@ function combineAnalysisResults(
   const styleData = styleResult.status === "fulfilled" ? styleResult.value : null;
   const detailData = detailResult.status === "fulfilled" ? detailResult.value : null;
 
+  // Structured fields read from the pixels, when the vision call returned JSON
+  const visionFields =
+    typeof visionData?.analysis === "string"
+      ? parseVisionFields(visionData.analysis)
+      : visionData?.analysis || null;
+
   // Determine category from vision analysis
-  const category = visionData && visionData.analysis
-    ? extractCategoryFromGemini(visionData.analysis)
-    : itemData.category || "clothing";
+  const category = visionFields?.category
+    ? normalizeCategory(visionFields.category)
+    : typeof visionData?.analysis === "string"
+      ? extractCategoryFromGemini(visionData.analysis)
+      : itemData.category || "clothing";
 
   // Extract style features from style analysis
-  const styleFeatures = styleData && styleData.styleAnalysis
-    ? extractStyleFromGemini(styleData.styleAnalysis)
-    : ["classic", "versatile"];
-
-  // Calculate confidence based on successful analyses
+  const styleFeatures = visionFields?.style_tags?.length
+    ? visionFields.style_tags
+    : typeof styleData?.styleAnalysis === "string"
+      ? extractStyleFromGemini(styleData.styleAnalysis)
+      : styleData?.styleAnalysis?.style_tags || ["classic", "versatile"];
+
+  // The vision call's own confidence; without it, one based on how many
+  // analyses succeeded
   const successCount = [visionResult, styleResult, detailResult].filter(
     (r) => r.status === "fulfilled",
   ).length;
   const baseConfidence = (successCount / 3) * 0.6 + 0.3; // 0.3 to 0.9 range
   
-  // Extract color from item data or use neutral
-  const primaryColor = itemData.color || "neutral";
+  // Prefer the color seen in the image, then the item data, then neutral
+  const primaryColor = visionFields?.color || itemData.color || "neutral";
 
   return {
     category: category,
     style_tags: styleFeatures,
     color: primaryColor,
+    // Saved items have null in the columns that were left empty
+    sub_category: visionFields?.sub_category || itemData.sub_category || undefined,
+    pattern: visionFields?.pattern || itemData.pattern || undefined,
+    material: visionFields?.material || itemData.material || undefined,
+    formality_score:
+      visionFields?.formality_score ?? itemData.formality_score ?? undefined,
     versatility_score: calculateVersatility(category, [primaryColor]),
     styling_suggestions: generateStylingSuggestions(category, [primaryColor]),
     pairing_recommendations: getPairingItems(category, [primaryColor]),
-    occasion_suitability: getBestOccasions(category),
+    occasion_suitability: visionFields?.occasion_suitability?.length
+      ? visionFields.occasion_suitability
+      : getBestOccasions(category),
     care_instructions: getCareInstructions(category),
-    confidence: baseConfidence,
+    confidence: visionFields?.confidence ?? baseConfidence,
   };
 }
 
+// Read the structured item fields out of the vision response
+function parseVisionFields(analysis: string): any | null {
+  const validation = validateAIResponse(analysis, "item-analysis");
+  const fields = validation.success ? validation.data : validation.fallback;
+  return fields && !fields.rawResponse ? fields : null;
+}
+
+// Map a free-form category onto one of our category names
+function normalizeCategory(category: string): string {
+  const exact = DEFAULT_CATEGORIES.find(
+    (c) => c.name.toLowerCase() === category.trim().toLowerCase(),
+  );
+  return exact ? exact.name : extractCategoryFromGemini(category);
+}
+
 // Extract category from Gemini analysis
 function extractCategoryFromGemini(analysis: string): string {
   const analysisLower = analysis.toLowerCase();
@@ -219,30 +386,14 @@ function extractStyleFromGemini(analysis: string): string[] {
   return styleTags.length > 0 ? styleTags : ["versatile"];
 }
 
-// Generate fallback analysis
-function createFallbackAnalysis(itemData: any): any {
-  const category = itemData.category || "Other";
-  const color = itemData.color || "neutral";
-  
-  return {
-    category: category,
-    style_tags: ["classic", "versatile", "essential"],
-    color: color,
-    versatility_score: 7,
-    styling_suggestions: generateStylingSuggestions(category, [color]),
-    pairing_recommendations: getPairingItems(category, [color]),
-    occasion_suitability: getBestOccasions(category),
-    care_instructions: getCareInstructions(category),
-    confidence: 0.7,
-  };
-}
-
 // Create comprehensive analysis using Gemini AI
 async function createAnalysisWithGemini(
   itemData: any,
   userProfile: any = {},
   context: string = "",
-): Promise<any> {
+  repairs: RepairMetadata[] = [],
+  deadline?: number,
+): Promise<AnalysisOutcome> {
   try {
     // Build a comprehensive prompt for item analysis using the structured template
     const basePrompt = `Analyze this ${itemData.category} clothing item and provide detailed insights.
@@ -269,24 +420,35 @@ async function createAnalysisWithGemini(
       preferences: userProfile,
     }) + STRUCTURED_PROMPT_TEMPLATES.item_analysis;
 
-    const response = await generateWithGemini(analysisPrompt, {
-      temperature: 0.7,
-      maxOutputTokens: 1500,
-    });
+    const response = await withRawFallback(
+      getAIProvider().generateStructured(analysisPrompt, "item-analysis", {
+        temperature: 0.7,
+        maxOutputTokens: 1500,
+        deadline,
+        context: {
+          wardrobe: [itemData],
+          preferences: userProfile,
+        },
+      }),
+      repairs,
+    );
+    if (typeof response !== "string") {
+      return { analysis: response, degraded: false };
+    }
 
-    // Try to parse the Gemini response
+    // The response missed the schema; try to parse the raw text
     try {
-      return JSON.parse(response);
+      return { analysis: JSON.parse(response), degraded: false };
     } catch (parseError) {
       console.warn(
         "Failed to parse Gemini response, using fallback:",
         parseError,
       );
-      return createFallbackAnalysis(itemData);
+      return { analysis: createFallbackAnalysis(itemData), degraded: true };
     }
   } catch (error) {
     console.warn("Gemini analysis failed, using fallback:", error);
-    return createFallbackAnalysis(itemData);
+    return { analysis: createFallbackAnalysis(itemData), degraded: true };
   }
 }
 
@@ -387,53 +549,12 @@ function calculateVersatility(category: string, colors: string[]): number {
   return Math.min(10, score);
 }
 
-function generateStylingSuggestions(
-  category: string,
-  colors: string[],
-): string[] {
-  const base = [
-    "Layer with complementary pieces for depth",
-    "Accessorize to elevate the look",
-    "Mix textures for visual interest",
-    "Pair with neutral basics for versatility",
-  ];
-
-  if (category.includes("Top")) {
-    base.push("Tuck into high-waisted bottoms for a polished look");
-  }
-
-  return base.slice(0, 5);
-}
-
-function getBestOccasions(category: string): string[] {
-  const occasions = ["casual", "everyday"];
-
-  if (category.includes("Dress") || category.includes("formal")) {
-    occasions.push("formal events", "work");
-  }
-  if (category.includes("Top")) {
-    occasions.push("work", "weekend");
-  }
-
-  return occasions;
-}
-
 function getSeasonalUse(category: string): string[] {
   if (category.includes("Outerwear")) return ["fall", "winter"];
   if (category.includes("Dress")) return ["spring", "summer"];
   return ["year-round"];
 }
 
-function getPairingItems(category: string, colors: string[]): string[] {
-  if (category.includes("Top"))
-    return ["dark jeans", "dress pants", "midi skirt"];
-  if (category.includes("Bottom"))
-    return ["white shirt", "casual tee", "blazer"];
-  if (category.includes("Dress")) return ["cardigan", "denim jacket", "heels"];
-
-  return ["neutral basics", "complementary accessories"];
-}
-
 function getEssentialComplements(category: string): string[] {
   const base = ["white shirt", "dark jeans", "neutral cardigan"];
 
@@ -448,10 +569,6 @@ function getStylePersonalities(category: string): string[] {
   return ["classic", "versatile", "modern"];
 }
 
-function getCareInstructions(category: string): string {
-  return "Follow care label instructions for best results. Machine wash cold, gentle cycle recommended.";
-}
-
 function getMaintenanceTips(category: string): string[] {
   return [
     "Store on appropriate hangers",
@@ -478,43 +595,61 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
+  assignRequestId(req, res);
+
   if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
+    return sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
   }
 
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  const body = parseRequestBody(ItemAnalysisRequestSchema, req, res);
+  if (!body) return;
+
+  const deadline = Date.now() + AI_DEADLINE_MS;
+
   try {
     const {
+      item_id,
       item,
       image_url,
       imageUrl,
+      image_base64,
+      imageBase64,
+      mime_type,
       category,
       color,
       brand,
       style,
-      userProfile = {},
-      context = "",
-      detailed = false,
-      analysis_type = "general",
-    } = req.body;
-
-    if (!process.env.GEMINI_API_KEY) {
-      return res
-        .status(500)
-        .json({ error: "Gemini API key not configured" });
-    }
-
-    // Check rate limit
-    if (!checkRateLimit()) {
-      return res.status(429).json({
-        error: "Rate limit exceeded",
-        message:
-          "Please wait before making another request. Free tier: 25 requests/hour",
-      });
+      userProfile,
+      context,
+      detailed,
+      refresh,
+    } = body;
+
+    const provider = getAIProvider();
+    if (!provider.isConfigured()) {
+      return sendError(
+        res,
+        "AI_UNAVAILABLE",
+        `${provider.name} is not configured. ${provider.setupInstructions}`,
+      );
     }
 
-    // Handle both item object and individual parameters
+    // Saved items are read from the user's wardrobe; otherwise handle both an
+    // item object and individual parameters (e.g. a photo not yet saved)
     let itemData;
-    if (item && typeof item === "object") {
+    if (item_id) {
+      const savedItem = await loadUserItem(user, item_id);
+      if (!savedItem) {
+        return sendError(res, "NOT_FOUND", "Item not found");
+      }
+      itemData = {
+        ...savedItem,
+        category: savedItem.category?.name || "clothing item",
+      };
+    } else if (item && typeof item === "object") {
       itemData = item;
     } else {
       itemData = {
@@ -527,14 +662,81 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const finalImageUrl = itemData.image_url || image_url || imageUrl;
+    const finalImageBase64 = image_base64 || imageBase64;
+
+    // The same item, photo and options analyzed before are served from the
+    // cache, without touching the rate limit
+    const requestHash = fingerprint({
+      endpoint: "analyze-item",
+      provider: provider.name,
+      item: itemData,
+      image: finalImageBase64 ? fingerprint(finalImageBase64) : finalImageUrl,
+      userProfile,
+      context,
+      detailed,
+    });
+    if (!refresh) {
+      const cached = await getCachedResult<object>(user, requestHash);
+      if (cached) {
+        return res.status(200).json({
+          ...cached.result,
+          ...cacheInfo(cached.createdAt, true),
+        });
+      }
+    }
+
+    // Check rate limit
+    if (!(await checkRateLimit(req, res, RATE_LIMIT, { userId: user.id }))) {
+      return sendError(
+        res,
+        "RATE_LIMITED",
+        "Rate limit exceeded. Please wait before making another request. Free tier: 25 requests/hour",
+      );
+    }
 
-    // If there's an image URL, use Gemini analysis with structured validation
-    if (finalImageUrl) {
+    // Send an analysis with its freshness, caching it only when every AI
+    // call behind it succeeded so a degraded result isn't served for a week
+    const sendAndCache = async (result: object, complete: boolean) => {
+      if (!complete) return res.status(200).json(result);
+
+      const analyzedAt = await setCachedResult(user, {
+        endpoint: "analyze-item",
+        requestHash,
+        requestData: {
+          item_id,
+          has_image: !!(finalImageUrl || finalImageBase64),
+        },
+        result,
+      });
+      return res.status(200).json({
+        ...result,
+        ...cacheInfo(analyzedAt, false),
+      });
+    };
+
+    // If there's an image the provider can look at, use Gemini analysis with
+    // structured validation
+    if ((finalImageUrl || finalImageBase64) && provider.readsImages) {
       try {
-        const rawAnalysis = await analyzeClothingWithGemini(
-          finalImageUrl,
-          itemData,
-        );
+        let image: GeminiImageInput | null = null;
+        try {
+          image = await loadImageInput(
+            finalImageUrl,
+            finalImageBase64,
+            mime_type,
+          );
+        } catch (loadError) {
+          console.warn("Could not load image for vision analysis:", loadError);
+        }
+
+        const repairs: RepairMetadata[] = [];
+        const { analysis: rawAnalysis, degraded, imageAnalyzed } =
+          await analyzeClothingWithGemini(
+            image,
+            itemData,
+            repairs,
+            deadline,
+          );
 
         // Validate the analysis using structured schemas
         const validation = validateAIResponse(
@@ -546,17 +748,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           ? validation.data
           : validation.fallback;
 
-        return res.status(200).json({
-          analysis,
-          image_url: finalImageUrl,
-          metadata: {
-            analysis_type: detailed ? "detailed" : "standard",
-            has_image: true,
-            aiProvider: "Gemini AI",
-            timestamp: new Date().toISOString(),
-            validated: validation.success,
+        return await sendAndCache(
+          {
+            analysis,
+            image_url: finalImageUrl,
+            metadata: {
+              analysis_type: detailed ? "detailed" : "standard",
+              has_image: true,
+              image_analyzed: imageAnalyzed,
+              aiProvider: provider.name,
+              timestamp: new Date().toISOString(),
+              validated: validation.success,
+              ...mergeRepairMetadata(repairs),
+            },
           },
-        });
+          imageAnalyzed && !degraded && validation.success,
+        );
       } catch (imageError) {
         console.warn(
           "Image analysis failed, falling back to text-only:",
@@ -568,11 +775,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // Fallback: Use Gemini for text-based analysis
     try {
-      const rawAnalysis = await createAnalysisWithGemini(
-        itemData,
-        userProfile,
-        context,
-      );
+      const repairs: RepairMetadata[] = [];
+      const { analysis: rawAnalysis, degraded } =
+        await createAnalysisWithGemini(
+          itemData,
+          userProfile,
+          context,
+          repairs,
+          deadline,
+        );
 
       // Validate the Gemini analysis
       const validation = validateAIResponse(
@@ -583,17 +794,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         ? validation.data
         : validation.fallback;
 
-      res.status(200).json({
-        analysis,
-        metadata: {
-          analysis_type: "text-based",
-          has_image: false,
-          aiProvider: "Gemini AI",
-          timestamp: new Date().toISOString(),
-          has_user_context: Object.keys(userProfile).length > 0,
-          validated: validation.success,
+      return await sendAndCache(
+        {
+          analysis,
+          metadata: {
+            analysis_type: "text-based",
+            has_image: false,
+            aiProvider: provider.name,
+            timestamp: new Date().toISOString(),
+            has_user_context: Object.keys(userProfile).length > 0,
+            validated: validation.success,
+            ...mergeRepairMetadata(repairs),
+          },
         },
-      });
+        !degraded && validation.success,
+      );
     } catch (geminiError) {
       console.warn(
         "Gemini text analysis failed, using basic fallback:",
@@ -627,12 +842,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
   } catch (error: any) {
-    console.error("Item analysis error:", error);
-    res.status(500).json({
-      error: "Failed to analyze item",
-      message:
-        "Our AI stylist is temporarily unavailable. Please try again in a few moments.",
-      aiProvider: "Gemini AI",
-    });
+    return sendInternalError(res, error, "Item analysis error");
   }
 }
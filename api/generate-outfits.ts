@@ -2,30 +2,42 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
 import dotenv from "dotenv";
 dotenv.config();
 
-import {
-  generateWithGemini,
-  buildOutfitGenerationPrompt,
-  isGeminiConfigured,
-} from "../shared/gemini.js";
+import { buildOutfitGenerationPrompt } from "../shared/gemini.js";
+import { getAIProvider } from "../shared/ai-provider.js";
+import type { AIProvider } from "../shared/ai-provider.js";
 import {
   validateAIResponse,
   STRUCTURED_PROMPT_TEMPLATES,
+  AIResponseValidationError,
+  toRepairMetadata,
+  OutfitRequestSchema,
+  parseRequestBody,
 } from "../shared/response-schemas.js";
-
-interface OutfitRequest {
-  items: any[];
-  preferences: {
-    occasion?: string;
-    weather?: string;
-    style?: string;
-    colors?: string[];
-  };
-  userProfile?: {
-    style_inspiration?: string;
-    lifestyle?: string;
-  };
-  maxOutfits?: number;
-}
+import type {
+  OutfitRequest,
+  RepairMetadata,
+} from "../shared/response-schemas.js";
+import {
+  canBuildOutfit,
+  categorizeWardrobe,
+  countSharedItems,
+  createRng,
+  generateColorAnalysis,
+  generateSmartOutfits,
+  generateStylingTips,
+  MAX_SHARED_ITEMS,
+  selectDiverseOutfits,
+} from "../shared/outfit-solver.js";
+import { createJsonObjectScanner } from "../shared/json-stream.js";
+import { checkRateLimit, HOUR_MS } from "../shared/rate-limit.js";
+import { requireUser } from "../shared/auth.js";
+import { loadUserWardrobe } from "../shared/wardrobe-data.js";
+import {
+  assignRequestId,
+  sendError,
+  sendInternalError,
+  toInternalErrorBody,
+} from "../shared/api-errors.js";
 
 interface OutfitResponse {
   success: boolean;
@@ -43,109 +55,173 @@ interface OutfitResponse {
     trend_insights?: string;
   }[];
   error?: string;
-  rate_limited?: boolean;
   note?: string;
+  metadata?: RepairMetadata;
 }
 
-// Enhanced rate limiting
-let requestCount = 0;
-let lastReset = Date.now();
-
-const checkRateLimit = (): boolean => {
-  const now = Date.now();
-  const hoursPassed = (now - lastReset) / (1000 * 60 * 60);
+// Upper bound on maxOutfits, keeps prompts and solver output manageable
+const MAX_OUTFITS_PER_REQUEST = 5;
 
-  if (hoursPassed >= 1) {
-    requestCount = 0;
-    lastReset = now;
-  }
+// Structured calls skip repairs that would run past this, so the solver's
+// fallback still goes out within vercel.json's 30s maxDuration
+const AI_DEADLINE_MS = 25000;
 
-  if (requestCount >= 60) {
-    // Optimized limit for better performance
-    return false;
-  }
+// Notes explaining why outfits came from the local solver
+const setupNote = (provider: AIProvider) =>
+  `Using smart recommendations - ${provider.name} is not configured. ${provider.setupInstructions}`;
+const FALLBACK_NOTE =
+  "Using smart recommendations due to AI service unavailability";
 
-  requestCount++;
-  return true;
+// Token buckets per user and per IP
+const RATE_LIMIT = {
+  name: "generate-outfits",
+  limit: 60,
+  windowMs: HOUR_MS,
 };
+const RATE_LIMIT_MESSAGE =
+  "Rate limit exceeded. Please wait before generating more outfits.";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
+  assignRequestId(req, res);
+
   // Only allow POST requests
   if (req.method !== "POST") {
-    return res.status(405).json({
-      success: false,
-      error: "Method not allowed. Use POST.",
-    });
+    return sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use POST.");
   }
 
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  const body = parseRequestBody(OutfitRequestSchema, req, res);
+  if (!body) return;
+
   const startTime = Date.now();
 
   try {
-    const requestData: OutfitRequest = req.body;
-    const {
-      items = [],
-      preferences = {},
-      userProfile = {},
-      maxOutfits = 1,
-    } = requestData;
+    const { preferences, maxOutfits, exclude_items, seed } = body;
 
     // Validate input early
-    if (!items || !Array.isArray(items) || items.length < 3) {
-      return res.status(400).json({
-        success: false,
-        error: "At least 3 clothing items are required to generate outfits",
+    const items = await loadUserWardrobe(user);
+    if (items.length < 3) {
+      return sendError(
+        res,
+        "WARDROBE_TOO_SMALL",
+        "At least 3 clothing items are required to generate outfits",
+      );
+    }
+    if (!canBuildOutfit(items)) {
+      return sendError(
+        res,
+        "WARDROBE_TOO_SMALL",
+        "Add at least one top and one bottom, or a dress, to generate outfits",
+      );
+    }
+
+    const outfitCount = Math.min(maxOutfits, MAX_OUTFITS_PER_REQUEST);
+
+    // Leave out recently worn items when enough of the wardrobe remains
+    const { available, note: exclusionNote } = excludeItems(
+      items,
+      exclude_items,
+    );
+
+    // Streaming clients get each outfit as a Server-Sent Event
+    if (String(req.headers.accept || "").includes("text/event-stream")) {
+      return await streamOutfits(req, res, {
+        userId: user.id,
+        items: available,
+        occasion: preferences.occasion || "casual",
+        weather: preferences.weather || "mild",
+        style: preferences.style || "comfortable",
+        count: outfitCount,
+        seed,
+        note: exclusionNote,
       });
     }
 
     // Check API key
-    if (!isGeminiConfigured()) {
-      console.log("Gemini not configured, using smart fallback");
+    const provider = getAIProvider();
+    if (!provider.isConfigured()) {
+      console.log(`${provider.name} not configured, using smart fallback`);
 
       return res.status(200).json({
         success: true,
         outfits: generateSmartOutfits(
-          items,
+          available,
           preferences.occasion || "casual",
           preferences.weather || "mild",
           preferences.style || "comfortable",
+          { count: outfitCount, seed },
+        ),
+        note: joinNotes(
+          setupNote(provider),
+          exclusionNote,
         ),
-        note: "Using smart recommendations - Please add your GEMINI_API_KEY to .env file for AI-powered suggestions. Get your key from: https://aistudio.google.com/app/apikey",
       });
     }
 
     // Check rate limit
-    if (!checkRateLimit()) {
-      return res.status(429).json({
-        success: false,
-        error:
-          "Rate limit exceeded. Please wait before generating more outfits.",
-        rate_limited: true,
-      });
+    if (!(await checkRateLimit(req, res, RATE_LIMIT, { userId: user.id }))) {
+      return sendError(res, "RATE_LIMITED", RATE_LIMIT_MESSAGE);
     }
 
-    // Generate outfits using Gemini AI
+    // Generate outfits with the configured AI provider
     try {
       const prompt = buildOutfitGenerationPrompt(
-        items,
+        available,
         preferences.occasion || "casual",
         preferences.weather || "mild",
-        preferences.style || "comfortable"
+        preferences.style || "comfortable",
+        outfitCount,
       );
       
-      const aiResponse = await generateWithGemini(prompt);
-      
-      // Debug: Log the raw Gemini response
-      // Log raw response for debugging if needed
-    // console.log('=== RAW GEMINI RESPONSE ===', aiResponse);
-      
-      // Parse and validate AI response
-      const outfits = parseGeminiOutfitResponse(
-        aiResponse,
-        items,
-        preferences.occasion || "casual",
-        preferences.weather || "mild",
-        preferences.style || "comfortable"
-      );
+      // The provider returns JSON validated against the outfit-list schema
+      let outfits: any[];
+      let metadata: RepairMetadata;
+      try {
+        const aiResponse = await provider.generateStructured(
+          prompt,
+          "outfit-list",
+          {
+            deadline: startTime + AI_DEADLINE_MS,
+            context: {
+              wardrobe: available,
+              occasion: preferences.occasion || "casual",
+              weather: preferences.weather || "mild",
+              style: preferences.style || "comfortable",
+              count: outfitCount,
+            },
+          },
+        );
+        metadata = toRepairMetadata(aiResponse);
+        outfits = selectGeminiOutfits(
+          aiResponse.data,
+          available,
+          preferences.occasion || "casual",
+          preferences.weather || "mild",
+          preferences.style || "comfortable",
+          { count: outfitCount, seed },
+        );
+      } catch (structuredError) {
+        if (!(structuredError instanceof AIResponseValidationError)) {
+          throw structuredError;
+        }
+
+        // Repairs ran out; salvage what we can from the raw text the old way
+        metadata = toRepairMetadata(structuredError);
+        console.warn(
+          "Structured outfit response failed validation:",
+          structuredError.message,
+        );
+        outfits = parseGeminiOutfitResponse(
+          structuredError.rawResponse,
+          available,
+          preferences.occasion || "casual",
+          preferences.weather || "mild",
+          preferences.style || "comfortable",
+          { count: outfitCount, seed },
+        );
+      }
       
       const endTime = Date.now();
       console.log(`Outfit generation completed in ${endTime - startTime}ms`);
@@ -153,16 +229,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(200).json({
         success: true,
         outfits,
+        note: joinNotes(exclusionNote),
+        metadata,
       });
     } catch (geminiError) {
       console.warn("Gemini failed, using smart fallback:", geminiError);
       
       // Fallback to smart recommendations
       const outfits = generateSmartOutfits(
-        items,
+        available,
         preferences.occasion || "casual",
         preferences.weather || "mild",
         preferences.style || "comfortable",
+        { count: outfitCount, seed },
       );
       
       const endTime = Date.now();
@@ -171,30 +250,192 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(200).json({
         success: true,
         outfits,
-        note: "Using smart recommendations due to AI service unavailability",
+        note: joinNotes(
+          FALLBACK_NOTE,
+          exclusionNote,
+        ),
       });
     }
   } catch (error) {
     const endTime = Date.now();
-    console.error(
-      `Outfit generation failed in ${endTime - startTime}ms:`,
+    return sendInternalError(
+      res,
       error,
+      `Outfit generation failed in ${endTime - startTime}ms`,
     );
+  }
+}
 
-    return res.status(500).json({
-      success: false,
-      error: `Internal server error: ${error.message}`,
+// Stream outfits as Server-Sent Events: an "outfit" event as soon as each
+// outfit's JSON is complete in Gemini's output, then "done" with any note.
+// Outfits Gemini doesn't supply are topped up from the local solver.
+async function streamOutfits(
+  req: VercelRequest,
+  res: VercelResponse,
+  {
+    userId,
+    items,
+    occasion,
+    weather,
+    style,
+    count,
+    seed,
+    note,
+  }: {
+    userId: string;
+    items: any[];
+    occasion: string;
+    weather: string;
+    style: string;
+    count: number;
+    seed: number;
+    note?: string;
+  },
+) {
+  const provider = getAIProvider();
+  const useAI = provider.isConfigured();
+  if (useAI && !(await checkRateLimit(req, res, RATE_LIMIT, { userId }))) {
+    return sendError(res, "RATE_LIMITED", RATE_LIMIT_MESSAGE);
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  });
+
+  // Stop reading from the provider once the client goes away. The request's
+  // "close" fires as soon as its body has been read, so watch the response:
+  // it only closes before the end when the connection drops.
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  // Nothing is written once the client has gone
+  const emit = (event: string, data: unknown) => {
+    if (!controller.signal.aborted) sendEvent(res, event, data);
+  };
+
+  // Gaps in Gemini's picks are filled from the same seed as the solver's
+  const rng = createRng(seed);
+  const sent: any[] = [];
+  const send = (outfit: any) => {
+    if (sent.length >= count || controller.signal.aborted) return;
+    if (
+      sent.some((other) => countSharedItems(other, outfit) > MAX_SHARED_ITEMS)
+    ) {
+      return;
+    }
+    sent.push(outfit);
+    emit("outfit", outfit);
+  };
+
+  try {
+    let fallbackNote = useAI ? undefined : setupNote(provider);
+
+    if (useAI) {
+      try {
+        const scanner = createJsonObjectScanner();
+        const prompt = buildOutfitGenerationPrompt(
+          items,
+          occasion,
+          weather,
+          style,
+          count,
+        );
+
+        for await (const chunk of provider.stream(prompt, {
+          signal: controller.signal,
+          responseType: "outfit-list",
+          context: { wardrobe: items, occasion, weather, style, count },
+        })) {
+          scanner.push(chunk).forEach((parsed) => {
+            // Skip the {"outfits": [...]} wrapper and stray objects
+            if (!Array.isArray(parsed.items)) return;
+            const outfit = buildGeminiOutfit(
+              parsed,
+              sent.length,
+              items,
+              occasion,
+              weather,
+              style,
+              rng,
+            );
+            if (outfit) send(outfit);
+          });
+          if (sent.length >= count || controller.signal.aborted) break;
+        }
+      } catch (geminiError) {
+        if (controller.signal.aborted) return;
+        console.warn(
+          "Gemini stream failed, using smart fallback:",
+          geminiError,
+        );
+        fallbackNote = FALLBACK_NOTE;
+      }
+    }
+
+    if (controller.signal.aborted) return;
+
+    generateSmartOutfits(items, occasion, weather, style, {
+      count,
+      seed,
+    }).forEach(send);
+
+    emit("done", {
+      count: sent.length,
+      note: joinNotes(fallbackNote, note),
     });
+  } catch (error) {
+    emit("error", toInternalErrorBody(res, error, "Outfit streaming failed"));
+  } finally {
+    res.end();
+  }
+}
+
+// Write one Server-Sent Event
+function sendEvent(res: VercelResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Drop excluded (e.g. recently worn) items, keeping enough to build an outfit
+function excludeItems(
+  items: any[],
+  excludeIds: string[],
+): { available: any[]; note?: string } {
+  if (!Array.isArray(excludeIds) || excludeIds.length === 0) {
+    return { available: items };
   }
+
+  const excluded = new Set(excludeIds);
+  const available = items.filter((item) => !excluded.has(item.id));
+
+  if (available.length < 3 || !canBuildOutfit(available)) {
+    return {
+      available: items,
+      note: "Not enough items left after skipping recently worn pieces, so your whole wardrobe was used",
+    };
+  }
+
+  return { available };
+}
+
+// Combine optional response notes into a single message
+function joinNotes(...notes: (string | undefined)[]): string | undefined {
+  const present = notes.filter(Boolean);
+  return present.length > 0 ? present.join(". ") : undefined;
 }
 
-// Parse Gemini's JSON response with enhanced ITEM_ID matching
+// Parse Gemini's free-text JSON response with enhanced ITEM_ID matching;
+// the compatibility path for responses that miss the structured schema
 function parseGeminiOutfitResponse(
   aiResponse: string,
   items: any[],
   occasion: string,
   weather: string,
   style: string,
+  { count = 1, seed = 0 }: { count?: number; seed?: number } = {},
 ) {
   try {
     // Try to extract JSON from the response with more flexible pattern
@@ -216,68 +457,140 @@ function parseGeminiOutfitResponse(
 
     const parsedResponse = JSON.parse(jsonMatch[0]);
 
-    // Enhanced item matching using ITEM_ID system
-    // Extract item IDs from the response (handle both string arrays and object arrays)
-    const itemIds = (parsedResponse.items || []).map((item: any) => {
-      if (typeof item === 'string') {
-        return item;
-      }
-      // If it's an object, try to extract the ID or convert to string
-      return item.id || item.item_id || JSON.stringify(item);
-    }).filter(id => typeof id === 'string'); // Ensure all IDs are strings
-    
-    // Debug: console.log('Extracted item IDs:', itemIds);
-    const matchedItems = matchItemsByID(itemIds, items);
-
-    // Validate we have a reasonable outfit
-    if (matchedItems.length < 2) {
-      console.log("Insufficient items matched, using smart fallback");
-      return generateSmartOutfits(items, occasion, weather, style);
-    }
-
-    const outfit = {
-      id: `outfit-${Date.now()}`,
-      name:
-        parsedResponse.name ||
-        generateOutfitName(occasion, style, matchedItems),
-      description:
-        parsedResponse.description ||
-        generateOutfitDescription(matchedItems, occasion, weather, style),
-      items: matchedItems,
-      occasion,
-      weather,
-      confidence: Math.min(
-        Math.max(parsedResponse.confidence || 0.85, 0.5),
-        1.0,
-      ),
-      reasoning:
-        parsedResponse.reasoning ||
-        generateOutfitReasoning(matchedItems, occasion, style),
-      styling_tips: Array.isArray(parsedResponse.styling_tips)
-        ? parsedResponse.styling_tips.slice(0, 4)
-        : generateStylingTips(matchedItems, occasion, weather),
-      color_analysis:
-        parsedResponse.color_analysis || generateColorAnalysis(matchedItems),
-      trend_insights: `This ${style} aesthetic leverages your existing wardrobe pieces perfectly for ${occasion} occasions in ${weather} weather. The combination showcases excellent style coordination.`,
-      style_match_score:
-        parsedResponse.style_match_score ||
-        calculateStyleMatchScore(matchedItems, style),
-    };
-
-    return [outfit];
+    return selectGeminiOutfits(parsedResponse, items, occasion, weather, style, {
+      count,
+      seed,
+    });
   } catch (error) {
     console.warn(
       "Failed to parse Gemini response, using smart fallback:",
       error,
     );
-    return generateSmartOutfits(items, occasion, weather, style);
+    return generateSmartOutfits(items, occasion, weather, style, {
+      count,
+      seed,
+    });
   }
 }
 
+// Build response outfits from Gemini's parsed JSON, dropping near-duplicates
+// and topping up from the solver when Gemini fell short
+function selectGeminiOutfits(
+  parsedResponse: any,
+  items: any[],
+  occasion: string,
+  weather: string,
+  style: string,
+  { count = 1, seed = 0 }: { count?: number; seed?: number } = {},
+) {
+  // Several outfits arrive in an "outfits" array, a single one bare
+  const parsedOutfits: any[] = Array.isArray(parsedResponse.outfits)
+    ? parsedResponse.outfits
+    : [parsedResponse];
+
+  const rng = createRng(seed);
+  const outfits = parsedOutfits
+    .map((parsedOutfit, index) =>
+      buildGeminiOutfit(
+        parsedOutfit,
+        index,
+        items,
+        occasion,
+        weather,
+        style,
+        rng,
+      ),
+    )
+    .filter(Boolean);
+
+  // Validate we have a reasonable outfit
+  if (outfits.length === 0) {
+    console.log("Insufficient items matched, using smart fallback");
+    return generateSmartOutfits(items, occasion, weather, style, {
+      count,
+      seed,
+    });
+  }
+
+  const diverse = selectDiverseOutfits(outfits, count);
+  if (diverse.length >= count) return diverse;
+
+  return selectDiverseOutfits(
+    [
+      ...diverse,
+      ...generateSmartOutfits(items, occasion, weather, style, {
+        count,
+        seed,
+      }),
+    ],
+    count,
+  );
+}
+
+// Turn one outfit from Gemini's JSON into a response outfit, or null when
+// too few of its items match the wardrobe. `rng` makes the picks that fill
+// gaps repeatable for a seed.
+function buildGeminiOutfit(
+  parsedOutfit: any,
+  index: number,
+  items: any[],
+  occasion: string,
+  weather: string,
+  style: string,
+  rng: () => number,
+) {
+  // Enhanced item matching using ITEM_ID system
+  // Extract item IDs from the response (handle both string arrays and object arrays)
+  const itemIds = (parsedOutfit.items || []).map((item: any) => {
+    if (typeof item === 'string') {
+      return item;
+    }
+    // If it's an object, try to extract the ID or convert to string
+    return item.id || item.item_id || JSON.stringify(item);
+  }).filter(id => typeof id === 'string'); // Ensure all IDs are strings
+  
+  // Debug: console.log('Extracted item IDs:', itemIds);
+  const matchedItems = matchItemsByID(itemIds, items, rng);
+
+  if (matchedItems.length < 2) {
+    return null;
+  }
+
+  return {
+    id: `outfit-${Date.now()}-${index}`,
+    name:
+      parsedOutfit.name ||
+      generateOutfitName(occasion, style, matchedItems, rng),
+    description:
+      parsedOutfit.description ||
+      generateOutfitDescription(matchedItems, occasion, weather, style),
+    items: matchedItems,
+    occasion,
+    weather,
+    confidence: Math.min(
+      Math.max(parsedOutfit.confidence || 0.85, 0.5),
+      1.0,
+    ),
+    reasoning:
+      parsedOutfit.reasoning ||
+      generateOutfitReasoning(matchedItems, occasion, style),
+    styling_tips: Array.isArray(parsedOutfit.styling_tips)
+      ? parsedOutfit.styling_tips.slice(0, 4)
+      : generateStylingTips(matchedItems, occasion, weather),
+    color_analysis:
+      parsedOutfit.color_analysis || generateColorAnalysis(matchedItems),
+    trend_insights: `This ${style} aesthetic leverages your existing wardrobe pieces perfectly for ${occasion} occasions in ${weather} weather. The combination showcases excellent style coordination.`,
+    style_match_score:
+      parsedOutfit.style_match_score ||
+      calculateStyleMatchScore(matchedItems, style),
+  };
+}
+
 // Enhanced item matching using ITEM_ID system
 function matchItemsByID(
   suggestedItemIds: string[],
   wardrobeItems: any[],
+  rng: () => number,
 ): any[] {
   const matchedItems: any[] = [];
 
@@ -297,12 +610,12 @@ function matchItemsByID(
 
   // If AI didn't use proper ITEM_IDs, fall back to smart matching
   if (matchedItems.length === 0 && suggestedItemIds.length > 0) {
-    return matchItemsFromWardrobe(suggestedItemIds, wardrobeItems);
+    return matchItemsFromWardrobe(suggestedItemIds, wardrobeItems, rng);
   }
 
   // Ensure we have a minimum viable outfit
   if (matchedItems.length < 2) {
-    return selectBalancedOutfit(wardrobeItems, matchedItems);
+    return selectBalancedOutfit(wardrobeItems, matchedItems, rng);
   }
 
   return matchedItems.slice(0, 4); // Limit to 4 items max
@@ -312,6 +625,7 @@ function matchItemsByID(
 function selectBalancedOutfit(
   wardrobeItems: any[],
   existingItems: any[],
+  rng: () => number,
 ): any[] {
   const usedIds = new Set(existingItems.map((item) => item.id));
   const categories = categorizeWardrobe(wardrobeItems);
@@ -329,7 +643,7 @@ function selectBalancedOutfit(
     if (availableInCategory && availableInCategory.length > 0) {
       const randomItem =
         availableInCategory[
-          Math.floor(Math.random() * availableInCategory.length)
+          Math.floor(rng() * availableInCategory.length)
         ];
       selectedItems.push(randomItem);
       usedIds.add(randomItem.id);
@@ -344,6 +658,7 @@ function generateOutfitName(
   occasion: string,
   style: string,
   items: any[],
+  rng: () => number,
 ): string {
   const hasFormaljwelry = items.some((item) => {
     const category =
@@ -362,7 +677,7 @@ function generateOutfitName(
   };
 
   const occasionAdj = adjectives[occasion.toLowerCase()] || adjectives.casual;
-  const randomAdj = occasionAdj[Math.floor(Math.random() * occasionAdj.length)];
+  const randomAdj = occasionAdj[Math.floor(rng() * occasionAdj.length)];
 
   return `${randomAdj} ${occasion.charAt(0).toUpperCase() + occasion.slice(1)} ${style.charAt(0).toUpperCase() + style.slice(1)} Look`;
 }
@@ -425,6 +740,7 @@ function calculateStyleMatchScore(items: any[], targetStyle: string): number {
 function matchItemsFromWardrobe(
   suggestedItems: string[],
   wardrobeItems: any[],
+  rng: () => number,
 ): any[] {
   const matchedItems: any[] = [];
 
@@ -457,7 +773,7 @@ function matchItemsFromWardrobe(
 
   while (matchedItems.length < Math.min(4, wardrobeItems.length)) {
     const randomItem =
-      remainingItems[Math.floor(Math.random() * remainingItems.length)];
+      remainingItems[Math.floor(rng() * remainingItems.length)];
     if (randomItem && !usedIds.has(randomItem.id)) {
       matchedItems.push(randomItem);
       usedIds.add(randomItem.id);
@@ -470,229 +786,6 @@ function matchItemsFromWardrobe(
   return matchedItems.slice(0, 4); // Limit to 4 items max
 }
 
-// Smart outfit generation with actual wardrobe items
-function generateSmartOutfits(
-  items: any[],
-  occasion: string,
-  weather: string,
-  style: string,
-): any[] {
-  // Categorize available items
-  const categorizedItems = categorizeWardrobe(items);
-
-  // Select items for the outfit based on occasion and style
-  const selectedItems = selectItemsForOccasion(
-    categorizedItems,
-    occasion,
-    weather,
-    style,
-  );
-
-  const outfit = {
-    id: `smart-outfit-${Date.now()}`,
-    name: `${style.charAt(0).toUpperCase() + style.slice(1)} ${occasion.charAt(0).toUpperCase() + occasion.slice(1)} Look`,
-    description: `A carefully curated ${style} outfit perfect for ${occasion} occasions in ${weather} weather. This combination uses your existing wardrobe pieces to create a cohesive, stylish look.`,
-    items: selectedItems,
-    occasion,
-    weather,
-    confidence: 0.8 + Math.random() * 0.15, // 0.80-0.95
-    reasoning: `This outfit combines ${selectedItems
-      .map((item) => {
-        const category =
-          typeof item.category === "string"
-            ? item.category
-            : item.category?.name || "piece";
-        return `your ${item.color || ""} ${category}`.trim();
-      })
-      .join(
-        ", ",
-      )} to create a balanced look that's appropriate for ${occasion} while maintaining your ${style} aesthetic.`,
-    styling_tips: generateStylingTips(selectedItems, occasion, weather),
-    color_analysis: generateColorAnalysis(selectedItems),
-    trend_insights: `The ${style} aesthetic is trending and works perfectly for ${occasion} settings. The color combination you have creates visual harmony while remaining versatile.`,
-  };
-
-  return [outfit];
-}
-
-// Categorize wardrobe items
-function categorizeWardrobe(items: any[]) {
-  const categories = {
-    tops: [] as any[],
-    bottoms: [] as any[],
-    outerwear: [] as any[],
-    shoes: [] as any[],
-    dresses: [] as any[],
-    accessories: [] as any[],
-    activewear: [] as any[],
-    other: [] as any[],
-  };
-
-  items.forEach((item) => {
-    const category =
-      typeof item.category === "string"
-        ? item.category.toLowerCase()
-        : item.category?.name?.toLowerCase() || "other";
-
-    if (
-      category.includes("top") ||
-      category.includes("shirt") ||
-      category.includes("blouse") ||
-      category.includes("sweater")
-    ) {
-      categories.tops.push(item);
-    } else if (
-      category.includes("bottom") ||
-      category.includes("pant") ||
-      category.includes("jean") ||
-      category.includes("short") ||
-      category.includes("skirt")
-    ) {
-      categories.bottoms.push(item);
-    } else if (
-      category.includes("outerwear") ||
-      category.includes("jacket") ||
-      category.includes("coat") ||
-      category.includes("blazer")
-    ) {
-      categories.outerwear.push(item);
-    } else if (
-      category.includes("shoe") ||
-      category.includes("boot") ||
-      category.includes("sandal") ||
-      category.includes("sneaker")
-    ) {
-      categories.shoes.push(item);
-    } else if (category.includes("dress")) {
-      categories.dresses.push(item);
-    } else if (category.includes("accessor")) {
-      categories.accessories.push(item);
-    } else if (category.includes("active") || category.includes("sport")) {
-      categories.activewear.push(item);
-    } else {
-      categories.other.push(item);
-    }
-  });
-
-  return categories;
-}
-
-// Select items for specific occasion
-function selectItemsForOccasion(
-  categorizedItems: any,
-  occasion: string,
-  weather: string,
-  style: string,
-): any[] {
-  const selectedItems: any[] = [];
-
-  // Decide outfit structure based on occasion
-  const usesDress =
-    occasion.includes("formal") ||
-    occasion.includes("date") ||
-    occasion.includes("party");
-
-  if (usesDress && categorizedItems.dresses.length > 0) {
-    // Dress-based outfit
-    selectedItems.push(getRandomItem(categorizedItems.dresses));
-    if (categorizedItems.shoes.length > 0) {
-      selectedItems.push(getRandomItem(categorizedItems.shoes));
-    }
-    if (
-      (weather.includes("cold") || occasion.includes("formal")) &&
-      categorizedItems.outerwear.length > 0
-    ) {
-      selectedItems.push(getRandomItem(categorizedItems.outerwear));
-    }
-  } else {
-    // Separates-based outfit
-    if (categorizedItems.tops.length > 0) {
-      selectedItems.push(getRandomItem(categorizedItems.tops));
-    }
-    if (categorizedItems.bottoms.length > 0) {
-      selectedItems.push(getRandomItem(categorizedItems.bottoms));
-    }
-    if (categorizedItems.shoes.length > 0) {
-      selectedItems.push(getRandomItem(categorizedItems.shoes));
-    }
-    if (
-      (weather.includes("cold") ||
-        occasion.includes("business") ||
-        occasion.includes("formal")) &&
-      categorizedItems.outerwear.length > 0
-    ) {
-      selectedItems.push(getRandomItem(categorizedItems.outerwear));
-    }
-  }
-
-  // Add accessories if available and appropriate
-  if (categorizedItems.accessories.length > 0 && selectedItems.length < 4) {
-    selectedItems.push(getRandomItem(categorizedItems.accessories));
-  }
-
-  return selectedItems.filter(Boolean); // Remove any null/undefined items
-}
-
-// Get random item from array
-function getRandomItem(items: any[]): any {
-  if (items.length === 0) return null;
-  return items[Math.floor(Math.random() * items.length)];
-}
-
-// Generate styling tips based on selected items
-function generateStylingTips(
-  items: any[],
-  occasion: string,
-  weather: string,
-): string[] {
-  const tips = [
-    "Ensure all pieces fit well for the most polished look",
-    "Pay attention to proportions when layering pieces",
-  ];
-
-  // Add occasion-specific tips
-  if (occasion.includes("formal") || occasion.includes("business")) {
-    tips.push(
-      "Keep accessories minimal and elegant for a professional appearance",
-    );
-    tips.push("Make sure shoes are clean and in good condition");
-  } else if (occasion.includes("casual")) {
-    tips.push("Feel free to mix textures for added visual interest");
-    tips.push(
-      "Roll up sleeves or add casual accessories to personalize the look",
-    );
-  }
-
-  // Add weather-specific tips
-  if (weather.includes("cold")) {
-    tips.push("Layer thoughtfully to stay warm while maintaining style");
-  } else if (weather.includes("hot")) {
-    tips.push("Choose breathable fabrics and lighter colors");
-  }
-
-  return tips.slice(0, 4);
-}
-
-// Generate color analysis for selected items
-function generateColorAnalysis(items: any[]): string {
-  const colors = items.map((item) => item.color).filter(Boolean);
-
-  if (colors.length === 0) {
-    return "The neutral tones in this outfit create a timeless, versatile look.";
-  }
-
-  const neutrals = ["black", "white", "gray", "grey", "navy", "beige", "brown"];
-  const neutralCount = colors.filter((color) =>
-    neutrals.some((n) => color.toLowerCase().includes(n)),
-  ).length;
-
-  if (neutralCount >= colors.length * 0.7) {
-    return `The predominantly neutral palette (${colors.join(", ")}) creates a sophisticated, easy-to-wear combination that's perfect for multiple occasions.`;
-  } else {
-    return `The color combination of ${colors.join(", ")} creates visual interest while remaining balanced and coordinated.`;
-  }
-}
-
 // Fallback outfits when everything fails
 function generateFallbackOutfits(request: OutfitRequest): any[] {
   const { preferences = {} } = request;
@@ -1,4 +1,6 @@
 import { VercelRequest, VercelResponse } from "@vercel/node";
+import { getAIProvider } from "../shared/ai-provider.js";
+import { sendError } from "../shared/api-errors.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Set CORS headers
@@ -29,6 +31,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         environment: process.env.NODE_ENV || "development",
         version: "1.0.0",
         services: {
+          ai_provider: {
+            name: getAIProvider().name,
+            configured: getAIProvider().isConfigured(),
+          },
           gemini: {
             configured: !!process.env.GEMINI_API_KEY,
             keyLength: process.env.GEMINI_API_KEY?.length || 0,
@@ -59,7 +65,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       message: "FitMatch API is running on Vercel with Gemini AI",
       timestamp: new Date().toISOString(),
       environment: process.env.NODE_ENV || "production",
-      aiProvider: "Gemini",
+      aiProvider: getAIProvider().name,
       available_endpoints: [
         "POST /api/generate-outfits",
         "POST /api/wardrobe-analysis",
@@ -69,5 +75,5 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   }
 
-  res.status(404).json({ error: "API endpoint not found" });
+  sendError(res, "NOT_FOUND", "API endpoint not found");
 }
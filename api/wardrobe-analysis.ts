@@ -2,35 +2,54 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
 import dotenv from "dotenv";
 dotenv.config();
 
-import { 
-  isGeminiConfigured, 
-  generateWithGemini,
-  buildWardrobeAnalysisPrompt 
-} from "../shared/gemini.js";
+import { buildWardrobeAnalysisPrompt } from "../shared/gemini.js";
+import { getAIProvider } from "../shared/ai-provider.js";
 import {
   validateAIResponse,
   STRUCTURED_PROMPT_TEMPLATES,
+  AIResponseValidationError,
+  toRepairMetadata,
+  WardrobeAnalysisRequestSchema,
+  WardrobeAnalysisSchema,
+  WARDROBE_ANALYSIS_RESPONSE_TYPES,
+  parseRequestBody,
 } from "../shared/response-schemas.js";
-
-interface WardrobeItem {
-  id: string;
-  category: string | { name: string };
-  color?: string;
-  brand?: string;
-  image_url?: string;
-  clothing_item_style_tags?: Array<{ style_tag: { name: string } }>;
-}
-
-interface WardrobeRequest {
-  wardrobe: WardrobeItem[];
-  preferences?: {
-    style?: string;
-    occasion?: string;
-  };
-  analysis_type?: "full" | "gaps" | "suggestions" | "color_analysis";
-  style_goal?: string;
-  budget?: string;
-}
+import type {
+  RepairMetadata,
+  ValidatedWardrobeAnalysis,
+} from "../shared/response-schemas.js";
+import {
+  applyBudget,
+  calculateSeasonalCoverage,
+  extractDominantColors,
+  generateDefaultInvestmentPriorities,
+  generateSmartAnalysis,
+  generateSmartAnalysisForType,
+} from "../shared/wardrobe-insights.js";
+import type { WardrobeItem } from "../shared/wardrobe-insights.js";
+import { checkRateLimit, HOUR_MS } from "../shared/rate-limit.js";
+import { requireUser } from "../shared/auth.js";
+import {
+  loadUserWardrobe,
+  saveWardrobeAnalysis,
+} from "../shared/wardrobe-data.js";
+import {
+  assignRequestId,
+  sendError,
+  sendInternalError,
+} from "../shared/api-errors.js";
+import {
+  cacheInfo,
+  fingerprint,
+  getCachedResult,
+  setCachedResult,
+  wardrobeFingerprint,
+} from "../shared/ai-cache.js";
+import type {
+  BudgetRange,
+  WardrobeAnalysisResults,
+  WardrobeAnalysisType,
+} from "../shared/types.js";
 
 interface WardrobeResponse {
   success: boolean;
@@ -50,7 +69,7 @@ interface WardrobeResponse {
     };
     versatility: {
       score: number;
-      possible_outfits: number;
+      possible_outfits: string;
       description: string;
     };
     seasonal_coverage?: {
@@ -65,6 +84,7 @@ interface WardrobeResponse {
       reason: string;
       impact: string;
       priority: number;
+      estimated_price?: number;
     }>;
     organization_tips: string[];
     styling_opportunities?: Array<{
@@ -75,89 +95,126 @@ interface WardrobeResponse {
     }>;
   };
   error?: string;
-  rate_limited?: boolean;
   note?: string;
 }
 
-// Rate limiting for free tier
-let requestCount = 0;
-let lastReset = Date.now();
+// Result of the focused analysis_types (everything but "full")
+type FocusedAnalysis = WardrobeAnalysisResults[Exclude<
+  WardrobeAnalysisType,
+  "full"
+>];
 
-const checkRateLimit = (): boolean => {
-  const now = Date.now();
-  const hoursPassed = (now - lastReset) / (1000 * 60 * 60);
+// What's kept in the AI cache for an analysis
+interface CachedAnalysis {
+  analysis: WardrobeResponse["analysis"] | FocusedAnalysis;
+  metadata: RepairMetadata;
+}
 
-  if (hoursPassed >= 1) {
-    requestCount = 0;
-    lastReset = now;
-  }
+// The structured-output instructions appended to each analysis_type's prompt
+const PROMPT_TEMPLATES: Record<WardrobeAnalysisType, string> = {
+  full: STRUCTURED_PROMPT_TEMPLATES.wardrobe_analysis,
+  gaps: STRUCTURED_PROMPT_TEMPLATES.wardrobe_gaps,
+  suggestions: STRUCTURED_PROMPT_TEMPLATES.wardrobe_suggestions,
+  color_analysis: STRUCTURED_PROMPT_TEMPLATES.wardrobe_colors,
+};
 
-  if (requestCount >= 30) {
-    // Rate limit for analysis
-    return false;
-  }
+// The full analysis doesn't fit the default output budget; the focused
+// ones are smaller
+const MAX_OUTPUT_TOKENS: Record<WardrobeAnalysisType, number> = {
+  full: 2048,
+  gaps: 1200,
+  suggestions: 1600,
+  color_analysis: 1200,
+};
+
+// Structured calls skip repairs that would run past this, so the smart
+// fallback still goes out within vercel.json's 15s maxDuration
+const AI_DEADLINE_MS = 12000;
 
-  requestCount++;
-  return true;
+// Token buckets per user and per IP
+const RATE_LIMIT = {
+  name: "wardrobe-analysis",
+  limit: 30,
+  windowMs: HOUR_MS,
 };
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
+  assignRequestId(req, res);
+
   // Only allow POST requests
   if (req.method !== "POST") {
-    return res.status(405).json({
-      success: false,
-      error: "Method not allowed. Use POST.",
-    });
+    return sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use POST.");
   }
 
-  // Check rate limit
-  if (!checkRateLimit()) {
-    return res.status(429).json({
-      success: false,
-      error: "Rate limit exceeded. Try again in an hour.",
-      rate_limited: true,
-    });
-  }
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  const body = parseRequestBody(WardrobeAnalysisRequestSchema, req, res);
+  if (!body) return;
 
   // Check API key
-  if (!isGeminiConfigured()) {
-    return res.status(500).json({
-      success: false,
-      error:
-        "Gemini API key not configured. Please add GEMINI_API_KEY to your environment variables.",
-    });
+  const provider = getAIProvider();
+  if (!provider.isConfigured()) {
+    return sendError(
+      res,
+      "AI_UNAVAILABLE",
+      `${provider.name} is not configured. ${provider.setupInstructions} Or set AI_PROVIDER=local for offline analysis.`,
+    );
   }
 
   const startTime = Date.now();
+  const { preferences, analysis_type, style_goal, refresh } = body;
+  // zod infers every key as optional while strictNullChecks is off
+  const budget = body.budget as BudgetRange | undefined;
 
+  // Without the wardrobe there's nothing to fall back on, so a failed read
+  // is an error rather than an analysis of nothing
+  let wardrobe: WardrobeItem[];
   try {
-    const {
-      wardrobe = [],
-      preferences = {},
-      analysis_type = "full",
-      style_goal,
-      budget,
-    }: WardrobeRequest = req.body;
+    wardrobe = await loadUserWardrobe(user);
+  } catch (error) {
+    return sendInternalError(res, error, "Wardrobe analysis failed");
+  }
+  if (wardrobe.length === 0) {
+    return sendError(
+      res,
+      "WARDROBE_TOO_SMALL",
+      "Add some items to your wardrobe before analyzing it",
+    );
+  }
 
-    if (!wardrobe || !Array.isArray(wardrobe) || wardrobe.length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: "Wardrobe array is required and must not be empty",
-      });
+  try {
+    // An unchanged wardrobe analyzed with the same options is served from
+    // the cache, without touching the rate limit
+    const options = { preferences, analysis_type, style_goal, budget };
+    const requestHash = fingerprint({
+      endpoint: "wardrobe-analysis",
+      provider: provider.name,
+      wardrobe: wardrobeFingerprint(wardrobe),
+      options,
+    });
+    if (!refresh) {
+      const cached = await getCachedResult<CachedAnalysis>(user, requestHash);
+      if (cached) {
+        return res.status(200).json({
+          success: true,
+          analysis_type,
+          ...cached.result,
+          ...cacheInfo(cached.createdAt, true),
+        });
+      }
     }
 
-    // Check API key and generate analysis
-    if (!isGeminiConfigured()) {
-      console.log("Gemini not configured, using smart fallback");
-
-      return res.status(200).json({
-        success: true,
-        analysis: generateSmartAnalysis(wardrobe, preferences, style_goal),
-        note: "Using smart analysis - configure GEMINI_API_KEY for AI-powered insights",
-      });
+    // Check rate limit
+    if (!(await checkRateLimit(req, res, RATE_LIMIT, { userId: user.id }))) {
+      return sendError(
+        res,
+        "RATE_LIMITED",
+        "Rate limit exceeded. Try again in an hour.",
+      );
     }
 
-    // Generate analysis using Gemini AI
+    // Generate analysis with the configured AI provider
     try {
       const prompt = buildWardrobeAnalysisPrompt(
         wardrobe,
@@ -167,31 +224,114 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           style_goal,
           budget
         }
-      );
+      ) + PROMPT_TEMPLATES[analysis_type];
       
-      const aiResponse = await generateWithGemini(prompt);
+      // The provider returns JSON validated against the analysis_type's
+      // schema; if it doesn't validate, fall back to picking JSON out of the
+      // raw text
+      let aiResponse: unknown;
+      let metadata: RepairMetadata;
+      let validated = false;
+      try {
+        const structured = await provider.generateStructured(
+          prompt,
+          WARDROBE_ANALYSIS_RESPONSE_TYPES[analysis_type],
+          {
+            maxOutputTokens: MAX_OUTPUT_TOKENS[analysis_type],
+            deadline: startTime + AI_DEADLINE_MS,
+            context: {
+              wardrobe,
+              style: preferences.style || style_goal,
+              occasion: preferences.occasion,
+              preferences,
+              budget,
+            },
+          },
+        );
+        aiResponse = structured.data;
+        metadata = toRepairMetadata(structured);
+        validated = true;
+      } catch (structuredError) {
+        if (!(structuredError instanceof AIResponseValidationError)) {
+          throw structuredError;
+        }
+        console.warn(
+          "Structured analysis failed validation:",
+          structuredError.message,
+        );
+        aiResponse = structuredError.rawResponse;
+        metadata = toRepairMetadata(structuredError);
+      }
       
-      // Parse and validate AI response
-      const analysis = parseGeminiAnalysisResponse(aiResponse, wardrobe);
+      // Parse and validate AI response, dropping purchases over budget
+      const analysis = withinBudget(
+        analysis_type === "full"
+          ? parseGeminiAnalysisResponse(
+              aiResponse as string | ValidatedWardrobeAnalysis,
+              wardrobe,
+              budget,
+            )
+          : parseFocusedAnalysisResponse(
+              analysis_type,
+              aiResponse,
+              wardrobe,
+              preferences,
+              style_goal,
+              budget,
+            ),
+        budget,
+      );
       
       const endTime = Date.now();
       console.log(`Wardrobe analysis completed in ${endTime - startTime}ms`);
+
+      // Only validated analyses are cached and go into the history. The raw
+      // text rescue fills the scores it can't read with placeholders, which
+      // would show up as a jump in the scores that the wardrobe didn't make.
+      if (!validated) {
+        return res.status(200).json({
+          success: true,
+          analysis_type,
+          analysis,
+          metadata,
+        });
+      }
+
+      const analyzedAt = await setCachedResult(user, {
+        endpoint: "wardrobe-analysis",
+        requestHash,
+        requestData: options,
+        result: { analysis, metadata },
+      });
+      if (analysis_type === "full") {
+        await saveWardrobeAnalysis(user, analysis, wardrobe.length);
+      }
       
       return res.status(200).json({
         success: true,
+        analysis_type,
         analysis,
+        metadata,
+        ...cacheInfo(analyzedAt, false),
       });
     } catch (geminiError) {
       console.warn("Gemini failed, using smart fallback:", geminiError);
       
       // Fallback to smart analysis
-      const analysis = generateSmartAnalysis(wardrobe, preferences, style_goal);
+      const analysis = generateSmartAnalysisForType(
+        analysis_type,
+        wardrobe,
+        preferences,
+        style_goal,
+        budget,
+      );
       
       const endTime = Date.now();
       console.log(`Wardrobe analysis completed with fallback in ${endTime - startTime}ms`);
       
       return res.status(200).json({
         success: true,
+        analysis_type,
         analysis,
         note: "Using smart analysis due to AI service unavailability",
       });
@@ -200,483 +340,157 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     console.error("Wardrobe analysis error:", error);
 
     // Provide fallback analysis
-    const fallbackAnalysis = generateFallbackAnalysis(req.body.wardrobe || []);
+    const fallbackAnalysis = generateSmartAnalysisForType(
+      analysis_type,
+      wardrobe,
+      preferences,
+      style_goal,
+      budget,
+    );
 
     return res.status(200).json({
       success: true,
+      analysis_type,
       analysis: fallbackAnalysis,
       note: "Using fallback analysis due to AI service unavailability",
     });
   }
 }
 
-// Parse Gemini's JSON response
+// Normalize Gemini's analysis (validated JSON or raw text), filling defaults.
+// Throws when there's no JSON to read, so the caller's uncached smart
+// fallback takes over.
 function parseGeminiAnalysisResponse(
-  aiResponse: string,
+  aiResponse: string | ValidatedWardrobeAnalysis,
   items: WardrobeItem[],
+  budget?: BudgetRange,
 ) {
-  try {
-    // Try to extract JSON from the response
+  let parsedResponse: any = aiResponse;
+
+  // Raw text (the compatibility path): extract the JSON from it
+  if (typeof aiResponse === "string") {
     const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
       throw new Error("No JSON found in response");
     }
-
-    const parsedResponse = JSON.parse(jsonMatch[0]);
-
-    // Ensure all required fields are present with defaults
-    return {
-      overall_assessment:
-        parsedResponse.overall_assessment ||
-        `Your wardrobe contains ${items.length} items with good variety across different categories.`,
-      strengths: Array.isArray(parsedResponse.strengths)
-        ? parsedResponse.strengths
-        : ["Good variety of pieces", "Nice color coordination"],
-      gaps: Array.isArray(parsedResponse.gaps)
-        ? parsedResponse.gaps
-        : ["Consider adding more basic pieces"],
-      color_analysis: {
-        dominant_colors:
-          parsedResponse.color_analysis?.dominant_colors ||
-          extractDominantColors(items),
-        missing_colors: parsedResponse.color_analysis?.missing_colors || [
-          "black",
-          "white",
-        ],
-        harmony_score: Math.min(
-          Math.max(parsedResponse.color_analysis?.harmony_score || 75, 0),
-          100,
-        ),
-        recommendations:
-          parsedResponse.color_analysis?.recommendations ||
-          "Focus on building a cohesive color palette.",
-      },
-      style_consistency: {
-        score: Math.min(
-          Math.max(parsedResponse.style_consistency?.score || 70, 0),
-          100,
-        ),
-        description:
-          parsedResponse.style_consistency?.description ||
-          "Your style shows good consistency across pieces.",
-      },
-      versatility: {
-        score: Math.min(
-          Math.max(parsedResponse.versatility?.score || 75, 0),
-          100,
-        ),
-        possible_outfits:
-          parsedResponse.versatility?.possible_outfits ||
-          Math.floor(items.length * 2.5),
-        description:
-          parsedResponse.versatility?.description ||
-          "Your wardrobe offers good versatility for creating different looks.",
-      },
-      investment_priorities: Array.isArray(parsedResponse.investment_priorities)
-        ? parsedResponse.investment_priorities.slice(0, 5)
-        : generateDefaultInvestmentPriorities(items),
-      organization_tips: Array.isArray(parsedResponse.organization_tips)
-        ? parsedResponse.organization_tips
-        : [
-            "Organize by category",
-            "Keep similar colors together",
-            "Rotate seasonal items",
-          ],
-    };
-  } catch (error) {
-    console.warn(
-      "Failed to parse Gemini analysis response, using smart fallback:",
-      error,
-    );
-    return generateSmartAnalysis(items, {}, "");
+    parsedResponse = JSON.parse(jsonMatch[0]);
   }
-}
-
-// Generate smart analysis when AI is unavailable
-function generateSmartAnalysis(
-  items: WardrobeItem[],
-  preferences: any,
-  styleGoal?: string,
-) {
-  // Categorize items
-  const categories = categorizeItems(items);
-  const colors = extractColors(items);
-
-  // Analyze strengths and gaps
-  const { strengths, gaps } = analyzeWardrobeGaps(categories, items.length);
-
-  // Generate investment priorities
-  const investmentPriorities = generateInvestmentPriorities(
-    categories,
-    colors,
-    gaps,
-  );
-
-  // Calculate scores
-  const versatilityScore = calculateVersatilityScore(
-    categories,
-    colors,
-    items.length,
-  );
-  const styleConsistencyScore = calculateStyleConsistencyScore(items);
-  const colorHarmonyScore = calculateColorHarmonyScore(colors);
 
+  // Ensure all required fields are present with defaults
   return {
-    overall_assessment: `Your wardrobe contains ${items.length} items across ${Object.keys(categories).length} different categories. ${getOverallAssessment(versatilityScore, styleConsistencyScore)}`,
-    strengths,
-    gaps,
+    overall_assessment:
+      parsedResponse.overall_assessment ||
+      `Your wardrobe contains ${items.length} items with good variety across different categories.`,
+    strengths: Array.isArray(parsedResponse.strengths)
+      ? parsedResponse.strengths
+      : ["Good variety of pieces", "Nice color coordination"],
+    gaps: Array.isArray(parsedResponse.gaps)
+      ? parsedResponse.gaps
+      : ["Consider adding more basic pieces"],
     color_analysis: {
-      dominant_colors: Object.keys(colors).slice(0, 3),
-      missing_colors: getMissingEssentialColors(colors),
-      harmony_score: colorHarmonyScore,
-      recommendations: generateColorRecommendations(colors),
+      dominant_colors:
+        parsedResponse.color_analysis?.dominant_colors ||
+        extractDominantColors(items),
+      missing_colors: parsedResponse.color_analysis?.missing_colors || [
+        "black",
+        "white",
+      ],
+      harmony_score: Math.min(
+        Math.max(parsedResponse.color_analysis?.harmony_score || 75, 0),
+        100,
+      ),
+      recommendations:
+        parsedResponse.color_analysis?.recommendations ||
+        "Focus on building a cohesive color palette.",
     },
     style_consistency: {
-      score: styleConsistencyScore,
-      description: getStyleConsistencyDescription(styleConsistencyScore),
+      score: Math.min(
+        Math.max(parsedResponse.style_consistency?.score || 70, 0),
+        100,
+      ),
+      description:
+        parsedResponse.style_consistency?.description ||
+        "Your style shows good consistency across pieces.",
     },
     versatility: {
-      score: versatilityScore,
-      possible_outfits: Math.floor(items.length * 2.2),
-      description: getVersatilityDescription(versatilityScore),
+      score: Math.min(
+        Math.max(parsedResponse.versatility?.score || 75, 0),
+        100,
+      ),
+      possible_outfits: String(
+        parsedResponse.versatility?.possible_outfits ||
+          Math.floor(items.length * 2.5),
+      ),
+      description:
+        parsedResponse.versatility?.description ||
+        "Your wardrobe offers good versatility for creating different looks.",
     },
-    investment_priorities: investmentPriorities,
-    organization_tips: [
-      "Group similar items together (all shirts, all pants)",
-      "Organize by color within each category",
-      "Keep frequently used items easily accessible",
-      "Store out-of-season items separately",
-    ],
+    seasonal_coverage: WardrobeAnalysisSchema.shape.seasonal_coverage.safeParse(
+      parsedResponse.seasonal_coverage,
+    ).success
+      ? parsedResponse.seasonal_coverage
+      : calculateSeasonalCoverage(items),
+    investment_priorities: Array.isArray(parsedResponse.investment_priorities)
+      ? parsedResponse.investment_priorities.slice(0, 5)
+      : budget
+        ? generateSmartAnalysis(items, {}, undefined, budget)
+            .investment_priorities
+        : generateDefaultInvestmentPriorities(items),
+    organization_tips: Array.isArray(parsedResponse.organization_tips)
+      ? parsedResponse.organization_tips
+      : [
+          "Organize by category",
+          "Keep similar colors together",
+          "Rotate seasonal items",
+        ],
   };
 }
 
-// Helper functions
-function categorizeItems(items: WardrobeItem[]) {
-  const categories: { [key: string]: number } = {};
-
-  items.forEach((item) => {
-    const category =
-      typeof item.category === "string"
-        ? item.category.toLowerCase()
-        : item.category?.name?.toLowerCase() || "other";
-    categories[category] = (categories[category] || 0) + 1;
-  });
-
-  return categories;
-}
-
-function extractColors(items: WardrobeItem[]) {
-  const colors: { [key: string]: number } = {};
-
-  items.forEach((item) => {
-    if (item.color) {
-      const color = item.color.toLowerCase();
-      colors[color] = (colors[color] || 0) + 1;
-    }
-  });
-
-  return colors;
-}
-
-function extractDominantColors(items: WardrobeItem[]): string[] {
-  const colors = extractColors(items);
-  return Object.entries(colors)
-    .sort(([, a], [, b]) => (b as number) - (a as number))
-    .slice(0, 3)
-    .map(([color]) => color);
-}
-
-function analyzeWardrobeGaps(categories: any, totalItems: number) {
-  const strengths: string[] = [];
-  const gaps: string[] = [];
-
-  const essentialCategories = {
-    tops: { min: 3, name: "tops" },
-    bottoms: { min: 2, name: "bottoms" },
-    shoes: { min: 2, name: "shoes" },
-    outerwear: { min: 1, name: "outerwear/jackets" },
-  };
-
-  Object.entries(essentialCategories).forEach(([key, config]) => {
-    const count = Object.keys(categories)
-      .filter((cat) => cat.includes(key))
-      .reduce((sum, cat) => sum + categories[cat], 0);
-
-    if (count >= config.min) {
-      strengths.push(`Good selection of ${config.name} (${count} items)`);
-    } else if (count === 0) {
-      gaps.push(`Missing ${config.name} entirely`);
-    } else {
-      gaps.push(`Need more ${config.name} (only ${count} items)`);
+// Normalize a focused analysis (validated JSON or raw text), filling any
+// missing part from the smart analysis of the same type. Throws when there's
+// no JSON to read, like parseGeminiAnalysisResponse.
+function parseFocusedAnalysisResponse(
+  analysisType: Exclude<WardrobeAnalysisType, "full">,
+  aiResponse: unknown,
+  items: WardrobeItem[],
+  preferences: any,
+  styleGoal?: string,
+  budget?: BudgetRange,
+) {
+  let parsedResponse: any = aiResponse;
+  if (typeof aiResponse === "string") {
+    const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error("No JSON found in response");
     }
-  });
-
-  // Check for variety
-  const categoryCount = Object.keys(categories).length;
-  if (categoryCount >= 5) {
-    strengths.push("Good variety across different categories");
-  } else if (categoryCount < 3) {
-    gaps.push("Limited variety in clothing categories");
+    parsedResponse = JSON.parse(jsonMatch[0]);
   }
 
-  return { strengths, gaps };
-}
-
-function generateInvestmentPriorities(
-  categories: any,
-  colors: any,
-  gaps: string[],
-): Array<{
-  item: string;
-  reason: string;
-  impact: string;
-  priority: number;
-}> {
-  const priorities: Array<{
-    item: string;
-    reason: string;
-    impact: string;
-    priority: number;
-  }> = [];
-
-  // Check for missing basics
-  const essentials = [
-    {
-      item: "White button-down shirt",
-      category: "tops",
-      reason: "Versatile for both casual and formal occasions",
-    },
-    {
-      item: "Well-fitted jeans",
-      category: "bottoms",
-      reason: "Essential for casual wear",
-    },
-    {
-      item: "Black dress shoes",
-      category: "shoes",
-      reason: "Needed for formal occasions",
-    },
-    {
-      item: "Blazer or jacket",
-      category: "outerwear",
-      reason: "Instantly elevates any outfit",
-    },
-  ];
-
-  let priority = 1;
-  essentials.forEach((essential) => {
-    const hasCategory = Object.keys(categories).some((cat) =>
-      cat.includes(essential.category),
-    );
-    if (!hasCategory || categories[essential.category] < 2) {
-      priorities.push({
-        item: essential.item,
-        reason: essential.reason,
-        impact: "High - will significantly increase outfit options",
-        priority: priority++,
-      });
+  const fallback = generateSmartAnalysisForType(
+    analysisType,
+    items,
+    preferences,
+    styleGoal,
+    budget,
+  );
+  const analysis = { ...fallback };
+  Object.keys(fallback).forEach((key) => {
+    const value = parsedResponse?.[key];
+    const expectsArray = Array.isArray(fallback[key]);
+    if (value != null && Array.isArray(value) === expectsArray) {
+      analysis[key] = value;
     }
   });
-
-  // Color-based recommendations
-  const neutralColors = ["black", "white", "gray", "navy"];
-  const missingNeutrals = neutralColors.filter((color) => !colors[color]);
-
-  if (missingNeutrals.length > 0) {
-    priorities.push({
-      item: `${missingNeutrals[0].charAt(0).toUpperCase() + missingNeutrals[0].slice(1)} basic pieces`,
-      reason: "Neutral colors are the foundation of a versatile wardrobe",
-      impact:
-        "Medium - improves color coordination and mix-and-match potential",
-      priority: priority++,
-    });
-  }
-
-  return priorities.slice(0, 5);
-}
-
-function generateDefaultInvestmentPriorities(items: WardrobeItem[]) {
-  return [
-    {
-      item: "Quality basic t-shirts",
-      reason: "Foundation pieces that work with everything",
-      impact: "High - essential for daily wear",
-      priority: 1,
-    },
-    {
-      item: "Well-fitted jeans",
-      reason: "Versatile for casual occasions",
-      impact: "High - can be dressed up or down",
-      priority: 2,
-    },
-    {
-      item: "Structured blazer",
-      reason: "Instantly elevates any casual outfit",
-      impact: "Medium - great for professional settings",
-      priority: 3,
-    },
-  ];
-}
-
-function calculateVersatilityScore(
-  categories: any,
-  colors: any,
-  totalItems: number,
-): number {
-  let score = 50; // Base score
-
-  // Category diversity bonus
-  const categoryCount = Object.keys(categories).length;
-  score += Math.min(categoryCount * 8, 40);
-
-  // Color variety bonus
-  const colorCount = Object.keys(colors).length;
-  score += Math.min(colorCount * 5, 25);
-
-  // Neutral colors bonus
-  const neutrals = ["black", "white", "gray", "navy"];
-  const neutralCount = neutrals.filter((color) => colors[color]).length;
-  score += neutralCount * 8;
-
-  // Item quantity consideration
-  if (totalItems >= 15) score += 10;
-  else if (totalItems >= 8) score += 5;
-
-  return Math.min(Math.max(score, 0), 100);
+  return analysis;
 }
 
-function calculateStyleConsistencyScore(items: WardrobeItem[]): number {
-  // This is a simplified calculation - in a real scenario, you'd analyze style tags
-  const styleTags = items.flatMap(
-    (item) =>
-      item.clothing_item_style_tags?.map((tag) => tag.style_tag.name) || [],
-  );
-
-  if (styleTags.length === 0) return 60;
-
-  // Count frequency of style tags
-  const styleFrequency = styleTags.reduce(
-    (acc, style) => {
-      acc[style] = (acc[style] || 0) + 1;
-      return acc;
-    },
-    {} as Record<string, number>,
-  );
-
-  // Calculate consistency based on how often the same styles appear
-  const totalTags = styleTags.length;
-  const dominantStyleCount = Math.max(...Object.values(styleFrequency));
-  const consistencyRatio = dominantStyleCount / totalTags;
-
-  return Math.round(consistencyRatio * 100);
-}
-
-function calculateColorHarmonyScore(colors: any): number {
-  const colorNames = Object.keys(colors);
-  const neutralColors = [
-    "black",
-    "white",
-    "gray",
-    "grey",
-    "navy",
-    "beige",
-    "brown",
-  ];
-  const neutralCount = colorNames.filter((color) =>
-    neutralColors.some((neutral) => color.includes(neutral)),
-  ).length;
-
-  let score = 60; // Base score
-
-  // Bonus for having neutrals
-  score += Math.min(neutralCount * 15, 40);
-
-  // Small bonus for color variety (but not too much)
-  if (colorNames.length >= 3 && colorNames.length <= 6) {
-    score += 10;
+// Drop investment priorities priced outside the budget, or not priced at all
+function withinBudget<T extends object>(analysis: T, budget?: BudgetRange): T {
+  if (!budget || !Array.isArray(analysis["investment_priorities"])) {
+    return analysis;
   }
-
-  return Math.min(Math.max(score, 0), 100);
-}
-
-function getMissingEssentialColors(colors: any): string[] {
-  const essentialColors = ["black", "white", "navy"];
-  return essentialColors.filter((color) => !colors[color]);
-}
-
-function generateColorRecommendations(colors: any): string {
-  const missing = getMissingEssentialColors(colors);
-  if (missing.length === 0) {
-    return "Your color palette is well-balanced with good neutral foundation.";
-  }
-  return `Consider adding ${missing.join(" and ")} pieces to strengthen your neutral foundation and increase versatility.`;
-}
-
-function getOverallAssessment(
-  versatilityScore: number,
-  styleScore: number,
-): string {
-  const averageScore = (versatilityScore + styleScore) / 2;
-
-  if (averageScore >= 80) {
-    return "Your wardrobe shows excellent balance and versatility.";
-  } else if (averageScore >= 60) {
-    return "Your wardrobe has good potential with some room for strategic improvements.";
-  } else {
-    return "There are several opportunities to enhance your wardrobe's versatility and style.";
-  }
-}
-
-function getStyleConsistencyDescription(score: number): string {
-  if (score >= 80) return "Excellent style consistency across your wardrobe";
-  if (score >= 60) return "Good style consistency with some variety";
-  return "Mixed styles - consider focusing on a more cohesive aesthetic";
-}
-
-function getVersatilityDescription(score: number): string {
-  if (score >= 80)
-    return "Highly versatile wardrobe with excellent mix-and-match potential";
-  if (score >= 60) return "Good versatility with solid outfit creation options";
-  return "Limited versatility - adding key pieces would greatly expand your options";
-}
-
-// Generate fallback analysis when everything fails
-function generateFallbackAnalysis(items: WardrobeItem[]) {
-  if (!items || items.length === 0) {
-    return {
-      overall_assessment: "No items provided for analysis.",
-      strengths: [],
-      gaps: ["Add wardrobe items to get detailed analysis"],
-      color_analysis: {
-        dominant_colors: [],
-        missing_colors: ["black", "white", "navy"],
-        harmony_score: 0,
-        recommendations: "Start building your wardrobe with neutral colors",
-      },
-      style_consistency: {
-        score: 0,
-        description: "Add items to assess style consistency",
-      },
-      versatility: {
-        score: 0,
-        possible_outfits: 0,
-        description: "Add items to calculate versatility",
-      },
-      investment_priorities: [
-        {
-          item: "Basic t-shirts",
-          reason: "Start with versatile basics",
-          impact: "Foundation for your wardrobe",
-          priority: 1,
-        },
-      ],
-      organization_tips: [
-        "Start by categorizing items by type",
-        "Keep similar colors together",
-      ],
-    };
-  }
-
-  // Use smart analysis for fallback
-  return generateSmartAnalysis(items, {}, "");
+  return {
+    ...analysis,
+    investment_priorities: applyBudget(analysis["investment_priorities"], budget),
+  };
 }
@@ -14,6 +14,8 @@ import Dashboard from "./pages/Dashboard";
 import Upload from "./pages/Upload";
 import AIStylist from "./pages/AIStylist";
 import ManageItems from "./pages/ManageItems";
+import Outfits from "./pages/Outfits";
+import WearCalendar from "./pages/WearCalendar";
 import EmailConfirmed from "./pages/EmailConfirmed";
 import NotFound from "./pages/NotFound";
 
@@ -41,6 +43,8 @@ const App = () => (
                 <Route path="/upload" element={<Upload />} />
                 <Route path="/ai-stylist" element={<AIStylist />} />
                 <Route path="/manage-items" element={<ManageItems />} />
+                <Route path="/outfits" element={<Outfits />} />
+                <Route path="/calendar" element={<WearCalendar />} />
                 <Route path="/email-confirmed" element={<EmailConfirmed />} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
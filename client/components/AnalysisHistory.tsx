@@ -0,0 +1,373 @@
+import React, { useMemo, useState } from "react";
+import {
+  CheckCircle,
+  History,
+  PlusCircle,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
+import {
+  ANALYSIS_SCORES,
+  diffAnalyses,
+  SEASONS,
+} from "../../shared/analysis-history";
+import type {
+  AnalysisScoreKey,
+  AnalysisSnapshot,
+} from "../../shared/analysis-history";
+
+interface AnalysisHistoryProps {
+  history: AnalysisSnapshot[]; // oldest first
+}
+
+const SCORE_COLORS: Record<
+  AnalysisScoreKey,
+  { stroke: string; fill: string; swatch: string }
+> = {
+  harmony_score: {
+    stroke: "stroke-black",
+    fill: "fill-black",
+    swatch: "bg-black",
+  },
+  style_consistency_score: {
+    stroke: "stroke-gray-400",
+    fill: "fill-gray-400",
+    swatch: "bg-gray-400",
+  },
+  versatility_score: {
+    stroke: "stroke-yellow-600",
+    fill: "fill-yellow-600",
+    swatch: "bg-yellow-600",
+  },
+};
+
+// Chart area in SVG units; scores run 0-100 bottom to top
+const CHART = { width: 600, height: 200, padX: 32, padY: 16 };
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({ history }) => {
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  // Points are spaced by time, so a burst of analyses doesn't stretch a week
+  // across the whole chart
+  const points = useMemo(() => {
+    const times = history.map((entry) => new Date(entry.created_at).getTime());
+    const first = Math.min(...times);
+    const span = Math.max(...times) - first;
+    const innerWidth = CHART.width - CHART.padX * 2;
+    const innerHeight = CHART.height - CHART.padY * 2;
+
+    return history.map((entry, index) => ({
+      entry,
+      x:
+        CHART.padX +
+        (span > 0
+          ? ((times[index] - first) / span) * innerWidth
+          : innerWidth / 2),
+      y: (score: number) =>
+        CHART.padY +
+        innerHeight -
+        (Math.min(Math.max(score, 0), 100) / 100) * innerHeight,
+    }));
+  }, [history]);
+
+  // Compare the previous analysis with the latest unless the user picks
+  const older =
+    history.find((entry) => entry.id === fromId) || history[history.length - 2];
+  const newer =
+    history.find((entry) => entry.id === toId) || history[history.length - 1];
+
+  const diff = useMemo(() => {
+    if (!older || !newer || older.id === newer.id) return null;
+    // Always diff forwards in time, whichever way round they were picked
+    return older.created_at <= newer.created_at
+      ? { since: older, diff: diffAnalyses(older, newer) }
+      : { since: newer, diff: diffAnalyses(newer, older) };
+  }, [older, newer]);
+
+  if (history.length === 0) return null;
+
+  // The later of the two compared analyses, or the latest one
+  const later = diff && diff.since === newer ? older : newer;
+
+  const renderSelect = (
+    value: string,
+    onChange: (id: string) => void,
+    label: string,
+  ) => (
+    <select
+      aria-label={label}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="border border-gray-300 rounded-lg px-3 py-2 font-montserrat text-sm focus:outline-none focus:ring-2 focus:ring-black"
+    >
+      {history.map((entry) => (
+        <option key={entry.id} value={entry.id}>
+          {new Date(entry.created_at).toLocaleString(undefined, {
+            month: "short",
+            day: "numeric",
+            hour: "numeric",
+            minute: "2-digit",
+          })}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <History className="w-6 h-6 text-black" />
+        <div>
+          <h3 className="font-playfair text-xl font-bold text-black">
+            Analysis History
+          </h3>
+          <p className="font-montserrat text-sm text-mejiwoo-gray">
+            {history.length} {history.length === 1 ? "analysis" : "analyses"}{" "}
+            since {formatDate(history[0].created_at)}
+          </p>
+        </div>
+      </div>
+
+      {/* Scores over time */}
+      <div>
+        <svg
+          viewBox={`0 0 ${CHART.width} ${CHART.height}`}
+          className="w-full h-48"
+          role="img"
+          aria-label="Wardrobe scores over time"
+        >
+          {[0, 50, 100].map((score) => (
+            <g key={score}>
+              <line
+                x1={CHART.padX}
+                x2={CHART.width - CHART.padX}
+                y1={points[0].y(score)}
+                y2={points[0].y(score)}
+                className="stroke-gray-200"
+                strokeDasharray="4 4"
+              />
+              <text
+                x={CHART.padX - 8}
+                y={points[0].y(score) + 4}
+                textAnchor="end"
+                className="fill-gray-400 text-[10px] font-montserrat"
+              >
+                {score}
+              </text>
+            </g>
+          ))}
+          {ANALYSIS_SCORES.map(({ key }) => {
+            const scored = points.filter(({ entry }) => entry[key] != null);
+            return (
+              <g key={key}>
+                <polyline
+                  points={scored
+                    .map(({ entry, x, y }) => `${x},${y(entry[key])}`)
+                    .join(" ")}
+                  fill="none"
+                  strokeWidth={2}
+                  className={SCORE_COLORS[key].stroke}
+                />
+                {scored.map(({ entry, x, y }) => (
+                  <circle
+                    key={entry.id}
+                    cx={x}
+                    cy={y(entry[key])}
+                    r={3.5}
+                    className={SCORE_COLORS[key].fill}
+                  >
+                    <title>
+                      {formatDate(entry.created_at)}: {entry[key]}
+                    </title>
+                  </circle>
+                ))}
+              </g>
+            );
+          })}
+        </svg>
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-2">
+          <div className="flex flex-wrap gap-4">
+            {ANALYSIS_SCORES.map(({ key, label }) => (
+              <span
+                key={key}
+                className="flex items-center gap-2 font-montserrat text-xs text-gray-700"
+              >
+                <span
+                  className={`w-3 h-3 rounded-full ${SCORE_COLORS[key].swatch}`}
+                />
+                {label}
+              </span>
+            ))}
+          </div>
+          {history.length > 1 && (
+            <span className="font-montserrat text-xs text-mejiwoo-gray">
+              {formatDate(history[0].created_at)} –{" "}
+              {formatDate(history[history.length - 1].created_at)}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Seasonal coverage of the later analysis, with the change since the
+          earlier one */}
+      {later.seasonal_coverage && (
+        <div className="space-y-3">
+          <h4 className="font-montserrat text-sm font-semibold text-black">
+            Seasonal coverage
+          </h4>
+          {SEASONS.map(({ key, label }) => {
+            const coverage = later.seasonal_coverage[key];
+            const delta =
+              diff?.diff.seasons.find((season) => season.key === key)?.delta ??
+              0;
+            return (
+              <div key={key} className="flex items-center gap-3">
+                <span className="w-16 font-montserrat text-xs text-gray-700">
+                  {label}
+                </span>
+                <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-black rounded-full"
+                    style={{
+                      width: `${Math.min(Math.max(coverage, 0), 100)}%`,
+                    }}
+                  />
+                </div>
+                <span className="w-16 font-montserrat text-xs text-black text-right">
+                  {coverage}
+                  {delta !== 0 && (
+                    <span
+                      className={`ml-1 ${
+                        delta > 0 ? "text-green-600" : "text-red-600"
+                      }`}
+                    >
+                      {delta > 0 ? "+" : ""}
+                      {delta}
+                    </span>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+          <p className="font-montserrat text-xs text-mejiwoo-gray">
+            {later.seasonal_coverage.recommendations}
+          </p>
+        </div>
+      )}
+
+      {/* Compare two analyses */}
+      {history.length < 2 ? (
+        <p className="font-montserrat text-sm text-mejiwoo-gray">
+          Analyze your wardrobe again after adding or removing items to see what
+          changed.
+        </p>
+      ) : (
+        <div className="border-t border-gray-200 pt-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2 font-montserrat text-sm text-gray-700">
+            <span>Compare</span>
+            {renderSelect(older.id, setFromId, "Earlier analysis")}
+            <span>with</span>
+            {renderSelect(newer.id, setToId, "Later analysis")}
+          </div>
+
+          {!diff ? (
+            <p className="font-montserrat text-sm text-mejiwoo-gray">
+              Pick two different analyses to compare.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {diff.diff.scores.map((score) => (
+                  <div key={score.key} className="bg-gray-50 rounded-lg p-3">
+                    <p className="font-montserrat text-xs text-mejiwoo-gray">
+                      {score.label}
+                    </p>
+                    <p className="font-montserrat text-lg font-semibold text-black flex items-center gap-2">
+                      {score.to ?? "–"}
+                      {score.delta !== 0 && (
+                        <span
+                          className={`flex items-center gap-1 text-sm ${
+                            score.delta > 0 ? "text-green-600" : "text-red-600"
+                          }`}
+                        >
+                          {score.delta > 0 ? (
+                            <TrendingUp className="w-4 h-4" />
+                          ) : (
+                            <TrendingDown className="w-4 h-4" />
+                          )}
+                          {score.delta > 0 ? "+" : ""}
+                          {score.delta}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <ul className="space-y-2">
+                {diff.diff.resolvedGaps.map((gap) => (
+                  <li
+                    key={`resolved-${gap}`}
+                    className="font-montserrat text-sm text-gray-800 flex items-start gap-2"
+                  >
+                    <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Gap '{gap}' resolved since{" "}
+                      {formatDate(diff.since.created_at)}
+                    </span>
+                  </li>
+                ))}
+                {diff.diff.newGaps.map((gap) => (
+                  <li
+                    key={`new-${gap}`}
+                    className="font-montserrat text-sm text-gray-800 flex items-start gap-2"
+                  >
+                    <PlusCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+                    <span>New gap: '{gap}'</span>
+                  </li>
+                ))}
+                {diff.diff.resolvedPriorities.map((item) => (
+                  <li
+                    key={`priority-${item}`}
+                    className="font-montserrat text-sm text-gray-800 flex items-start gap-2"
+                  >
+                    <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+                    <span>'{item}' is no longer an investment priority</span>
+                  </li>
+                ))}
+                {diff.diff.newPriorities.map((item) => (
+                  <li
+                    key={`new-priority-${item}`}
+                    className="font-montserrat text-sm text-gray-800 flex items-start gap-2"
+                  >
+                    <PlusCircle className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+                    <span>New investment priority: '{item}'</span>
+                  </li>
+                ))}
+              </ul>
+
+              <p className="font-montserrat text-xs text-mejiwoo-gray">
+                {diff.diff.itemCountChange === 0
+                  ? "Same number of items in both analyses."
+                  : `${Math.abs(diff.diff.itemCountChange)} ${
+                      Math.abs(diff.diff.itemCountChange) === 1
+                        ? "item"
+                        : "items"
+                    } ${diff.diff.itemCountChange > 0 ? "added" : "removed"} since ${formatDate(diff.since.created_at)}.`}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisHistory;
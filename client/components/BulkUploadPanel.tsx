@@ -0,0 +1,388 @@
+import React, { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  Upload as UploadIcon,
+  X,
+  Check,
+  RefreshCw,
+  Ban,
+  AlertCircle,
+  Sparkles,
+  Scissors,
+} from "lucide-react";
+import {
+  useUploadQueue,
+  isQueueItemComplete,
+  MAX_QUEUE_SIZE,
+} from "../hooks/use-upload-queue";
+import type { QueueItem, QueueItemStatus } from "../hooks/use-upload-queue";
+import type { Category, StyleTag } from "../lib/supabase";
+
+interface BulkUploadPanelProps {
+  userId: string;
+  categories: Category[];
+  styleTags: StyleTag[];
+  onDone: () => void;
+}
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  queued: "Queued",
+  uploading: "Uploading...",
+  analyzing: "Analyzing...",
+  ready: "Ready to review",
+  saving: "Saving...",
+  saved: "Added",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_STYLES: Record<QueueItemStatus, string> = {
+  queued: "bg-gray-100 text-mejiwoo-gray",
+  uploading: "bg-blue-50 text-blue-800",
+  analyzing: "bg-blue-50 text-blue-800",
+  ready: "bg-yellow-50 text-yellow-800",
+  saving: "bg-blue-50 text-blue-800",
+  saved: "bg-green-50 text-green-800",
+  failed: "bg-red-50 text-red-800",
+  cancelled: "bg-gray-100 text-mejiwoo-gray",
+};
+
+const BulkUploadPanel: React.FC<BulkUploadPanelProps> = ({
+  userId,
+  categories,
+  styleTags,
+  onDone,
+}) => {
+  const [createCutouts, setCreateCutouts] = useState(false);
+  const {
+    items,
+    isCommitting,
+    addFiles,
+    retry,
+    cancel,
+    remove,
+    editItem,
+    clearSaved,
+    commit,
+  } = useUploadQueue(userId, categories, styleTags, createCutouts);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const inProgressCount = items.filter((item) =>
+    ["queued", "uploading", "analyzing"].includes(item.status),
+  ).length;
+  const completeCount = items.filter(isQueueItemComplete).length;
+  const needsReviewCount = items.filter(
+    (item) => item.status === "ready" && !isQueueItemComplete(item),
+  ).length;
+  const savedCount = items.filter((item) => item.status === "saved").length;
+  const hasUnsaved = items.some((item) =>
+    ["queued", "uploading", "analyzing", "ready", "saving"].includes(
+      item.status,
+    ),
+  );
+
+  // Leaving mid-batch would drop uploaded photos that aren't items yet
+  useEffect(() => {
+    if (!hasUnsaved) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [hasUnsaved]);
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const skipped = addFiles(Array.from(files));
+    if (skipped > 0) {
+      toast.error(
+        `Skipped ${skipped} ${skipped === 1 ? "file" : "files"} (images only, up to ${MAX_QUEUE_SIZE} per batch)`,
+      );
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const handleCommit = async () => {
+    const { saved, failed } = await commit();
+
+    if (failed > 0) {
+      toast.error(
+        `Added ${saved} ${saved === 1 ? "item" : "items"}, ${failed} failed`,
+      );
+    } else if (saved > 0) {
+      toast.success(`Added ${saved} ${saved === 1 ? "item" : "items"}!`);
+    }
+  };
+
+  const toggleStyleTag = (item: QueueItem, tagId: number) => {
+    editItem(item.id, {
+      styleTagIds: item.styleTagIds.includes(tagId)
+        ? item.styleTagIds.filter((id) => id !== tagId)
+        : [...item.styleTagIds, tagId],
+    });
+  };
+
+  const renderItemCard = (item: QueueItem) => {
+    const isBusy = ["uploading", "analyzing", "saving"].includes(item.status);
+    const isEditable = item.status === "ready" || item.status === "queued";
+
+    return (
+      <div
+        key={item.id}
+        className={`bg-white rounded-lg shadow-sm border overflow-hidden flex flex-col ${
+          item.status === "saved" ? "opacity-60" : ""
+        }`}
+      >
+        <div className="relative aspect-square bg-gray-50">
+          <img
+            src={item.cutoutUrl || item.previewUrl}
+            alt={item.file.name}
+            className="w-full h-full object-cover"
+          />
+          {isBusy && (
+            <div className="absolute inset-0 bg-white bg-opacity-60 flex items-center justify-center">
+              <RefreshCw className="w-6 h-6 animate-spin text-black" />
+            </div>
+          )}
+          {item.status !== "saved" && item.status !== "saving" && (
+            <button
+              type="button"
+              onClick={() => remove(item.id)}
+              className="absolute top-2 right-2 bg-black text-white rounded-full p-1.5 hover:bg-gray-800 transition-colors touch-manipulation"
+              title="Remove from batch"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+
+        <div className="p-3 flex-1 flex flex-col gap-2">
+          <div className="flex items-center justify-between gap-2">
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-montserrat font-medium ${STATUS_STYLES[item.status]}`}
+            >
+              {STATUS_LABELS[item.status]}
+            </span>
+            {item.status === "ready" && item.confidence !== undefined && (
+              <span className="inline-flex items-center gap-1 text-xs font-montserrat text-mejiwoo-gray">
+                <Sparkles className="w-3 h-3" />
+                {Math.round(item.confidence * 100)}%
+              </span>
+            )}
+          </div>
+
+          {item.error && (
+            <p className="flex items-start gap-1 text-xs font-montserrat text-red-700">
+              <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {item.error}
+            </p>
+          )}
+          {item.status === "ready" && item.analysisFailed && (
+            <p className="text-xs font-montserrat text-mejiwoo-gray">
+              Couldn't analyze this photo. Fill in the details.
+            </p>
+          )}
+
+          {isEditable && (
+            <>
+              <select
+                value={item.categoryId ?? ""}
+                onChange={(e) =>
+                  editItem(item.id, {
+                    categoryId: e.target.value ? Number(e.target.value) : null,
+                  })
+                }
+                className={`w-full px-2 py-2 border rounded-lg text-sm font-montserrat focus:ring-2 focus:ring-black focus:border-transparent outline-none ${
+                  item.status === "ready" && item.categoryId === null
+                    ? "border-red-300"
+                    : "border-gray-200"
+                }`}
+              >
+                <option value="">Category *</option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+
+              <div className="flex flex-wrap gap-1">
+                {styleTags.map((tag) => (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => toggleStyleTag(item, tag.id)}
+                    className={`px-2 py-1 rounded-full text-xs font-montserrat font-medium transition-colors touch-manipulation ${
+                      item.styleTagIds.includes(tag.id)
+                        ? "bg-black text-white"
+                        : "bg-gray-100 text-black hover:bg-gray-200"
+                    }`}
+                  >
+                    {tag.name}
+                  </button>
+                ))}
+              </div>
+
+              <input
+                type="text"
+                value={item.color}
+                onChange={(e) => editItem(item.id, { color: e.target.value })}
+                className="w-full px-2 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent outline-none"
+                placeholder="Color"
+              />
+              <input
+                type="text"
+                value={item.subCategory}
+                onChange={(e) =>
+                  editItem(item.id, { subCategory: e.target.value })
+                }
+                className="w-full px-2 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-black focus:border-transparent outline-none"
+                placeholder="Type (e.g. T-shirt)"
+              />
+            </>
+          )}
+
+          <div className="mt-auto flex gap-2 pt-1">
+            {(item.status === "failed" || item.status === "cancelled") && (
+              <button
+                type="button"
+                onClick={() => retry(item.id)}
+                className="flex-1 flex items-center justify-center gap-1 bg-gray-100 text-black px-2 py-1.5 rounded-lg font-montserrat text-xs font-medium hover:bg-gray-200 transition-colors touch-manipulation"
+              >
+                <RefreshCw className="w-3 h-3" />
+                Retry
+              </button>
+            )}
+            {["queued", "uploading", "analyzing"].includes(item.status) && (
+              <button
+                type="button"
+                onClick={() => cancel(item.id)}
+                className="flex-1 flex items-center justify-center gap-1 bg-gray-100 text-black px-2 py-1.5 rounded-lg font-montserrat text-xs font-medium hover:bg-gray-200 transition-colors touch-manipulation"
+              >
+                <Ban className="w-3 h-3" />
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Multi-file Drop Zone */}
+      <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+        <div
+          className="border-2 border-dashed border-gray-300 rounded-lg p-6 sm:p-8 text-center hover:border-gray-400 transition-colors cursor-pointer touch-manipulation"
+          onDrop={handleDrop}
+          onDragOver={(e) => e.preventDefault()}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <UploadIcon className="w-10 h-10 sm:w-12 sm:h-12 text-mejiwoo-gray mx-auto mb-3 sm:mb-4" />
+          <p className="font-montserrat text-black mb-2 text-sm sm:text-base">
+            <span className="hidden sm:inline">
+              Drop a batch of photos here or click to browse
+            </span>
+            <span className="sm:hidden">Tap to select photos</span>
+          </p>
+          <p className="font-montserrat text-xs sm:text-sm text-mejiwoo-gray">
+            Up to {MAX_QUEUE_SIZE} photos. Each one is uploaded and analyzed,
+            then you review them before they're added.
+          </p>
+        </div>
+        <label className="mt-4 flex items-center justify-center gap-2 font-montserrat text-sm text-black cursor-pointer touch-manipulation">
+          <input
+            type="checkbox"
+            checked={createCutouts}
+            onChange={(e) => setCreateCutouts(e.target.checked)}
+            className="w-4 h-4 accent-black"
+          />
+          <Scissors className="w-4 h-4" />
+          Remove backgrounds (for outfit flat-lays)
+        </label>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={(e) => handleFiles(e.target.files)}
+          className="hidden"
+        />
+      </div>
+
+      {items.length > 0 && (
+        <>
+          {/* Batch Summary */}
+          <div className="bg-white rounded-lg shadow-sm border p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="font-montserrat text-sm text-black">
+              <p>
+                {items.length} {items.length === 1 ? "photo" : "photos"}
+                {inProgressCount > 0 && ` • ${inProgressCount} processing`}
+                {savedCount > 0 && ` • ${savedCount} added`}
+              </p>
+              {needsReviewCount > 0 && (
+                <p className="text-xs text-yellow-800 mt-1">
+                  {needsReviewCount}{" "}
+                  {needsReviewCount === 1 ? "photo needs" : "photos need"} a
+                  category and at least one style tag
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {savedCount > 0 && (
+                <button
+                  type="button"
+                  onClick={clearSaved}
+                  className="bg-gray-100 text-black px-4 py-2 rounded-lg font-montserrat text-sm font-medium hover:bg-gray-200 transition-colors touch-manipulation"
+                >
+                  Clear added
+                </button>
+              )}
+              {savedCount > 0 && !hasUnsaved ? (
+                <button
+                  type="button"
+                  onClick={onDone}
+                  className="bg-black text-white px-4 py-2 rounded-lg font-montserrat text-sm font-medium hover:bg-gray-800 transition-colors touch-manipulation"
+                >
+                  Go to Wardrobe
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleCommit}
+                  disabled={completeCount === 0 || isCommitting}
+                  className="flex items-center gap-2 bg-black text-white px-4 py-2 rounded-lg font-montserrat text-sm font-medium hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+                >
+                  {isCommitting ? (
+                    <RefreshCw className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Check className="w-4 h-4" />
+                  )}
+                  Add {completeCount} {completeCount === 1 ? "item" : "items"}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Review Grid */}
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4">
+            {items.map(renderItemCard)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BulkUploadPanel;
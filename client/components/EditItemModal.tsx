@@ -0,0 +1,432 @@
+import React, { useState, useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { X, Check, Upload as UploadIcon, RefreshCw } from "lucide-react";
+import { updateClothingItem } from "../lib/supabase";
+import OptimizedImage from "./OptimizedImage";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  FORMALITY_LABELS,
+} from "../../shared/constants";
+import type {
+  EditItemModalProps,
+  ClothingItemUpdateData,
+} from "../../shared/types";
+
+const EditItemModal: React.FC<EditItemModalProps> = ({
+  isOpen,
+  onClose,
+  item,
+  categories,
+  styleTags,
+  onSave,
+}) => {
+  const [selectedCategory, setSelectedCategory] = useState<number | null>(null);
+  const [selectedStyleTags, setSelectedStyleTags] = useState<number[]>([]);
+  const [brand, setBrand] = useState("");
+  const [color, setColor] = useState("");
+  const [subCategory, setSubCategory] = useState("");
+  const [material, setMaterial] = useState("");
+  const [pattern, setPattern] = useState("");
+  const [formalityScore, setFormalityScore] = useState<number | null>(null);
+  const [purchasePrice, setPurchasePrice] = useState("");
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [purchaseDate, setPurchaseDate] = useState("");
+  const [newImage, setNewImage] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Reset the form whenever a different item is opened
+  useEffect(() => {
+    if (!item) return;
+
+    setSelectedCategory(item.category_id ?? item.category?.id ?? null);
+    setSelectedStyleTags(
+      item.clothing_item_style_tags?.map((tag) => tag.style_tag.id) ||
+        item.style_tag_ids ||
+        [],
+    );
+    setBrand(item.brand || "");
+    setColor(item.color || "");
+    setSubCategory(item.sub_category || "");
+    setMaterial(item.material || "");
+    setPattern(item.pattern || "");
+    setFormalityScore(item.formality_score ?? null);
+    setPurchasePrice(
+      item.purchase_price != null ? String(item.purchase_price) : "",
+    );
+    setCurrency(item.currency || DEFAULT_CURRENCY);
+    setPurchaseDate(item.purchase_date || "");
+    setNewImage(null);
+    setImagePreview(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  }, [item]);
+
+  // Close on Escape while the modal is open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isSaving) {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, isSaving, onClose]);
+
+  if (!isOpen || !item) return null;
+
+  const toggleStyleTag = (tagId: number) => {
+    setSelectedStyleTags((prev) =>
+      prev.includes(tagId)
+        ? prev.filter((id) => id !== tagId)
+        : [...prev, tagId],
+    );
+  };
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && file.type.startsWith("image/")) {
+      setNewImage(file);
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        setImagePreview(e.target?.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedCategory || selectedStyleTags.length === 0) {
+      toast.error("Please choose a category and at least one style tag");
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const updates: ClothingItemUpdateData = {
+        category_id: selectedCategory,
+        style_tag_ids: selectedStyleTags,
+        brand: brand.trim() || null,
+        color: color.trim() || null,
+        sub_category: subCategory.trim() || null,
+        material: material.trim() || null,
+        pattern: pattern.trim() || null,
+        formality_score: formalityScore,
+        purchase_price: purchasePrice ? Number(purchasePrice) : null,
+        currency: purchasePrice ? currency : null,
+        purchase_date: purchaseDate || null,
+      };
+
+      const updatedItem = await updateClothingItem(
+        item.id,
+        item.user_id,
+        updates,
+        newImage || undefined,
+      );
+
+      toast.success("Item updated successfully!");
+      onSave(updatedItem);
+      onClose();
+    } catch (error: any) {
+      console.error("Error updating item:", error);
+      toast.error("Failed to update item. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4"
+      onClick={() => !isSaving && onClose()}
+    >
+      <div
+        className="relative bg-white rounded-xl sm:rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between z-10">
+          <h2 className="font-playfair text-xl sm:text-2xl font-bold text-black">
+            Edit Item
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSaving}
+            className="p-2 rounded-full hover:bg-gray-100 transition-colors disabled:opacity-50"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-6">
+          {/* Image */}
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            <div className="w-40 h-40 rounded-lg overflow-hidden bg-gray-100 flex-shrink-0">
+              {imagePreview ? (
+                <img
+                  src={imagePreview}
+                  alt="New photo preview"
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <OptimizedImage
+                  src={item.image_url}
+                  alt={`${item.brand || ""} ${item.color || ""}`}
+                  width={160}
+                  height={160}
+                  className="w-full h-full"
+                />
+              )}
+            </div>
+            <div className="flex flex-col gap-2 w-full sm:w-auto">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="bg-gray-100 text-black px-4 py-2 rounded-lg font-montserrat font-medium hover:bg-gray-200 transition-colors flex items-center justify-center gap-2 text-sm touch-manipulation min-h-[44px]"
+              >
+                <UploadIcon className="w-4 h-4" />
+                Replace Photo
+              </button>
+              {newImage && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setNewImage(null);
+                    setImagePreview(null);
+                    if (fileInputRef.current) {
+                      fileInputRef.current.value = "";
+                    }
+                  }}
+                  className="text-xs font-montserrat text-mejiwoo-gray hover:text-black transition-colors"
+                >
+                  Keep current photo
+                </button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleImageSelect}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          {/* Category */}
+          <div>
+            <h3 className="font-playfair text-base sm:text-lg font-semibold text-black mb-3">
+              Category *
+            </h3>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {categories.map((category) => (
+                <button
+                  key={category.id}
+                  type="button"
+                  onClick={() => setSelectedCategory(category.id)}
+                  className={`p-2 rounded-lg font-montserrat font-medium transition-colors text-sm touch-manipulation min-h-[44px] ${
+                    selectedCategory === category.id
+                      ? "bg-black text-white"
+                      : "bg-gray-100 text-black hover:bg-gray-200"
+                  }`}
+                >
+                  {category.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Style Tags */}
+          <div>
+            <h3 className="font-playfair text-base sm:text-lg font-semibold text-black mb-3">
+              Style Tags *
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {styleTags.map((tag) => (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => toggleStyleTag(tag.id)}
+                  className={`px-3 py-2 rounded-full font-montserrat font-medium transition-colors flex items-center gap-1 text-sm touch-manipulation ${
+                    selectedStyleTags.includes(tag.id)
+                      ? "bg-black text-white"
+                      : "bg-gray-100 text-black hover:bg-gray-200"
+                  }`}
+                >
+                  {selectedStyleTags.includes(tag.id) && (
+                    <Check className="w-3 h-3" />
+                  )}
+                  {tag.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Details */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            <div>
+              <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                Brand
+              </label>
+              <input
+                type="text"
+                value={brand}
+                onChange={(e) => setBrand(e.target.value)}
+                className="w-full px-3 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm"
+                placeholder="e.g. Nike, Zara, H&M"
+              />
+            </div>
+            <div>
+              <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                Color
+              </label>
+              <input
+                type="text"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="w-full px-3 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm"
+                placeholder="e.g. Black, Navy Blue, Red"
+              />
+            </div>
+            <div>
+              <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                Type
+              </label>
+              <input
+                type="text"
+                value={subCategory}
+                onChange={(e) => setSubCategory(e.target.value)}
+                className="w-full px-3 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm"
+                placeholder="e.g. T-shirt, Chinos, Sneakers"
+              />
+            </div>
+            <div>
+              <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                Material
+              </label>
+              <input
+                type="text"
+                value={material}
+                onChange={(e) => setMaterial(e.target.value)}
+                className="w-full px-3 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm"
+                placeholder="e.g. Cotton, Denim, Wool"
+              />
+            </div>
+            <div>
+              <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                Pattern
+              </label>
+              <input
+                type="text"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                className="w-full px-3 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm"
+                placeholder="e.g. Solid, Striped, Floral"
+              />
+            </div>
+            <div>
+              <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                Formality
+              </label>
+              <select
+                value={formalityScore ?? ""}
+                onChange={(e) =>
+                  setFormalityScore(
+                    e.target.value ? Number(e.target.value) : null,
+                  )
+                }
+                className="w-full px-3 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm font-montserrat"
+              >
+                <option value="">Not set</option>
+                {Object.entries(FORMALITY_LABELS).map(([score, label]) => (
+                  <option key={score} value={score}>
+                    {score} - {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                Purchase Price
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  className="px-2 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm font-montserrat"
+                >
+                  {CURRENCIES.map(({ code }) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  inputMode="decimal"
+                  value={purchasePrice}
+                  onChange={(e) => setPurchasePrice(e.target.value)}
+                  className="w-full min-w-0 px-3 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm"
+                  placeholder="e.g. 49.99"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                Purchase Date
+              </label>
+              <input
+                type="date"
+                value={purchaseDate}
+                onChange={(e) => setPurchaseDate(e.target.value)}
+                className="w-full px-3 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm"
+              />
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="w-full sm:flex-1 bg-gray-100 text-black py-3 rounded-lg font-montserrat font-medium hover:bg-gray-200 transition-colors text-sm touch-manipulation min-h-[44px] order-2 sm:order-1 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={
+                isSaving || !selectedCategory || selectedStyleTags.length === 0
+              }
+              className="w-full sm:flex-1 bg-black text-white py-3 rounded-lg font-montserrat font-medium hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm touch-manipulation min-h-[44px] order-1 sm:order-2 flex items-center justify-center gap-2"
+            >
+              {isSaving ? (
+                <>
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditItemModal;
@@ -0,0 +1,252 @@
+import React from "react";
+import {
+  AlertTriangle,
+  Lightbulb,
+  Palette,
+  ShoppingBag,
+  Sparkles,
+  Star,
+} from "lucide-react";
+import { formatCurrency } from "../../shared/wardrobe-stats";
+import type {
+  BudgetRange,
+  WardrobeAnalysisResults,
+  WardrobeAnalysisType,
+} from "../../shared/types";
+
+interface FocusedAnalysisReportProps {
+  type: Exclude<WardrobeAnalysisType, "full">;
+  results: Partial<WardrobeAnalysisResults>;
+  // The budget the result was requested with; prices are only shown then
+  budget?: BudgetRange;
+}
+
+interface SectionProps {
+  icon: React.ReactNode;
+  title: string;
+  badge: string;
+  children: React.ReactNode;
+}
+
+const Section: React.FC<SectionProps> = ({ icon, title, badge, children }) => (
+  <div className="bg-gray-50 border-l-4 border-black p-4 sm:p-6 rounded-r-lg">
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-4">
+      <h4 className="font-playfair text-lg sm:text-xl font-bold text-black flex items-center gap-2">
+        {icon}
+        <span>{title}</span>
+      </h4>
+      <span className="bg-gray-200 text-black text-xs sm:text-sm px-2 py-1 rounded-full self-start sm:self-auto">
+        {badge}
+      </span>
+    </div>
+    {children}
+  </div>
+);
+
+const Bullet = () => (
+  <span className="w-2 h-2 bg-black rounded-full mt-2 flex-shrink-0"></span>
+);
+
+const iconClass = "w-5 h-5 sm:w-6 sm:h-6 flex-shrink-0";
+const itemClass =
+  "font-montserrat text-sm sm:text-base text-gray-800 flex items-start gap-3";
+
+// The result of a focused analysis (gaps, styling suggestions or colors),
+// laid out like the sections of the full analysis
+const FocusedAnalysisReport: React.FC<FocusedAnalysisReportProps> = ({
+  type,
+  results,
+  budget,
+}) => {
+  const summary = results[type]?.summary;
+
+  const renderGaps = () => {
+    const { gaps, investment_priorities } = results.gaps;
+    return (
+      <>
+        <Section
+          icon={<AlertTriangle className={`${iconClass} text-red-600`} />}
+          title="Wardrobe Gaps"
+          badge={`${gaps.length} items identified`}
+        >
+          {gaps.length === 0 ? (
+            <p className="font-montserrat text-sm text-mejiwoo-gray">
+              No gaps found - your wardrobe covers the essentials.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {gaps.map((gap, index) => (
+                <li key={index} className={itemClass}>
+                  <Bullet />
+                  {gap}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+
+        <Section
+          icon={<ShoppingBag className={`${iconClass} text-yellow-600`} />}
+          title="Investment Priorities"
+          badge={
+            budget
+              ? `${formatCurrency(budget.min, budget.currency)}-${formatCurrency(budget.max, budget.currency)} per item`
+              : `${investment_priorities.length} recommendations`
+          }
+        >
+          {investment_priorities.length === 0 ? (
+            <p className="font-montserrat text-sm text-mejiwoo-gray">
+              {budget
+                ? "Nothing on the shopping list fits this budget. Try a wider range."
+                : "Nothing to buy right now."}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {investment_priorities.map((item, index) => (
+                <li key={index} className={itemClass}>
+                  <Bullet />
+                  <div>
+                    <strong>{item.item}</strong>
+                    {budget && item.estimated_price != null && (
+                      <span className="text-gray-600">
+                        {" "}
+                        (~
+                        {formatCurrency(item.estimated_price, budget.currency)})
+                      </span>
+                    )}{" "}
+                    - {item.reason}
+                    <div className="text-xs text-gray-600 mt-1">
+                      Impact: {item.impact}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      </>
+    );
+  };
+
+  const renderSuggestions = () => {
+    const { styling_opportunities, organization_tips } = results.suggestions;
+    return (
+      <>
+        <Section
+          icon={<Sparkles className={`${iconClass} text-black`} />}
+          title="Outfits to Try"
+          badge={`${styling_opportunities.length} ideas`}
+        >
+          <ul className="space-y-4">
+            {styling_opportunities.map((opportunity, index) => (
+              <li key={index} className={itemClass}>
+                <Bullet />
+                <div>
+                  <strong>{opportunity.outfit_name}</strong>
+                  <span className="text-gray-600">
+                    {" "}
+                    - {opportunity.occasion}
+                  </span>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {opportunity.items.map((item, itemIndex) => (
+                      <span
+                        key={itemIndex}
+                        className="bg-white border border-gray-200 text-xs px-2 py-1 rounded-full"
+                      >
+                        {item}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-600 mt-2">
+                    {opportunity.styling_notes}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Section>
+
+        {organization_tips.length > 0 && (
+          <Section
+            icon={<Star className={`${iconClass} text-purple-600`} />}
+            title="Organization Tips"
+            badge={`${organization_tips.length} tips`}
+          >
+            <ul className="space-y-3">
+              {organization_tips.map((tip, index) => (
+                <li key={index} className={itemClass}>
+                  <Bullet />
+                  {tip}
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+      </>
+    );
+  };
+
+  const renderColors = () => {
+    const { color_analysis, color_pairings } = results.color_analysis;
+    return (
+      <>
+        <Section
+          icon={<Palette className={`${iconClass} text-black`} />}
+          title="Your Palette"
+          badge={`Harmony ${Math.round(color_analysis.harmony_score)}/100`}
+        >
+          <div className="space-y-3 font-montserrat text-sm sm:text-base text-gray-800">
+            <p>
+              <strong>Dominant:</strong>{" "}
+              {color_analysis.dominant_colors.join(", ") || "None yet"}
+            </p>
+            <p>
+              <strong>Missing:</strong>{" "}
+              {color_analysis.missing_colors.join(", ") || "Nothing essential"}
+            </p>
+            <p className="text-gray-600">{color_analysis.recommendations}</p>
+          </div>
+        </Section>
+
+        {color_pairings.length > 0 && (
+          <Section
+            icon={<Lightbulb className={`${iconClass} text-yellow-600`} />}
+            title="Color Pairings"
+            badge={`${color_pairings.length} pairings`}
+          >
+            <ul className="space-y-3">
+              {color_pairings.map((pairing, index) => (
+                <li key={index} className={itemClass}>
+                  <Bullet />
+                  <div>
+                    <strong className="capitalize">
+                      {pairing.colors.join(" + ")}
+                    </strong>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {pairing.notes}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+      </>
+    );
+  };
+
+  if (!results[type]) return null;
+
+  return (
+    <>
+      {summary && (
+        <p className="font-montserrat text-base text-gray-800">{summary}</p>
+      )}
+      {type === "gaps" && renderGaps()}
+      {type === "suggestions" && renderSuggestions()}
+      {type === "color_analysis" && renderColors()}
+    </>
+  );
+};
+
+export default FocusedAnalysisReport;
@@ -1,4 +1,5 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
+import { getThumbnailUrl, THUMBNAIL_DIMENSION } from "../lib/image";
 
 interface OptimizedImageProps {
   src: string;
@@ -6,7 +7,6 @@ interface OptimizedImageProps {
   width?: number;
   height?: number;
   className?: string;
-  quality?: number;
   onLoad?: () => void;
   onError?: () => void;
 }
@@ -17,29 +17,24 @@ const OptimizedImage: React.FC<OptimizedImageProps> = ({
   width = 300,
   height = 400,
   className = "",
-  quality = 80,
   onLoad,
   onError,
 }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
 
-  // Generate optimized image URL for Supabase
-  const getOptimizedImageUrl = useCallback(
-    (url: string) => {
-      if (!url) return "";
+  useEffect(() => {
+    setThumbnailFailed(false);
+  }, [src]);
 
-      // Check if it's a Supabase URL
-      if (url.includes("supabase")) {
-        // Add image transformation parameters
-        const transformations = `?width=${width}&height=${height}&quality=${quality}&format=webp`;
-        return `${url}${transformations}`;
-      }
-
-      return url;
-    },
-    [width, height, quality],
-  );
+  // Small renders use the thumbnail stored next to preprocessed uploads
+  const thumbnailSrc =
+    Math.max(width, height) <= THUMBNAIL_DIMENSION
+      ? getThumbnailUrl(src)
+      : null;
+  const optimizedSrc =
+    thumbnailSrc && !thumbnailFailed ? thumbnailSrc : src || "";
 
   const handleLoad = useCallback(() => {
     setIsLoading(false);
@@ -47,12 +42,15 @@ const OptimizedImage: React.FC<OptimizedImageProps> = ({
   }, [onLoad]);
 
   const handleError = useCallback(() => {
+    // Retry with the full image before showing the error state
+    if (thumbnailSrc && !thumbnailFailed) {
+      setThumbnailFailed(true);
+      return;
+    }
     setIsLoading(false);
     setHasError(true);
     onError?.();
-  }, [onError]);
-
-  const optimizedSrc = getOptimizedImageUrl(src);
+  }, [onError, thumbnailSrc, thumbnailFailed]);
 
   return (
     <div className={`relative overflow-hidden ${className}`}>
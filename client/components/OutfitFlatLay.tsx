@@ -0,0 +1,100 @@
+import React from "react";
+import { getThumbnailUrl } from "../lib/image";
+
+interface FlatLayItem {
+  id: string;
+  image_url: string;
+  cutout_url?: string | null;
+  category?: { name: string } | string;
+}
+
+interface OutfitFlatLayProps {
+  items: FlatLayItem[];
+  className?: string;
+}
+
+// Where each category sits on the flat-lay, as percentages of the board
+interface Slot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  zIndex: number;
+}
+
+const CATEGORY_SLOTS: Record<string, Slot> = {
+  Outerwear: { x: 4, y: 6, width: 38, height: 52, zIndex: 1 },
+  Tops: { x: 31, y: 4, width: 38, height: 40, zIndex: 3 },
+  Activewear: { x: 31, y: 4, width: 38, height: 40, zIndex: 3 },
+  Dresses: { x: 28, y: 4, width: 44, height: 68, zIndex: 3 },
+  Bottoms: { x: 33, y: 40, width: 34, height: 44, zIndex: 2 },
+  Shoes: { x: 62, y: 70, width: 30, height: 24, zIndex: 4 },
+  Accessories: { x: 70, y: 8, width: 24, height: 26, zIndex: 4 },
+};
+
+const FALLBACK_SLOT: Slot = { x: 6, y: 64, width: 26, height: 30, zIndex: 4 };
+
+// Later items sharing a slot are nudged so they don't fully overlap
+const SLOT_OFFSET = 8;
+
+const getCategoryName = (item: FlatLayItem) =>
+  typeof item.category === "string" ? item.category : item.category?.name;
+
+// Lays an outfit out like a styled flat-lay: cut-outs float on the board,
+// items without one are shown as small photo tiles in their slot
+const OutfitFlatLay: React.FC<OutfitFlatLayProps> = ({
+  items,
+  className = "",
+}) => {
+  const slotUsage: Record<string, number> = {};
+
+  return (
+    <div
+      className={`relative w-full aspect-square bg-gray-50 rounded-xl overflow-hidden ${className}`}
+    >
+      {items.map((item) => {
+        const categoryName = getCategoryName(item) || "Other";
+        const slot = CATEGORY_SLOTS[categoryName] || FALLBACK_SLOT;
+        const usage = slotUsage[categoryName] || 0;
+        slotUsage[categoryName] = usage + 1;
+
+        const style: React.CSSProperties = {
+          left: `${Math.min(slot.x + usage * SLOT_OFFSET, 100 - slot.width)}%`,
+          top: `${Math.min(slot.y + usage * SLOT_OFFSET, 100 - slot.height)}%`,
+          width: `${slot.width}%`,
+          height: `${slot.height}%`,
+          zIndex: slot.zIndex + usage,
+        };
+
+        return (
+          <div key={item.id} className="absolute" style={style}>
+            {item.cutout_url ? (
+              <img
+                src={item.cutout_url}
+                alt={`${categoryName} item`}
+                loading="lazy"
+                className="w-full h-full object-contain drop-shadow-lg"
+              />
+            ) : (
+              <div className="w-full h-full p-2">
+                <img
+                  src={getThumbnailUrl(item.image_url) || item.image_url}
+                  alt={`${categoryName} item`}
+                  loading="lazy"
+                  onError={(e) => {
+                    if (e.currentTarget.src !== item.image_url) {
+                      e.currentTarget.src = item.image_url;
+                    }
+                  }}
+                  className="w-full h-full object-cover rounded-lg shadow-md"
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default OutfitFlatLay;
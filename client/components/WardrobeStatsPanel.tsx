@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  TrendingDown,
+  TrendingUp,
+  Wallet,
+} from "lucide-react";
+import OptimizedImage from "./OptimizedImage";
+import {
+  calculateWardrobeStats,
+  formatCurrency,
+} from "../../shared/wardrobe-stats";
+import type { ClothingItem, ItemValueStats } from "../../shared/types";
+
+interface WardrobeStatsPanelProps {
+  items: ClothingItem[];
+  wearCounts: Record<string, number>;
+  onItemClick?: (item: ClothingItem) => void;
+}
+
+const WardrobeStatsPanel: React.FC<WardrobeStatsPanelProps> = ({
+  items,
+  wearCounts,
+  onItemClick,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const stats = useMemo(
+    () => calculateWardrobeStats(items, wearCounts),
+    [items, wearCounts],
+  );
+
+  const itemsById = useMemo(
+    () => new Map(items.map((item) => [item.id, item])),
+    [items],
+  );
+
+  const renderValueList = (entries: ItemValueStats[], emptyText: string) => {
+    if (entries.length === 0) {
+      return (
+        <p className="font-montserrat text-sm text-mejiwoo-gray">{emptyText}</p>
+      );
+    }
+
+    return (
+      <ul className="space-y-2">
+        {entries.map((entry) => {
+          const item = itemsById.get(entry.item_id);
+          if (!item) return null;
+
+          return (
+            <li key={entry.item_id}>
+              <button
+                onClick={() => onItemClick?.(item)}
+                className="w-full flex items-center gap-3 p-1 rounded-lg hover:bg-gray-50 transition-colors text-left"
+              >
+                <OptimizedImage
+                  src={item.image_url}
+                  alt={`${item.brand || ""} ${item.category?.name || "item"}`}
+                  width={48}
+                  height={48}
+                  className="w-12 h-12 flex-shrink-0"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="font-montserrat text-sm font-medium text-black truncate">
+                    {item.brand || item.sub_category || item.category?.name}
+                  </p>
+                  <p className="font-montserrat text-xs text-mejiwoo-gray">
+                    {entry.wear_count}{" "}
+                    {entry.wear_count === 1 ? "wear" : "wears"} •{" "}
+                    {formatCurrency(entry.purchase_price, entry.currency)}
+                  </p>
+                </div>
+                <span className="font-montserrat text-sm font-semibold text-black whitespace-nowrap">
+                  {formatCurrency(entry.cost_per_wear, entry.currency)}
+                  <span className="text-xs font-normal text-mejiwoo-gray">
+                    /wear
+                  </span>
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border mb-4 sm:mb-6">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-4 sm:p-6"
+      >
+        <h2 className="font-playfair text-lg sm:text-xl font-semibold text-black flex items-center gap-2">
+          <Wallet className="w-5 h-5" />
+          Wardrobe Value
+        </h2>
+        {isExpanded ? (
+          <ChevronUp className="w-5 h-5 text-mejiwoo-gray" />
+        ) : (
+          <ChevronDown className="w-5 h-5 text-mejiwoo-gray" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 sm:px-6 pb-4 sm:pb-6">
+          {stats.priced_items === 0 ? (
+            <p className="font-montserrat text-sm text-mejiwoo-gray">
+              Add a purchase price to your items (Edit Item) to track total
+              wardrobe value and cost per wear.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-6">
+                <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
+                  <p className="font-montserrat text-xs text-mejiwoo-gray mb-1">
+                    Total value
+                  </p>
+                  {Object.entries(stats.total_value).map(
+                    ([currency, total]) => (
+                      <p
+                        key={currency}
+                        className="font-playfair text-lg sm:text-xl font-bold text-black"
+                      >
+                        {formatCurrency(total, currency)}
+                      </p>
+                    ),
+                  )}
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
+                  <p className="font-montserrat text-xs text-mejiwoo-gray mb-1">
+                    Avg. cost per wear
+                  </p>
+                  <p className="font-playfair text-lg sm:text-xl font-bold text-black">
+                    {stats.average_cost_per_wear !== null
+                      ? formatCurrency(
+                          stats.average_cost_per_wear,
+                          stats.primary_currency,
+                        )
+                      : "—"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
+                  <p className="font-montserrat text-xs text-mejiwoo-gray mb-1">
+                    Logged wears
+                  </p>
+                  <p className="font-playfair text-lg sm:text-xl font-bold text-black">
+                    {stats.total_wears}
+                  </p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
+                  <p className="font-montserrat text-xs text-mejiwoo-gray mb-1">
+                    Priced items
+                  </p>
+                  <p className="font-playfair text-lg sm:text-xl font-bold text-black">
+                    {stats.priced_items}/{stats.total_items}
+                  </p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="font-montserrat text-sm font-semibold text-black mb-3 flex items-center gap-2">
+                    <TrendingUp className="w-4 h-4 text-green-600" />
+                    Most worth it
+                  </h3>
+                  {renderValueList(
+                    stats.best_value_items,
+                    "Log what you wear in the calendar to see your best-value pieces.",
+                  )}
+                </div>
+                <div>
+                  <h3 className="font-montserrat text-sm font-semibold text-black mb-3 flex items-center gap-2">
+                    <TrendingDown className="w-4 h-4 text-red-600" />
+                    Least worth it
+                  </h3>
+                  {renderValueList(
+                    stats.worst_value_items,
+                    "Price a few more items to compare them.",
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WardrobeStatsPanel;
@@ -0,0 +1,354 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  uploadClothingImage,
+  uploadCutoutImage,
+  createClothingItem,
+  deleteClothingImage,
+} from "../lib/supabase";
+import type { Category, StyleTag } from "../lib/supabase";
+import { analyzeItemPhoto } from "../lib/item-analysis";
+import { removeBackground } from "../lib/background-removal";
+import { extractItemColors } from "../lib/image";
+import type { ItemColor } from "../../shared/types";
+import { analysisToSuggestions } from "../../shared/item-analysis";
+
+export type QueueItemStatus =
+  | "queued"
+  | "uploading"
+  | "analyzing"
+  | "ready"
+  | "saving"
+  | "saved"
+  | "failed"
+  | "cancelled";
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  status: QueueItemStatus;
+  error?: string;
+  imageUrl?: string;
+  cutoutUrl?: string;
+  colors?: ItemColor[] | null;
+  // Analysis ran but couldn't read the photo; fields need filling by hand
+  analysisFailed?: boolean;
+  confidence?: number;
+  categoryId: number | null;
+  styleTagIds: number[];
+  color: string;
+  subCategory: string;
+  material: string;
+  pattern: string;
+  formalityScore: number | null;
+}
+
+export type QueueItemEdits = Partial<
+  Pick<
+    QueueItem,
+    | "categoryId"
+    | "styleTagIds"
+    | "color"
+    | "subCategory"
+    | "material"
+    | "pattern"
+    | "formalityScore"
+  >
+>;
+
+// Photos processed at once; more than this just contends for bandwidth
+const MAX_CONCURRENT = 2;
+
+// Upper bound on a single batch so a stray folder drop can't swamp the queue
+export const MAX_QUEUE_SIZE = 100;
+
+const ACTIVE_STATUSES: QueueItemStatus[] = ["uploading", "analyzing"];
+
+let nextQueueId = 0;
+
+const createQueueItem = (file: File): QueueItem => ({
+  id: `${Date.now()}-${nextQueueId++}`,
+  file,
+  previewUrl: URL.createObjectURL(file),
+  status: "queued",
+  categoryId: null,
+  styleTagIds: [],
+  color: "",
+  subCategory: "",
+  material: "",
+  pattern: "",
+  formalityScore: null,
+});
+
+// Delete a photo's uploads from storage, for photos that didn't become items
+const deleteUploadedImages = (item: QueueItem) =>
+  [item.imageUrl, item.cutoutUrl]
+    .filter(Boolean)
+    .forEach((url) => deleteClothingImage(url).catch(console.warn));
+
+// An item can be committed once it has the same required fields as the form
+export const isQueueItemComplete = (item: QueueItem) =>
+  item.status === "ready" &&
+  item.categoryId !== null &&
+  item.styleTagIds.length > 0;
+
+// Client-side queue that uploads and analyzes photos, then creates items
+// in one go once the user has reviewed them
+export const useUploadQueue = (
+  userId: string | undefined,
+  categories: Category[],
+  styleTags: StyleTag[],
+  createCutouts = false,
+) => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const itemsRef = useRef<QueueItem[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const createCutoutsRef = useRef(createCutouts);
+
+  itemsRef.current = items;
+  createCutoutsRef.current = createCutouts;
+
+  const updateItem = useCallback((id: string, patch: Partial<QueueItem>) => {
+    setItems((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+    );
+  }, []);
+
+  const processItem = useCallback(
+    async (item: QueueItem) => {
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+      const { signal } = controller;
+
+      let imageUrl = item.imageUrl;
+      try {
+        if (!imageUrl) {
+          updateItem(item.id, { status: "uploading", error: undefined });
+          const [uploadedUrl, colors] = await Promise.all([
+            uploadClothingImage(item.file, userId),
+            extractItemColors(item.file),
+          ]);
+          imageUrl = uploadedUrl;
+          if (signal.aborted) {
+            await deleteClothingImage(imageUrl).catch(console.warn);
+            return;
+          }
+          updateItem(item.id, { imageUrl, colors });
+        }
+
+        if (createCutoutsRef.current && !item.cutoutUrl) {
+          try {
+            const cutout = await removeBackground(item.file);
+            const cutoutUrl = await uploadCutoutImage(cutout, imageUrl);
+            if (signal.aborted) {
+              await deleteClothingImage(cutoutUrl).catch(console.warn);
+              return;
+            }
+            updateItem(item.id, { cutoutUrl });
+          } catch (error) {
+            // Not every photo has a plain backdrop; the item is fine without
+            console.warn("Background removal skipped:", error);
+          }
+        }
+
+        updateItem(item.id, { status: "analyzing", error: undefined });
+        try {
+          const { analysis } = await analyzeItemPhoto(item.file, signal);
+          if (signal.aborted) return;
+          const suggestions = analysisToSuggestions(
+            analysis,
+            categories.length > 0 ? categories : undefined,
+            styleTags.length > 0 ? styleTags : undefined,
+          );
+          // Keep anything the user already picked while the photo was queued
+          setItems((prev) =>
+            prev.map((current) =>
+              current.id === item.id
+                ? {
+                    ...current,
+                    status: "ready",
+                    analysisFailed: false,
+                    confidence: suggestions.confidence,
+                    categoryId:
+                      current.categoryId ?? suggestions.category_id ?? null,
+                    styleTagIds:
+                      current.styleTagIds.length > 0
+                        ? current.styleTagIds
+                        : suggestions.style_tag_ids,
+                    color: current.color || suggestions.color || "",
+                    subCategory:
+                      current.subCategory || suggestions.sub_category || "",
+                    material: current.material || suggestions.material || "",
+                    pattern: current.pattern || suggestions.pattern || "",
+                    formalityScore:
+                      current.formalityScore ??
+                      suggestions.formality_score ??
+                      null,
+                  }
+                : current,
+            ),
+          );
+        } catch (error: any) {
+          if (signal.aborted) return;
+          // The photo is uploaded; analysis is a nice-to-have
+          console.error("Photo analysis failed:", error);
+          updateItem(item.id, { status: "ready", analysisFailed: true });
+        }
+      } catch (error: any) {
+        if (signal.aborted) return;
+        console.error("Upload failed:", error);
+        updateItem(item.id, {
+          status: "failed",
+          error: error.message || "Upload failed",
+        });
+      } finally {
+        if (controllersRef.current.get(item.id) === controller) {
+          controllersRef.current.delete(item.id);
+        }
+      }
+    },
+    [userId, categories, styleTags, updateItem],
+  );
+
+  // Start queued photos whenever a processing slot frees up
+  useEffect(() => {
+    if (!userId) return;
+
+    const activeCount = items.filter((item) =>
+      ACTIVE_STATUSES.includes(item.status),
+    ).length;
+    const next = items
+      .filter(
+        (item) =>
+          item.status === "queued" && !controllersRef.current.has(item.id),
+      )
+      .slice(0, Math.max(0, MAX_CONCURRENT - activeCount));
+
+    next.forEach((item) => {
+      // Claim the slot synchronously so the next render doesn't start it twice
+      updateItem(item.id, { status: "uploading" });
+      processItem(item);
+    });
+  }, [items, userId, processItem, updateItem]);
+
+  // Abort work, free previews and delete unsaved uploads when the page goes
+  // away. Uploads still in flight delete themselves once they see the abort.
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      itemsRef.current.forEach((item) => {
+        URL.revokeObjectURL(item.previewUrl);
+        if (item.status !== "saved" && item.status !== "saving") {
+          deleteUploadedImages(item);
+        }
+      });
+    };
+  }, []);
+
+  // Returns how many files were skipped (not images, or over the limit)
+  const addFiles = useCallback((files: File[]) => {
+    const images = files.filter((file) => file.type.startsWith("image/"));
+    const room = Math.max(0, MAX_QUEUE_SIZE - itemsRef.current.length);
+    const accepted = images.slice(0, room).map(createQueueItem);
+
+    setItems((prev) => [...prev, ...accepted]);
+    return files.length - accepted.length;
+  }, []);
+
+  const retry = useCallback(
+    (id: string) => {
+      updateItem(id, { status: "queued", error: undefined });
+    },
+    [updateItem],
+  );
+
+  const cancel = useCallback(
+    (id: string) => {
+      controllersRef.current.get(id)?.abort();
+      controllersRef.current.delete(id);
+      updateItem(id, { status: "cancelled", error: undefined });
+    },
+    [updateItem],
+  );
+
+  const remove = useCallback((id: string) => {
+    const item = itemsRef.current.find((current) => current.id === id);
+    if (!item) return;
+
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    URL.revokeObjectURL(item.previewUrl);
+    // Uploaded but never saved: don't leave the image behind in storage
+    if (item.status !== "saved") deleteUploadedImages(item);
+    setItems((prev) => prev.filter((current) => current.id !== id));
+  }, []);
+
+  const editItem = useCallback(
+    (id: string, edits: QueueItemEdits) => updateItem(id, edits),
+    [updateItem],
+  );
+
+  const clearSaved = useCallback(() => {
+    itemsRef.current
+      .filter((item) => item.status === "saved")
+      .forEach((item) => URL.revokeObjectURL(item.previewUrl));
+    setItems((prev) => prev.filter((item) => item.status !== "saved"));
+  }, []);
+
+  // Create clothing items for every reviewed photo, one at a time
+  const commit = useCallback(async () => {
+    const toSave = itemsRef.current.filter(isQueueItemComplete);
+    let saved = 0;
+
+    setIsCommitting(true);
+    try {
+      for (const item of toSave) {
+        updateItem(item.id, { status: "saving", error: undefined });
+        try {
+          await createClothingItem(
+            userId,
+            item.imageUrl,
+            item.categoryId,
+            item.styleTagIds,
+            undefined,
+            item.color.trim() || item.colors?.[0]?.name || undefined,
+            {
+              colors: item.colors,
+              cutout_url: item.cutoutUrl,
+              sub_category: item.subCategory.trim() || undefined,
+              material: item.material.trim() || undefined,
+              pattern: item.pattern.trim() || undefined,
+              formality_score: item.formalityScore || undefined,
+            },
+          );
+          updateItem(item.id, { status: "saved" });
+          saved++;
+        } catch (error: any) {
+          console.error("Failed to create clothing item:", error);
+          updateItem(item.id, {
+            status: "ready",
+            error: error.message || "Failed to save item",
+          });
+        }
+      }
+    } finally {
+      setIsCommitting(false);
+    }
+
+    return { saved, failed: toSave.length - saved };
+  }, [userId, updateItem]);
+
+  return {
+    items,
+    isCommitting,
+    addFiles,
+    retry,
+    cancel,
+    remove,
+    editItem,
+    clearSaved,
+    commit,
+  };
+};
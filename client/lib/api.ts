@@ -0,0 +1,59 @@
+import {
+  ApiError,
+  ApiRateLimitError,
+  ApiValidationError,
+  createApiClient,
+} from "../../shared/api-client";
+import { getAuthHeaders } from "./supabase";
+
+// The app's client for /api; every request carries the Supabase session
+export const api = createApiClient({ getHeaders: getAuthHeaders });
+
+// Toast text for a failed API call, picked by the error envelope's code.
+// `action` completes "Failed to ..." for errors without a specific message.
+export const describeApiError = (
+  error: unknown,
+  action: string,
+): { message: string; description?: string } => {
+  if (!(error instanceof ApiError)) {
+    return { message: `Failed to ${action}. Please try again.` };
+  }
+
+  switch (error.code) {
+    case "RATE_LIMITED": {
+      const { retryAfterSeconds } = error as ApiRateLimitError;
+      return {
+        message: "You've reached the AI stylist's limit for now.",
+        description: retryAfterSeconds
+          ? `Try again in ${Math.ceil(retryAfterSeconds / 60)} min.`
+          : "Please try again later.",
+      };
+    }
+    case "AI_UNAVAILABLE":
+      return {
+        message:
+          "AI service is currently unavailable. Please check your API configuration and try again.",
+        description:
+          "Make sure AI_PROVIDER and its settings are properly set in the .env file.",
+      };
+    case "UNAUTHENTICATED":
+      return { message: "Your session has expired. Please sign in again." };
+    case "VALIDATION_FAILED": {
+      const [issue] = (error as ApiValidationError).issues;
+      return {
+        message: `Failed to ${action}: the request was invalid.`,
+        description: issue ? `${issue.path}: ${issue.message}` : undefined,
+      };
+    }
+    case "WARDROBE_TOO_SMALL":
+    case "NOT_FOUND":
+      return { message: error.message };
+    default:
+      return {
+        message: `Failed to ${action}. Please try again.`,
+        description: error.requestId
+          ? `Reference: ${error.requestId}`
+          : undefined,
+      };
+  }
+};
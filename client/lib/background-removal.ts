@@ -0,0 +1,217 @@
+// In-browser background removal for garment photos (canvas based, CPU only)
+//
+// Wardrobe photos are mostly a single garment on a plain backdrop (a bed, a
+// wall, a floor), so rather than shipping a segmentation model we flood-fill
+// the backdrop from the image border and cut away everything it reaches.
+
+export interface CutoutOptions {
+  // Longest side the cut-out is produced at
+  maxDimension?: number;
+  // How far (in RGB distance) a pixel may drift from the backdrop colour
+  tolerance?: number;
+}
+
+// Below this share of the frame we probably ate the garment itself; above
+// it the backdrop wasn't plain enough to find
+const MIN_FOREGROUND_RATIO = 0.05;
+const MAX_FOREGROUND_RATIO = 0.97;
+
+// Transparent margin kept around the cropped garment, as a share of its size
+const CROP_PADDING = 0.04;
+
+const colorDistance = (
+  data: Uint8ClampedArray,
+  offset: number,
+  color: [number, number, number],
+) => {
+  const dr = data[offset] - color[0];
+  const dg = data[offset + 1] - color[1];
+  const db = data[offset + 2] - color[2];
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+};
+
+// Median colour of the border pixels, which is what the backdrop looks like
+const estimateBackdropColor = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+): [number, number, number] => {
+  const channels: [number[], number[], number[]] = [[], [], []];
+  const sample = (x: number, y: number) => {
+    const offset = (y * width + x) * 4;
+    channels[0].push(data[offset]);
+    channels[1].push(data[offset + 1]);
+    channels[2].push(data[offset + 2]);
+  };
+
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  };
+  return [median(channels[0]), median(channels[1]), median(channels[2])];
+};
+
+// Mark backdrop pixels (1) by flood-filling inwards from the border. Pure so
+// it can be reused on any RGBA buffer.
+export const computeBackgroundMask = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  tolerance = 40,
+): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  const backdrop = estimateBackdropColor(data, width, height);
+  const stack: number[] = [];
+
+  const visit = (index: number) => {
+    if (mask[index]) return;
+    if (colorDistance(data, index * 4, backdrop) > tolerance) return;
+    mask[index] = 1;
+    stack.push(index);
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+
+  while (stack.length > 0) {
+    const index = stack.pop();
+    const x = index % width;
+    if (x > 0) visit(index - 1);
+    if (x < width - 1) visit(index + 1);
+    if (index >= width) visit(index - width);
+    if (index < width * (height - 1)) visit(index + width);
+  }
+
+  return mask;
+};
+
+// Soften the cut edge by averaging the mask over each pixel's neighbours
+const featherAlpha = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+): Uint8ClampedArray => {
+  const alpha = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let foreground = 0;
+      let total = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          total++;
+          if (!mask[ny * width + nx]) foreground++;
+        }
+      }
+      alpha[y * width + x] = Math.round((foreground / total) * 255);
+    }
+  }
+
+  return alpha;
+};
+
+// Cut the garment out of a photo, returning a cropped transparent PNG.
+// Throws when the photo has no backdrop plain enough to remove.
+export const removeBackground = async (
+  file: Blob,
+  { maxDimension = 1024, tolerance = 40 }: CutoutOptions = {},
+): Promise<Blob> => {
+  const source = await createImageBitmap(file, {
+    imageOrientation: "from-image",
+  });
+  const scale = Math.min(
+    1,
+    maxDimension / Math.max(source.width, source.height),
+  );
+  const width = Math.round(source.width * scale);
+  const height = Math.round(source.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas is not supported in this browser");
+
+  context.drawImage(source, 0, 0, width, height);
+  source.close();
+
+  const imageData = context.getImageData(0, 0, width, height);
+  const mask = computeBackgroundMask(imageData.data, width, height, tolerance);
+  const alpha = featherAlpha(mask, width, height);
+
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  let foreground = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      imageData.data[index * 4 + 3] = alpha[index];
+      if (mask[index]) continue;
+      foreground++;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  const ratio = foreground / (width * height);
+  if (ratio < MIN_FOREGROUND_RATIO || ratio > MAX_FOREGROUND_RATIO) {
+    throw new Error("Couldn't separate the item from its background");
+  }
+
+  context.putImageData(imageData, 0, 0);
+
+  // Crop to the garment so flat-lays can place cut-outs edge to edge
+  const padX = Math.round((maxX - minX) * CROP_PADDING);
+  const padY = Math.round((maxY - minY) * CROP_PADDING);
+  const cropX = Math.max(0, minX - padX);
+  const cropY = Math.max(0, minY - padY);
+  const cropWidth = Math.min(width, maxX + padX + 1) - cropX;
+  const cropHeight = Math.min(height, maxY + padY + 1) - cropY;
+
+  const cropped = document.createElement("canvas");
+  cropped.width = cropWidth;
+  cropped.height = cropHeight;
+  cropped
+    .getContext("2d")
+    .drawImage(
+      canvas,
+      cropX,
+      cropY,
+      cropWidth,
+      cropHeight,
+      0,
+      0,
+      cropWidth,
+      cropHeight,
+    );
+
+  return new Promise((resolve, reject) => {
+    cropped.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode cut-out")),
+      "image/png",
+    );
+  });
+};
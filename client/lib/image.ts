@@ -0,0 +1,200 @@
+import { computeBackgroundMask } from "./background-removal";
+import { extractPalette } from "../../shared/color";
+import type { ItemColor } from "../../shared/types";
+
+// Browser-side image helpers (canvas based, no external services)
+
+// Decode an image file, honouring its EXIF orientation where supported
+const loadImage = async (
+  file: Blob,
+): Promise<ImageBitmap | HTMLImageElement> => {
+  if ("createImageBitmap" in window) {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+      // Fall through to <img> decoding (e.g. older Safari)
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Draw an image onto a canvas so its longest side fits maxDimension
+const drawScaled = (
+  image: ImageBitmap | HTMLImageElement,
+  maxDimension: number,
+): HTMLCanvasElement => {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+
+  context.drawImage(image, 0, 0, width, height);
+  return canvas;
+};
+
+const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality: number,
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode image")),
+      type,
+      quality,
+    );
+  });
+
+// Downscale an image so its longest side fits maxDimension, as a JPEG data URL
+export const resizeImageToDataUrl = async (
+  file: Blob,
+  maxDimension = 1024,
+  quality = 0.85,
+): Promise<string> => {
+  const image = await loadImage(file);
+  const canvas = drawScaled(image, maxDimension);
+  if ("close" in image) image.close();
+
+  return canvas.toDataURL("image/jpeg", quality);
+};
+
+// Longest side of stored wardrobe photos
+export const MAX_IMAGE_DIMENSION = 2048;
+
+// Longest side of the thumbnail stored next to each photo
+export const THUMBNAIL_DIMENSION = 480;
+
+// Storage name suffixes for a preprocessed photo and its thumbnail
+export const PREPROCESSED_SUFFIX = "_opt";
+const THUMBNAIL_SUFFIX = "_thumb";
+
+export interface PreprocessedImage {
+  image: Blob;
+  thumbnail: Blob;
+  // File extension matching the encoded type ("webp", or "jpg" as fallback)
+  extension: string;
+}
+
+// Prepare a photo for upload: apply EXIF orientation, strip metadata (GPS,
+// camera info) by re-encoding through a canvas, cap its size and encode it
+// as WebP, plus a small thumbnail for grids
+export const preprocessImage = async (
+  file: Blob,
+  maxDimension = MAX_IMAGE_DIMENSION,
+  quality = 0.85,
+): Promise<PreprocessedImage> => {
+  const source = await loadImage(file);
+  const imageCanvas = drawScaled(source, maxDimension);
+  const thumbnailCanvas = drawScaled(source, THUMBNAIL_DIMENSION);
+  if ("close" in source) source.close();
+
+  let image = await canvasToBlob(imageCanvas, "image/webp", quality);
+  let thumbnail = await canvasToBlob(thumbnailCanvas, "image/webp", 0.8);
+
+  // Browsers without a WebP encoder silently hand back PNG instead
+  if (image.type !== "image/webp" || thumbnail.type !== "image/webp") {
+    image = await canvasToBlob(imageCanvas, "image/jpeg", quality);
+    thumbnail = await canvasToBlob(thumbnailCanvas, "image/jpeg", 0.8);
+    return { image, thumbnail, extension: "jpg" };
+  }
+
+  return { image, thumbnail, extension: "webp" };
+};
+
+// Storage path of the background-removed PNG kept next to an image
+export const getCutoutPath = (imagePath: string): string =>
+  imagePath.replace(
+    new RegExp(`(${PREPROCESSED_SUFFIX})?\\.[a-z0-9]+$`, "i"),
+    "_cutout.png",
+  );
+
+// Storage path of the thumbnail uploaded alongside a preprocessed image
+export const getThumbnailPath = (imagePath: string): string =>
+  imagePath.replace(
+    new RegExp(`${PREPROCESSED_SUFFIX}(\\.[a-z0-9]+)$`, "i"),
+    `${THUMBNAIL_SUFFIX}$1`,
+  );
+
+// Thumbnail URL for a preprocessed upload; older uploads have none
+export const getThumbnailUrl = (imageUrl: string): string | null => {
+  const url = imageUrl?.split("?")[0];
+  if (!url) return null;
+
+  const thumbnailUrl = getThumbnailPath(url);
+  return thumbnailUrl === url ? null : thumbnailUrl;
+};
+
+// Share of the frame kept when the backdrop can't be told apart
+const CENTER_CROP = 0.6;
+
+// Dominant palette of the garment in a photo, ignoring the backdrop where it
+// can be found and falling back to the middle of the frame otherwise
+export const extractDominantColors = async (
+  file: Blob,
+  sampleSize = 96,
+): Promise<ItemColor[]> => {
+  const source = await loadImage(file);
+  const canvas = drawScaled(source, sampleSize);
+  if ("close" in source) source.close();
+
+  const { width, height } = canvas;
+  const { data } = canvas
+    .getContext("2d", { willReadFrequently: true })
+    .getImageData(0, 0, width, height);
+  const backdrop = computeBackgroundMask(data, width, height);
+  const backdropShare =
+    backdrop.reduce((sum, value) => sum + value, 0) / (width * height);
+  const useMask = backdropShare > 0.03 && backdropShare < 0.95;
+
+  const marginX = Math.floor((width * (1 - CENTER_CROP)) / 2);
+  const marginY = Math.floor((height * (1 - CENTER_CROP)) / 2);
+  const pixels: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (data[index * 4 + 3] < 128) continue;
+      if (
+        useMask
+          ? backdrop[index]
+          : x < marginX ||
+            x >= width - marginX ||
+            y < marginY ||
+            y >= height - marginY
+      ) {
+        continue;
+      }
+      pixels.push(data[index * 4], data[index * 4 + 1], data[index * 4 + 2]);
+    }
+  }
+
+  return extractPalette(pixels);
+};
+
+// Dominant palette of a photo, or null if it can't be read; never throws
+// since colors are a bonus on top of the upload
+export const extractItemColors = async (
+  file: Blob,
+): Promise<ItemColor[] | null> => {
+  try {
+    const colors = await extractDominantColors(file);
+    return colors.length > 0 ? colors : null;
+  } catch (error) {
+    console.warn("Color extraction failed:", error);
+    return null;
+  }
+};
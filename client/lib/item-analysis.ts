@@ -0,0 +1,23 @@
+import { resizeImageToDataUrl } from "./image";
+import { api } from "./api";
+import type { ItemAnalysisResponse } from "../../shared/api-client";
+
+// Ask /api/analyze-item to read category, color, material etc. from a photo.
+// Rejects when the photo itself wasn't read (e.g. AI_PROVIDER=local), since
+// the analysis would only echo the request back.
+export const analyzeItemPhoto = async (
+  file: File,
+  signal?: AbortSignal,
+): Promise<ItemAnalysisResponse> => {
+  // Send a downscaled copy to stay well under the request body limit
+  const imageBase64 = await resizeImageToDataUrl(file);
+
+  const response = await api.analyzeItem(
+    { image_base64: imageBase64, mime_type: "image/jpeg" },
+    { signal },
+  );
+  if (!response.metadata.image_analyzed) {
+    throw new Error("The photo couldn't be analyzed");
+  }
+  return response;
+};
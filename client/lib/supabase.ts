@@ -1,5 +1,15 @@
 import { createClient } from "@supabase/supabase-js";
 import { DEFAULT_CATEGORIES, DEFAULT_STYLE_TAGS } from "../../shared/constants";
+import type { ClothingItemUpdateData, ItemColor } from "../../shared/types";
+import type { AnalysisSnapshot } from "../../shared/analysis-history";
+import { toDateKey } from "./utils";
+import {
+  preprocessImage,
+  getThumbnailPath,
+  getCutoutPath,
+  extractItemColors,
+  PREPROCESSED_SUFFIX,
+} from "./image";
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -34,9 +44,18 @@ export interface ClothingItem {
   id: string;
   user_id: string;
   image_url: string;
+  cutout_url?: string | null;
   category_id: number;
   brand?: string;
   color?: string;
+  colors?: ItemColor[] | null;
+  sub_category?: string;
+  material?: string;
+  pattern?: string;
+  formality_score?: number;
+  purchase_price?: number;
+  currency?: string;
+  purchase_date?: string;
   created_at: string;
   updated_at: string;
   category?: Category;
@@ -61,6 +80,64 @@ export interface ClothingItemWithTags extends ClothingItem {
   }[];
 }
 
+export interface Outfit {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string;
+  occasion?: string;
+  weather?: string;
+  reasoning?: string;
+  styling_tips?: string[];
+  color_analysis?: string;
+  confidence?: number;
+  is_favorite: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OutfitWithItems extends Outfit {
+  outfit_items: {
+    position: number;
+    clothing_item: ClothingItemWithTags;
+  }[];
+}
+
+export interface SaveOutfitData {
+  name: string;
+  description?: string;
+  occasion?: string;
+  weather?: string;
+  reasoning?: string;
+  styling_tips?: string[];
+  color_analysis?: string;
+  confidence?: number;
+  item_ids: string[];
+}
+
+export interface WearLog {
+  id: string;
+  user_id: string;
+  worn_on: string;
+  outfit_id?: string | null;
+  notes?: string | null;
+  created_at: string;
+}
+
+export interface WearLogWithItems extends WearLog {
+  outfit?: { id: string; name: string } | null;
+  wear_log_items: {
+    clothing_item: ClothingItemWithTags;
+  }[];
+}
+
+export interface LogWearData {
+  worn_on: string;
+  outfit_id?: string;
+  item_ids?: string[];
+  notes?: string;
+}
+
 // Helper function to check if Supabase is available
 const checkSupabaseAvailable = () => {
   if (!supabase) {
@@ -102,6 +179,15 @@ export const getCurrentSession = async () => {
   return await client.auth.getSession();
 };
 
+// Authorization header for our API functions, which verify the Supabase
+// session server-side
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const {
+    data: { session },
+  } = await getCurrentSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+};
+
 export const onAuthStateChange = (
   callback: (event: string, session: any) => void,
 ) => {
@@ -262,15 +348,44 @@ export const getClothingItemsByStyle = async (
 
 export const uploadClothingImage = async (file: File, userId: string) => {
   const client = checkSupabaseAvailable();
-  const fileExt = file.name.split(".").pop();
-  const fileName = `${userId}/${Date.now()}.${fileExt}`;
+  // Random suffix keeps parallel bulk uploads from colliding on the same ms
+  const baseName = `${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  let processed = null;
+  try {
+    processed = await preprocessImage(file);
+  } catch (error) {
+    // Formats the browser can't decode (e.g. HEIC outside Safari) go up as-is
+    console.warn("Image preprocessing failed, uploading original:", error);
+  }
+
+  const fileName = processed
+    ? `${baseName}${PREPROCESSED_SUFFIX}.${processed.extension}`
+    : `${baseName}.${file.name.split(".").pop()}`;
 
   const { data, error } = await client.storage
     .from("clothing-images")
-    .upload(fileName, file);
+    .upload(fileName, processed ? processed.image : file, {
+      contentType: processed ? processed.image.type : file.type,
+      cacheControl: "31536000",
+    });
 
   if (error) throw error;
 
+  if (processed) {
+    const { error: thumbnailError } = await client.storage
+      .from("clothing-images")
+      .upload(getThumbnailPath(fileName), processed.thumbnail, {
+        contentType: processed.thumbnail.type,
+        cacheControl: "31536000",
+      });
+
+    // Grids fall back to the full image, so a missing thumbnail isn't fatal
+    if (thumbnailError) {
+      console.warn("Failed to upload thumbnail:", thumbnailError);
+    }
+  }
+
   // Get public URL
   const { data: urlData } = client.storage
     .from("clothing-images")
@@ -279,6 +394,41 @@ export const uploadClothingImage = async (file: File, userId: string) => {
   return urlData.publicUrl;
 };
 
+// Store a background-removed cut-out next to an already uploaded image
+export const uploadCutoutImage = async (cutout: Blob, imageUrl: string) => {
+  const client = checkSupabaseAvailable();
+  const imagePath = getStoragePathFromUrl(imageUrl);
+  if (!imagePath) throw new Error("Image is not in the clothing-images bucket");
+
+  const fileName = getCutoutPath(imagePath);
+  const { error } = await client.storage
+    .from("clothing-images")
+    .upload(fileName, cutout, {
+      contentType: "image/png",
+      cacheControl: "31536000",
+      upsert: true,
+    });
+
+  if (error) throw error;
+
+  const { data: urlData } = client.storage
+    .from("clothing-images")
+    .getPublicUrl(fileName);
+
+  return urlData.publicUrl;
+};
+
+// Remove an uploaded image that never made it into a clothing item
+export const deleteClothingImage = async (imageUrl: string) => {
+  const client = checkSupabaseAvailable();
+  const paths = getStoragePathsForImage(imageUrl);
+  if (paths.length === 0) return;
+
+  const { error } = await client.storage.from("clothing-images").remove(paths);
+
+  if (error) throw error;
+};
+
 export const createClothingItem = async (
   userId: string,
   imageUrl: string,
@@ -286,6 +436,10 @@ export const createClothingItem = async (
   styleTagIds: number[],
   brand?: string,
   color?: string,
+  details?: Omit<
+    ClothingItemUpdateData,
+    "category_id" | "style_tag_ids" | "brand" | "color"
+  >,
 ) => {
   const client = checkSupabaseAvailable();
 
@@ -293,6 +447,7 @@ export const createClothingItem = async (
   const { data: clothingItem, error: itemError } = await client
     .from("clothing_items")
     .insert({
+      ...details,
       user_id: userId,
       image_url: imageUrl,
       category_id: categoryId,
@@ -330,3 +485,414 @@ export const deleteClothingItem = async (itemId: string) => {
 
   if (error) throw error;
 };
+
+// Derive the storage object path from a public clothing-images URL
+const getStoragePathFromUrl = (publicUrl: string): string | null => {
+  const marker = "/clothing-images/";
+  const index = publicUrl.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(
+    publicUrl.slice(index + marker.length).split("?")[0],
+  );
+};
+
+// Storage paths for an image plus its thumbnail, if it has one
+const getStoragePathsForImage = (publicUrl: string): string[] => {
+  const path = getStoragePathFromUrl(publicUrl);
+  if (!path) return [];
+
+  const thumbnailPath = getThumbnailPath(path);
+  return thumbnailPath === path ? [path] : [path, thumbnailPath];
+};
+
+export const updateClothingItem = async (
+  itemId: string,
+  userId: string,
+  updates: ClothingItemUpdateData,
+  newImage?: File,
+): Promise<ClothingItemWithTags> => {
+  const client = checkSupabaseAvailable();
+  const { style_tag_ids: styleTagIds, ...fields } = updates;
+
+  const { data: existingItem, error: existingError } = await client
+    .from("clothing_items")
+    .select("image_url, cutout_url")
+    .eq("id", itemId)
+    .single();
+
+  if (existingError) throw existingError;
+
+  // Upload the replacement image before touching the row
+  const imageUrl = newImage
+    ? await uploadClothingImage(newImage, userId)
+    : undefined;
+  const colors = newImage ? await extractItemColors(newImage) : undefined;
+
+  const { error: itemError } = await client
+    .from("clothing_items")
+    .update({
+      ...fields,
+      // A new photo invalidates the old cut-out
+      ...(imageUrl ? { image_url: imageUrl, cutout_url: null, colors } : {}),
+    })
+    .eq("id", itemId);
+
+  if (itemError) throw itemError;
+
+  // Diff style tag associations instead of replacing them wholesale
+  if (styleTagIds) {
+    const { data: currentTags, error: currentTagsError } = await client
+      .from("clothing_item_style_tags")
+      .select("style_tag_id")
+      .eq("clothing_item_id", itemId);
+
+    if (currentTagsError) throw currentTagsError;
+
+    const currentIds = new Set(currentTags.map((tag) => tag.style_tag_id));
+    const nextIds = new Set(styleTagIds);
+    const tagsToRemove = [...currentIds].filter((id) => !nextIds.has(id));
+    const tagsToAdd = [...nextIds].filter((id) => !currentIds.has(id));
+
+    if (tagsToRemove.length > 0) {
+      const { error: removeError } = await client
+        .from("clothing_item_style_tags")
+        .delete()
+        .eq("clothing_item_id", itemId)
+        .in("style_tag_id", tagsToRemove);
+
+      if (removeError) throw removeError;
+    }
+
+    if (tagsToAdd.length > 0) {
+      const { error: addError } = await client
+        .from("clothing_item_style_tags")
+        .insert(
+          tagsToAdd.map((styleTagId) => ({
+            clothing_item_id: itemId,
+            style_tag_id: styleTagId,
+          })),
+        );
+
+      if (addError) throw addError;
+    }
+  }
+
+  // Remove the replaced image so the bucket doesn't accumulate orphans
+  if (imageUrl && existingItem.image_url) {
+    const oldPaths = [
+      ...getStoragePathsForImage(existingItem.image_url),
+      ...(existingItem.cutout_url
+        ? getStoragePathsForImage(existingItem.cutout_url)
+        : []),
+    ];
+    if (oldPaths.length > 0) {
+      const { error: removeImageError } = await client.storage
+        .from("clothing-images")
+        .remove(oldPaths);
+
+      if (removeImageError) {
+        console.warn("Failed to remove replaced image:", removeImageError);
+      }
+    }
+  }
+
+  const { data: updatedItem, error: fetchError } = await client
+    .from("clothing_items")
+    .select(
+      `
+      *,
+      category:categories(*),
+      clothing_item_style_tags(
+        style_tag:style_tags(*)
+      )
+    `,
+    )
+    .eq("id", itemId)
+    .single();
+
+  if (fetchError) throw fetchError;
+  return updatedItem as ClothingItemWithTags;
+};
+
+const OUTFIT_SELECT = `
+  *,
+  outfit_items(
+    position,
+    clothing_item:clothing_items(
+      *,
+      category:categories(*),
+      clothing_item_style_tags(
+        style_tag:style_tags(*)
+      )
+    )
+  )
+`;
+
+// Keep outfit items in the order they were saved in
+const sortOutfitItems = (outfit: OutfitWithItems): OutfitWithItems => ({
+  ...outfit,
+  outfit_items: [...(outfit.outfit_items || [])]
+    .filter((outfitItem) => outfitItem.clothing_item)
+    .sort((a, b) => a.position - b.position),
+});
+
+export const getUserOutfits = async (
+  userId: string,
+): Promise<OutfitWithItems[]> => {
+  const client = checkSupabaseAvailable();
+  const { data, error } = await client
+    .from("outfits")
+    .select(OUTFIT_SELECT)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as OutfitWithItems[]).map(sortOutfitItems);
+};
+
+export const saveOutfit = async (
+  userId: string,
+  outfit: SaveOutfitData,
+): Promise<OutfitWithItems> => {
+  const client = checkSupabaseAvailable();
+  const { item_ids: itemIds, ...fields } = outfit;
+
+  if (itemIds.length === 0) {
+    throw new Error("An outfit needs at least one item");
+  }
+
+  const { data: savedOutfit, error: outfitError } = await client
+    .from("outfits")
+    .insert({
+      ...fields,
+      user_id: userId,
+    })
+    .select()
+    .single();
+
+  if (outfitError) throw outfitError;
+
+  const { error: itemsError } = await client.from("outfit_items").insert(
+    itemIds.map((clothingItemId, position) => ({
+      outfit_id: savedOutfit.id,
+      clothing_item_id: clothingItemId,
+      position,
+    })),
+  );
+
+  if (itemsError) {
+    // Don't leave an empty outfit behind
+    await client.from("outfits").delete().eq("id", savedOutfit.id);
+    throw itemsError;
+  }
+
+  const { data, error } = await client
+    .from("outfits")
+    .select(OUTFIT_SELECT)
+    .eq("id", savedOutfit.id)
+    .single();
+
+  if (error) throw error;
+  return sortOutfitItems(data as OutfitWithItems);
+};
+
+export const renameOutfit = async (outfitId: string, name: string) => {
+  const client = checkSupabaseAvailable();
+  const { error } = await client
+    .from("outfits")
+    .update({ name })
+    .eq("id", outfitId);
+
+  if (error) throw error;
+};
+
+export const setOutfitFavorite = async (
+  outfitId: string,
+  isFavorite: boolean,
+) => {
+  const client = checkSupabaseAvailable();
+  const { error } = await client
+    .from("outfits")
+    .update({ is_favorite: isFavorite })
+    .eq("id", outfitId);
+
+  if (error) throw error;
+};
+
+export const deleteOutfit = async (outfitId: string) => {
+  const client = checkSupabaseAvailable();
+  const { error } = await client.from("outfits").delete().eq("id", outfitId);
+
+  if (error) throw error;
+};
+
+const WEAR_LOG_SELECT = `
+  *,
+  outfit:outfits(id, name),
+  wear_log_items(
+    clothing_item:clothing_items(
+      *,
+      category:categories(*),
+      clothing_item_style_tags(
+        style_tag:style_tags(*)
+      )
+    )
+  )
+`;
+
+// Wear logs between two dates (inclusive, YYYY-MM-DD)
+export const getWearLogs = async (
+  userId: string,
+  fromDate: string,
+  toDate: string,
+): Promise<WearLogWithItems[]> => {
+  const client = checkSupabaseAvailable();
+  const { data, error } = await client
+    .from("wear_logs")
+    .select(WEAR_LOG_SELECT)
+    .eq("user_id", userId)
+    .gte("worn_on", fromDate)
+    .lte("worn_on", toDate)
+    .order("worn_on", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data as WearLogWithItems[]).map((log) => ({
+    ...log,
+    wear_log_items: (log.wear_log_items || []).filter(
+      (logItem) => logItem.clothing_item,
+    ),
+  }));
+};
+
+export const logWear = async (
+  userId: string,
+  entry: LogWearData,
+): Promise<WearLogWithItems> => {
+  const client = checkSupabaseAvailable();
+  let itemIds = entry.item_ids || [];
+
+  // Logging a saved outfit copies its items into the log
+  if (itemIds.length === 0 && entry.outfit_id) {
+    const { data: outfitItems, error: outfitError } = await client
+      .from("outfit_items")
+      .select("clothing_item_id")
+      .eq("outfit_id", entry.outfit_id);
+
+    if (outfitError) throw outfitError;
+    itemIds = outfitItems.map((outfitItem) => outfitItem.clothing_item_id);
+  }
+
+  if (itemIds.length === 0) {
+    throw new Error("Pick an outfit or at least one item to log");
+  }
+
+  const { data: wearLog, error: logError } = await client
+    .from("wear_logs")
+    .insert({
+      user_id: userId,
+      worn_on: entry.worn_on,
+      outfit_id: entry.outfit_id || null,
+      notes: entry.notes || null,
+    })
+    .select()
+    .single();
+
+  if (logError) throw logError;
+
+  const { error: itemsError } = await client.from("wear_log_items").insert(
+    [...new Set(itemIds)].map((clothingItemId) => ({
+      wear_log_id: wearLog.id,
+      clothing_item_id: clothingItemId,
+    })),
+  );
+
+  if (itemsError) {
+    // Don't leave an empty log entry behind
+    await client.from("wear_logs").delete().eq("id", wearLog.id);
+    throw itemsError;
+  }
+
+  const { data, error } = await client
+    .from("wear_logs")
+    .select(WEAR_LOG_SELECT)
+    .eq("id", wearLog.id)
+    .single();
+
+  if (error) throw error;
+  return data as WearLogWithItems;
+};
+
+export const deleteWearLog = async (wearLogId: string) => {
+  const client = checkSupabaseAvailable();
+  const { error } = await client.from("wear_logs").delete().eq("id", wearLogId);
+
+  if (error) throw error;
+};
+
+// Ids of items worn within the last `days` days (including today)
+export const getRecentlyWornItemIds = async (
+  userId: string,
+  days: number,
+): Promise<string[]> => {
+  const client = checkSupabaseAvailable();
+  const since = new Date();
+  since.setDate(since.getDate() - (days - 1));
+
+  const { data, error } = await client
+    .from("wear_logs")
+    .select("wear_log_items(clothing_item_id)")
+    .eq("user_id", userId)
+    .gte("worn_on", toDateKey(since));
+
+  if (error) throw error;
+
+  const itemIds = new Set<string>();
+  data.forEach((log: any) => {
+    (log.wear_log_items || []).forEach((logItem: any) =>
+      itemIds.add(logItem.clothing_item_id),
+    );
+  });
+  return [...itemIds];
+};
+
+// Number of logged wears per clothing item id
+export const getItemWearCounts = async (
+  userId: string,
+): Promise<Record<string, number>> => {
+  const client = checkSupabaseAvailable();
+  const { data, error } = await client
+    .from("wear_logs")
+    .select("wear_log_items(clothing_item_id)")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const wearCounts: Record<string, number> = {};
+  data.forEach((log: any) => {
+    (log.wear_log_items || []).forEach((logItem: any) => {
+      wearCounts[logItem.clothing_item_id] =
+        (wearCounts[logItem.clothing_item_id] || 0) + 1;
+    });
+  });
+  return wearCounts;
+};
+
+// The user's most recent wardrobe analyses, oldest first
+export const getWardrobeAnalysisHistory = async (
+  userId: string,
+  limit = 30,
+): Promise<AnalysisSnapshot[]> => {
+  const client = checkSupabaseAvailable();
+  const { data, error } = await client
+    .from("wardrobe_analyses")
+    .select(
+      "id, created_at, harmony_score, style_consistency_score, versatility_score, seasonal_coverage, investment_priorities, gaps, item_count",
+    )
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data as AnalysisSnapshot[]).reverse();
+};
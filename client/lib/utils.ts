@@ -4,3 +4,31 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Local calendar date as YYYY-MM-DD (matches Postgres DATE columns)
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+];
+
+// How long ago a timestamp was, e.g. "2 days ago" or "just now"
+export function formatTimeAgo(date: string | Date, now = new Date()): string {
+  const seconds = (now.getTime() - new Date(date).getTime()) / 1000;
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+  for (const [unit, unitSeconds] of RELATIVE_TIME_UNITS) {
+    if (seconds >= unitSeconds) {
+      return format.format(-Math.floor(seconds / unitSeconds), unit);
+    }
+  }
+  return "just now";
+}
@@ -1,4 +1,10 @@
-import React, { useState, useEffect, useMemo, useCallback } from "react";
+import React, {
+  useState,
+  useEffect,
+  useMemo,
+  useCallback,
+  useRef,
+} from "react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import {
@@ -16,29 +22,90 @@ import {
   Upload,
   Plus,
   AlertTriangle,
+  Bookmark,
+  BookmarkCheck,
+  LayoutGrid,
+  Shirt,
+  ChevronLeft,
+  ChevronRight,
+  X,
+  Palette,
 } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
 import {
   getUserClothingItems,
   signOut,
   getCurrentSession,
   onAuthStateChange,
+  saveOutfit,
+  getRecentlyWornItemIds,
+  getWardrobeAnalysisHistory,
 } from "../lib/supabase";
 import type { ClothingItemWithTags } from "../lib/supabase";
+import type {
+  BudgetRange,
+  WardrobeAnalysisResults,
+  WardrobeAnalysisType,
+} from "../../shared/types";
+import {
+  calculateWardrobeStats,
+  formatCurrency,
+} from "../../shared/wardrobe-stats";
+import type { GeneratedOutfit } from "../../shared/api-client";
+import type { AnalysisSnapshot } from "../../shared/analysis-history";
+import { api, describeApiError } from "../lib/api";
+import { formatTimeAgo } from "../lib/utils";
 import OptimizedImage from "../components/OptimizedImage";
+import OutfitFlatLay from "../components/OutfitFlatLay";
+import AnalysisHistory from "../components/AnalysisHistory";
+import FocusedAnalysisReport from "../components/FocusedAnalysisReport";
+
+type OutfitSuggestion = GeneratedOutfit<ClothingItemWithTags>;
+
+// Outfits requested per generation, browsed as a carousel
+const OUTFITS_PER_REQUEST = 3;
 
-interface OutfitSuggestion {
-  id: string;
-  name: string;
+// The wardrobe analysis modes (the API's analysis_type), shown as tabs
+const ANALYSIS_MODES: {
+  type: WardrobeAnalysisType;
+  label: string;
+  title: string;
   description: string;
-  items: ClothingItemWithTags[];
-  occasion: string;
-  weather: string;
-  confidence: number;
-  reasoning: string;
-  styling_tips?: string[];
-  color_analysis?: string;
-  trend_insights?: string;
-}
+  icon: LucideIcon;
+}[] = [
+  {
+    type: "full",
+    label: "Full Analysis",
+    title: "Wardrobe Analysis",
+    description:
+      "Discover gaps in your wardrobe, get personalized shopping recommendations, and find priority items to enhance your style.",
+    icon: TrendingUp,
+  },
+  {
+    type: "gaps",
+    label: "Gaps & Shopping",
+    title: "Wardrobe Gaps",
+    description:
+      "Find the missing pieces that would unlock the most outfits, with a shopping list that fits your budget.",
+    icon: ShoppingBag,
+  },
+  {
+    type: "suggestions",
+    label: "Styling Ideas",
+    title: "Styling Suggestions",
+    description:
+      "Get new outfit ideas and combinations using only pieces you already own.",
+    icon: Lightbulb,
+  },
+  {
+    type: "color_analysis",
+    label: "Colors",
+    title: "Color Analysis",
+    description:
+      "See how well your colors work together and which pairings suit your palette best.",
+    icon: Palette,
+  },
+];
 
 interface StylePreferences {
   occasion: string;
@@ -47,48 +114,6 @@ interface StylePreferences {
   colors: string[];
 }
 
-interface WardrobeAnalysis {
-  overall_score: number;
-  overall_assessment: string;
-  strengths: string[];
-  gaps: string[];
-  color_analysis: {
-    dominant_colors: string[];
-    missing_colors: string[];
-    harmony_score: number;
-    recommendations: string;
-  };
-  style_consistency: {
-    score: number;
-    description: string;
-  };
-  versatility: {
-    score: number;
-    possible_outfits: number;
-    description: string;
-  };
-  seasonal_coverage: {
-    spring: number;
-    summer: number;
-    fall: number;
-    winter: number;
-    recommendations: string;
-  };
-  investment_priorities: Array<{
-    item: string;
-    reason: string;
-    impact: string;
-    priority: number;
-  }>;
-  organization_tips: string[];
-  styling_opportunities: Array<{
-    outfit_name: string;
-    items: string[];
-    occasion: string;
-    styling_notes: string;
-  }>;
-}
-
 export default function AIStylist() {
   const [user, setUser] = useState<any>(null);
   const [clothingItems, setClothingItems] = useState<ClothingItemWithTags[]>(
@@ -97,13 +122,34 @@ export default function AIStylist() {
   const [outfitSuggestions, setOutfitSuggestions] = useState<
     OutfitSuggestion[]
   >([]);
-  const [wardrobeAnalysis, setWardrobeAnalysis] =
-    useState<WardrobeAnalysis | null>(null);
+  const [analysisType, setAnalysisType] =
+    useState<WardrobeAnalysisType>("full");
+  const [analysisResults, setAnalysisResults] = useState<
+    Partial<WardrobeAnalysisResults>
+  >({});
+  // When each result was produced (it may come from the server cache), and
+  // the budget it was requested with
+  const [analyzedAt, setAnalyzedAt] = useState<
+    Partial<Record<WardrobeAnalysisType, string>>
+  >({});
+  const [analysisBudgets, setAnalysisBudgets] = useState<
+    Partial<Record<WardrobeAnalysisType, BudgetRange>>
+  >({});
+  const [budgetInput, setBudgetInput] = useState({ min: "", max: "" });
+  const [analysisHistory, setAnalysisHistory] = useState<AnalysisSnapshot[]>(
+    [],
+  );
   const [isGenerating, setIsGenerating] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<"outfits" | "analysis">("outfits");
+  const [savedOutfitIds, setSavedOutfitIds] = useState<Set<string>>(new Set());
+  const [savingOutfitId, setSavingOutfitId] = useState<string | null>(null);
+  const [showFlatLay, setShowFlatLay] = useState(true);
+  const [activeOutfitIndex, setActiveOutfitIndex] = useState(0);
+  const [skipWornDays, setSkipWornDays] = useState(3);
+  const generationControllerRef = useRef<AbortController | null>(null);
 
   const [preferences, setPreferences] = useState<StylePreferences>({
     occasion: "casual",
@@ -147,6 +193,7 @@ export default function AIStylist() {
   useEffect(() => {
     if (user) {
       loadClothingItems();
+      loadAnalysisHistory();
     }
   }, [user]);
 
@@ -175,6 +222,27 @@ export default function AIStylist() {
     };
   }, [clothingItems]);
 
+  // Budgets are in the currency most of the wardrobe was bought in
+  const wardrobeCurrency = useMemo(
+    () => calculateWardrobeStats(clothingItems, {}).primary_currency,
+    [clothingItems],
+  );
+
+  // Price range per recommended item, once a maximum is entered
+  const budget = useMemo((): BudgetRange | undefined => {
+    const max = Number(budgetInput.max);
+    if (!budgetInput.max || !(max > 0)) return undefined;
+    return {
+      min: Math.min(Number(budgetInput.min) || 0, max),
+      max,
+      currency: wardrobeCurrency,
+    };
+  }, [budgetInput, wardrobeCurrency]);
+
+  const activeMode = ANALYSIS_MODES.find((mode) => mode.type === analysisType);
+  const wardrobeAnalysis = analysisResults.full;
+  const usesBudget = analysisType === "full" || analysisType === "gaps";
+
   const canGenerateOutfits = useMemo(() => {
     return clothingItems.length >= 3;
   }, [clothingItems.length]);
@@ -191,6 +259,17 @@ export default function AIStylist() {
     }
   }, [user]);
 
+  // Past analyses, for the history chart; the page works without them
+  const loadAnalysisHistory = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setAnalysisHistory(await getWardrobeAnalysisHistory(user.id));
+    } catch (error) {
+      console.warn("Could not load analysis history:", error);
+    }
+  }, [user]);
+
   const generateOutfits = useCallback(async () => {
     if (!canGenerateOutfits) {
       toast.error(
@@ -199,6 +278,10 @@ export default function AIStylist() {
       return;
     }
 
+    generationControllerRef.current?.abort();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+
     setIsGenerating(true);
     const loadingToast = toast.loading(
       "AI stylist is creating your perfect outfit...",
@@ -208,49 +291,61 @@ export default function AIStylist() {
     );
 
     // Add timeout to prevent infinite loading
+    let timedOut = false;
     const timeoutId = setTimeout(() => {
-      setIsGenerating(false);
-      toast.dismiss(loadingToast);
-      toast.error("Request timed out. Please try again.");
+      timedOut = true;
+      controller.abort();
     }, 30000); // 30 second timeout
 
     try {
-      const response = await fetch("/api/generate-outfits", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          userId: user.id, // Add userId for caching system
-          items: clothingItems,
+      // Items from the wear log are skipped so suggestions stay fresh
+      let recentlyWorn: string[] = [];
+      if (skipWornDays > 0) {
+        try {
+          recentlyWorn = await getRecentlyWornItemIds(user.id, skipWornDays);
+        } catch (wearLogError) {
+          console.warn("Could not load wear log:", wearLogError);
+        }
+      }
+
+      // Show each outfit as soon as it arrives
+      const received: OutfitSuggestion[] = [];
+      const { note } = await api.streamOutfits<ClothingItemWithTags>(
+        {
           preferences: preferences,
           userProfile: {
             style_inspiration: preferences.style,
             lifestyle: preferences.occasion,
           },
-          maxOutfits: 1,
-        }),
-      });
-
-      clearTimeout(timeoutId);
-      toast.dismiss(loadingToast);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Server error: ${response.status} - ${errorText}`);
-      }
-
-      const data = await response.json();
+          maxOutfits: OUTFITS_PER_REQUEST,
+          exclude_items: recentlyWorn,
+        },
+        {
+          signal: controller.signal,
+          onOutfit: (outfit) => {
+            if (received.length === 0) {
+              toast.dismiss(loadingToast);
+              setActiveOutfitIndex(0);
+              setSavedOutfitIds(new Set());
+            }
+            received.push(outfit);
+            setOutfitSuggestions([...received]);
+          },
+        },
+      );
 
-      if (data.outfits && data.outfits.length > 0) {
-        setOutfitSuggestions(data.outfits);
-        if (data.note) {
-          toast.success("Generated outfit suggestions!", {
-            description: data.note,
+      if (received.length > 0) {
+        const generatedMessage =
+          received.length > 1
+            ? `Generated ${received.length} outfit suggestions!`
+            : "Generated your AI outfit suggestion!";
+        if (note) {
+          toast.success(generatedMessage, {
+            description: note,
             duration: 5000,
           });
         } else {
-          toast.success("Generated your AI outfit suggestion!");
+          toast.success(generatedMessage);
         }
       } else {
         toast.error(
@@ -258,82 +353,152 @@ export default function AIStylist() {
         );
       }
     } catch (error) {
+      if (error.name === "AbortError") {
+        if (timedOut) {
+          toast.error("Request timed out. Please try again.");
+        } else if (generationControllerRef.current === controller) {
+          toast.info("Outfit generation cancelled");
+        }
+        return;
+      }
+
+      console.error("Error generating outfits:", error);
+
+      const { message, description } = describeApiError(
+        error,
+        "generate outfits",
+      );
+      toast.error(message, { description, duration: 6000 });
+    } finally {
       clearTimeout(timeoutId);
       toast.dismiss(loadingToast);
-      console.error("Error generating outfits:", error);
-      
-      if (error.message.includes("500")) {
-        toast.error("AI service is currently unavailable. Please check your API configuration and try again.", {
-          description: "Make sure your GEMINI_API_KEY is properly set in the .env file.",
-          duration: 6000,
-        });
-      } else if (error.message.includes("FUNCTION_INVOCATION_FAILED")) {
-        toast.error("AI function failed to execute. Please check your API key configuration.", {
-          description: "Visit https://aistudio.google.com/app/apikey to get your Gemini API key.",
-          duration: 6000,
-        });
-      } else {
-        toast.error(`Failed to generate outfits: ${error.message}`);
+      // A newer generation may have taken over; leave its state alone
+      if (generationControllerRef.current === controller) {
+        generationControllerRef.current = null;
+        setIsGenerating(false);
       }
-    } finally {
-      setIsGenerating(false);
     }
-  }, [canGenerateOutfits, clothingItems, preferences]);
+  }, [canGenerateOutfits, clothingItems, preferences, skipWornDays, user]);
 
-  const analyzeWardrobe = useCallback(async () => {
-    if (clothingItems.length === 0) {
-      toast.error("Add some clothing items to your wardrobe first!");
-      return;
-    }
+  const cancelGeneration = useCallback(() => {
+    generationControllerRef.current?.abort();
+  }, []);
 
-    setIsAnalyzing(true);
-    setAnalysisProgress(0);
+  // Stop any in-flight stream when leaving the page
+  useEffect(() => () => generationControllerRef.current?.abort(), []);
 
-    // More controlled progress simulation for better visibility
-    const progressInterval = setInterval(() => {
-      setAnalysisProgress((prev) => {
-        if (prev >= 90) return prev;
-        // Smaller, more frequent increments for smoother progress
-        return prev + Math.random() * 8 + 2; // 2-10% increments
-      });
-    }, 150); // Faster updates for smoother animation
+  const handleSaveOutfit = useCallback(
+    async (outfit: OutfitSuggestion) => {
+      if (!user || savedOutfitIds.has(outfit.id)) return;
 
-    try {
-      const response = await fetch("/api/wardrobe-analysis", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          userId: user.id, // Add userId for caching system
-          wardrobe: clothingItems,
-          preferences: preferences,
-        }),
-      });
+      setSavingOutfitId(outfit.id);
+      try {
+        await saveOutfit(user.id, {
+          name: outfit.name,
+          description: outfit.description,
+          occasion: outfit.occasion,
+          weather: outfit.weather,
+          reasoning: outfit.reasoning,
+          styling_tips: outfit.styling_tips,
+          color_analysis: outfit.color_analysis,
+          confidence: outfit.confidence,
+          item_ids: outfit.items.map((item) => item.id),
+        });
+        setSavedOutfitIds((prev) => new Set(prev).add(outfit.id));
+        toast.success("Outfit saved!", {
+          action: {
+            label: "View",
+            onClick: () => navigate("/outfits"),
+          },
+        });
+      } catch (error) {
+        console.error("Error saving outfit:", error);
+        toast.error("Failed to save outfit. Please try again.");
+      } finally {
+        setSavingOutfitId(null);
+      }
+    },
+    [user, savedOutfitIds, navigate],
+  );
 
-      if (!response.ok) {
-        throw new Error("Failed to analyze wardrobe");
+  // refresh skips the server's cached analysis of an unchanged wardrobe
+  const analyzeWardrobe = useCallback(
+    async (refresh?: boolean) => {
+      if (clothingItems.length === 0) {
+        toast.error("Add some clothing items to your wardrobe first!");
+        return;
       }
 
-      const data = await response.json();
-      clearInterval(progressInterval);
-      setAnalysisProgress(100);
+      setIsAnalyzing(true);
+      setAnalysisProgress(0);
+
+      // More controlled progress simulation for better visibility
+      const progressInterval = setInterval(() => {
+        setAnalysisProgress((prev) => {
+          if (prev >= 90) return prev;
+          // Smaller, more frequent increments for smoother progress
+          return prev + Math.random() * 8 + 2; // 2-10% increments
+        });
+      }, 150); // Faster updates for smoother animation
+
+      try {
+        const requestBudget = usesBudget ? budget : undefined;
+        const data = await api.analyzeWardrobe({
+          preferences: preferences,
+          analysis_type: analysisType,
+          budget: requestBudget,
+          refresh,
+        });
+        clearInterval(progressInterval);
+        setAnalysisProgress(100);
 
-      setTimeout(() => {
-        setWardrobeAnalysis(data.analysis);
-        setActiveTab("analysis");
-        toast.success("Wardrobe analysis completed!");
+        setTimeout(() => {
+          setAnalysisResults((prev) => ({
+            ...prev,
+            [analysisType]: data.analysis,
+          }));
+          setAnalyzedAt((prev) => ({
+            ...prev,
+            [analysisType]: data.analyzed_at || new Date().toISOString(),
+          }));
+          setAnalysisBudgets((prev) => ({
+            ...prev,
+            [analysisType]: requestBudget,
+          }));
+          setActiveTab("analysis");
+          if (data.cached) {
+            toast.success("Your wardrobe hasn't changed", {
+              description: `Showing the analysis from ${formatTimeAgo(data.analyzed_at)}.`,
+            });
+          } else {
+            toast.success(`${activeMode.title} completed!`);
+            if (analysisType === "full") loadAnalysisHistory();
+          }
+          setIsAnalyzing(false);
+          setAnalysisProgress(0);
+        }, 800); // Longer delay to show 100% completion
+      } catch (error) {
+        console.error("Error analyzing wardrobe:", error);
+        const { message, description } = describeApiError(
+          error,
+          "analyze wardrobe",
+        );
+        toast.error(message, { description });
+        clearInterval(progressInterval);
         setIsAnalyzing(false);
         setAnalysisProgress(0);
-      }, 800); // Longer delay to show 100% completion
-    } catch (error) {
-      console.error("Error analyzing wardrobe:", error);
-      toast.error("Failed to analyze wardrobe. Please try again.");
-      clearInterval(progressInterval);
-      setIsAnalyzing(false);
-      setAnalysisProgress(0);
-    }
-  }, [clothingItems]);
+      }
+    },
+    [
+      clothingItems,
+      preferences,
+      analysisType,
+      activeMode,
+      usesBudget,
+      budget,
+      loadAnalysisHistory,
+    ],
+  );
 
   const handleSignOut = useCallback(async () => {
     try {
@@ -398,6 +563,14 @@ export default function AIStylist() {
                 <span className="hidden sm:inline">Add Item</span>
               </button>
 
+              <button
+                onClick={() => navigate("/outfits")}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg font-montserrat font-medium hover:bg-gray-200 transition-colors flex items-center gap-2"
+              >
+                <Bookmark className="w-4 h-4" />
+                <span className="hidden sm:inline">Saved Outfits</span>
+              </button>
+
               <button
                 onClick={() => navigate("/dashboard")}
                 className="bg-black text-white px-4 py-2 rounded-lg font-montserrat font-medium hover:bg-gray-800 transition-colors flex items-center gap-2"
@@ -503,7 +676,7 @@ export default function AIStylist() {
                   Style Preferences
                 </h2>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                   <div>
                     <label className="block font-montserrat text-sm font-medium text-black mb-2">
                       Occasion
@@ -570,6 +743,23 @@ export default function AIStylist() {
                       <option value="classic">Classic</option>
                     </select>
                   </div>
+
+                  <div>
+                    <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                      Skip Recently Worn
+                    </label>
+                    <select
+                      value={skipWornDays}
+                      onChange={(e) => setSkipWornDays(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent font-montserrat"
+                    >
+                      <option value={0}>Don't skip</option>
+                      <option value={1}>Worn today</option>
+                      <option value={3}>Last 3 days</option>
+                      <option value={7}>Last week</option>
+                      <option value={14}>Last 2 weeks</option>
+                    </select>
+                  </div>
                 </div>
 
                 {/* Generate Button */}
@@ -591,6 +781,15 @@ export default function AIStylist() {
                       </>
                     )}
                   </button>
+                  {isGenerating && (
+                    <button
+                      onClick={cancelGeneration}
+                      className="mt-3 text-sm font-montserrat text-mejiwoo-gray hover:text-black transition-colors flex items-center gap-1 mx-auto"
+                    >
+                      <X className="w-4 h-4" />
+                      Cancel
+                    </button>
+                  )}
                   {clothingItems.length < 3 && (
                     <p className="text-sm text-mejiwoo-gray mt-3 font-montserrat">
                       You need at least 3 clothing items to generate an outfit.
@@ -611,9 +810,13 @@ export default function AIStylist() {
                   <div className="flex items-center justify-between">
                     <h2 className="font-playfair text-xl font-semibold text-black flex items-center gap-2">
                       <Heart className="w-5 h-5 text-red-500" />
-                      Your AI-Generated Outfit
+                      {outfitSuggestions.length > 1
+                        ? "Your AI-Generated Outfits"
+                        : "Your AI-Generated Outfit"}
                       <span className="text-lg font-normal text-mejiwoo-gray ml-2">
-                        (personalized for you)
+                        {isGenerating
+                          ? "(more on the way...)"
+                          : "(personalized for you)"}
                       </span>
                     </h2>
 
@@ -629,111 +832,216 @@ export default function AIStylist() {
                     </button>
                   </div>
 
-                  <div className="flex justify-center">
-                    {outfitSuggestions.map((outfit) => (
-                      <div
-                        key={outfit.id}
-                        className="bg-white rounded-lg shadow-lg border-2 border-black max-w-3xl w-full"
+                  {outfitSuggestions.length > 1 && (
+                    <div className="flex items-center justify-center gap-4">
+                      <button
+                        onClick={() =>
+                          setActiveOutfitIndex((index) =>
+                            Math.max(index - 1, 0),
+                          )
+                        }
+                        disabled={activeOutfitIndex === 0}
+                        className="p-2 rounded-full border border-gray-200 hover:bg-gray-100 transition-colors disabled:opacity-40"
+                        aria-label="Previous outfit"
                       >
-                        <div className="p-8 border-b-2 border-gray-200">
-                          <div className="flex items-center justify-between mb-4">
-                            <h3 className="font-playfair text-2xl font-bold text-black">
-                              {outfit.name}
-                            </h3>
-                            <div className="flex items-center gap-2 bg-black text-white px-4 py-2 rounded-lg">
-                              <Star className="w-5 h-5 fill-current" />
-                              <span className="text-lg font-montserrat font-semibold">
-                                {Math.round(outfit.confidence * 100)}%
-                              </span>
-                            </div>
-                          </div>
-                          <p className="font-montserrat text-lg text-gray-700 mb-6 leading-relaxed">
-                            {outfit.description}
-                          </p>
+                        <ChevronLeft className="w-5 h-5" />
+                      </button>
+                      <div className="flex items-center gap-2">
+                        {outfitSuggestions.map((outfit, index) => (
+                          <button
+                            key={outfit.id}
+                            onClick={() => setActiveOutfitIndex(index)}
+                            className={`h-2 rounded-full transition-all ${
+                              index === activeOutfitIndex
+                                ? "w-6 bg-black"
+                                : "w-2 bg-gray-300 hover:bg-gray-400"
+                            }`}
+                            aria-label={`Show outfit ${index + 1}`}
+                          />
+                        ))}
+                      </div>
+                      <span className="font-montserrat text-sm text-mejiwoo-gray">
+                        {activeOutfitIndex + 1} of {outfitSuggestions.length}
+                      </span>
+                      <button
+                        onClick={() =>
+                          setActiveOutfitIndex((index) =>
+                            Math.min(index + 1, outfitSuggestions.length - 1),
+                          )
+                        }
+                        disabled={
+                          activeOutfitIndex === outfitSuggestions.length - 1
+                        }
+                        className="p-2 rounded-full border border-gray-200 hover:bg-gray-100 transition-colors disabled:opacity-40"
+                        aria-label="Next outfit"
+                      >
+                        <ChevronRight className="w-5 h-5" />
+                      </button>
+                    </div>
+                  )}
 
-                          <div className="grid grid-cols-3 gap-6 mb-8">
-                            {outfit.items.slice(0, 3).map((item) => (
-                              <div
-                                key={item.id}
-                                className="relative group flex flex-col items-center"
-                              >
-                                <div className="relative w-full aspect-square bg-gray-50 rounded-xl overflow-hidden shadow-sm">
-                                  <OptimizedImage
-                                    src={item.image_url}
-                                    alt={`${item.category} item`}
-                                    width={250}
-                                    height={250}
-                                    className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
-                                  />
-                                  <div className="absolute bottom-3 left-3 bg-black text-white text-xs px-3 py-1.5 rounded-full font-montserrat font-medium shadow-lg">
-                                    {typeof item.category === "string"
-                                      ? item.category
-                                      : item.category?.name}
-                                  </div>
+                  {/* Carousel track: one outfit per slide */}
+                  <div className="max-w-3xl mx-auto overflow-hidden">
+                    <div
+                      className="flex items-start transition-transform duration-300"
+                      style={{
+                        transform: `translateX(-${activeOutfitIndex * 100}%)`,
+                      }}
+                    >
+                      {outfitSuggestions.map((outfit, index) => (
+                        <div
+                          key={outfit.id}
+                          className="bg-white rounded-lg shadow-lg border-2 border-black w-full flex-shrink-0"
+                          aria-hidden={index !== activeOutfitIndex}
+                        >
+                          <div className="p-8 border-b-2 border-gray-200">
+                            <div className="flex items-center justify-between mb-4">
+                              <h3 className="font-playfair text-2xl font-bold text-black">
+                                {outfit.name}
+                              </h3>
+                              <div className="flex items-center gap-2">
+                                <button
+                                  onClick={() => handleSaveOutfit(outfit)}
+                                  disabled={
+                                    savingOutfitId === outfit.id ||
+                                    savedOutfitIds.has(outfit.id)
+                                  }
+                                  className="border-2 border-black text-black px-4 py-2 rounded-lg font-montserrat font-medium hover:bg-gray-100 transition-colors disabled:opacity-60 flex items-center gap-2"
+                                  title="Save to your outfits"
+                                >
+                                  {savedOutfitIds.has(outfit.id) ? (
+                                    <BookmarkCheck className="w-5 h-5" />
+                                  ) : (
+                                    <Bookmark className="w-5 h-5" />
+                                  )}
+                                  {savedOutfitIds.has(outfit.id)
+                                    ? "Saved"
+                                    : savingOutfitId === outfit.id
+                                      ? "Saving..."
+                                      : "Save"}
+                                </button>
+                                <div className="flex items-center gap-2 bg-black text-white px-4 py-2 rounded-lg">
+                                  <Star className="w-5 h-5 fill-current" />
+                                  <span className="text-lg font-montserrat font-semibold">
+                                    {Math.round(outfit.confidence * 100)}%
+                                  </span>
                                 </div>
                               </div>
-                            ))}
-                          </div>
-                        </div>
-
-                        <div className="p-8 space-y-6">
-                          <div className="bg-gray-50 border-l-4 border-black p-6 rounded-r-lg">
-                            <h4 className="font-playfair text-xl font-bold text-black mb-3 flex items-center gap-2">
-                              <span className="w-2 h-2 bg-black rounded-full"></span>
-                              AI Reasoning
-                            </h4>
-                            <p className="font-montserrat text-base text-gray-800 leading-relaxed">
-                              {outfit.reasoning}
+                            </div>
+                            <p className="font-montserrat text-lg text-gray-700 mb-6 leading-relaxed">
+                              {outfit.description}
                             </p>
-                          </div>
 
-                          {outfit.styling_tips &&
-                            outfit.styling_tips.length > 0 && (
-                              <div className="bg-gray-50 border-l-4 border-black p-6 rounded-r-lg">
-                                <h4 className="font-playfair text-xl font-bold text-black mb-4 flex items-center gap-2">
-                                  <Lightbulb className="w-6 h-6 text-black" />
-                                  Styling Tips
-                                </h4>
-                                <ul className="space-y-3">
-                                  {outfit.styling_tips.map((tip, index) => (
-                                    <li
-                                      key={index}
-                                      className="font-montserrat text-base text-gray-800 flex items-start gap-3"
-                                    >
-                                      <span className="w-2 h-2 bg-black rounded-full mt-2 flex-shrink-0"></span>
-                                      {tip}
-                                    </li>
-                                  ))}
-                                </ul>
+                            {outfit.items.some((item) => item.cutout_url) && (
+                              <div className="flex justify-end mb-3">
+                                <button
+                                  onClick={() => setShowFlatLay(!showFlatLay)}
+                                  className="text-sm font-montserrat text-mejiwoo-gray hover:text-black transition-colors flex items-center gap-1"
+                                >
+                                  {showFlatLay ? (
+                                    <LayoutGrid className="w-4 h-4" />
+                                  ) : (
+                                    <Shirt className="w-4 h-4" />
+                                  )}
+                                  {showFlatLay
+                                    ? "Show photos"
+                                    : "Show flat-lay"}
+                                </button>
+                              </div>
+                            )}
+
+                            {showFlatLay &&
+                            outfit.items.some((item) => item.cutout_url) ? (
+                              <OutfitFlatLay
+                                items={outfit.items}
+                                className="max-w-md mx-auto mb-8"
+                              />
+                            ) : (
+                              <div className="grid grid-cols-3 gap-6 mb-8">
+                                {outfit.items.slice(0, 3).map((item) => (
+                                  <div
+                                    key={item.id}
+                                    className="relative group flex flex-col items-center"
+                                  >
+                                    <div className="relative w-full aspect-square bg-gray-50 rounded-xl overflow-hidden shadow-sm">
+                                      <OptimizedImage
+                                        src={item.image_url}
+                                        alt={`${item.category} item`}
+                                        width={250}
+                                        height={250}
+                                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
+                                      />
+                                      <div className="absolute bottom-3 left-3 bg-black text-white text-xs px-3 py-1.5 rounded-full font-montserrat font-medium shadow-lg">
+                                        {typeof item.category === "string"
+                                          ? item.category
+                                          : item.category?.name}
+                                      </div>
+                                    </div>
+                                  </div>
+                                ))}
                               </div>
                             )}
+                          </div>
 
-                          {outfit.color_analysis && (
+                          <div className="p-8 space-y-6">
                             <div className="bg-gray-50 border-l-4 border-black p-6 rounded-r-lg">
                               <h4 className="font-playfair text-xl font-bold text-black mb-3 flex items-center gap-2">
                                 <span className="w-2 h-2 bg-black rounded-full"></span>
-                                Color Analysis
+                                AI Reasoning
                               </h4>
                               <p className="font-montserrat text-base text-gray-800 leading-relaxed">
-                                {outfit.color_analysis}
+                                {outfit.reasoning}
                               </p>
                             </div>
-                          )}
 
-                          {outfit.trend_insights && (
-                            <div className="bg-gray-50 border-l-4 border-black p-6 rounded-r-lg">
-                              <h4 className="font-playfair text-xl font-bold text-black mb-3 flex items-center gap-2">
-                                <TrendingUp className="w-6 h-6 text-black" />
-                                Trend Insights
-                              </h4>
-                              <p className="font-montserrat text-base text-gray-800 leading-relaxed">
-                                {outfit.trend_insights}
-                              </p>
-                            </div>
-                          )}
+                            {outfit.styling_tips &&
+                              outfit.styling_tips.length > 0 && (
+                                <div className="bg-gray-50 border-l-4 border-black p-6 rounded-r-lg">
+                                  <h4 className="font-playfair text-xl font-bold text-black mb-4 flex items-center gap-2">
+                                    <Lightbulb className="w-6 h-6 text-black" />
+                                    Styling Tips
+                                  </h4>
+                                  <ul className="space-y-3">
+                                    {outfit.styling_tips.map((tip, index) => (
+                                      <li
+                                        key={index}
+                                        className="font-montserrat text-base text-gray-800 flex items-start gap-3"
+                                      >
+                                        <span className="w-2 h-2 bg-black rounded-full mt-2 flex-shrink-0"></span>
+                                        {tip}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
+
+                            {outfit.color_analysis && (
+                              <div className="bg-gray-50 border-l-4 border-black p-6 rounded-r-lg">
+                                <h4 className="font-playfair text-xl font-bold text-black mb-3 flex items-center gap-2">
+                                  <span className="w-2 h-2 bg-black rounded-full"></span>
+                                  Color Analysis
+                                </h4>
+                                <p className="font-montserrat text-base text-gray-800 leading-relaxed">
+                                  {outfit.color_analysis}
+                                </p>
+                              </div>
+                            )}
+
+                            {outfit.trend_insights && (
+                              <div className="bg-gray-50 border-l-4 border-black p-6 rounded-r-lg">
+                                <h4 className="font-playfair text-xl font-bold text-black mb-3 flex items-center gap-2">
+                                  <TrendingUp className="w-6 h-6 text-black" />
+                                  Trend Insights
+                                </h4>
+                                <p className="font-montserrat text-base text-gray-800 leading-relaxed">
+                                  {outfit.trend_insights}
+                                </p>
+                              </div>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
                 </div>
               )}
@@ -743,7 +1051,68 @@ export default function AIStylist() {
           {/* Wardrobe Analysis Tab */}
           {activeTab === "analysis" && !isAnalyzing && (
             <div className="space-y-6">
-              {wardrobeAnalysis ? (
+              {/* Analysis modes */}
+              <div className="bg-white rounded-lg shadow-sm border p-2">
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+                  {ANALYSIS_MODES.map(({ type, label, icon: Icon }) => (
+                    <button
+                      key={type}
+                      onClick={() => setAnalysisType(type)}
+                      className={`py-2 px-3 rounded-md font-montserrat text-sm font-medium transition-colors flex items-center justify-center gap-2 ${
+                        analysisType === type
+                          ? "bg-black text-white shadow-sm"
+                          : "text-mejiwoo-gray hover:text-black hover:bg-gray-50"
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {usesBudget && (
+                  <div className="flex flex-wrap items-center gap-2 px-2 pt-3 pb-1 font-montserrat text-sm text-gray-700">
+                    <span>Budget per item ({wardrobeCurrency})</span>
+                    <input
+                      type="number"
+                      min={0}
+                      inputMode="decimal"
+                      placeholder="Min"
+                      aria-label="Minimum price per item"
+                      value={budgetInput.min}
+                      onChange={(e) =>
+                        setBudgetInput((prev) => ({
+                          ...prev,
+                          min: e.target.value,
+                        }))
+                      }
+                      className="w-24 border border-gray-300 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-black"
+                    />
+                    <span>to</span>
+                    <input
+                      type="number"
+                      min={0}
+                      inputMode="decimal"
+                      placeholder="Max"
+                      aria-label="Maximum price per item"
+                      value={budgetInput.max}
+                      onChange={(e) =>
+                        setBudgetInput((prev) => ({
+                          ...prev,
+                          max: e.target.value,
+                        }))
+                      }
+                      className="w-24 border border-gray-300 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-black"
+                    />
+                    <span className="text-xs text-mejiwoo-gray">
+                      {budget
+                        ? "Shopping recommendations will stay in this range."
+                        : "Leave empty for no limit."}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              {analysisResults[analysisType] ? (
                 <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
                   {/* Header */}
                   <div className="bg-gradient-to-r from-black to-gray-800 p-6">
@@ -754,15 +1123,17 @@ export default function AIStylist() {
                         </div>
                         <div>
                           <h3 className="font-playfair text-xl font-bold text-white">
-                            Wardrobe Analysis
+                            {activeMode.title}
                           </h3>
                           <p className="font-montserrat text-sm text-gray-300">
-                            AI-powered insights for your style
+                            {analyzedAt[analysisType]
+                              ? `Last analysed ${formatTimeAgo(analyzedAt[analysisType])}`
+                              : "AI-powered insights for your style"}
                           </p>
                         </div>
                       </div>
                       <button
-                        onClick={analyzeWardrobe}
+                        onClick={() => analyzeWardrobe(true)}
                         disabled={isAnalyzing}
                         className="bg-white bg-opacity-20 text-white px-4 py-2 rounded-lg font-montserrat font-medium hover:bg-opacity-30 transition-colors disabled:opacity-50 flex items-center gap-2"
                       >
@@ -776,92 +1147,115 @@ export default function AIStylist() {
 
                   {/* Content */}
                   <div className="p-8 space-y-6">
-                    {/* Wardrobe Gaps */}
-                    {wardrobeAnalysis.gaps.length > 0 && (
-                      <div className="bg-gray-50 border-l-4 border-black p-4 sm:p-6 rounded-r-lg">
-                        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-4">
-                          <h4 className="font-playfair text-lg sm:text-xl font-bold text-black flex items-center gap-2">
-                            <AlertTriangle className="w-5 h-5 sm:w-6 sm:h-6 text-red-600 flex-shrink-0" />
-                            <span>Wardrobe Gaps</span>
-                          </h4>
-                          <span className="bg-gray-200 text-black text-xs sm:text-sm px-2 py-1 rounded-full self-start sm:self-auto">
-                            {wardrobeAnalysis.gaps.length} items identified
-                          </span>
-                        </div>
-                        <ul className="space-y-3">
-                          {wardrobeAnalysis.gaps.map((gap, index) => (
-                            <li
-                              key={index}
-                              className="font-montserrat text-sm sm:text-base text-gray-800 flex items-start gap-3"
-                            >
-                              <span className="w-2 h-2 bg-black rounded-full mt-2 flex-shrink-0"></span>
-                              {gap}
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
+                    {analysisType !== "full" ? (
+                      <FocusedAnalysisReport
+                        type={analysisType}
+                        results={analysisResults}
+                        budget={analysisBudgets[analysisType]}
+                      />
+                    ) : (
+                      <>
+                        {/* Wardrobe Gaps */}
+                        {wardrobeAnalysis.gaps.length > 0 && (
+                          <div className="bg-gray-50 border-l-4 border-black p-4 sm:p-6 rounded-r-lg">
+                            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-4">
+                              <h4 className="font-playfair text-lg sm:text-xl font-bold text-black flex items-center gap-2">
+                                <AlertTriangle className="w-5 h-5 sm:w-6 sm:h-6 text-red-600 flex-shrink-0" />
+                                <span>Wardrobe Gaps</span>
+                              </h4>
+                              <span className="bg-gray-200 text-black text-xs sm:text-sm px-2 py-1 rounded-full self-start sm:self-auto">
+                                {wardrobeAnalysis.gaps.length} items identified
+                              </span>
+                            </div>
+                            <ul className="space-y-3">
+                              {wardrobeAnalysis.gaps.map((gap, index) => (
+                                <li
+                                  key={index}
+                                  className="font-montserrat text-sm sm:text-base text-gray-800 flex items-start gap-3"
+                                >
+                                  <span className="w-2 h-2 bg-black rounded-full mt-2 flex-shrink-0"></span>
+                                  {gap}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
 
-                    {/* Shopping Recommendations */}
-                    {wardrobeAnalysis.investment_priorities.length > 0 && (
-                      <div className="bg-gray-50 border-l-4 border-black p-4 sm:p-6 rounded-r-lg">
-                        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-4">
-                          <h4 className="font-playfair text-lg sm:text-xl font-bold text-black flex items-center gap-2">
-                            <ShoppingBag className="w-5 h-5 sm:w-6 sm:h-6 text-yellow-600 flex-shrink-0" />
-                            <span>Investment Priorities</span>
-                          </h4>
-                          <span className="bg-gray-200 text-black text-xs sm:text-sm px-2 py-1 rounded-full self-start sm:self-auto">
-                            {wardrobeAnalysis.investment_priorities.length}{" "}
-                            recommendations
-                          </span>
-                        </div>
-                        <ul className="space-y-3">
-                          {wardrobeAnalysis.investment_priorities.map(
-                            (item, index) => (
-                              <li
-                                key={index}
-                                className="font-montserrat text-sm sm:text-base text-gray-800 flex items-start gap-3"
-                              >
-                                <span className="w-2 h-2 bg-black rounded-full mt-2 flex-shrink-0"></span>
-                                <div>
-                                  <strong>{item.item}</strong> - {item.reason}
-                                  <div className="text-xs text-gray-600 mt-1">
-                                    Impact: {item.impact}
-                                  </div>
-                                </div>
-                              </li>
-                            ),
-                          )}
-                        </ul>
-                      </div>
-                    )}
+                        {/* Shopping Recommendations */}
+                        {wardrobeAnalysis.investment_priorities.length > 0 && (
+                          <div className="bg-gray-50 border-l-4 border-black p-4 sm:p-6 rounded-r-lg">
+                            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-4">
+                              <h4 className="font-playfair text-lg sm:text-xl font-bold text-black flex items-center gap-2">
+                                <ShoppingBag className="w-5 h-5 sm:w-6 sm:h-6 text-yellow-600 flex-shrink-0" />
+                                <span>Investment Priorities</span>
+                              </h4>
+                              <span className="bg-gray-200 text-black text-xs sm:text-sm px-2 py-1 rounded-full self-start sm:self-auto">
+                                {wardrobeAnalysis.investment_priorities.length}{" "}
+                                recommendations
+                              </span>
+                            </div>
+                            <ul className="space-y-3">
+                              {wardrobeAnalysis.investment_priorities.map(
+                                (item, index) => (
+                                  <li
+                                    key={index}
+                                    className="font-montserrat text-sm sm:text-base text-gray-800 flex items-start gap-3"
+                                  >
+                                    <span className="w-2 h-2 bg-black rounded-full mt-2 flex-shrink-0"></span>
+                                    <div>
+                                      <strong>{item.item}</strong>
+                                      {analysisBudgets.full &&
+                                        item.estimated_price != null && (
+                                          <span className="text-gray-600">
+                                            {" "}
+                                            (~
+                                            {formatCurrency(
+                                              item.estimated_price,
+                                              analysisBudgets.full.currency,
+                                            )}
+                                            )
+                                          </span>
+                                        )}{" "}
+                                      - {item.reason}
+                                      <div className="text-xs text-gray-600 mt-1">
+                                        Impact: {item.impact}
+                                      </div>
+                                    </div>
+                                  </li>
+                                ),
+                              )}
+                            </ul>
+                          </div>
+                        )}
 
-                    {/* Organization Tips */}
-                    {wardrobeAnalysis.organization_tips.length > 0 && (
-                      <div className="bg-gray-50 border-l-4 border-black p-4 sm:p-6 rounded-r-lg">
-                        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-4">
-                          <h4 className="font-playfair text-lg sm:text-xl font-bold text-black flex items-center gap-2">
-                            <Star className="w-5 h-5 sm:w-6 sm:h-6 text-purple-600 flex-shrink-0" />
-                            <span>Organization Tips</span>
-                          </h4>
-                          <span className="bg-gray-200 text-black text-xs sm:text-sm px-2 py-1 rounded-full self-start sm:self-auto">
-                            {wardrobeAnalysis.organization_tips.length} tips
-                          </span>
-                        </div>
-                        <ul className="space-y-3">
-                          {wardrobeAnalysis.organization_tips.map(
-                            (tip, index) => (
-                              <li
-                                key={index}
-                                className="font-montserrat text-sm sm:text-base text-gray-800 flex items-start gap-3"
-                              >
-                                <span className="w-2 h-2 bg-black rounded-full mt-2 flex-shrink-0"></span>
-                                {tip}
-                              </li>
-                            ),
-                          )}
-                        </ul>
-                      </div>
+                        {/* Organization Tips */}
+                        {wardrobeAnalysis.organization_tips.length > 0 && (
+                          <div className="bg-gray-50 border-l-4 border-black p-4 sm:p-6 rounded-r-lg">
+                            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-4">
+                              <h4 className="font-playfair text-lg sm:text-xl font-bold text-black flex items-center gap-2">
+                                <Star className="w-5 h-5 sm:w-6 sm:h-6 text-purple-600 flex-shrink-0" />
+                                <span>Organization Tips</span>
+                              </h4>
+                              <span className="bg-gray-200 text-black text-xs sm:text-sm px-2 py-1 rounded-full self-start sm:self-auto">
+                                {wardrobeAnalysis.organization_tips.length} tips
+                              </span>
+                            </div>
+                            <ul className="space-y-3">
+                              {wardrobeAnalysis.organization_tips.map(
+                                (tip, index) => (
+                                  <li
+                                    key={index}
+                                    className="font-montserrat text-sm sm:text-base text-gray-800 flex items-start gap-3"
+                                  >
+                                    <span className="w-2 h-2 bg-black rounded-full mt-2 flex-shrink-0"></span>
+                                    {tip}
+                                  </li>
+                                ),
+                              )}
+                            </ul>
+                          </div>
+                        )}
+                      </>
                     )}
                   </div>
                 </div>
@@ -870,12 +1264,12 @@ export default function AIStylist() {
                   <div className="text-center py-12">
                     <TrendingUp className="w-16 h-16 text-mejiwoo-gray mx-auto mb-4" />
                     <h3 className="font-inter text-xl font-semibold text-black mb-2">
-                      Get AI-Powered Wardrobe Insights
+                      {analysisType === "full"
+                        ? "Get AI-Powered Wardrobe Insights"
+                        : activeMode.title}
                     </h3>
                     <p className="font-montserrat text-mejiwoo-gray mb-6 max-w-md mx-auto">
-                      Discover gaps in your wardrobe, get personalized shopping
-                      recommendations, and find priority items to enhance your
-                      style.
+                      {activeMode.description}
                     </p>
                     {clothingItems.length === 0 ? (
                       <div className="space-y-4">
@@ -892,7 +1286,7 @@ export default function AIStylist() {
                       </div>
                     ) : (
                       <button
-                        onClick={analyzeWardrobe}
+                        onClick={() => analyzeWardrobe()}
                         disabled={isAnalyzing}
                         className="bg-black text-white px-6 py-3 rounded-lg font-montserrat font-medium hover:bg-gray-800 transition-colors disabled:opacity-50 inline-flex items-center gap-2"
                       >
@@ -903,6 +1297,10 @@ export default function AIStylist() {
                   </div>
                 </div>
               )}
+
+              {analysisType === "full" && (
+                <AnalysisHistory history={analysisHistory} />
+              )}
             </div>
           )}
         </div>
@@ -1,15 +1,17 @@
 import { useState, useEffect, useMemo, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import {
+  getCategories,
   getStyleTags,
   getClothingItemsByStyle,
   getUserClothingItems,
   signOut,
   getCurrentSession,
   onAuthStateChange,
+  getItemWearCounts,
 } from "../lib/supabase";
 import { toast } from "sonner";
-import type { StyleTag, ClothingItemWithTags } from "../lib/supabase";
+import type { Category, StyleTag, ClothingItemWithTags } from "../lib/supabase";
 import {
   Plus,
   LogOut,
@@ -21,11 +23,22 @@ import {
   Search,
   Trash2,
   X,
+  Pencil,
+  Bookmark,
+  CalendarDays,
 } from "lucide-react";
 import OptimizedImage from "../components/OptimizedImage";
+import WardrobeStatsPanel from "../components/WardrobeStatsPanel";
+import {
+  calculateCostPerWear,
+  formatCurrency,
+} from "../../shared/wardrobe-stats";
+import { DEFAULT_CURRENCY } from "../../shared/constants";
+import EditItemModal from "../components/EditItemModal";
 
 export default function Dashboard() {
   const [user, setUser] = useState<any>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [styleTags, setStyleTags] = useState<StyleTag[]>([]);
   const [selectedStyle, setSelectedStyle] = useState<StyleTag | null>(null);
   const [clothingItems, setClothingItems] = useState<ClothingItemWithTags[]>(
@@ -40,6 +53,10 @@ export default function Dashboard() {
   const [showStyleSuggestions, setShowStyleSuggestions] = useState(false);
   const [selectedImageModal, setSelectedImageModal] =
     useState<ClothingItemWithTags | null>(null);
+  const [editingItem, setEditingItem] = useState<ClothingItemWithTags | null>(
+    null,
+  );
+  const [wearCounts, setWearCounts] = useState<Record<string, number>>({});
   const navigate = useNavigate();
 
   // Memoize expensive calculations
@@ -154,7 +171,7 @@ export default function Dashboard() {
   // Handle keyboard events for modal
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === "Escape" && selectedImageModal) {
+      if (event.key === "Escape" && selectedImageModal && !editingItem) {
         setSelectedImageModal(null);
       }
     };
@@ -171,14 +188,18 @@ export default function Dashboard() {
       document.removeEventListener("keydown", handleKeyDown);
       document.body.style.overflow = "unset";
     };
-  }, [selectedImageModal]);
+  }, [selectedImageModal, editingItem]);
 
   const loadStyleTags = async (currentUser: any = user) => {
     if (!currentUser) return;
 
     try {
-      const tags = await getStyleTags();
+      const [tags, categoriesData] = await Promise.all([
+        getStyleTags(),
+        getCategories(),
+      ]);
       setStyleTags(tags);
+      setCategories(categoriesData);
 
       // Load all items first
       const items = await getUserClothingItems(currentUser.id);
@@ -187,6 +208,13 @@ export default function Dashboard() {
       // Set selectedStyle to null so "All Items" is shown by default
       setSelectedStyle(null);
       setClothingItems(items);
+
+      // Wear counts are optional; the value panel works without them
+      getItemWearCounts(currentUser.id)
+        .then(setWearCounts)
+        .catch((wearError) =>
+          console.warn("Could not load wear counts:", wearError),
+        );
     } catch (error: any) {
       console.error("Error loading style tags:", error);
       if (error.message.includes('relation "style_tags" does not exist')) {
@@ -224,6 +252,30 @@ export default function Dashboard() {
     }
   };
 
+  const handleItemSaved = useCallback(
+    (updatedItem: ClothingItemWithTags) => {
+      const replaceItem = (items: ClothingItemWithTags[]) =>
+        items.map((item) => (item.id === updatedItem.id ? updatedItem : item));
+
+      setAllItems(replaceItem);
+      setClothingItems((prev) => {
+        const items = replaceItem(prev);
+        // Drop the item from a style-filtered view if it lost that tag
+        return selectedStyle
+          ? items.filter((item) =>
+              item.clothing_item_style_tags?.some(
+                (tag) => tag.style_tag.id === selectedStyle.id,
+              ),
+            )
+          : items;
+      });
+      setSelectedImageModal((prev) =>
+        prev?.id === updatedItem.id ? updatedItem : prev,
+      );
+    },
+    [selectedStyle],
+  );
+
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -263,6 +315,15 @@ export default function Dashboard() {
 
   return (
     <>
+      <EditItemModal
+        isOpen={!!editingItem}
+        onClose={() => setEditingItem(null)}
+        item={editingItem}
+        categories={categories}
+        styleTags={styleTags}
+        onSave={handleItemSaved}
+      />
+
       {/* Full Screen Image Modal */}
       {selectedImageModal && (
         <div
@@ -310,17 +371,116 @@ export default function Dashboard() {
                   </div>
 
                   {/* Color */}
-                  {selectedImageModal.color && (
+                  {(selectedImageModal.color ||
+                    selectedImageModal.colors?.length > 0) && (
                     <div className="mb-6">
                       <h3 className="font-playfair text-sm font-semibold text-black mb-3">
                         Color
                       </h3>
-                      <div className="inline-flex items-center bg-gradient-to-r from-mejiwoo-cream to-gray-50 border border-gray-200 px-4 py-2 rounded-lg shadow-sm">
-                        <div className="w-3 h-3 rounded-full bg-gray-400 mr-2 border border-gray-300"></div>
-                        <span className="text-sm font-medium text-black">
-                          {selectedImageModal.color}
-                        </span>
-                      </div>
+                      {selectedImageModal.color && (
+                        <div className="inline-flex items-center bg-gradient-to-r from-mejiwoo-cream to-gray-50 border border-gray-200 px-4 py-2 rounded-lg shadow-sm">
+                          <div
+                            className="w-3 h-3 rounded-full bg-gray-400 mr-2 border border-gray-300"
+                            style={
+                              selectedImageModal.colors?.[0]
+                                ? {
+                                    backgroundColor:
+                                      selectedImageModal.colors[0].hex,
+                                  }
+                                : undefined
+                            }
+                          ></div>
+                          <span className="text-sm font-medium text-black">
+                            {selectedImageModal.color}
+                          </span>
+                        </div>
+                      )}
+                      {selectedImageModal.colors?.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                          {selectedImageModal.colors.map((swatch) => (
+                            <div
+                              key={swatch.hex}
+                              className="flex items-center gap-1.5 text-xs font-montserrat text-mejiwoo-gray"
+                              title={swatch.hex}
+                            >
+                              <span
+                                className="w-4 h-4 rounded-full border border-gray-300"
+                                style={{ backgroundColor: swatch.hex }}
+                              />
+                              {swatch.name} {Math.round(swatch.share * 100)}%
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Item Details */}
+                  {(selectedImageModal.sub_category ||
+                    selectedImageModal.material ||
+                    selectedImageModal.pattern ||
+                    selectedImageModal.formality_score ||
+                    selectedImageModal.purchase_price != null) && (
+                    <div className="mb-6">
+                      <h3 className="font-playfair text-sm font-semibold text-black mb-3">
+                        Details
+                      </h3>
+                      <dl className="grid grid-cols-2 gap-2 text-sm font-montserrat">
+                        {selectedImageModal.sub_category && (
+                          <>
+                            <dt className="text-mejiwoo-gray">Type</dt>
+                            <dd className="text-black">
+                              {selectedImageModal.sub_category}
+                            </dd>
+                          </>
+                        )}
+                        {selectedImageModal.material && (
+                          <>
+                            <dt className="text-mejiwoo-gray">Material</dt>
+                            <dd className="text-black">
+                              {selectedImageModal.material}
+                            </dd>
+                          </>
+                        )}
+                        {selectedImageModal.pattern && (
+                          <>
+                            <dt className="text-mejiwoo-gray">Pattern</dt>
+                            <dd className="text-black">
+                              {selectedImageModal.pattern}
+                            </dd>
+                          </>
+                        )}
+                        {selectedImageModal.formality_score && (
+                          <>
+                            <dt className="text-mejiwoo-gray">Formality</dt>
+                            <dd className="text-black">
+                              {selectedImageModal.formality_score}/5
+                            </dd>
+                          </>
+                        )}
+                        {selectedImageModal.purchase_price != null && (
+                          <>
+                            <dt className="text-mejiwoo-gray">Price</dt>
+                            <dd className="text-black">
+                              {formatCurrency(
+                                Number(selectedImageModal.purchase_price),
+                                selectedImageModal.currency || DEFAULT_CURRENCY,
+                              )}
+                            </dd>
+                            <dt className="text-mejiwoo-gray">Cost per wear</dt>
+                            <dd className="text-black">
+                              {formatCurrency(
+                                calculateCostPerWear(
+                                  Number(selectedImageModal.purchase_price),
+                                  wearCounts[selectedImageModal.id] || 0,
+                                ),
+                                selectedImageModal.currency || DEFAULT_CURRENCY,
+                              )}{" "}
+                              ({wearCounts[selectedImageModal.id] || 0} wears)
+                            </dd>
+                          </>
+                        )}
+                      </dl>
                     </div>
                   )}
 
@@ -349,6 +509,16 @@ export default function Dashboard() {
 
                 {/* Footer - Better mobile layout */}
                 <div className="pt-4 sm:pt-6 border-t border-gray-100 mt-auto">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingItem(selectedImageModal);
+                    }}
+                    className="w-full bg-black text-white py-3 rounded-lg font-montserrat font-medium hover:bg-gray-800 transition-colors flex items-center justify-center gap-2 text-sm touch-manipulation min-h-[44px] mb-3"
+                  >
+                    <Pencil className="w-4 h-4" />
+                    Edit Item
+                  </button>
                   <p className="text-xs text-mejiwoo-gray font-montserrat text-center">
                     Tap outside or swipe down to close
                   </p>
@@ -466,6 +636,26 @@ export default function Dashboard() {
                   </button>
                 )}
 
+                {/* Saved Outfits Button */}
+                <button
+                  onClick={() => navigate("/outfits")}
+                  className="hidden sm:flex bg-gray-100 text-gray-700 px-2 sm:px-3 lg:px-4 py-1.5 sm:py-2 rounded-lg font-montserrat font-medium hover:bg-gray-200 transition-colors items-center gap-1 sm:gap-2 text-xs sm:text-sm"
+                  title="Saved outfits"
+                >
+                  <Bookmark className="w-3 h-3 sm:w-4 sm:h-4" />
+                  <span className="hidden lg:inline">Outfits</span>
+                </button>
+
+                {/* Wear Calendar Button */}
+                <button
+                  onClick={() => navigate("/calendar")}
+                  className="hidden sm:flex bg-gray-100 text-gray-700 px-2 sm:px-3 lg:px-4 py-1.5 sm:py-2 rounded-lg font-montserrat font-medium hover:bg-gray-200 transition-colors items-center gap-1 sm:gap-2 text-xs sm:text-sm"
+                  title="Outfit calendar"
+                >
+                  <CalendarDays className="w-3 h-3 sm:w-4 sm:h-4" />
+                  <span className="hidden lg:inline">Calendar</span>
+                </button>
+
                 {/* AI Stylist Button */}
                 <button
                   onClick={() => navigate("/ai-stylist")}
@@ -749,6 +939,17 @@ export default function Dashboard() {
             </div>
           )}
 
+          {/* Wardrobe Value Stats */}
+          {allItems.length > 0 && !selectedStyle && (
+            <WardrobeStatsPanel
+              items={allItems}
+              wearCounts={wearCounts}
+              onItemClick={(item) =>
+                setSelectedImageModal(item as ClothingItemWithTags)
+              }
+            />
+          )}
+
           {/* Enhanced Clothing Items Display */}
           <div className="mb-6 sm:mb-8">
             {selectedStyle ? (
@@ -936,6 +1137,28 @@ export default function Dashboard() {
               </span>
             </button>
 
+            {/* Saved Outfits */}
+            <button
+              onClick={() => navigate("/outfits")}
+              className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Bookmark className="w-5 h-5 text-black" />
+              <span className="text-xs font-montserrat text-black">
+                Outfits
+              </span>
+            </button>
+
+            {/* Wear Calendar */}
+            <button
+              onClick={() => navigate("/calendar")}
+              className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <CalendarDays className="w-5 h-5 text-black" />
+              <span className="text-xs font-montserrat text-black">
+                Calendar
+              </span>
+            </button>
+
             {/* Manage Items (if items exist) */}
             {allItems.length > 0 && (
               <button
@@ -4,9 +4,11 @@ import {
   getUserClothingItems,
   getCurrentSession,
   deleteClothingItem,
+  getCategories,
+  getStyleTags,
 } from "../lib/supabase";
 import { toast } from "sonner";
-import type { ClothingItemWithTags } from "../lib/supabase";
+import type { Category, StyleTag, ClothingItemWithTags } from "../lib/supabase";
 import {
   ArrowLeft,
   Trash2,
@@ -16,8 +18,10 @@ import {
   List,
   CheckCircle,
   X,
+  Pencil,
 } from "lucide-react";
 import OptimizedImage from "../components/OptimizedImage";
+import EditItemModal from "../components/EditItemModal";
 
 export default function ManageItems() {
   const navigate = useNavigate();
@@ -27,6 +31,11 @@ export default function ManageItems() {
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [isDeleting, setIsDeleting] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [styleTags, setStyleTags] = useState<StyleTag[]>([]);
+  const [editingItem, setEditingItem] = useState<ClothingItemWithTags | null>(
+    null,
+  );
 
   // Filter states
   const [searchQuery, setSearchQuery] = useState("");
@@ -160,8 +169,14 @@ export default function ManageItems() {
 
   const loadItems = async (currentUser: any) => {
     try {
-      const items = await getUserClothingItems(currentUser.id);
+      const [items, categoriesData, styleTagsData] = await Promise.all([
+        getUserClothingItems(currentUser.id),
+        getCategories(),
+        getStyleTags(),
+      ]);
       setAllItems(items);
+      setCategories(categoriesData);
+      setStyleTags(styleTagsData);
     } catch (error: any) {
       toast.error("Failed to load clothing items");
       console.error(error);
@@ -218,6 +233,12 @@ export default function ManageItems() {
     }
   };
 
+  const handleItemSaved = useCallback((updatedItem: ClothingItemWithTags) => {
+    setAllItems((prev) =>
+      prev.map((item) => (item.id === updatedItem.id ? updatedItem : item)),
+    );
+  }, []);
+
   const clearAllFilters = () => {
     setSearchQuery("");
     setDebouncedSearchQuery(""); // Also clear debounced search
@@ -241,6 +262,15 @@ export default function ManageItems() {
 
   return (
     <div className="min-h-screen bg-mejiwoo-cream">
+      <EditItemModal
+        isOpen={!!editingItem}
+        onClose={() => setEditingItem(null)}
+        item={editingItem}
+        categories={categories}
+        styleTags={styleTags}
+        onSave={handleItemSaved}
+      />
+
       {/* Header */}
       <header className="bg-white shadow-sm border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -484,6 +514,16 @@ export default function ManageItems() {
                           : "bg-opacity-0 group-hover:bg-opacity-20"
                       }`}
                     >
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditingItem(item);
+                        }}
+                        className="absolute top-2 left-2 w-8 h-8 bg-white bg-opacity-90 hover:bg-opacity-100 rounded-full flex items-center justify-center shadow-sm opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+                        title="Edit item"
+                      >
+                        <Pencil className="w-4 h-4 text-black" />
+                      </button>
                       <div className="absolute top-2 right-2">
                         <div
                           className={`w-6 h-6 border-2 rounded-full flex items-center justify-center transition-colors ${
@@ -589,6 +629,17 @@ export default function ManageItems() {
                           </div>
                         )}
                     </div>
+
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditingItem(item);
+                      }}
+                      className="p-2 rounded-lg hover:bg-gray-100 transition-colors flex-shrink-0"
+                      title="Edit item"
+                    >
+                      <Pencil className="w-4 h-4 text-black" />
+                    </button>
                   </div>
                 ))}
               </div>
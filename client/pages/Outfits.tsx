@@ -0,0 +1,395 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  getUserOutfits,
+  getCurrentSession,
+  renameOutfit,
+  setOutfitFavorite,
+  deleteOutfit,
+  logWear,
+} from "../lib/supabase";
+import { toDateKey } from "../lib/utils";
+import { toast } from "sonner";
+import type { OutfitWithItems } from "../lib/supabase";
+import {
+  ArrowLeft,
+  Heart,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  Sparkles,
+  Shirt,
+  CalendarCheck,
+} from "lucide-react";
+import OptimizedImage from "../components/OptimizedImage";
+
+export default function Outfits() {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<any>(null);
+  const [outfits, setOutfits] = useState<OutfitWithItems[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const visibleOutfits = useMemo(() => {
+    return showFavoritesOnly
+      ? outfits.filter((outfit) => outfit.is_favorite)
+      : outfits;
+  }, [outfits, showFavoritesOnly]);
+
+  const favoriteCount = useMemo(
+    () => outfits.filter((outfit) => outfit.is_favorite).length,
+    [outfits],
+  );
+
+  useEffect(() => {
+    checkAuthAndLoadData();
+  }, []);
+
+  const checkAuthAndLoadData = async () => {
+    try {
+      const sessionResult = await getCurrentSession();
+
+      if (sessionResult?.data?.session?.user) {
+        setUser(sessionResult.data.session.user);
+        await loadOutfits(sessionResult.data.session.user);
+      } else {
+        navigate("/");
+        return;
+      }
+    } catch (error) {
+      console.error("Auth check failed:", error);
+      navigate("/");
+      return;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadOutfits = async (currentUser: any) => {
+    try {
+      const savedOutfits = await getUserOutfits(currentUser.id);
+      setOutfits(savedOutfits);
+    } catch (error: any) {
+      console.error("Error loading outfits:", error);
+      if (error.message?.includes('relation "outfits" does not exist')) {
+        toast.error(
+          "Database not set up. Please run the database setup script in Supabase.",
+        );
+      } else {
+        toast.error("Failed to load saved outfits");
+      }
+    }
+  };
+
+  const updateOutfit = useCallback(
+    (outfitId: string, changes: Partial<OutfitWithItems>) => {
+      setOutfits((prev) =>
+        prev.map((outfit) =>
+          outfit.id === outfitId ? { ...outfit, ...changes } : outfit,
+        ),
+      );
+    },
+    [],
+  );
+
+  const handleToggleFavorite = async (outfit: OutfitWithItems) => {
+    const isFavorite = !outfit.is_favorite;
+    updateOutfit(outfit.id, { is_favorite: isFavorite });
+
+    try {
+      await setOutfitFavorite(outfit.id, isFavorite);
+    } catch (error) {
+      console.error("Error updating favourite:", error);
+      updateOutfit(outfit.id, { is_favorite: outfit.is_favorite });
+      toast.error("Failed to update favourite");
+    }
+  };
+
+  const startRename = (outfit: OutfitWithItems) => {
+    setRenamingId(outfit.id);
+    setRenameValue(outfit.name);
+  };
+
+  const cancelRename = () => {
+    setRenamingId(null);
+    setRenameValue("");
+  };
+
+  const handleRename = async (outfit: OutfitWithItems) => {
+    const name = renameValue.trim();
+    if (!name || name === outfit.name) {
+      cancelRename();
+      return;
+    }
+
+    try {
+      await renameOutfit(outfit.id, name);
+      updateOutfit(outfit.id, { name });
+      cancelRename();
+    } catch (error) {
+      console.error("Error renaming outfit:", error);
+      toast.error("Failed to rename outfit");
+    }
+  };
+
+  const handleWearToday = async (outfit: OutfitWithItems) => {
+    try {
+      await logWear(user.id, {
+        worn_on: toDateKey(new Date()),
+        outfit_id: outfit.id,
+        item_ids: outfit.outfit_items.map(
+          ({ clothing_item }) => clothing_item.id,
+        ),
+      });
+      toast.success("Logged as worn today", {
+        action: {
+          label: "Calendar",
+          onClick: () => navigate("/calendar"),
+        },
+      });
+    } catch (error) {
+      console.error("Error logging outfit:", error);
+      toast.error("Failed to log outfit. Please try again.");
+    }
+  };
+
+  const handleDelete = async (outfit: OutfitWithItems) => {
+    if (!window.confirm(`Delete "${outfit.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await deleteOutfit(outfit.id);
+      setOutfits((prev) => prev.filter((o) => o.id !== outfit.id));
+      toast.success("Outfit deleted");
+    } catch (error) {
+      console.error("Error deleting outfit:", error);
+      toast.error("Failed to delete outfit. Please try again.");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-mejiwoo-cream flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="font-montserrat text-lg text-mejiwoo-gray">
+            Loading your saved outfits...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-mejiwoo-cream">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => navigate("/dashboard")}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <h1 className="font-playfair text-2xl font-bold text-black">
+                Saved Outfits
+              </h1>
+              <div className="hidden sm:flex items-center gap-2 text-sm text-mejiwoo-gray font-montserrat">
+                <span>{outfits.length} outfits</span>
+                <span>•</span>
+                <span>{favoriteCount} favourites</span>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowFavoritesOnly(!showFavoritesOnly)}
+                className={`px-4 py-2 rounded-lg font-montserrat font-medium transition-colors flex items-center gap-2 ${
+                  showFavoritesOnly
+                    ? "bg-black text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                <Heart
+                  className={`w-4 h-4 ${showFavoritesOnly ? "fill-current" : ""}`}
+                />
+                <span className="hidden sm:inline">Favourites</span>
+              </button>
+              <button
+                onClick={() => navigate("/ai-stylist")}
+                className="bg-purple-600 text-white px-4 py-2 rounded-lg font-montserrat font-medium hover:bg-purple-700 transition-colors flex items-center gap-2"
+              >
+                <Sparkles className="w-4 h-4" />
+                <span className="hidden sm:inline">New Outfit</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {visibleOutfits.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border">
+            <div className="text-center py-12">
+              <Shirt className="w-16 h-16 text-mejiwoo-gray mx-auto mb-4" />
+              <h3 className="font-playfair text-xl font-semibold text-black mb-2">
+                {outfits.length === 0
+                  ? "No Saved Outfits Yet"
+                  : "No Favourite Outfits"}
+              </h3>
+              <p className="font-montserrat text-mejiwoo-gray mb-6 max-w-md mx-auto">
+                {outfits.length === 0
+                  ? "Generate outfits with the AI stylist and save the looks you love."
+                  : "Tap the heart on an outfit to add it to your favourites."}
+              </p>
+              {outfits.length === 0 && (
+                <button
+                  onClick={() => navigate("/ai-stylist")}
+                  className="bg-black text-white px-6 py-3 rounded-lg font-montserrat font-medium hover:bg-gray-800 transition-colors inline-flex items-center gap-2"
+                >
+                  <Sparkles className="w-5 h-5" />
+                  Open AI Stylist
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {visibleOutfits.map((outfit) => (
+              <div
+                key={outfit.id}
+                className="bg-white rounded-lg shadow-sm border overflow-hidden hover:shadow-lg transition-shadow"
+              >
+                {/* Thumbnail grid */}
+                <div className="grid grid-cols-2 gap-0.5 bg-gray-100 aspect-square">
+                  {outfit.outfit_items.slice(0, 4).map(({ clothing_item }) => (
+                    <OptimizedImage
+                      key={clothing_item.id}
+                      src={clothing_item.image_url}
+                      alt={`${clothing_item.color || ""} ${clothing_item.category?.name || "item"}`}
+                      width={200}
+                      height={200}
+                      className="w-full h-full"
+                    />
+                  ))}
+                </div>
+
+                <div className="p-4">
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    {renamingId === outfit.id ? (
+                      <div className="flex items-center gap-1 flex-1 min-w-0">
+                        <input
+                          type="text"
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleRename(outfit);
+                            if (e.key === "Escape") cancelRename();
+                          }}
+                          autoFocus
+                          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-black focus:border-transparent outline-none font-montserrat text-sm"
+                        />
+                        <button
+                          onClick={() => handleRename(outfit)}
+                          className="p-1 rounded-md hover:bg-gray-100"
+                          title="Save name"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={cancelRename}
+                          className="p-1 rounded-md hover:bg-gray-100"
+                          title="Cancel"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <h3 className="font-playfair text-lg font-semibold text-black truncate">
+                        {outfit.name}
+                      </h3>
+                    )}
+                    <button
+                      onClick={() => handleToggleFavorite(outfit)}
+                      className="p-1 rounded-md hover:bg-gray-100 flex-shrink-0"
+                      title={
+                        outfit.is_favorite
+                          ? "Remove from favourites"
+                          : "Add to favourites"
+                      }
+                    >
+                      <Heart
+                        className={`w-5 h-5 ${
+                          outfit.is_favorite
+                            ? "text-red-500 fill-current"
+                            : "text-gray-400"
+                        }`}
+                      />
+                    </button>
+                  </div>
+
+                  {outfit.description && (
+                    <p className="font-montserrat text-sm text-mejiwoo-gray line-clamp-2 mb-3">
+                      {outfit.description}
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-1 mb-4">
+                    {outfit.occasion && (
+                      <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full capitalize">
+                        {outfit.occasion}
+                      </span>
+                    )}
+                    {outfit.weather && (
+                      <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full capitalize">
+                        {outfit.weather}
+                      </span>
+                    )}
+                    <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full">
+                      {outfit.outfit_items.length} items
+                    </span>
+                  </div>
+
+                  <div className="flex items-center justify-between pt-3 border-t border-gray-100">
+                    <span className="text-xs font-montserrat text-mejiwoo-gray">
+                      {new Date(outfit.created_at).toLocaleDateString()}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleWearToday(outfit)}
+                        className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+                        title="Wore it today"
+                      >
+                        <CalendarCheck className="w-4 h-4 text-black" />
+                      </button>
+                      <button
+                        onClick={() => startRename(outfit)}
+                        className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+                        title="Rename outfit"
+                      >
+                        <Pencil className="w-4 h-4 text-black" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(outfit)}
+                        className="p-2 rounded-lg hover:bg-red-50 transition-colors"
+                        title="Delete outfit"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,15 +4,47 @@ import {
   getCategories,
   getStyleTags,
   uploadClothingImage,
+  uploadCutoutImage,
   createClothingItem,
   getCurrentSession,
 } from "../lib/supabase";
 import { toast } from "sonner";
 import type { Category, StyleTag } from "../lib/supabase";
-import { Upload as UploadIcon, X, ArrowLeft, Check } from "lucide-react";
+import {
+  Upload as UploadIcon,
+  X,
+  ArrowLeft,
+  Check,
+  Sparkles,
+  RefreshCw,
+  Image as ImageIcon,
+  Images,
+  Scissors,
+} from "lucide-react";
+import BulkUploadPanel from "../components/BulkUploadPanel";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  FORMALITY_LABELS,
+} from "../../shared/constants";
+import { analyzeItemPhoto } from "../lib/item-analysis";
+import { removeBackground } from "../lib/background-removal";
+import { extractItemColors } from "../lib/image";
+import { analysisToSuggestions } from "../../shared/item-analysis";
+import type { ItemSuggestions } from "../../shared/item-analysis";
+
+type SuggestionField =
+  | "category"
+  | "style_tags"
+  | "color"
+  | "sub_category"
+  | "material"
+  | "pattern"
+  | "formality";
 
 export default function Upload() {
   const [user, setUser] = useState<any>(null);
+  const [uploadMode, setUploadMode] = useState<"single" | "bulk">("single");
   const [categories, setCategories] = useState<Category[]>([]);
   const [styleTags, setStyleTags] = useState<StyleTag[]>([]);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
@@ -21,8 +53,27 @@ export default function Upload() {
   const [selectedStyleTags, setSelectedStyleTags] = useState<number[]>([]);
   const [brand, setBrand] = useState("");
   const [color, setColor] = useState("");
+  const [purchasePrice, setPurchasePrice] = useState("");
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [purchaseDate, setPurchaseDate] = useState("");
+  const [subCategory, setSubCategory] = useState("");
+  const [material, setMaterial] = useState("");
+  const [pattern, setPattern] = useState("");
+  const [formalityScore, setFormalityScore] = useState<number | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [createCutout, setCreateCutout] = useState(false);
+  const [cutout, setCutout] = useState<Blob | null>(null);
+  const [cutoutPreview, setCutoutPreview] = useState<string | null>(null);
+  const [isRemovingBackground, setIsRemovingBackground] = useState(false);
+  const [cutoutFailed, setCutoutFailed] = useState(false);
+  const [isAnalyzingPhoto, setIsAnalyzingPhoto] = useState(false);
+  const [analysisFailed, setAnalysisFailed] = useState(false);
+  const [suggestions, setSuggestions] = useState<ItemSuggestions | null>(null);
+  const [suggestedFields, setSuggestedFields] = useState<SuggestionField[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  // Fields the user filled in by hand; suggestions never overwrite these
+  const touchedFieldsRef = useRef(new Set<SuggestionField>());
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -74,15 +125,63 @@ export default function Upload() {
     }
   };
 
+  // Cancel any in-flight analysis when leaving the page
+  useEffect(() => {
+    return () => analysisControllerRef.current?.abort();
+  }, []);
+
+  // Build the cut-out preview whenever background removal is switched on
+  useEffect(() => {
+    if (!createCutout || !selectedImage) {
+      setCutout(null);
+      setCutoutPreview(null);
+      setCutoutFailed(false);
+      return;
+    }
+
+    let cancelled = false;
+    let previewUrl: string | null = null;
+    setIsRemovingBackground(true);
+    setCutoutFailed(false);
+
+    removeBackground(selectedImage)
+      .then((blob) => {
+        if (cancelled) return;
+        previewUrl = URL.createObjectURL(blob);
+        setCutout(blob);
+        setCutoutPreview(previewUrl);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Background removal failed:", error);
+        setCutout(null);
+        setCutoutPreview(null);
+        setCutoutFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsRemovingBackground(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [createCutout, selectedImage]);
+
+  const selectImage = (file: File) => {
+    setSelectedImage(file);
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setImagePreview(e.target?.result as string);
+    };
+    reader.readAsDataURL(file);
+    analyzePhoto(file);
+  };
+
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      setSelectedImage(file);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setImagePreview(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
+      selectImage(file);
     }
   };
 
@@ -90,13 +189,152 @@ export default function Upload() {
     e.preventDefault();
     const file = e.dataTransfer.files[0];
     if (file && file.type.startsWith("image/")) {
-      setSelectedImage(file);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setImagePreview(e.target?.result as string);
+      selectImage(file);
+    }
+  };
+
+  // Pre-fill the form from /api/analyze-item, leaving hand-filled fields alone
+  const analyzePhoto = async (file: File) => {
+    analysisControllerRef.current?.abort();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+
+    setIsAnalyzingPhoto(true);
+    setAnalysisFailed(false);
+    setSuggestions(null);
+    setSuggestedFields([]);
+
+    try {
+      const { analysis } = await analyzeItemPhoto(file, controller.signal);
+      if (controller.signal.aborted) return;
+
+      const suggested = analysisToSuggestions(
+        analysis,
+        categories.length > 0 ? categories : undefined,
+        styleTags.length > 0 ? styleTags : undefined,
+      );
+      const touched = touchedFieldsRef.current;
+      const applied: SuggestionField[] = [];
+
+      const apply = (
+        field: SuggestionField,
+        value: unknown,
+        setter: () => void,
+      ) => {
+        const hasValue = Array.isArray(value) ? value.length > 0 : !!value;
+        if (hasValue && !touched.has(field)) {
+          setter();
+          applied.push(field);
+        }
       };
-      reader.readAsDataURL(file);
+
+      apply("category", suggested.category_id, () =>
+        setSelectedCategory(suggested.category_id),
+      );
+      apply("style_tags", suggested.style_tag_ids, () =>
+        setSelectedStyleTags(suggested.style_tag_ids),
+      );
+      apply("color", suggested.color, () => setColor(suggested.color));
+      apply("sub_category", suggested.sub_category, () =>
+        setSubCategory(suggested.sub_category),
+      );
+      apply("material", suggested.material, () =>
+        setMaterial(suggested.material),
+      );
+      apply("pattern", suggested.pattern, () => setPattern(suggested.pattern));
+      apply("formality", suggested.formality_score, () =>
+        setFormalityScore(suggested.formality_score),
+      );
+
+      setSuggestions(suggested);
+      setSuggestedFields(applied);
+    } catch (error: any) {
+      if (error.name === "AbortError") return;
+      console.error("Photo analysis failed:", error);
+      setAnalysisFailed(true);
+    } finally {
+      if (analysisControllerRef.current === controller) {
+        setIsAnalyzingPhoto(false);
+      }
+    }
+  };
+
+  // The user changed a field by hand: it overrides any suggestion
+  const markTouched = (field: SuggestionField) => {
+    touchedFieldsRef.current.add(field);
+    setSuggestedFields((prev) => prev.filter((f) => f !== field));
+  };
+
+  const acceptSuggestion = (field: SuggestionField) => {
+    setSuggestedFields((prev) => prev.filter((f) => f !== field));
+  };
+
+  const rejectSuggestion = (field: SuggestionField) => {
+    switch (field) {
+      case "category":
+        setSelectedCategory(null);
+        break;
+      case "style_tags":
+        setSelectedStyleTags([]);
+        break;
+      case "color":
+        setColor("");
+        break;
+      case "sub_category":
+        setSubCategory("");
+        break;
+      case "material":
+        setMaterial("");
+        break;
+      case "pattern":
+        setPattern("");
+        break;
+      case "formality":
+        setFormalityScore(null);
+        break;
     }
+    setSuggestedFields((prev) => prev.filter((f) => f !== field));
+  };
+
+  const rejectAllSuggestions = () => {
+    suggestedFields.forEach(rejectSuggestion);
+  };
+
+  const renderSuggestionBadge = (field: SuggestionField) => {
+    if (!suggestions || !suggestedFields.includes(field)) return null;
+
+    const percent = Math.round(suggestions.confidence * 100);
+    const tone =
+      suggestions.confidence >= 0.75
+        ? "bg-green-50 text-green-800 border-green-200"
+        : suggestions.confidence >= 0.5
+          ? "bg-yellow-50 text-yellow-800 border-yellow-200"
+          : "bg-gray-50 text-gray-700 border-gray-200";
+
+    return (
+      <span
+        className={`inline-flex items-center gap-1 ml-2 px-2 py-0.5 rounded-full border text-xs font-montserrat font-medium align-middle ${tone}`}
+      >
+        <Sparkles className="w-3 h-3" />
+        AI {percent}%
+        <button
+          type="button"
+          onClick={() => acceptSuggestion(field)}
+          className="p-0.5 rounded-full hover:bg-white"
+          title="Accept suggestion"
+        >
+          <Check className="w-3 h-3" />
+        </button>
+        <button
+          type="button"
+          onClick={() => rejectSuggestion(field)}
+          className="p-0.5 rounded-full hover:bg-white"
+          title="Clear suggestion"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </span>
+    );
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -104,6 +342,7 @@ export default function Upload() {
   };
 
   const toggleStyleTag = (tagId: number) => {
+    markTouched("style_tags");
     setSelectedStyleTags((prev) =>
       prev.includes(tagId)
         ? prev.filter((id) => id !== tagId)
@@ -123,7 +362,20 @@ export default function Upload() {
 
     try {
       // Upload image
-      const imageUrl = await uploadClothingImage(selectedImage, user.id);
+      const [imageUrl, colors] = await Promise.all([
+        uploadClothingImage(selectedImage, user.id),
+        extractItemColors(selectedImage),
+      ]);
+
+      // The cut-out is optional; keep the item even if it fails to upload
+      let cutoutUrl: string | undefined;
+      if (cutout) {
+        try {
+          cutoutUrl = await uploadCutoutImage(cutout, imageUrl);
+        } catch (error) {
+          console.error("Failed to upload cut-out:", error);
+        }
+      }
 
       // Create clothing item
       await createClothingItem(
@@ -132,7 +384,19 @@ export default function Upload() {
         selectedCategory,
         selectedStyleTags,
         brand || undefined,
-        color || undefined,
+        // Fall back to the photo's dominant color when none was entered
+        color || colors?.[0]?.name || undefined,
+        {
+          colors,
+          cutout_url: cutoutUrl,
+          sub_category: subCategory.trim() || undefined,
+          material: material.trim() || undefined,
+          pattern: pattern.trim() || undefined,
+          formality_score: formalityScore || undefined,
+          purchase_price: purchasePrice ? Number(purchasePrice) : undefined,
+          currency: purchasePrice ? currency : undefined,
+          purchase_date: purchaseDate || undefined,
+        },
       );
 
       toast.success("Clothing item added successfully!");
@@ -156,6 +420,20 @@ export default function Upload() {
     setSelectedStyleTags([]);
     setBrand("");
     setColor("");
+    setPurchasePrice("");
+    setCurrency(DEFAULT_CURRENCY);
+    setPurchaseDate("");
+    setSubCategory("");
+    setMaterial("");
+    setPattern("");
+    setFormalityScore(null);
+    setCreateCutout(false);
+    analysisControllerRef.current?.abort();
+    setIsAnalyzingPhoto(false);
+    setAnalysisFailed(false);
+    setSuggestions(null);
+    setSuggestedFields([]);
+    touchedFieldsRef.current = new Set();
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
@@ -179,198 +457,444 @@ export default function Upload() {
                 Upload New Item
               </h1>
             </div>
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              <button
+                onClick={() => setUploadMode("single")}
+                className={`flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1.5 rounded-md font-montserrat text-xs sm:text-sm font-medium transition-colors touch-manipulation ${
+                  uploadMode === "single"
+                    ? "bg-white text-black shadow-sm"
+                    : "text-mejiwoo-gray hover:text-black"
+                }`}
+              >
+                <ImageIcon className="w-4 h-4" />
+                Single
+              </button>
+              <button
+                onClick={() => setUploadMode("bulk")}
+                className={`flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1.5 rounded-md font-montserrat text-xs sm:text-sm font-medium transition-colors touch-manipulation ${
+                  uploadMode === "bulk"
+                    ? "bg-white text-black shadow-sm"
+                    : "text-mejiwoo-gray hover:text-black"
+                }`}
+              >
+                <Images className="w-4 h-4" />
+                Bulk
+              </button>
+            </div>
           </div>
         </div>
       </header>
 
-      <div className="max-w-4xl mx-auto px-3 sm:px-4 lg:px-8 py-4 sm:py-6 lg:py-8">
-        <form
-          onSubmit={handleSubmit}
-          className="space-y-4 sm:space-y-6 lg:space-y-8"
-        >
-          {/* Image Upload */}
-          <div className="bg-white rounded-lg p-4 sm:p-6">
-            <h2 className="font-playfair text-lg sm:text-xl font-semibold text-black mb-3 sm:mb-4">
-              Upload Photo *
-            </h2>
-
-            {!imagePreview ? (
-              <div
-                onDrop={handleDrop}
-                onDragOver={handleDragOver}
-                className="border-2 border-dashed border-gray-300 rounded-lg p-8 sm:p-12 text-center hover:border-gray-400 transition-colors cursor-pointer touch-manipulation"
-                onClick={() => fileInputRef.current?.click()}
-              >
-                <UploadIcon className="w-8 h-8 sm:w-12 sm:h-12 text-mejiwoo-gray mx-auto mb-3 sm:mb-4" />
-                <p className="font-montserrat text-base sm:text-lg text-black mb-1 sm:mb-2">
-                  Drag and drop an image here
-                </p>
-                <p className="font-montserrat text-xs sm:text-sm text-mejiwoo-gray">
-                  or tap to browse your files
-                </p>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageSelect}
-                  className="hidden"
-                />
-              </div>
-            ) : (
-              <div className="relative">
-                <img
-                  src={imagePreview}
-                  alt="Preview"
-                  className="w-full max-w-xs sm:max-w-sm mx-auto rounded-lg shadow-md"
-                />
-                <button
-                  type="button"
-                  onClick={resetForm}
-                  className="absolute top-2 right-2 bg-black text-white rounded-full p-2 hover:bg-gray-800 transition-colors touch-manipulation"
-                >
-                  <X className="w-4 h-4" />
-                </button>
-              </div>
-            )}
-          </div>
+      {uploadMode === "bulk" ? (
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 lg:px-8 py-4 sm:py-6 lg:py-8">
+          {user && (
+            <BulkUploadPanel
+              userId={user.id}
+              categories={categories}
+              styleTags={styleTags}
+              onDone={() => navigate("/dashboard")}
+            />
+          )}
+        </div>
+      ) : (
+        <div className="max-w-4xl mx-auto px-3 sm:px-4 lg:px-8 py-4 sm:py-6 lg:py-8">
+          <form
+            onSubmit={handleSubmit}
+            className="space-y-4 sm:space-y-6 lg:space-y-8"
+          >
+            {/* Image Upload */}
+            <div className="bg-white rounded-lg p-4 sm:p-6">
+              <h2 className="font-playfair text-lg sm:text-xl font-semibold text-black mb-3 sm:mb-4">
+                Upload Photo *
+              </h2>
 
-          {/* Category Selection */}
-          <div className="bg-white rounded-lg p-4 sm:p-6">
-            <h2 className="font-playfair text-lg sm:text-xl font-semibold text-black mb-3 sm:mb-4">
-              Category *
-            </h2>
-            {categories.length > 0 ? (
-              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 sm:gap-3">
-                {categories.map((category) => (
+              {!imagePreview ? (
+                <div
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                  className="border-2 border-dashed border-gray-300 rounded-lg p-8 sm:p-12 text-center hover:border-gray-400 transition-colors cursor-pointer touch-manipulation"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <UploadIcon className="w-8 h-8 sm:w-12 sm:h-12 text-mejiwoo-gray mx-auto mb-3 sm:mb-4" />
+                  <p className="font-montserrat text-base sm:text-lg text-black mb-1 sm:mb-2">
+                    Drag and drop an image here
+                  </p>
+                  <p className="font-montserrat text-xs sm:text-sm text-mejiwoo-gray">
+                    or tap to browse your files
+                  </p>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    onChange={handleImageSelect}
+                    className="hidden"
+                  />
+                </div>
+              ) : (
+                <div className="relative">
+                  {cutoutPreview ? (
+                    <img
+                      src={cutoutPreview}
+                      alt="Cut-out preview"
+                      className="w-full max-w-xs sm:max-w-sm mx-auto rounded-lg shadow-md"
+                      style={{
+                        background:
+                          "repeating-conic-gradient(#f3f4f6 0% 25%, #ffffff 0% 50%) 50% / 20px 20px",
+                      }}
+                    />
+                  ) : (
+                    <img
+                      src={imagePreview}
+                      alt="Preview"
+                      className="w-full max-w-xs sm:max-w-sm mx-auto rounded-lg shadow-md"
+                    />
+                  )}
                   <button
-                    key={category.id}
                     type="button"
-                    onClick={() => setSelectedCategory(category.id)}
-                    className={`p-2 sm:p-3 rounded-lg font-montserrat font-medium transition-colors text-sm sm:text-base touch-manipulation min-h-[44px] ${
-                      selectedCategory === category.id
-                        ? "bg-black text-white"
-                        : "bg-gray-100 text-black hover:bg-gray-200"
-                    }`}
+                    onClick={resetForm}
+                    className="absolute top-2 right-2 bg-black text-white rounded-full p-2 hover:bg-gray-800 transition-colors touch-manipulation"
                   >
-                    {category.name}
+                    <X className="w-4 h-4" />
                   </button>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-6 sm:py-8">
-                <p className="text-mejiwoo-gray mb-4">No categories found</p>
-                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 sm:p-4 text-left">
-                  <p className="text-xs sm:text-sm text-yellow-800 mb-2">
-                    <strong>Database Setup Required:</strong>
-                  </p>
-                  <p className="text-xs sm:text-sm text-yellow-700">
-                    Please run the database setup script in your Supabase SQL
-                    Editor to create categories.
-                  </p>
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+
+              {/* Background Removal */}
+              {imagePreview && (
+                <div className="mt-4 flex flex-col items-center gap-2">
+                  <label className="flex items-center gap-2 font-montserrat text-sm text-black cursor-pointer touch-manipulation">
+                    <input
+                      type="checkbox"
+                      checked={createCutout}
+                      onChange={(e) => setCreateCutout(e.target.checked)}
+                      className="w-4 h-4 accent-black"
+                    />
+                    <Scissors className="w-4 h-4" />
+                    Remove background (for outfit flat-lays)
+                  </label>
+                  {isRemovingBackground && (
+                    <p className="flex items-center gap-2 font-montserrat text-xs text-mejiwoo-gray">
+                      <RefreshCw className="w-3 h-3 animate-spin" />
+                      Removing background...
+                    </p>
+                  )}
+                  {cutoutFailed && (
+                    <p className="font-montserrat text-xs text-mejiwoo-gray text-center">
+                      Couldn't find a plain background. Try a photo on a
+                      solid-colored surface.
+                    </p>
+                  )}
+                </div>
+              )}
 
-          {/* Style Tags Selection */}
-          <div className="bg-white rounded-lg p-4 sm:p-6">
-            <h2 className="font-playfair text-lg sm:text-xl font-semibold text-black mb-3 sm:mb-4">
-              Style Tags * (select at least one)
-            </h2>
-            {styleTags.length > 0 ? (
-              <div className="flex flex-wrap gap-2 sm:gap-3">
-                {styleTags.map((tag) => (
+              {/* AI Autofill Status */}
+              {isAnalyzingPhoto && (
+                <div className="mt-4 flex items-center justify-center gap-2 font-montserrat text-sm text-mejiwoo-gray">
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                  Analyzing your photo...
+                </div>
+              )}
+              {!isAnalyzingPhoto && analysisFailed && selectedImage && (
+                <div className="mt-4 flex flex-col sm:flex-row items-center justify-center gap-2 font-montserrat text-sm text-mejiwoo-gray">
+                  <span>
+                    Couldn't analyze this photo. Fill in the details below.
+                  </span>
                   <button
-                    key={tag.id}
                     type="button"
-                    onClick={() => toggleStyleTag(tag.id)}
-                    className={`px-3 sm:px-4 py-2 rounded-full font-montserrat font-medium transition-colors flex items-center gap-1 sm:gap-2 text-sm sm:text-base touch-manipulation min-h-[44px] ${
-                      selectedStyleTags.includes(tag.id)
-                        ? "bg-black text-white"
-                        : "bg-gray-100 text-black hover:bg-gray-200"
-                    }`}
+                    onClick={() => analyzePhoto(selectedImage)}
+                    className="text-black underline hover:no-underline"
                   >
-                    {selectedStyleTags.includes(tag.id) && (
-                      <Check className="w-3 h-3 sm:w-4 sm:h-4" />
-                    )}
-                    {tag.name}
+                    Try again
                   </button>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-6 sm:py-8">
-                <p className="text-mejiwoo-gray mb-4">No style tags found</p>
-                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 sm:p-4 text-left">
-                  <p className="text-xs sm:text-sm text-yellow-800 mb-2">
-                    <strong>Database Setup Required:</strong>
-                  </p>
-                  <p className="text-xs sm:text-sm text-yellow-700">
-                    Please run the database setup script in your Supabase SQL
-                    Editor to create style tags.
+                </div>
+              )}
+              {!isAnalyzingPhoto && suggestedFields.length > 0 && (
+                <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <p className="font-montserrat text-sm text-black flex items-center gap-2">
+                    <Sparkles className="w-4 h-4 flex-shrink-0" />
+                    AI filled in {suggestedFields.length}{" "}
+                    {suggestedFields.length === 1 ? "field" : "fields"}. Review
+                    the suggestions below.
                   </p>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setSuggestedFields([])}
+                      className="bg-black text-white px-3 py-1.5 rounded-lg font-montserrat text-sm font-medium hover:bg-gray-800 transition-colors touch-manipulation"
+                    >
+                      Accept all
+                    </button>
+                    <button
+                      type="button"
+                      onClick={rejectAllSuggestions}
+                      className="bg-gray-100 text-black px-3 py-1.5 rounded-lg font-montserrat text-sm font-medium hover:bg-gray-200 transition-colors touch-manipulation"
+                    >
+                      Clear all
+                    </button>
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
 
-          {/* Optional Details */}
-          <div className="bg-white rounded-lg p-4 sm:p-6">
-            <h2 className="font-inter text-lg sm:text-xl font-semibold text-black mb-3 sm:mb-4">
-              Additional Details (Optional)
-            </h2>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-              <div>
-                <label className="block font-inter text-sm font-medium text-black mb-2">
-                  Brand
-                </label>
-                <input
-                  type="text"
-                  value={brand}
-                  onChange={(e) => setBrand(e.target.value)}
-                  className="w-full px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
-                  placeholder="e.g. Nike, Zara, H&M"
-                />
-              </div>
+            {/* Category Selection */}
+            <div className="bg-white rounded-lg p-4 sm:p-6">
+              <h2 className="font-playfair text-lg sm:text-xl font-semibold text-black mb-3 sm:mb-4">
+                Category *{renderSuggestionBadge("category")}
+              </h2>
+              {categories.length > 0 ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 sm:gap-3">
+                  {categories.map((category) => (
+                    <button
+                      key={category.id}
+                      type="button"
+                      onClick={() => {
+                        markTouched("category");
+                        setSelectedCategory(category.id);
+                      }}
+                      className={`p-2 sm:p-3 rounded-lg font-montserrat font-medium transition-colors text-sm sm:text-base touch-manipulation min-h-[44px] ${
+                        selectedCategory === category.id
+                          ? "bg-black text-white"
+                          : "bg-gray-100 text-black hover:bg-gray-200"
+                      }`}
+                    >
+                      {category.name}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-6 sm:py-8">
+                  <p className="text-mejiwoo-gray mb-4">No categories found</p>
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 sm:p-4 text-left">
+                    <p className="text-xs sm:text-sm text-yellow-800 mb-2">
+                      <strong>Database Setup Required:</strong>
+                    </p>
+                    <p className="text-xs sm:text-sm text-yellow-700">
+                      Please run the database setup script in your Supabase SQL
+                      Editor to create categories.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
 
-              <div>
-                <label className="block font-montserrat text-sm font-medium text-black mb-2">
-                  Color
-                </label>
-                <input
-                  type="text"
-                  value={color}
-                  onChange={(e) => setColor(e.target.value)}
-                  className="w-full px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
-                  placeholder="e.g. Black, Navy Blue, Red"
-                />
+            {/* Style Tags Selection */}
+            <div className="bg-white rounded-lg p-4 sm:p-6">
+              <h2 className="font-playfair text-lg sm:text-xl font-semibold text-black mb-3 sm:mb-4">
+                Style Tags * (select at least one)
+                {renderSuggestionBadge("style_tags")}
+              </h2>
+              {styleTags.length > 0 ? (
+                <div className="flex flex-wrap gap-2 sm:gap-3">
+                  {styleTags.map((tag) => (
+                    <button
+                      key={tag.id}
+                      type="button"
+                      onClick={() => toggleStyleTag(tag.id)}
+                      className={`px-3 sm:px-4 py-2 rounded-full font-montserrat font-medium transition-colors flex items-center gap-1 sm:gap-2 text-sm sm:text-base touch-manipulation min-h-[44px] ${
+                        selectedStyleTags.includes(tag.id)
+                          ? "bg-black text-white"
+                          : "bg-gray-100 text-black hover:bg-gray-200"
+                      }`}
+                    >
+                      {selectedStyleTags.includes(tag.id) && (
+                        <Check className="w-3 h-3 sm:w-4 sm:h-4" />
+                      )}
+                      {tag.name}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-6 sm:py-8">
+                  <p className="text-mejiwoo-gray mb-4">No style tags found</p>
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 sm:p-4 text-left">
+                    <p className="text-xs sm:text-sm text-yellow-800 mb-2">
+                      <strong>Database Setup Required:</strong>
+                    </p>
+                    <p className="text-xs sm:text-sm text-yellow-700">
+                      Please run the database setup script in your Supabase SQL
+                      Editor to create style tags.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Optional Details */}
+            <div className="bg-white rounded-lg p-4 sm:p-6">
+              <h2 className="font-inter text-lg sm:text-xl font-semibold text-black mb-3 sm:mb-4">
+                Additional Details (Optional)
+              </h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                <div>
+                  <label className="block font-inter text-sm font-medium text-black mb-2">
+                    Brand
+                  </label>
+                  <input
+                    type="text"
+                    value={brand}
+                    onChange={(e) => setBrand(e.target.value)}
+                    className="w-full px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
+                    placeholder="e.g. Nike, Zara, H&M"
+                  />
+                </div>
+
+                <div>
+                  <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                    Color{renderSuggestionBadge("color")}
+                  </label>
+                  <input
+                    type="text"
+                    value={color}
+                    onChange={(e) => {
+                      markTouched("color");
+                      setColor(e.target.value);
+                    }}
+                    className="w-full px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
+                    placeholder="e.g. Black, Navy Blue, Red"
+                  />
+                </div>
+
+                <div>
+                  <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                    Type{renderSuggestionBadge("sub_category")}
+                  </label>
+                  <input
+                    type="text"
+                    value={subCategory}
+                    onChange={(e) => {
+                      markTouched("sub_category");
+                      setSubCategory(e.target.value);
+                    }}
+                    className="w-full px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
+                    placeholder="e.g. T-shirt, Chinos, Sneakers"
+                  />
+                </div>
+
+                <div>
+                  <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                    Material{renderSuggestionBadge("material")}
+                  </label>
+                  <input
+                    type="text"
+                    value={material}
+                    onChange={(e) => {
+                      markTouched("material");
+                      setMaterial(e.target.value);
+                    }}
+                    className="w-full px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
+                    placeholder="e.g. Cotton, Denim, Wool"
+                  />
+                </div>
+
+                <div>
+                  <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                    Pattern{renderSuggestionBadge("pattern")}
+                  </label>
+                  <input
+                    type="text"
+                    value={pattern}
+                    onChange={(e) => {
+                      markTouched("pattern");
+                      setPattern(e.target.value);
+                    }}
+                    className="w-full px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
+                    placeholder="e.g. Solid, Striped, Floral"
+                  />
+                </div>
+
+                <div>
+                  <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                    Formality{renderSuggestionBadge("formality")}
+                  </label>
+                  <select
+                    value={formalityScore ?? ""}
+                    onChange={(e) => {
+                      markTouched("formality");
+                      setFormalityScore(
+                        e.target.value ? Number(e.target.value) : null,
+                      );
+                    }}
+                    className="w-full px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation font-montserrat"
+                  >
+                    <option value="">Not set</option>
+                    {Object.entries(FORMALITY_LABELS).map(([score, label]) => (
+                      <option key={score} value={score}>
+                        {score} - {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                    Purchase Price
+                  </label>
+                  <div className="flex gap-2">
+                    <select
+                      value={currency}
+                      onChange={(e) => setCurrency(e.target.value)}
+                      className="px-2 sm:px-3 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
+                    >
+                      {CURRENCIES.map(({ code }) => (
+                        <option key={code} value={code}>
+                          {code}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      inputMode="decimal"
+                      value={purchasePrice}
+                      onChange={(e) => setPurchasePrice(e.target.value)}
+                      className="w-full min-w-0 px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
+                      placeholder="e.g. 49.99"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block font-montserrat text-sm font-medium text-black mb-2">
+                    Purchase Date
+                  </label>
+                  <input
+                    type="date"
+                    value={purchaseDate}
+                    max={new Date().toISOString().split("T")[0]}
+                    onChange={(e) => setPurchaseDate(e.target.value)}
+                    className="w-full px-3 sm:px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent outline-none text-sm sm:text-base touch-manipulation"
+                  />
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Submit Button */}
-          <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 pb-4 sm:pb-0">
-            <button
-              type="button"
-              onClick={() => navigate("/dashboard")}
-              className="w-full sm:flex-1 bg-gray-100 text-black py-3 rounded-lg font-montserrat font-medium hover:bg-gray-200 transition-colors text-sm sm:text-base touch-manipulation min-h-[44px] order-2 sm:order-1"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={
-                isUploading ||
-                !selectedImage ||
-                !selectedCategory ||
-                selectedStyleTags.length === 0
-              }
-              className="w-full sm:flex-1 bg-black text-white py-3 rounded-lg font-montserrat font-medium hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base touch-manipulation min-h-[44px] order-1 sm:order-2"
-            >
-              {isUploading ? "Adding Item..." : "Add Item"}
-            </button>
-          </div>
-        </form>
-      </div>
+            {/* Submit Button */}
+            <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 pb-4 sm:pb-0">
+              <button
+                type="button"
+                onClick={() => navigate("/dashboard")}
+                className="w-full sm:flex-1 bg-gray-100 text-black py-3 rounded-lg font-montserrat font-medium hover:bg-gray-200 transition-colors text-sm sm:text-base touch-manipulation min-h-[44px] order-2 sm:order-1"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={
+                  isRemovingBackground ||
+                  isUploading ||
+                  !selectedImage ||
+                  !selectedCategory ||
+                  selectedStyleTags.length === 0
+                }
+                className="w-full sm:flex-1 bg-black text-white py-3 rounded-lg font-montserrat font-medium hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base touch-manipulation min-h-[44px] order-1 sm:order-2"
+              >
+                {isUploading ? "Adding Item..." : "Add Item"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,512 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  getCurrentSession,
+  getUserClothingItems,
+  getUserOutfits,
+  getWearLogs,
+  logWear,
+  deleteWearLog,
+} from "../lib/supabase";
+import { toDateKey } from "../lib/utils";
+import { toast } from "sonner";
+import type {
+  ClothingItemWithTags,
+  OutfitWithItems,
+  WearLogWithItems,
+} from "../lib/supabase";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
+  X,
+  Check,
+} from "lucide-react";
+import OptimizedImage from "../components/OptimizedImage";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Every day shown in the month grid, padded to whole weeks
+const getCalendarDays = (month: Date): Date[] => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const start = new Date(first);
+  start.setDate(first.getDate() - first.getDay());
+  const end = new Date(last);
+  end.setDate(last.getDate() + (6 - last.getDay()));
+
+  const days: Date[] = [];
+  for (let day = new Date(start); day <= end; day.setDate(day.getDate() + 1)) {
+    days.push(new Date(day));
+  }
+  return days;
+};
+
+export default function WearCalendar() {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<any>(null);
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [wearLogs, setWearLogs] = useState<WearLogWithItems[]>([]);
+  const [clothingItems, setClothingItems] = useState<ClothingItemWithTags[]>(
+    [],
+  );
+  const [outfits, setOutfits] = useState<OutfitWithItems[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [logMode, setLogMode] = useState<"outfit" | "items">("outfit");
+  const [selectedOutfitId, setSelectedOutfitId] = useState("");
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const calendarDays = useMemo(() => getCalendarDays(month), [month]);
+  const todayKey = toDateKey(new Date());
+
+  const logsByDate = useMemo(() => {
+    const grouped: Record<string, WearLogWithItems[]> = {};
+    wearLogs.forEach((log) => {
+      grouped[log.worn_on] = [...(grouped[log.worn_on] || []), log];
+    });
+    return grouped;
+  }, [wearLogs]);
+
+  const selectedDayLogs = selectedDate ? logsByDate[selectedDate] || [] : [];
+
+  useEffect(() => {
+    checkAuthAndLoadData();
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadWearLogs(user, calendarDays);
+    }
+  }, [user, calendarDays]);
+
+  // Close the day modal with Escape
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && selectedDate) {
+        closeDay();
+      }
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [selectedDate]);
+
+  const checkAuthAndLoadData = async () => {
+    try {
+      const sessionResult = await getCurrentSession();
+
+      if (sessionResult?.data?.session?.user) {
+        const currentUser = sessionResult.data.session.user;
+        setUser(currentUser);
+
+        const [items, savedOutfits] = await Promise.all([
+          getUserClothingItems(currentUser.id),
+          getUserOutfits(currentUser.id).catch((error) => {
+            console.warn("Could not load saved outfits:", error);
+            return [] as OutfitWithItems[];
+          }),
+        ]);
+        setClothingItems(items);
+        setOutfits(savedOutfits);
+      } else {
+        navigate("/");
+        return;
+      }
+    } catch (error) {
+      console.error("Error loading calendar:", error);
+      toast.error("Failed to load your wardrobe");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadWearLogs = async (currentUser: any, days: Date[]) => {
+    try {
+      const logs = await getWearLogs(
+        currentUser.id,
+        toDateKey(days[0]),
+        toDateKey(days[days.length - 1]),
+      );
+      setWearLogs(logs);
+    } catch (error: any) {
+      console.error("Error loading wear log:", error);
+      if (error.message?.includes('relation "wear_logs" does not exist')) {
+        toast.error(
+          "Database not set up. Please run the database setup script in Supabase.",
+        );
+      } else {
+        toast.error("Failed to load your wear log");
+      }
+    }
+  };
+
+  const changeMonth = (offset: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+  };
+
+  const goToToday = () => {
+    const today = new Date();
+    setMonth(new Date(today.getFullYear(), today.getMonth(), 1));
+  };
+
+  const openDay = (dateKey: string) => {
+    setSelectedDate(dateKey);
+    setLogMode(outfits.length > 0 ? "outfit" : "items");
+    setSelectedOutfitId("");
+    setSelectedItemIds([]);
+  };
+
+  const closeDay = useCallback(() => {
+    setSelectedDate(null);
+  }, []);
+
+  const toggleItem = (itemId: string) => {
+    setSelectedItemIds((prev) =>
+      prev.includes(itemId)
+        ? prev.filter((id) => id !== itemId)
+        : [...prev, itemId],
+    );
+  };
+
+  const handleLogWear = async () => {
+    if (!user || !selectedDate) return;
+
+    if (logMode === "outfit" && !selectedOutfitId) {
+      toast.error("Pick one of your saved outfits");
+      return;
+    }
+    if (logMode === "items" && selectedItemIds.length === 0) {
+      toast.error("Pick at least one item you wore");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const wearLog = await logWear(
+        user.id,
+        logMode === "outfit"
+          ? { worn_on: selectedDate, outfit_id: selectedOutfitId }
+          : { worn_on: selectedDate, item_ids: selectedItemIds },
+      );
+      setWearLogs((prev) => [...prev, wearLog]);
+      setSelectedOutfitId("");
+      setSelectedItemIds([]);
+      toast.success("Added to your wear log");
+    } catch (error) {
+      console.error("Error logging outfit:", error);
+      toast.error("Failed to log outfit. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteLog = async (wearLogId: string) => {
+    try {
+      await deleteWearLog(wearLogId);
+      setWearLogs((prev) => prev.filter((log) => log.id !== wearLogId));
+      toast.success("Removed from your wear log");
+    } catch (error) {
+      console.error("Error deleting wear log:", error);
+      toast.error("Failed to remove entry");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-mejiwoo-cream flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="font-montserrat text-lg text-mejiwoo-gray">
+            Loading your calendar...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-mejiwoo-cream">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => navigate("/dashboard")}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <h1 className="font-playfair text-2xl font-bold text-black">
+                Outfit Calendar
+              </h1>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => changeMonth(-1)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Previous month"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span className="font-montserrat font-medium text-black w-32 sm:w-40 text-center">
+                {month.toLocaleDateString(undefined, {
+                  month: "long",
+                  year: "numeric",
+                })}
+              </span>
+              <button
+                onClick={() => changeMonth(1)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Next month"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+              <button
+                onClick={goToToday}
+                className="hidden sm:block bg-gray-100 text-gray-700 px-4 py-2 rounded-lg font-montserrat font-medium hover:bg-gray-200 transition-colors"
+              >
+                Today
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-2 sm:px-6 lg:px-8 py-6">
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <div className="grid grid-cols-7 border-b border-gray-200">
+            {WEEKDAYS.map((weekday) => (
+              <div
+                key={weekday}
+                className="py-2 text-center text-xs sm:text-sm font-montserrat font-medium text-mejiwoo-gray"
+              >
+                {weekday}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-7">
+            {calendarDays.map((day) => {
+              const dateKey = toDateKey(day);
+              const dayItems = (logsByDate[dateKey] || []).flatMap((log) =>
+                log.wear_log_items.map((logItem) => logItem.clothing_item),
+              );
+              const isCurrentMonth = day.getMonth() === month.getMonth();
+
+              return (
+                <button
+                  key={dateKey}
+                  onClick={() => openDay(dateKey)}
+                  className={`min-h-[88px] sm:min-h-[120px] p-1 sm:p-2 border-b border-r border-gray-100 text-left align-top hover:bg-gray-50 transition-colors ${
+                    isCurrentMonth ? "" : "bg-gray-50 opacity-60"
+                  }`}
+                >
+                  <span
+                    className={`inline-flex items-center justify-center w-6 h-6 rounded-full text-xs sm:text-sm font-montserrat ${
+                      dateKey === todayKey
+                        ? "bg-black text-white"
+                        : "text-black"
+                    }`}
+                  >
+                    {day.getDate()}
+                  </span>
+                  {dayItems.length > 0 && (
+                    <div className="grid grid-cols-2 gap-0.5 mt-1">
+                      {dayItems.slice(0, 4).map((item, index) => (
+                        <OptimizedImage
+                          key={`${item.id}-${index}`}
+                          src={item.image_url}
+                          alt={`${item.category?.name || "Item"} worn`}
+                          width={60}
+                          height={60}
+                          className="w-full aspect-square rounded"
+                        />
+                      ))}
+                    </div>
+                  )}
+                  {dayItems.length > 4 && (
+                    <span className="block text-[10px] sm:text-xs font-montserrat text-mejiwoo-gray mt-0.5">
+                      +{dayItems.length - 4} more
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Day Modal */}
+      {selectedDate && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={closeDay}
+        >
+          <div
+            className="bg-white rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h2 className="font-playfair text-xl font-semibold text-black">
+                {new Date(`${selectedDate}T00:00:00`).toLocaleDateString(
+                  undefined,
+                  { weekday: "long", month: "long", day: "numeric" },
+                )}
+              </h2>
+              <button
+                onClick={closeDay}
+                className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-6">
+              {/* Logged outfits */}
+              {selectedDayLogs.length > 0 ? (
+                <div className="space-y-3">
+                  {selectedDayLogs.map((log) => (
+                    <div
+                      key={log.id}
+                      className="border border-gray-200 rounded-lg p-3"
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-montserrat font-medium text-black">
+                          {log.outfit?.name || "Custom outfit"}
+                        </span>
+                        <button
+                          onClick={() => handleDeleteLog(log.id)}
+                          className="p-1.5 rounded-lg hover:bg-red-50 transition-colors"
+                          title="Remove from wear log"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </button>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {log.wear_log_items.map(({ clothing_item }) => (
+                          <OptimizedImage
+                            key={clothing_item.id}
+                            src={clothing_item.image_url}
+                            alt={`${clothing_item.category?.name || "Item"} worn`}
+                            width={64}
+                            height={64}
+                            className="w-16 h-16 rounded-lg"
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="font-montserrat text-sm text-mejiwoo-gray">
+                  Nothing logged for this day yet.
+                </p>
+              )}
+
+              {/* Log new entry */}
+              <div className="border-t border-gray-200 pt-4">
+                <h3 className="font-montserrat font-medium text-black mb-3">
+                  Log what you wore
+                </h3>
+
+                <div className="flex gap-2 mb-4">
+                  <button
+                    onClick={() => setLogMode("outfit")}
+                    className={`px-4 py-2 rounded-lg font-montserrat text-sm font-medium transition-colors ${
+                      logMode === "outfit"
+                        ? "bg-black text-white"
+                        : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    Saved outfit
+                  </button>
+                  <button
+                    onClick={() => setLogMode("items")}
+                    className={`px-4 py-2 rounded-lg font-montserrat text-sm font-medium transition-colors ${
+                      logMode === "items"
+                        ? "bg-black text-white"
+                        : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    Pick items
+                  </button>
+                </div>
+
+                {logMode === "outfit" ? (
+                  outfits.length > 0 ? (
+                    <select
+                      value={selectedOutfitId}
+                      onChange={(e) => setSelectedOutfitId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent font-montserrat"
+                    >
+                      <option value="">Choose a saved outfit...</option>
+                      {outfits.map((outfit) => (
+                        <option key={outfit.id} value={outfit.id}>
+                          {outfit.name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="font-montserrat text-sm text-mejiwoo-gray">
+                      You have no saved outfits yet. Save looks from the AI
+                      stylist or pick individual items instead.
+                    </p>
+                  )
+                ) : (
+                  <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-64 overflow-y-auto">
+                    {clothingItems.map((item) => {
+                      const isSelected = selectedItemIds.includes(item.id);
+                      return (
+                        <button
+                          key={item.id}
+                          onClick={() => toggleItem(item.id)}
+                          className={`relative rounded-lg overflow-hidden border-2 transition-colors ${
+                            isSelected
+                              ? "border-black"
+                              : "border-transparent hover:border-gray-300"
+                          }`}
+                          title={item.category?.name}
+                        >
+                          <OptimizedImage
+                            src={item.image_url}
+                            alt={`${item.color || ""} ${item.category?.name || "item"}`}
+                            width={96}
+                            height={96}
+                            className="w-full aspect-square"
+                          />
+                          {isSelected && (
+                            <span className="absolute top-1 right-1 bg-black text-white rounded-full p-0.5">
+                              <Check className="w-3 h-3" />
+                            </span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <button
+                  onClick={handleLogWear}
+                  disabled={isSaving}
+                  className="mt-4 w-full bg-black text-white px-4 py-3 rounded-lg font-montserrat font-medium hover:bg-gray-800 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  {isSaving ? "Saving..." : "Add to wear log"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,13 +21,39 @@ CREATE TABLE IF NOT EXISTS clothing_items (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   image_url TEXT NOT NULL,
+  cutout_url TEXT,
   category_id INTEGER NOT NULL REFERENCES categories(id),
   brand VARCHAR(255),
   color VARCHAR(255),
+  colors JSONB,
+  sub_category VARCHAR(255),
+  material VARCHAR(255),
+  pattern VARCHAR(255),
+  formality_score INTEGER CHECK (formality_score BETWEEN 1 AND 5),
+  purchase_price NUMERIC(12, 2) CHECK (purchase_price >= 0),
+  currency VARCHAR(3) DEFAULT 'USD',
+  purchase_date DATE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Add item detail columns to existing databases (used by the edit flow)
+ALTER TABLE clothing_items ADD COLUMN IF NOT EXISTS sub_category VARCHAR(255);
+ALTER TABLE clothing_items ADD COLUMN IF NOT EXISTS material VARCHAR(255);
+ALTER TABLE clothing_items ADD COLUMN IF NOT EXISTS pattern VARCHAR(255);
+ALTER TABLE clothing_items ADD COLUMN IF NOT EXISTS formality_score INTEGER CHECK (formality_score BETWEEN 1 AND 5);
+
+-- Add purchase columns to existing databases (used for cost-per-wear)
+ALTER TABLE clothing_items ADD COLUMN IF NOT EXISTS purchase_price NUMERIC(12, 2) CHECK (purchase_price >= 0);
+ALTER TABLE clothing_items ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'USD';
+ALTER TABLE clothing_items ADD COLUMN IF NOT EXISTS purchase_date DATE;
+
+-- Add background-removed cut-out column to existing databases (used for flat-lays)
+ALTER TABLE clothing_items ADD COLUMN IF NOT EXISTS cutout_url TEXT;
+
+-- Add extracted color palette column to existing databases ([{hex, name, share}])
+ALTER TABLE clothing_items ADD COLUMN IF NOT EXISTS colors JSONB;
+
 -- 4. Create junction table for clothing items and style tags (many-to-many)
 CREATE TABLE IF NOT EXISTS clothing_item_style_tags (
   id SERIAL PRIMARY KEY,
@@ -326,9 +352,18 @@ BEGIN
       'id', ci.id,
       'user_id', ci.user_id,
       'image_url', ci.image_url,
+      'cutout_url', ci.cutout_url,
       'category_id', ci.category_id,
       'brand', ci.brand,
       'color', ci.color,
+      'colors', ci.colors,
+      'sub_category', ci.sub_category,
+      'material', ci.material,
+      'pattern', ci.pattern,
+      'formality_score', ci.formality_score,
+      'purchase_price', ci.purchase_price,
+      'currency', ci.currency,
+      'purchase_date', ci.purchase_date,
       'created_at', ci.created_at,
       'updated_at', ci.updated_at,
       'category', jsonb_build_object(
@@ -367,10 +402,19 @@ RETURNS TABLE (
   id UUID,
   user_id UUID,
   image_url TEXT,
+  cutout_url TEXT,
   category_id INTEGER,
   category_name TEXT,
   brand TEXT,
   color TEXT,
+  colors JSONB,
+  sub_category TEXT,
+  material TEXT,
+  pattern TEXT,
+  formality_score INTEGER,
+  purchase_price NUMERIC,
+  currency TEXT,
+  purchase_date DATE,
   created_at TIMESTAMP WITH TIME ZONE,
   updated_at TIMESTAMP WITH TIME ZONE
 ) 
@@ -384,10 +428,19 @@ BEGIN
     ci.id,
     ci.user_id,
     ci.image_url,
+    ci.cutout_url,
     ci.category_id,
     c.name as category_name,
     ci.brand,
     ci.color,
+    ci.colors,
+    ci.sub_category,
+    ci.material,
+    ci.pattern,
+    ci.formality_score,
+    ci.purchase_price,
+    ci.currency,
+    ci.purchase_date,
     ci.created_at,
     ci.updated_at
   FROM clothing_items ci
@@ -608,6 +661,360 @@ BEGIN
 END;
 $$;
 
+-- 26. SAVED OUTFITS
+-- Outfits generated by the AI stylist that the user chose to keep
+
+CREATE TABLE IF NOT EXISTS outfits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  occasion VARCHAR(50),
+  weather VARCHAR(50),
+  reasoning TEXT,
+  styling_tips JSONB DEFAULT '[]'::jsonb,
+  color_analysis TEXT,
+  confidence NUMERIC(3, 2),
+  is_favorite BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Junction table for outfits and clothing items (many-to-many, ordered)
+CREATE TABLE IF NOT EXISTS outfit_items (
+  id SERIAL PRIMARY KEY,
+  outfit_id UUID NOT NULL REFERENCES outfits(id) ON DELETE CASCADE,
+  clothing_item_id UUID NOT NULL REFERENCES clothing_items(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(outfit_id, clothing_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_outfits_user_id ON outfits(user_id);
+CREATE INDEX IF NOT EXISTS idx_outfit_items_outfit_id ON outfit_items(outfit_id);
+CREATE INDEX IF NOT EXISTS idx_outfit_items_clothing_item_id ON outfit_items(clothing_item_id);
+
+ALTER TABLE outfits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE outfit_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own outfits" ON outfits;
+CREATE POLICY "Users can view their own outfits" ON outfits
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own outfits" ON outfits;
+CREATE POLICY "Users can insert their own outfits" ON outfits
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own outfits" ON outfits;
+CREATE POLICY "Users can update their own outfits" ON outfits
+  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own outfits" ON outfits;
+CREATE POLICY "Users can delete their own outfits" ON outfits
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can view items in their outfits" ON outfit_items;
+CREATE POLICY "Users can view items in their outfits" ON outfit_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM outfits 
+      WHERE outfits.id = outfit_items.outfit_id 
+      AND outfits.user_id = (SELECT auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert items in their outfits" ON outfit_items;
+CREATE POLICY "Users can insert items in their outfits" ON outfit_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM outfits 
+      WHERE outfits.id = outfit_items.outfit_id 
+      AND outfits.user_id = (SELECT auth.uid())
+    )
+    AND EXISTS (
+      SELECT 1 FROM clothing_items 
+      WHERE clothing_items.id = outfit_items.clothing_item_id 
+      AND clothing_items.user_id = (SELECT auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update items in their outfits" ON outfit_items;
+CREATE POLICY "Users can update items in their outfits" ON outfit_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM outfits 
+      WHERE outfits.id = outfit_items.outfit_id 
+      AND outfits.user_id = (SELECT auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete items in their outfits" ON outfit_items;
+CREATE POLICY "Users can delete items in their outfits" ON outfit_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM outfits 
+      WHERE outfits.id = outfit_items.outfit_id 
+      AND outfits.user_id = (SELECT auth.uid())
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_outfits_updated_at ON outfits;
+CREATE TRIGGER update_outfits_updated_at 
+    BEFORE UPDATE ON outfits 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 27. WEAR LOG
+-- What the user actually wore on a given day: a saved outfit or an ad-hoc set of items
+
+CREATE TABLE IF NOT EXISTS wear_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  worn_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  outfit_id UUID REFERENCES outfits(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Items worn in each log entry (copied from the outfit so history survives outfit deletion)
+CREATE TABLE IF NOT EXISTS wear_log_items (
+  id SERIAL PRIMARY KEY,
+  wear_log_id UUID NOT NULL REFERENCES wear_logs(id) ON DELETE CASCADE,
+  clothing_item_id UUID NOT NULL REFERENCES clothing_items(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(wear_log_id, clothing_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wear_logs_user_id_worn_on ON wear_logs(user_id, worn_on);
+CREATE INDEX IF NOT EXISTS idx_wear_log_items_wear_log_id ON wear_log_items(wear_log_id);
+CREATE INDEX IF NOT EXISTS idx_wear_log_items_clothing_item_id ON wear_log_items(clothing_item_id);
+
+ALTER TABLE wear_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wear_log_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own wear logs" ON wear_logs;
+CREATE POLICY "Users can view their own wear logs" ON wear_logs
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own wear logs" ON wear_logs;
+CREATE POLICY "Users can insert their own wear logs" ON wear_logs
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own wear logs" ON wear_logs;
+CREATE POLICY "Users can update their own wear logs" ON wear_logs
+  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own wear logs" ON wear_logs;
+CREATE POLICY "Users can delete their own wear logs" ON wear_logs
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can view items in their wear logs" ON wear_log_items;
+CREATE POLICY "Users can view items in their wear logs" ON wear_log_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM wear_logs 
+      WHERE wear_logs.id = wear_log_items.wear_log_id 
+      AND wear_logs.user_id = (SELECT auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert items in their wear logs" ON wear_log_items;
+CREATE POLICY "Users can insert items in their wear logs" ON wear_log_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM wear_logs 
+      WHERE wear_logs.id = wear_log_items.wear_log_id 
+      AND wear_logs.user_id = (SELECT auth.uid())
+    )
+    AND EXISTS (
+      SELECT 1 FROM clothing_items 
+      WHERE clothing_items.id = wear_log_items.clothing_item_id 
+      AND clothing_items.user_id = (SELECT auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete items in their wear logs" ON wear_log_items;
+CREATE POLICY "Users can delete items in their wear logs" ON wear_log_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM wear_logs 
+      WHERE wear_logs.id = wear_log_items.wear_log_id 
+      AND wear_logs.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- 28. API RATE LIMITS
+-- Token buckets for the AI endpoints, keyed by endpoint and user id or IP.
+-- Only the API (service role) touches them, so RLS is on with no policies.
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Refill a bucket for the time since its last use, take a token if one is
+-- left, and return what remains. The row lock makes concurrent calls safe.
+CREATE OR REPLACE FUNCTION take_rate_limit_token(
+  bucket_key TEXT,
+  bucket_capacity INTEGER,
+  window_seconds DOUBLE PRECISION
+)
+RETURNS TABLE (allowed BOOLEAN, remaining_tokens DOUBLE PRECISION)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_tokens DOUBLE PRECISION;
+  last_update TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, updated_at)
+  VALUES (bucket_key, bucket_capacity, NOW())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT b.tokens, b.updated_at INTO current_tokens, last_update
+  FROM rate_limit_buckets b
+  WHERE b.key = bucket_key
+  FOR UPDATE;
+
+  current_tokens := LEAST(
+    bucket_capacity,
+    current_tokens
+      + EXTRACT(EPOCH FROM NOW() - last_update) * bucket_capacity / window_seconds
+  );
+  allowed := current_tokens >= 1;
+  IF allowed THEN
+    current_tokens := current_tokens - 1;
+  END IF;
+
+  UPDATE rate_limit_buckets b
+  SET tokens = current_tokens, updated_at = NOW()
+  WHERE b.key = bucket_key;
+
+  remaining_tokens := current_tokens;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION take_rate_limit_token(TEXT, INTEGER, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+
+-- Put back a token taken for a request another bucket refused
+CREATE OR REPLACE FUNCTION return_rate_limit_token(
+  bucket_key TEXT,
+  bucket_capacity INTEGER
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE rate_limit_buckets
+  SET tokens = LEAST(bucket_capacity, tokens + 1)
+  WHERE key = bucket_key;
+$$;
+
+REVOKE EXECUTE ON FUNCTION return_rate_limit_token(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 29. AI RESULT CACHE
+-- gemini_cache holds AI results per user, keyed by a hash of the wardrobe and
+-- request options (shared/ai-cache.ts). Entries expire after a TTL and are
+-- dropped whenever the user's items or their style tags change.
+
+ALTER TABLE gemini_cache ADD COLUMN IF NOT EXISTS endpoint TEXT;
+ALTER TABLE gemini_cache ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '7 days';
+
+DROP INDEX IF EXISTS idx_gemini_cache_request_hash;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gemini_cache_user_request_hash ON gemini_cache(user_id, request_hash);
+
+DROP POLICY IF EXISTS "Users can view their own cached results" ON gemini_cache;
+CREATE POLICY "Users can view their own cached results" ON gemini_cache
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own cached results" ON gemini_cache;
+CREATE POLICY "Users can insert their own cached results" ON gemini_cache
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own cached results" ON gemini_cache;
+CREATE POLICY "Users can update their own cached results" ON gemini_cache
+  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own cached results" ON gemini_cache;
+CREATE POLICY "Users can delete their own cached results" ON gemini_cache
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+CREATE OR REPLACE FUNCTION invalidate_gemini_cache()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'clothing_items' THEN
+    owner_id := COALESCE(NEW.user_id, OLD.user_id);
+  ELSE
+    SELECT ci.user_id INTO owner_id
+    FROM clothing_items ci
+    WHERE ci.id = COALESCE(NEW.clothing_item_id, OLD.clothing_item_id);
+  END IF;
+
+  IF owner_id IS NOT NULL THEN
+    DELETE FROM gemini_cache WHERE user_id = owner_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invalidate_gemini_cache_on_items ON clothing_items;
+CREATE TRIGGER invalidate_gemini_cache_on_items
+    AFTER INSERT OR UPDATE OR DELETE ON clothing_items
+    FOR EACH ROW
+    EXECUTE FUNCTION invalidate_gemini_cache();
+
+DROP TRIGGER IF EXISTS invalidate_gemini_cache_on_style_tags ON clothing_item_style_tags;
+CREATE TRIGGER invalidate_gemini_cache_on_style_tags
+    AFTER INSERT OR UPDATE OR DELETE ON clothing_item_style_tags
+    FOR EACH ROW
+    EXECUTE FUNCTION invalidate_gemini_cache();
+
+-- 30. WARDROBE ANALYSIS HISTORY
+-- Every fresh wardrobe analysis, so scores and gaps can be compared over time.
+-- The scores are copied out of the analysis for charting; the full result is kept too.
+
+CREATE TABLE IF NOT EXISTS wardrobe_analyses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  harmony_score INTEGER,
+  style_consistency_score INTEGER,
+  versatility_score INTEGER,
+  seasonal_coverage JSONB,
+  investment_priorities JSONB NOT NULL DEFAULT '[]',
+  gaps JSONB NOT NULL DEFAULT '[]',
+  item_count INTEGER NOT NULL DEFAULT 0,
+  analysis JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wardrobe_analyses_user_id_created_at ON wardrobe_analyses(user_id, created_at);
+
+ALTER TABLE wardrobe_analyses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own wardrobe analyses" ON wardrobe_analyses;
+CREATE POLICY "Users can view their own wardrobe analyses" ON wardrobe_analyses
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own wardrobe analyses" ON wardrobe_analyses;
+CREATE POLICY "Users can insert their own wardrobe analyses" ON wardrobe_analyses
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own wardrobe analyses" ON wardrobe_analyses;
+CREATE POLICY "Users can delete their own wardrobe analyses" ON wardrobe_analyses
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
 -- Success messages with next steps
 SELECT 'Database setup completed successfully! All performance and security issues addressed.' as message;
 SELECT 'Fixed: RLS policies, indexes, function search paths, security definer view, storage policies, and performance lints.' as database_fixes;
@@ -0,0 +1,151 @@
+import { createHash } from "crypto";
+import type { AuthenticatedUser } from "./auth";
+
+// Cache of AI results per user, in the gemini_cache table. Entries are keyed
+// by a hash of everything that shapes the result (the wardrobe's contents,
+// the request options, the provider), expire after a TTL, and are dropped by
+// a trigger whenever the user's items change (see complete-database-setup.sql).
+// Reads and writes go through the user's own client, so RLS keeps entries
+// private. A cache failure never fails the request; it's just a miss.
+
+export type CachedEndpoint = "wardrobe-analysis" | "analyze-item";
+
+export const AI_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CachedResult<T> {
+  result: T;
+  createdAt: string;
+}
+
+// How fresh a result is, as reported in API responses
+export interface CacheInfo {
+  cached: boolean;
+  analyzed_at: string;
+  age_seconds: number;
+}
+
+// JSON with object keys sorted, so equal values always serialize the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// Stable hash of any JSON-like value
+export const fingerprint = (value: unknown): string =>
+  createHash("sha256").update(stableStringify(value)).digest("hex");
+
+// The parts of an item the AI sees, independent of row order and timestamps
+const describeItem = (item: any) => ({
+  id: item.id,
+  category: item.category?.name ?? item.category,
+  sub_category: item.sub_category,
+  color: item.color,
+  colors: item.colors,
+  brand: item.brand,
+  material: item.material,
+  pattern: item.pattern,
+  formality_score: item.formality_score,
+  style_tags: (item.clothing_item_style_tags || [])
+    .map((tag: any) => tag.style_tag?.name)
+    .filter(Boolean)
+    .sort(),
+});
+
+// Hash of the item set: the same wardrobe gives the same fingerprint in any
+// order
+export const wardrobeFingerprint = (items: any[]): string =>
+  fingerprint(
+    items
+      .map(describeItem)
+      .sort((a, b) => String(a.id).localeCompare(String(b.id))),
+  );
+
+// Freshness fields for a result created at createdAt
+export const cacheInfo = (createdAt: string, cached: boolean): CacheInfo => ({
+  cached,
+  analyzed_at: createdAt,
+  age_seconds: Math.max(
+    Math.round((Date.now() - new Date(createdAt).getTime()) / 1000),
+    0,
+  ),
+});
+
+// The user's unexpired result for this key, or null
+export const getCachedResult = async <T>(
+  user: AuthenticatedUser,
+  requestHash: string,
+): Promise<CachedResult<T> | null> => {
+  try {
+    const { data, error } = await user.supabase
+      .from("gemini_cache")
+      .select("id, gemini_response, created_at, access_count")
+      .eq("user_id", user.id)
+      .eq("request_hash", requestHash)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    // Usage stats feed smart_cache_cleanup()
+    await user.supabase
+      .from("gemini_cache")
+      .update({
+        last_accessed_at: new Date().toISOString(),
+        access_count: (data.access_count || 0) + 1,
+      })
+      .eq("id", data.id);
+
+    return { result: data.gemini_response as T, createdAt: data.created_at };
+  } catch (error) {
+    console.warn("AI cache read failed:", error);
+    return null;
+  }
+};
+
+// Store a result, replacing any earlier one for the same key. Resolves to the
+// entry's creation time.
+export const setCachedResult = async (
+  user: AuthenticatedUser,
+  {
+    endpoint,
+    requestHash,
+    requestData = {},
+    result,
+    ttlMs = AI_CACHE_TTL_MS,
+  }: {
+    endpoint: CachedEndpoint;
+    requestHash: string;
+    requestData?: Record<string, unknown>; // kept for debugging
+    result: unknown;
+    ttlMs?: number;
+  },
+): Promise<string> => {
+  const now = new Date();
+  try {
+    const { error } = await user.supabase.from("gemini_cache").upsert(
+      {
+        user_id: user.id,
+        request_hash: requestHash,
+        endpoint,
+        request_data: requestData,
+        gemini_response: result,
+        created_at: now.toISOString(),
+        last_accessed_at: now.toISOString(),
+        access_count: 1,
+        expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+      },
+      { onConflict: "user_id,request_hash" },
+    );
+    if (error) throw error;
+  } catch (error) {
+    console.warn("AI cache write failed:", error);
+  }
+  return now.toISOString();
+};
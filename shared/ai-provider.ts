@@ -0,0 +1,106 @@
+import { geminiProvider } from "./gemini";
+import { localProvider } from "./local-provider";
+import { createOpenAICompatibleProvider } from "./openai-provider";
+import type {
+  AIResponseType,
+  StructuredResponse,
+  ValidatedAIResponse,
+  ValidatedItemAnalysis,
+} from "./response-schemas";
+import type { BudgetRange } from "./types";
+
+// The model backends the endpoints can run on. AI_PROVIDER picks one:
+//   gemini (default)  Google Gemini, needs GEMINI_API_KEY
+//   local             deterministic heuristics, no key or network needed
+//   openai            any OpenAI-compatible chat API (OPENAI_BASE_URL), e.g.
+//                     a locally hosted model
+
+// Inline image sent alongside a prompt
+export interface AIImageInput {
+  data: string; // base64 without the data: prefix
+  mimeType: string;
+}
+
+// What the prompt was built from. Model providers only read the prompt; the
+// local provider answers from this instead.
+export interface AIRequestContext {
+  wardrobe?: any[];
+  occasion?: string;
+  weather?: string;
+  style?: string;
+  preferences?: any;
+  count?: number; // outfits requested
+  budget?: BudgetRange; // price range for recommended purchases
+}
+
+export interface AIGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  model?: string;
+  signal?: AbortSignal;
+  // Epoch ms the caller must answer by; structured calls skip repairs that
+  // would run past it
+  deadline?: number;
+  context?: AIRequestContext;
+}
+
+export interface AIProvider {
+  // Shown to clients as the response's aiProvider
+  name: string;
+  isConfigured(): boolean;
+  // What to set up when isConfigured() is false, shown to the user
+  setupInstructions: string;
+  // Whether analyzeImage looks at the photo; the local provider answers
+  // from the request context alone
+  readsImages: boolean;
+  // Free-form text
+  generate(prompt: string, options?: AIGenerateOptions): Promise<string>;
+  // JSON validated against the response type's schema, repaired if needed;
+  // throws AIResponseValidationError when it never validates
+  generateStructured<T extends AIResponseType>(
+    prompt: string,
+    responseType: T,
+    options?: AIGenerateOptions,
+  ): Promise<StructuredResponse<ValidatedAIResponse<T>>>;
+  // Item analysis of a garment photo, validated like generateStructured
+  analyzeImage(
+    image: AIImageInput,
+    prompt: string,
+    options?: AIGenerateOptions,
+  ): Promise<StructuredResponse<ValidatedItemAnalysis>>;
+  // Text chunks as they arrive; a response type asks for that schema's JSON
+  // (chunks aren't validated)
+  stream(
+    prompt: string,
+    options?: AIGenerateOptions & { responseType?: AIResponseType },
+  ): AsyncGenerator<string>;
+}
+
+let providerOverride: AIProvider | null = null;
+
+// Swap the provider, e.g. for a stub in tests; pass null to restore
+export const setAIProvider = (provider: AIProvider | null) => {
+  providerOverride = provider;
+};
+
+// The provider selected by AI_PROVIDER
+export const getAIProvider = (): AIProvider => {
+  if (providerOverride) return providerOverride;
+
+  const selected = (process.env.AI_PROVIDER || "gemini").trim().toLowerCase();
+  switch (selected) {
+    case "gemini":
+      return geminiProvider;
+    case "local":
+      return localProvider;
+    case "openai":
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL,
+      });
+    default:
+      console.warn(`Unknown AI_PROVIDER "${selected}", using Gemini`);
+      return geminiProvider;
+  }
+};
@@ -0,0 +1,148 @@
+import type {
+  InvestmentPriority,
+  SeasonalCoverage,
+  WardrobeAnalysis,
+} from "./types";
+
+// History of wardrobe analyses, in the wardrobe_analyses table. Each fresh
+// analysis is stored with its scores copied into columns for charting; two
+// snapshots can be diffed to show what changed between them (gaps resolved,
+// scores up or down, priorities dropped).
+
+// A stored analysis, without the full result
+export interface AnalysisSnapshot {
+  id: string;
+  created_at: string;
+  harmony_score: number | null;
+  style_consistency_score: number | null;
+  versatility_score: number | null;
+  seasonal_coverage: SeasonalCoverage | null;
+  investment_priorities: InvestmentPriority[];
+  gaps: string[];
+  item_count: number;
+}
+
+export type AnalysisScoreKey =
+  "harmony_score" | "style_consistency_score" | "versatility_score";
+
+// The charted scores, in display order
+export const ANALYSIS_SCORES: { key: AnalysisScoreKey; label: string }[] = [
+  { key: "harmony_score", label: "Color harmony" },
+  { key: "style_consistency_score", label: "Style consistency" },
+  { key: "versatility_score", label: "Versatility" },
+];
+
+export type SeasonKey = keyof Omit<SeasonalCoverage, "recommendations">;
+
+// The seasons in seasonal_coverage, in display order
+export const SEASONS: { key: SeasonKey; label: string }[] = [
+  { key: "spring", label: "Spring" },
+  { key: "summer", label: "Summer" },
+  { key: "fall", label: "Fall" },
+  { key: "winter", label: "Winter" },
+];
+
+// Columns for one wardrobe_analyses row (user_id and the id are added by the
+// caller and the database)
+export const toAnalysisRow = (
+  analysis: Partial<WardrobeAnalysis>,
+  itemCount: number,
+) => ({
+  harmony_score: analysis.color_analysis?.harmony_score ?? null,
+  style_consistency_score: analysis.style_consistency?.score ?? null,
+  versatility_score: analysis.versatility?.score ?? null,
+  seasonal_coverage: analysis.seasonal_coverage ?? null,
+  investment_priorities: analysis.investment_priorities || [],
+  gaps: analysis.gaps || [],
+  item_count: itemCount,
+  analysis,
+});
+
+export interface ScoreChange {
+  key: AnalysisScoreKey;
+  label: string;
+  from: number | null;
+  to: number | null;
+  delta: number; // 0 when either side is missing
+}
+
+export interface SeasonChange {
+  key: SeasonKey;
+  label: string;
+  from: number | null;
+  to: number | null;
+  delta: number; // 0 when either side is missing
+}
+
+export interface AnalysisDiff {
+  scores: ScoreChange[];
+  seasons: SeasonChange[];
+  resolvedGaps: string[]; // in the older analysis only
+  newGaps: string[]; // in the newer analysis only
+  resolvedPriorities: string[]; // items no longer worth buying
+  newPriorities: string[];
+  itemCountChange: number;
+}
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Gaps are free text from the AI, so the same gap is rarely worded the same
+// way twice; treat two as equal when most of their words are shared
+const isSameText = (a: string, b: string) => {
+  const wordsA = new Set(normalize(a));
+  const wordsB = new Set(normalize(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return false;
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / new Set([...wordsA, ...wordsB]).size >= 0.6;
+};
+
+// Entries of `list` with no match in `other`
+const unmatched = (list: string[], other: string[]) =>
+  list.filter(
+    (text) => !other.some((candidate) => isSameText(text, candidate)),
+  );
+
+// What changed from `older` to `newer`
+export const diffAnalyses = (
+  older: AnalysisSnapshot,
+  newer: AnalysisSnapshot,
+): AnalysisDiff => {
+  const olderPriorities = older.investment_priorities.map((p) => p.item);
+  const newerPriorities = newer.investment_priorities.map((p) => p.item);
+
+  return {
+    scores: ANALYSIS_SCORES.map(({ key, label }) => {
+      const from = older[key];
+      const to = newer[key];
+      return {
+        key,
+        label,
+        from,
+        to,
+        delta: from == null || to == null ? 0 : to - from,
+      };
+    }),
+    seasons: SEASONS.map(({ key, label }) => {
+      const from = older.seasonal_coverage?.[key] ?? null;
+      const to = newer.seasonal_coverage?.[key] ?? null;
+      return {
+        key,
+        label,
+        from,
+        to,
+        delta: from == null || to == null ? 0 : to - from,
+      };
+    }),
+    resolvedGaps: unmatched(older.gaps, newer.gaps),
+    newGaps: unmatched(newer.gaps, older.gaps),
+    resolvedPriorities: unmatched(olderPriorities, newerPriorities),
+    newPriorities: unmatched(newerPriorities, olderPriorities),
+    itemCountChange: newer.item_count - older.item_count,
+  };
+};
@@ -0,0 +1,326 @@
+import { readEventStream } from "./event-stream";
+import type { CacheInfo } from "./ai-cache";
+import type {
+  ItemAnalysisRequest,
+  OutfitRequest,
+  RepairMetadata,
+  ValidatedItemAnalysis,
+  WardrobeAnalysisRequest,
+} from "./response-schemas";
+import type {
+  ApiErrorCode,
+  ApiErrorResponse,
+  DatabaseClothingItem,
+  WardrobeAnalysisResults,
+  WardrobeAnalysisType,
+} from "./types";
+
+// Typed client for the /api functions. Request bodies are the zod input
+// types the handlers validate against; error envelopes are turned into the
+// error classes below, carrying the envelope's code and request id. Requests
+// that fail on the network or with a 502/503/504 are retried with backoff;
+// aborting the signal stops both the request and any retry.
+
+// An outfit as the API returns it: the suggested items are wardrobe rows
+export interface GeneratedOutfit<TItem = DatabaseClothingItem> {
+  id: string;
+  name: string;
+  description: string;
+  items: TItem[];
+  occasion: string;
+  weather: string;
+  confidence: number;
+  reasoning: string;
+  styling_tips?: string[];
+  color_analysis?: string;
+  trend_insights?: string;
+}
+
+export interface OutfitsResponse<TItem = DatabaseClothingItem> {
+  success: true;
+  outfits: GeneratedOutfit<TItem>[];
+  note?: string;
+  metadata?: RepairMetadata;
+}
+
+// AI results carry their freshness (cached, analyzed_at, age_seconds);
+// fallbacks that weren't cached don't. The analysis is shaped by the
+// requested analysis_type.
+export interface WardrobeAnalysisResponse<
+  T extends WardrobeAnalysisType = "full",
+> extends Partial<CacheInfo> {
+  success: true;
+  analysis_type: T;
+  analysis: WardrobeAnalysisResults[T];
+  note?: string;
+  metadata?: RepairMetadata;
+}
+
+export interface ItemAnalysisResponse extends Partial<CacheInfo> {
+  analysis: ValidatedItemAnalysis;
+  metadata: Partial<RepairMetadata> & {
+    image_analyzed?: boolean;
+    aiProvider?: string;
+    validated?: boolean;
+  };
+}
+
+// What came back with a 4xx/5xx: the error envelope, or whatever could be
+// salvaged from a response that isn't one (e.g. a platform error page)
+export type ApiErrorBody = Partial<ApiErrorResponse>;
+
+// Code for an error response that didn't come with one
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 400) return "VALIDATION_FAILED";
+  if (status === 401) return "UNAUTHENTICATED";
+  if (status === 404) return "NOT_FOUND";
+  if (status === 405) return "METHOD_NOT_ALLOWED";
+  if (status === 429) return "RATE_LIMITED";
+  return "INTERNAL_ERROR";
+};
+
+/**
+ * A request the API answered with an error status
+ */
+export class ApiError extends Error {
+  status: number;
+  code: ApiErrorCode;
+  requestId: string | null;
+  body: ApiErrorBody;
+
+  constructor(message: string, status: number, body: ApiErrorBody = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = body.code || codeForStatus(status);
+    this.requestId = body.request_id || null;
+    this.body = body;
+  }
+}
+
+/**
+ * 400: the request body failed its schema; issues name the failing fields
+ */
+export class ApiValidationError extends ApiError {
+  issues: { path: string; message: string }[];
+
+  constructor(message: string, body: ApiErrorBody = {}) {
+    super(message, 400, body);
+    this.name = "ApiValidationError";
+    this.issues =
+      (body.details?.issues as { path: string; message: string }[]) || [];
+  }
+}
+
+/**
+ * 429: the caller's rate limit bucket is empty
+ */
+export class ApiRateLimitError extends ApiError {
+  retryAfterSeconds: number | null;
+
+  constructor(
+    message: string,
+    body: ApiErrorBody = {},
+    retryAfterSeconds: number | null = null,
+  ) {
+    super(message, 429, body);
+    this.name = "ApiRateLimitError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * 5xx: the function failed or no AI provider is configured
+ */
+export class ApiServerError extends ApiError {
+  constructor(message: string, status = 500, body: ApiErrorBody = {}) {
+    super(message, status, body);
+    this.name = "ApiServerError";
+  }
+}
+
+export interface ApiClientConfig {
+  baseUrl?: string; // "" for same-origin
+  // Extra headers per request, e.g. the session's Authorization header
+  getHeaders?: () => Promise<Record<string, string>>;
+  fetchImpl?: typeof fetch;
+  retries?: number; // extra attempts after the first
+  retryDelayMs?: number; // doubles after each retry
+}
+
+export interface ApiRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface StreamOutfitsOptions<TItem> extends ApiRequestOptions {
+  // Called with each outfit as soon as it arrives
+  onOutfit?: (outfit: GeneratedOutfit<TItem>, index: number) => void;
+}
+
+// Gateway errors worth another try; a 500 is usually a configuration problem
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+const isAbortError = (error: unknown) =>
+  (error as Error)?.name === "AbortError";
+
+// Resolve after ms, or reject with the abort reason if the signal fires first
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Turn an error response into the matching error class
+const toApiError = async (response: Response): Promise<ApiError> => {
+  const text = await response.text().catch(() => "");
+  let body: ApiErrorBody = {};
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON, e.g. a platform error page
+  }
+
+  const message =
+    body.error ||
+    body.message ||
+    text ||
+    `Request failed with status ${response.status}`;
+  const code = body.code || codeForStatus(response.status);
+
+  if (code === "VALIDATION_FAILED") {
+    return new ApiValidationError(message, body);
+  }
+  if (code === "RATE_LIMITED") {
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    return new ApiRateLimitError(
+      message,
+      body,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null,
+    );
+  }
+  if (response.status >= 500) {
+    return new ApiServerError(message, response.status, body);
+  }
+  return new ApiError(message, response.status, body);
+};
+
+export const createApiClient = ({
+  baseUrl = "",
+  getHeaders = async () => ({}),
+  fetchImpl = fetch,
+  retries = 2,
+  retryDelayMs = 500,
+}: ApiClientConfig = {}) => {
+  // POST a JSON body, retrying transient failures; resolves to the OK response
+  const post = async (
+    path: string,
+    body: unknown,
+    { signal, accept }: ApiRequestOptions & { accept?: string } = {},
+  ): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetchImpl(`${baseUrl}${path}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(accept && { Accept: accept }),
+            ...(await getHeaders()),
+          },
+          body: JSON.stringify(body),
+          signal,
+        });
+      } catch (error) {
+        if (isAbortError(error) || attempt >= retries) throw error;
+        await wait(retryDelayMs * 2 ** attempt, signal);
+        continue;
+      }
+
+      if (response.ok) return response;
+
+      // An error envelope is the function's own answer; only bare gateway
+      // errors are worth retrying
+      const error = await toApiError(response);
+      if (
+        RETRYABLE_STATUSES.has(response.status) &&
+        !error.body.code &&
+        attempt < retries
+      ) {
+        await wait(retryDelayMs * 2 ** attempt, signal);
+        continue;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    async generateOutfits<TItem = DatabaseClothingItem>(
+      request: OutfitRequest,
+      options: ApiRequestOptions = {},
+    ): Promise<OutfitsResponse<TItem>> {
+      const response = await post("/api/generate-outfits", request, options);
+      return response.json();
+    },
+
+    // Outfits arrive one by one as Server-Sent Events. Resolves once the
+    // stream ends; throws an ApiServerError if it failed before any outfit.
+    async streamOutfits<TItem = DatabaseClothingItem>(
+      request: OutfitRequest,
+      { onOutfit, ...options }: StreamOutfitsOptions<TItem> = {},
+    ): Promise<{ outfits: GeneratedOutfit<TItem>[]; note?: string }> {
+      const response = await post("/api/generate-outfits", request, {
+        ...options,
+        accept: "text/event-stream",
+      });
+
+      const outfits: GeneratedOutfit<TItem>[] = [];
+      let note: string | undefined;
+      let streamError: ApiErrorBody | undefined;
+
+      await readEventStream(response, ({ event, data }) => {
+        if (event === "outfit") {
+          outfits.push(data);
+          onOutfit?.(data, outfits.length - 1);
+        } else if (event === "done") {
+          note = data?.note;
+        } else if (event === "error") {
+          streamError = {
+            ...data,
+            error: data?.error || "Outfit generation failed",
+          };
+        }
+      });
+
+      if (streamError && outfits.length === 0) {
+        throw new ApiServerError(streamError.error, 500, streamError);
+      }
+      return { outfits, note };
+    },
+
+    async analyzeWardrobe<T extends WardrobeAnalysisType = "full">(
+      request: WardrobeAnalysisRequest & { analysis_type?: T } = {},
+      options: ApiRequestOptions = {},
+    ): Promise<WardrobeAnalysisResponse<T>> {
+      const response = await post("/api/wardrobe-analysis", request, options);
+      return response.json();
+    },
+
+    async analyzeItem(
+      request: ItemAnalysisRequest,
+      options: ApiRequestOptions = {},
+    ): Promise<ItemAnalysisResponse> {
+      const response = await post("/api/analyze-item", request, options);
+      return response.json();
+    },
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,95 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { ApiErrorCode, ApiErrorResponse } from "./types";
+
+// Error responses for the API functions. Every failure goes out as the same
+// envelope, { success: false, code, error, request_id, details? }, so the
+// client can branch on `code` instead of parsing messages. Each request gets
+// an id (Vercel's own when deployed) that's echoed in X-Request-Id and in the
+// envelope, and logged with unexpected errors.
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  VALIDATION_FAILED: 400,
+  UNAUTHENTICATED: 401,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  WARDROBE_TOO_SMALL: 422,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+  AI_UNAVAILABLE: 503,
+};
+
+// Message for unexpected failures; the underlying error is only logged
+const INTERNAL_ERROR_MESSAGE =
+  "Something went wrong on our side. Please try again in a few moments.";
+
+const createRequestId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Give the request an id and send it back as X-Request-Id
+export const assignRequestId = (
+  req: VercelRequest,
+  res: VercelResponse,
+): string => {
+  const vercelId = req.headers["x-vercel-id"];
+  const requestId =
+    (Array.isArray(vercelId) ? vercelId[0] : vercelId) || createRequestId();
+  res.setHeader("X-Request-Id", requestId);
+  return requestId;
+};
+
+// The id assigned to this response, assigning one if the handler hasn't
+const getRequestId = (res: VercelResponse): string => {
+  const existing = res.getHeader?.("X-Request-Id");
+  if (existing) return String(existing);
+
+  const requestId = createRequestId();
+  res.setHeader("X-Request-Id", requestId);
+  return requestId;
+};
+
+// Build the error envelope for this response
+export const toErrorBody = (
+  res: VercelResponse,
+  code: ApiErrorCode,
+  message: string,
+  details?: Record<string, unknown>,
+): ApiErrorResponse => ({
+  success: false,
+  code,
+  error: message,
+  request_id: getRequestId(res),
+  ...(details && { details }),
+});
+
+// Send the error envelope with the status that goes with its code
+export const sendError = (
+  res: VercelResponse,
+  code: ApiErrorCode,
+  message: string,
+  details?: Record<string, unknown>,
+) =>
+  res
+    .status(API_ERROR_STATUS[code])
+    .json(toErrorBody(res, code, message, details));
+
+// Log an unexpected failure under the request id and build a generic
+// INTERNAL_ERROR envelope that doesn't leak its message (for streams that
+// have already sent their status)
+export const toInternalErrorBody = (
+  res: VercelResponse,
+  error: unknown,
+  context = "Request failed",
+): ApiErrorResponse => {
+  console.error(`${context} [${getRequestId(res)}]:`, error);
+  return toErrorBody(res, "INTERNAL_ERROR", INTERNAL_ERROR_MESSAGE);
+};
+
+// Log an unexpected failure and send the generic 500
+export const sendInternalError = (
+  res: VercelResponse,
+  error: unknown,
+  context?: string,
+) =>
+  res
+    .status(API_ERROR_STATUS.INTERNAL_ERROR)
+    .json(toInternalErrorBody(res, error, context));
@@ -0,0 +1,92 @@
+import { createClient } from "@supabase/supabase-js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { sendError } from "./api-errors";
+
+// Authentication for the API functions. The browser sends its Supabase
+// session as `Authorization: Bearer <access token>`; the token is checked
+// with Supabase Auth and the request gets a client that acts as that user,
+// so row level security scopes everything it reads.
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  supabase: SupabaseClient; // queries run with the user's permissions
+}
+
+type Authenticator = (req: VercelRequest) => Promise<AuthenticatedUser | null>;
+
+let authenticatorOverride: Authenticator | null = null;
+
+// Swap how requests are authenticated, e.g. for a stub in tests; pass null
+// to restore
+export const setAuthenticator = (authenticator: Authenticator | null) => {
+  authenticatorOverride = authenticator;
+};
+
+const getSupabaseConfig = () => ({
+  url: process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL,
+  anonKey: process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY,
+});
+
+export const isAuthConfigured = (): boolean => {
+  const { url, anonKey } = getSupabaseConfig();
+  return !!authenticatorOverride || !!(url && anonKey);
+};
+
+// The token from an `Authorization: Bearer ...` header
+export const getBearerToken = (req: VercelRequest): string | null => {
+  const header = req.headers.authorization;
+  const match =
+    typeof header === "string" ? header.match(/^Bearer\s+(\S+)$/i) : null;
+  return match ? match[1] : null;
+};
+
+// The user behind the request's access token, or null when it's missing,
+// expired or forged
+export const authenticateRequest = async (
+  req: VercelRequest,
+): Promise<AuthenticatedUser | null> => {
+  if (authenticatorOverride) return authenticatorOverride(req);
+
+  const token = getBearerToken(req);
+  const { url, anonKey } = getSupabaseConfig();
+  if (!token || !url || !anonKey) return null;
+
+  const supabase = createClient(url, anonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return { id: data.user.id, email: data.user.email, supabase };
+};
+
+// Middleware for the API functions: resolves to the signed-in user, or sends
+// the error response and resolves to null
+export const requireUser = async (
+  req: VercelRequest,
+  res: VercelResponse,
+): Promise<AuthenticatedUser | null> => {
+  if (!isAuthConfigured()) {
+    sendError(
+      res,
+      "INTERNAL_ERROR",
+      "Supabase is not configured on the server. Please add SUPABASE_URL and SUPABASE_ANON_KEY to your environment variables.",
+    );
+    return null;
+  }
+
+  let user: AuthenticatedUser | null = null;
+  try {
+    user = await authenticateRequest(req);
+  } catch (error) {
+    console.warn("Could not verify access token:", error);
+  }
+
+  if (!user) {
+    sendError(res, "UNAUTHENTICATED", "Please sign in to use the AI stylist.");
+  }
+  return user;
+};
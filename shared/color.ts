@@ -0,0 +1,642 @@
+import type { ItemColor } from "./types";
+
+// Color theory shared by the client and every API endpoint: a canonical
+// named palette with CIELAB values, name/hex normalisation, palette
+// extraction and a deterministic harmony scorer that explains itself.
+
+export type Lab = [number, number, number];
+
+// Named colors items are described with, and whether they work as neutrals
+export interface NamedColor {
+  name: string;
+  hex: string;
+  neutral: boolean;
+  aliases?: string[];
+}
+
+export interface CanonicalColor extends NamedColor {
+  lab: Lab;
+  // Hue (degrees) on the artist's RYB color wheel, which is the wheel
+  // "complementary" and "analogous" refer to in styling
+  hue: number;
+  // Colorfulness in LAB space
+  chroma: number;
+}
+
+const NAMED_COLOR_DEFINITIONS: NamedColor[] = [
+  { name: "black", hex: "#1a1a1a", neutral: true, aliases: ["jet", "onyx"] },
+  { name: "charcoal", hex: "#36454f", neutral: true },
+  {
+    name: "gray",
+    hex: "#8c8c8c",
+    neutral: true,
+    aliases: ["grey", "heather", "slate"],
+  },
+  { name: "silver", hex: "#c0c0c0", neutral: true },
+  { name: "white", hex: "#f5f5f5", neutral: true, aliases: ["snow"] },
+  {
+    name: "cream",
+    hex: "#f3ead7",
+    neutral: true,
+    aliases: ["ivory", "off-white", "off white", "ecru", "bone"],
+  },
+  { name: "beige", hex: "#d8c3a5", neutral: true, aliases: ["sand", "nude"] },
+  { name: "khaki", hex: "#bdb07f", neutral: true, aliases: ["stone"] },
+  { name: "camel", hex: "#c19a6b", neutral: true, aliases: ["tan"] },
+  {
+    name: "brown",
+    hex: "#6f4e37",
+    neutral: true,
+    aliases: ["chocolate", "coffee", "mocha", "cognac"],
+  },
+  { name: "navy", hex: "#1f2a44", neutral: true, aliases: ["midnight"] },
+  { name: "denim", hex: "#3b5b85", neutral: true, aliases: ["indigo"] },
+  { name: "light blue", hex: "#9cc3e6", neutral: false, aliases: ["sky"] },
+  {
+    name: "blue",
+    hex: "#2f6fd0",
+    neutral: false,
+    aliases: ["cobalt", "royal"],
+  },
+  { name: "teal", hex: "#1f7a7a", neutral: false, aliases: ["turquoise"] },
+  {
+    name: "green",
+    hex: "#2e8b57",
+    neutral: false,
+    aliases: ["emerald", "forest", "mint", "sage"],
+  },
+  { name: "olive", hex: "#6b6b2e", neutral: false, aliases: ["army"] },
+  { name: "yellow", hex: "#f2c94c", neutral: false, aliases: ["lemon"] },
+  { name: "mustard", hex: "#d4a017", neutral: false, aliases: ["ochre"] },
+  {
+    name: "orange",
+    hex: "#f2994a",
+    neutral: false,
+    aliases: ["rust", "coral", "peach"],
+  },
+  { name: "red", hex: "#c0392b", neutral: false, aliases: ["scarlet"] },
+  {
+    name: "burgundy",
+    hex: "#800020",
+    neutral: false,
+    aliases: ["maroon", "wine", "oxblood"],
+  },
+  {
+    name: "pink",
+    hex: "#f4a6c1",
+    neutral: false,
+    aliases: ["blush", "rose", "fuchsia", "magenta"],
+  },
+  {
+    name: "purple",
+    hex: "#7d3c98",
+    neutral: false,
+    aliases: ["violet", "plum"],
+  },
+  { name: "lavender", hex: "#c8a2c8", neutral: false, aliases: ["lilac"] },
+];
+
+// Neutrals every wardrobe is expected to have at least one item in
+export const ESSENTIAL_NEUTRALS = ["black", "white", "navy"];
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = (r: number, g: number, b: number): string =>
+  `#${[r, g, b]
+    .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+    .join("")}`;
+
+// sRGB (0-255) to CIELAB under a D65 white point
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const linear = [r, g, b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.04045
+      ? value / 12.92
+      : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+
+  const x =
+    (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+  const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722;
+  const z =
+    (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+export const hexToLab = (hex: string): Lab => {
+  const [r, g, b] = hexToRgb(hex);
+  return rgbToLab(r, g, b);
+};
+
+// Perceptual distance between two LAB colors (CIE76 delta E)
+export const deltaE = (a: Lab, b: Lab): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+// HSV hue anchors mapped onto the RYB wheel (red, yellow, green, cyan,
+// blue, magenta), so e.g. red and green end up opposite each other
+const RYB_HUE_ANCHORS: [number, number][] = [
+  [0, 0],
+  [60, 120],
+  [120, 180],
+  [180, 210],
+  [240, 240],
+  [300, 300],
+  [360, 360],
+];
+
+export const rybHue = (r: number, g: number, b: number): number => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  if (delta === 0) return 0;
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+  hue = (hue * 60 + 360) % 360;
+
+  const index = RYB_HUE_ANCHORS.findIndex(([anchor]) => anchor > hue) - 1;
+  const [fromHsv, fromRyb] = RYB_HUE_ANCHORS[index];
+  const [toHsv, toRyb] = RYB_HUE_ANCHORS[index + 1];
+  return fromRyb + ((hue - fromHsv) / (toHsv - fromHsv)) * (toRyb - fromRyb);
+};
+
+const toCanonical = (color: NamedColor): CanonicalColor => {
+  const [r, g, b] = hexToRgb(color.hex);
+  const lab = rgbToLab(r, g, b);
+  return {
+    ...color,
+    lab,
+    hue: rybHue(r, g, b),
+    chroma: Math.sqrt(lab[1] ** 2 + lab[2] ** 2),
+  };
+};
+
+export const NAMED_COLORS: CanonicalColor[] =
+  NAMED_COLOR_DEFINITIONS.map(toCanonical);
+
+const NAMED_COLORS_BY_NAME = new Map(
+  NAMED_COLORS.map((color) => [color.name, color]),
+);
+
+// Closest named color to an RGB value by LAB distance
+export const nearestNamedColor = (
+  r: number,
+  g: number,
+  b: number,
+): CanonicalColor => {
+  const lab = rgbToLab(r, g, b);
+  let best = NAMED_COLORS[0];
+  let bestDistance = Infinity;
+
+  NAMED_COLORS.forEach((color) => {
+    const distance = deltaE(lab, color.lab);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = color;
+    }
+  });
+
+  return best;
+};
+
+// Match a free-text color ("Navy Blue", "off-white") to a named color,
+// preferring the longest name or alias found in the text
+export const matchNamedColor = (text: string): CanonicalColor | null => {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+
+  let best: CanonicalColor | null = null;
+  let bestLength = 0;
+  NAMED_COLORS.forEach((color) => {
+    [color.name, ...(color.aliases || [])].forEach((word) => {
+      if (value.includes(word) && word.length > bestLength) {
+        best = color;
+        bestLength = word.length;
+      }
+    });
+  });
+
+  return best;
+};
+
+// Canonical color for a name, alias, free-text description or "#rrggbb"
+export const normalizeColor = (input: string): CanonicalColor | null => {
+  if (!input) return null;
+  const value = input.trim().toLowerCase();
+
+  if (/^#[0-9a-f]{6}$/.test(value)) {
+    const [r, g, b] = hexToRgb(value);
+    return nearestNamedColor(r, g, b);
+  }
+  return NAMED_COLORS_BY_NAME.get(value) || matchNamedColor(value);
+};
+
+export const isNeutralColor = (name: string): boolean =>
+  normalizeColor(name)?.neutral ?? false;
+
+interface ColorSource {
+  color?: string | null;
+  colors?: ItemColor[] | null;
+}
+
+// All color names for an item: the extracted palette when there is one,
+// otherwise the free-text color mapped onto a named color where possible
+export const getItemColorNames = (item: ColorSource): string[] => {
+  if (item.colors?.length) {
+    return [...new Set(item.colors.map((color) => color.name))];
+  }
+  if (!item.color) return [];
+
+  const match = matchNamedColor(item.color);
+  return [match ? match.name : item.color.trim().toLowerCase()];
+};
+
+// The single color an item reads as from a distance
+export const getItemPrimaryColor = (item: ColorSource): string | null =>
+  getItemColorNames(item)[0] || null;
+
+interface PaletteOptions {
+  // Most swatches to return
+  maxColors?: number;
+  // Swatches covering less than this share of the pixels are dropped
+  minShare?: number;
+  // k-means rounds; the palette barely moves after a handful
+  iterations?: number;
+}
+
+// Dominant palette of a set of RGB pixels (flat [r, g, b, r, g, b, ...]),
+// via k-means seeded from a coarse histogram so results are deterministic
+export const extractPalette = (
+  pixels: ArrayLike<number>,
+  { maxColors = 3, minShare = 0.08, iterations = 8 }: PaletteOptions = {},
+): ItemColor[] => {
+  const pixelCount = Math.floor(pixels.length / 3);
+  if (pixelCount === 0) return [];
+
+  // Seed centroids from the most populated cells of a 4x4x4 histogram
+  const buckets = new Map<number, { count: number; sum: number[] }>();
+  for (let i = 0; i < pixelCount; i++) {
+    const r = pixels[i * 3];
+    const g = pixels[i * 3 + 1];
+    const b = pixels[i * 3 + 2];
+    const key = ((r >> 6) << 4) | ((g >> 6) << 2) | (b >> 6);
+    const bucket = buckets.get(key) || { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum[0] += r;
+    bucket.sum[1] += g;
+    bucket.sum[2] += b;
+    buckets.set(key, bucket);
+  }
+
+  let centroids = [...buckets.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, Math.max(maxColors + 2, 5))
+    .map((bucket) => bucket.sum.map((total) => total / bucket.count));
+
+  const assignments = new Uint8Array(pixelCount);
+  for (let round = 0; round < iterations; round++) {
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+
+    for (let i = 0; i < pixelCount; i++) {
+      const r = pixels[i * 3];
+      const g = pixels[i * 3 + 1];
+      const b = pixels[i * 3 + 2];
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centroids.forEach((centroid, index) => {
+        const distance =
+          (r - centroid[0]) ** 2 +
+          (g - centroid[1]) ** 2 +
+          (b - centroid[2]) ** 2;
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = index;
+        }
+      });
+      assignments[i] = nearest;
+      sums[nearest][0] += r;
+      sums[nearest][1] += g;
+      sums[nearest][2] += b;
+      sums[nearest][3]++;
+    }
+
+    centroids = centroids.map((centroid, index) =>
+      sums[index][3] > 0
+        ? [
+            sums[index][0] / sums[index][3],
+            sums[index][1] / sums[index][3],
+            sums[index][2] / sums[index][3],
+          ]
+        : centroid,
+    );
+  }
+
+  const counts = centroids.map(() => 0);
+  assignments.forEach((index) => counts[index]++);
+
+  // Merge clusters that land on the same named color
+  const byName = new Map<string, { share: number; rgb: number[] }>();
+  centroids.forEach((centroid, index) => {
+    const share = counts[index] / pixelCount;
+    if (share === 0) return;
+    const name = nearestNamedColor(centroid[0], centroid[1], centroid[2]).name;
+    const existing = byName.get(name);
+    // Keep the hex of the larger cluster; it's the more representative shade
+    if (!existing || share > existing.share) {
+      byName.set(name, {
+        share: share + (existing?.share || 0),
+        rgb: centroid,
+      });
+    } else {
+      existing.share += share;
+    }
+  });
+
+  return [...byName.entries()]
+    .map(([name, { share, rgb }]) => ({
+      hex: rgbToHex(rgb[0], rgb[1], rgb[2]),
+      name,
+      share: Math.round(share * 100) / 100,
+    }))
+    .filter((color) => color.share >= minShare)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, maxColors);
+};
+
+export type HarmonyType =
+  | "neutral"
+  | "monochrome"
+  | "neutral-anchored"
+  | "analogous"
+  | "complementary"
+  | "triadic"
+  | "mixed"
+  | "clashing";
+
+export interface HarmonyResult {
+  score: number; // 0-100
+  type: HarmonyType;
+  explanation: string;
+  reasons: string[];
+  // Canonical names of the colors that were scored
+  colors: string[];
+  // Inputs that couldn't be mapped onto the palette
+  unrecognized: string[];
+}
+
+type HueRelation = "analogous" | "complementary" | "triadic" | "clash";
+
+// Hue differences (degrees, on the RYB wheel) for each classic relation
+const ANALOGOUS_MAX = 45;
+const TRIADIC_RANGE: [number, number] = [100, 140];
+const COMPLEMENTARY_MIN = 150;
+
+// Points each accent pair adds to (or takes from) an outfit's score
+const RELATION_POINTS: Record<HueRelation, number> = {
+  analogous: 8,
+  complementary: 10,
+  triadic: 4,
+  clash: -14,
+};
+
+const hueDistance = (a: number, b: number) => {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+};
+
+export const classifyHueRelation = (
+  a: CanonicalColor,
+  b: CanonicalColor,
+): HueRelation => {
+  const distance = hueDistance(a.hue, b.hue);
+  if (distance <= ANALOGOUS_MAX) return "analogous";
+  if (distance >= COMPLEMENTARY_MIN) return "complementary";
+  if (distance >= TRIADIC_RANGE[0] && distance <= TRIADIC_RANGE[1]) {
+    return "triadic";
+  }
+  return "clash";
+};
+
+const clampScore = (score: number) =>
+  Math.round(Math.min(Math.max(score, 0), 100));
+
+const listNames = (colors: CanonicalColor[]) =>
+  colors.map((color) => color.name).join(", ");
+
+// Score how well a set of colors works together (one outfit's worth),
+// with plain-language reasons for the score
+export const scoreColorHarmony = (inputs: string[]): HarmonyResult => {
+  const unrecognized: string[] = [];
+  const byName = new Map<string, CanonicalColor>();
+  inputs.filter(Boolean).forEach((input) => {
+    const color = normalizeColor(input);
+    if (color) byName.set(color.name, color);
+    else unrecognized.push(input);
+  });
+
+  const colors = [...byName.values()];
+  const neutrals = colors.filter((color) => color.neutral);
+  const accents = colors.filter((color) => !color.neutral);
+  const reasons: string[] = [];
+
+  if (unrecognized.length > 0) {
+    reasons.push(`Couldn't place ${unrecognized.join(", ")} on the palette.`);
+  }
+
+  if (colors.length === 0) {
+    return {
+      score: 60,
+      type: "neutral",
+      explanation: "No recognizable colors, so the look reads as neutral.",
+      reasons,
+      colors: [],
+      unrecognized,
+    };
+  }
+
+  if (accents.length === 0) {
+    reasons.unshift(
+      `All neutrals (${listNames(neutrals)}) always work together.`,
+    );
+    const lightness = neutrals.map((color) => color.lab[0]);
+    const contrast = Math.max(...lightness) - Math.min(...lightness);
+    if (neutrals.length > 1 && contrast < 15) {
+      reasons.push(
+        "Similar lightness keeps it tonal; a lighter or darker piece would add depth.",
+      );
+    }
+    return {
+      score: clampScore(neutrals.length > 1 && contrast < 15 ? 80 : 85),
+      type: "neutral",
+      explanation: reasons.join(" "),
+      reasons,
+      colors: colors.map((color) => color.name),
+      unrecognized,
+    };
+  }
+
+  let score = 70;
+  const relationCounts: Record<HueRelation, number> = {
+    analogous: 0,
+    complementary: 0,
+    triadic: 0,
+    clash: 0,
+  };
+
+  for (let i = 0; i < accents.length; i++) {
+    for (let j = i + 1; j < accents.length; j++) {
+      const relation = classifyHueRelation(accents[i], accents[j]);
+      relationCounts[relation]++;
+      score += RELATION_POINTS[relation];
+      const pair = `${accents[i].name} and ${accents[j].name}`;
+      if (relation === "clash") {
+        reasons.push(`${pair} sit awkwardly apart on the color wheel.`);
+      } else {
+        reasons.push(`${pair} are ${relation}.`);
+      }
+    }
+  }
+
+  if (neutrals.length > 0) {
+    score += accents.length <= 2 ? 12 : 6;
+    reasons.push(
+      `${listNames(neutrals)} ${neutrals.length === 1 ? "anchors" : "anchor"} the ${accents.length === 1 ? "accent" : "accents"}.`,
+    );
+  } else if (accents.length === 1) {
+    score += 10;
+    reasons.push(
+      `A single color (${accents[0].name}) keeps the look monochrome.`,
+    );
+  }
+
+  if (accents.length > 3) {
+    score -= (accents.length - 3) * 10;
+    reasons.push(`${accents.length} accent colors compete for attention.`);
+  }
+
+  let type: HarmonyType;
+  if (accents.length === 1) {
+    type = neutrals.length > 0 ? "neutral-anchored" : "monochrome";
+  } else if (relationCounts.clash > 0) {
+    type = relationCounts.clash * 2 > accents.length - 1 ? "clashing" : "mixed";
+  } else if (relationCounts.complementary > 0) {
+    type = "complementary";
+  } else if (relationCounts.triadic > 0) {
+    type = "triadic";
+  } else {
+    type = "analogous";
+  }
+
+  return {
+    score: clampScore(score),
+    type,
+    explanation: reasons.join(" "),
+    reasons,
+    colors: colors.map((color) => color.name),
+    unrecognized,
+  };
+};
+
+export interface WardrobePaletteResult {
+  score: number; // 0-100
+  neutralShare: number; // 0-1, by item
+  explanation: string;
+  reasons: string[];
+}
+
+// Ideal share of neutral items: enough to anchor outfits, not all beige
+const NEUTRAL_SHARE_RANGE: [number, number] = [0.4, 0.75];
+
+// Score a whole wardrobe's palette from item counts per color: a neutral
+// base, accents that work with each other, and some variety
+export const scoreWardrobePalette = (
+  colorCounts: Record<string, number>,
+): WardrobePaletteResult => {
+  const counts = new Map<string, { color: CanonicalColor; count: number }>();
+  Object.entries(colorCounts).forEach(([input, count]) => {
+    const color = normalizeColor(input);
+    if (!color) return;
+    const existing = counts.get(color.name);
+    counts.set(color.name, { color, count: (existing?.count || 0) + count });
+  });
+
+  const entries = [...counts.values()].sort((a, b) => b.count - a.count);
+  const total = entries.reduce((sum, entry) => sum + entry.count, 0);
+  if (total === 0) {
+    return {
+      score: 50,
+      neutralShare: 0,
+      explanation: "Add colors to your items to get a palette score.",
+      reasons: [],
+    };
+  }
+
+  const neutralCount = entries
+    .filter((entry) => entry.color.neutral)
+    .reduce((sum, entry) => sum + entry.count, 0);
+  const neutralShare = neutralCount / total;
+  const reasons: string[] = [];
+  let score = 60;
+
+  if (neutralShare < NEUTRAL_SHARE_RANGE[0]) {
+    score -= Math.round((NEUTRAL_SHARE_RANGE[0] - neutralShare) * 50);
+    reasons.push(
+      `Only ${Math.round(neutralShare * 100)}% of items are neutrals, so pieces are harder to pair.`,
+    );
+  } else if (neutralShare > NEUTRAL_SHARE_RANGE[1]) {
+    score += 15;
+    reasons.push(
+      `A mostly neutral wardrobe (${Math.round(neutralShare * 100)}%) mixes easily but could use an accent color.`,
+    );
+  } else {
+    score += 25;
+    reasons.push(
+      `A ${Math.round(neutralShare * 100)}% neutral base leaves room for accents.`,
+    );
+  }
+
+  // The main accents should work with each other, not just with neutrals
+  const accents = entries
+    .filter((entry) => !entry.color.neutral)
+    .slice(0, 4)
+    .map((entry) => entry.color.name);
+  if (accents.length > 1) {
+    const accentHarmony = scoreColorHarmony(accents);
+    score += Math.round((accentHarmony.score - 70) / 3);
+    reasons.push(
+      accentHarmony.type === "clashing" || accentHarmony.type === "mixed"
+        ? `Your main accents (${accents.join(", ")}) don't all work together.`
+        : `Your main accents (${accents.join(", ")}) are ${accentHarmony.type}.`,
+    );
+  }
+
+  if (entries.length >= 3 && entries.length <= 8) {
+    score += 10;
+  } else if (entries.length > 8) {
+    reasons.push("A very wide spread of colors makes outfits harder to plan.");
+  }
+
+  const missing = ESSENTIAL_NEUTRALS.filter((name) => !counts.has(name));
+  if (missing.length > 0) {
+    score -= missing.length * 3;
+    reasons.push(`No ${missing.join(" or ")} pieces yet.`);
+  }
+
+  return {
+    score: clampScore(score),
+    neutralShare,
+    explanation: reasons.join(" "),
+    reasons,
+  };
+};
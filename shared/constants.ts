@@ -39,3 +39,24 @@ export const STYLE_PREFERENCES = {
     "classic",
   ] as const,
 } as const;
+
+export const FORMALITY_LABELS: Record<number, string> = {
+  1: "Very casual",
+  2: "Casual",
+  3: "Smart casual",
+  4: "Business",
+  5: "Formal",
+};
+
+export const CURRENCIES = [
+  { code: "USD", symbol: "$" },
+  { code: "EUR", symbol: "€" },
+  { code: "GBP", symbol: "£" },
+  { code: "IDR", symbol: "Rp" },
+  { code: "JPY", symbol: "¥" },
+  { code: "AUD", symbol: "A$" },
+  { code: "CAD", symbol: "C$" },
+  { code: "SGD", symbol: "S$" },
+] as const;
+
+export const DEFAULT_CURRENCY = "USD";
@@ -0,0 +1,58 @@
+// Reading Server-Sent Events from a fetch() response. EventSource can't
+// POST a body, so streaming endpoints are read through the response stream.
+
+export interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+// Parse one "event: ...\ndata: ..." block; data is JSON-decoded when it can be
+const parseEvent = (block: string): ServerSentEvent | null => {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  block.split("\n").forEach((line) => {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:"))
+      dataLines.push(line.slice(5).trimStart());
+  });
+
+  if (dataLines.length === 0) return null;
+  const raw = dataLines.join("\n");
+  try {
+    return { event, data: JSON.parse(raw) };
+  } catch {
+    return { event, data: raw };
+  }
+};
+
+// Call onEvent for each event until the stream ends. Aborting the request's
+// signal rejects with an AbortError.
+export const readEventStream = async (
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void,
+): Promise<void> => {
+  if (!response.body) throw new Error("Response has no body to stream");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed);
+      boundary = buffer.indexOf("\n\n");
+    }
+
+    if (done) break;
+  }
+
+  const trailing = parseEvent(buffer.trim());
+  if (trailing) onEvent(trailing);
+};
@@ -1,8 +1,48 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { STRUCTURED_PROMPT_TEMPLATES } from "./response-schemas";
+import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
+import type {
+  GenerationConfig,
+  Part,
+  ResponseSchema,
+} from "@google/generative-ai";
+import { z } from "zod";
+import {
+  AI_RESPONSE_SCHEMAS,
+  STRUCTURED_PROMPT_TEMPLATES,
+  generateValidatedResponse,
+} from "./response-schemas";
+import type {
+  AIResponseType,
+  StructuredResponse,
+  ValidatedAIResponse,
+} from "./response-schemas";
+import {
+  ESSENTIAL_NEUTRALS,
+  getItemColorNames,
+  getItemPrimaryColor,
+  isNeutralColor,
+  scoreWardrobePalette,
+} from "./color";
+import { MAX_SHARED_ITEMS } from "./outfit-solver";
+import type { AIImageInput, AIProvider } from "./ai-provider";
+import type { BudgetRange, WardrobeAnalysisType } from "./types";
+
+// Inline image passed to Gemini alongside the text prompt
+export type GeminiImageInput = AIImageInput;
+
+// Anything that can hand out a generative model (the real SDK or a test stub)
+export type GeminiClient = Pick<GoogleGenerativeAI, "getGenerativeModel">;
+
+let geminiClientOverride: GeminiClient | null = null;
+
+// Swap the Gemini client, e.g. for a stub in tests; pass null to restore
+export const setGeminiClient = (client: GeminiClient | null) => {
+  geminiClientOverride = client;
+};
 
 // Initialize Gemini AI
-const getGeminiClient = () => {
+const getGeminiClient = (): GeminiClient => {
+  if (geminiClientOverride) return geminiClientOverride;
+
   const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) {
     throw new Error(
@@ -12,48 +52,250 @@ const getGeminiClient = () => {
   return new GoogleGenerativeAI(apiKey);
 };
 
-// Performance-optimized Gemini generation
-export const generateWithGemini = async (
+export interface GeminiGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  model?: string;
+  images?: GeminiImageInput[];
+  deadline?: number; // see AIGenerateOptions
+}
+
+// Translate a zod schema into Gemini's responseSchema (an OpenAPI subset).
+// Constraints Gemini can't express, like minimum lengths, stay with zod.
+export const toGeminiSchema = (schema: z.ZodTypeAny): ResponseSchema | null => {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return toGeminiSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodString) return { type: SchemaType.STRING };
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? SchemaType.INTEGER : SchemaType.NUMBER };
+  }
+  if (schema instanceof z.ZodBoolean) return { type: SchemaType.BOOLEAN };
+  if (schema instanceof z.ZodArray) {
+    const items = toGeminiSchema(schema.element);
+    return items ? { type: SchemaType.ARRAY, items } : null;
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, ResponseSchema> = {};
+    const required: string[] = [];
+    Object.entries(schema.shape as Record<string, z.ZodTypeAny>).forEach(
+      ([key, value]) => {
+        const property = toGeminiSchema(value);
+        if (!property) return;
+        properties[key] = property;
+        if (!value.isOptional()) required.push(key);
+      },
+    );
+    return { type: SchemaType.OBJECT, properties, required };
+  }
+  // Free-form values (records, any) have no Gemini equivalent; leave them out
+  return null;
+};
+
+const GEMINI_RESPONSE_SCHEMAS = Object.fromEntries(
+  Object.entries(AI_RESPONSE_SCHEMAS).map(([type, schema]) => [
+    type,
+    toGeminiSchema(schema),
+  ]),
+) as Record<AIResponseType, ResponseSchema>;
+
+// Generation settings shared by the one-shot and streaming calls; a response
+// type switches Gemini to JSON output constrained to that schema
+const buildGenerationConfig = (options?: {
+  temperature?: number;
+  maxOutputTokens?: number;
+  responseType?: AIResponseType;
+}): GenerationConfig => ({
+  temperature: options?.temperature || 0.7,
+  maxOutputTokens: options?.maxOutputTokens || 1200,
+  ...(options?.responseType && {
+    responseMimeType: "application/json",
+    responseSchema: GEMINI_RESPONSE_SCHEMAS[options.responseType],
+  }),
+});
+
+// Performance-optimized Gemini generation. With a responseType the result is
+// the parsed, schema-validated object (plus how many repair rounds it took)
+// instead of text; one that never validates throws an
+// AIResponseValidationError.
+export async function generateWithGemini(
+  prompt: string,
+  options?: GeminiGenerateOptions,
+): Promise<string>;
+export async function generateWithGemini<T extends AIResponseType>(
+  prompt: string,
+  options: GeminiGenerateOptions & { responseType: T },
+): Promise<StructuredResponse<ValidatedAIResponse<T>>>;
+export async function generateWithGemini(
+  prompt: string,
+  options?: GeminiGenerateOptions & { responseType?: AIResponseType },
+): Promise<unknown> {
+  const genAI = getGeminiClient();
+  const model = genAI.getGenerativeModel({
+    model: options?.model || "gemini-1.5-flash", // Fast model for better performance
+    generationConfig: buildGenerationConfig(options),
+  });
+
+  const generateText = async (text: string, attempt = 1) => {
+    try {
+      const startTime = Date.now();
+
+      // Images go first so the prompt can refer to "this image". Repair
+      // prompts only need the broken JSON, so they're sent without them.
+      const request: string | Part[] =
+        attempt === 1 && options?.images?.length
+          ? [
+              ...options.images.map((image) => ({
+                inlineData: { data: image.data, mimeType: image.mimeType },
+              })),
+              { text },
+            ]
+          : text;
+
+      const result = await model.generateContent(request);
+      const response = await result.response;
+      const responseText = response.text();
+
+      const endTime = Date.now();
+      console.log(`Gemini response generated in ${endTime - startTime}ms`);
+
+      return responseText;
+    } catch (error: any) {
+      console.error("Gemini API error:", error);
+      throw new Error(
+        `Failed to generate content with Gemini: ${error?.message || "Unknown error"}`,
+      );
+    }
+  };
+
+  return options?.responseType
+    ? generateValidatedResponse(
+        generateText,
+        prompt,
+        options.responseType,
+        undefined,
+        options.deadline,
+      )
+    : generateText(prompt);
+}
+
+// Stream a Gemini response, yielding text chunks as they arrive. Aborting
+// the signal stops reading (Gemini still bills the full response).
+export async function* streamWithGemini(
   prompt: string,
   options?: {
     temperature?: number;
     maxOutputTokens?: number;
     model?: string;
+    signal?: AbortSignal;
+    // Constrain the output to this schema's JSON (chunks aren't validated)
+    responseType?: AIResponseType;
   },
-): Promise<string> => {
+): AsyncGenerator<string> {
   try {
     const genAI = getGeminiClient();
     const model = genAI.getGenerativeModel({
-      model: options?.model || "gemini-1.5-flash", // Fast model for better performance
-      generationConfig: {
-        temperature: options?.temperature || 0.7,
-        maxOutputTokens: options?.maxOutputTokens || 1200,
-      },
+      model: options?.model || "gemini-1.5-flash",
+      generationConfig: buildGenerationConfig(options),
     });
 
     const startTime = Date.now();
+    const result = await model.generateContentStream(prompt, {
+      signal: options?.signal,
+    });
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    const endTime = Date.now();
-    console.log(`Gemini response generated in ${endTime - startTime}ms`);
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
 
-    return text;
+    console.log(`Gemini stream finished in ${Date.now() - startTime}ms`);
   } catch (error: any) {
-    console.error("Gemini API error:", error);
+    console.error("Gemini streaming error:", error);
     throw new Error(
-      `Failed to generate content with Gemini: ${error?.message || "Unknown error"}`,
+      `Failed to stream content with Gemini: ${error?.message || "Unknown error"}`,
     );
   }
+}
+
+// Image types Gemini accepts as inline data
+const SUPPORTED_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+];
+
+// Inline data requests are capped at 20MB, leave room for the prompt
+const MAX_INLINE_IMAGE_BYTES = 15 * 1024 * 1024;
+
+// Turn a base64 string or data URL into an inline image part
+export const parseBase64Image = (
+  base64: string,
+  mimeType?: string,
+): GeminiImageInput => {
+  const dataUrlMatch = base64.match(/^data:([^;]+);base64,(.*)$/s);
+  const data = (dataUrlMatch ? dataUrlMatch[2] : base64).replace(/\s/g, "");
+  const type = (dataUrlMatch?.[1] || mimeType || "image/jpeg").toLowerCase();
+
+  if (!SUPPORTED_IMAGE_TYPES.includes(type)) {
+    throw new Error(`Unsupported image type: ${type}`);
+  }
+  if (Math.floor((data.length * 3) / 4) > MAX_INLINE_IMAGE_BYTES) {
+    throw new Error("Image is too large to analyze");
+  }
+
+  return { data, mimeType: type };
 };
 
+// Download an image (e.g. from Supabase storage) as an inline image part
+export const fetchImageAsInlineData = async (
+  imageUrl: string,
+  fetchImpl: typeof fetch = fetch,
+): Promise<GeminiImageInput> => {
+  const response = await fetchImpl(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status}`);
+  }
 
+  const mimeType = (response.headers.get("content-type") || "image/jpeg")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  if (!SUPPORTED_IMAGE_TYPES.includes(mimeType)) {
+    throw new Error(`Unsupported image type: ${mimeType}`);
+  }
+
+  const bytes = Buffer.from(await response.arrayBuffer());
+  if (bytes.length > MAX_INLINE_IMAGE_BYTES) {
+    throw new Error("Image is too large to analyze");
+  }
+
+  return { data: bytes.toString("base64"), mimeType };
+};
 
 // Check if Gemini is properly configured
 export const isGeminiConfigured = (): boolean => {
-  return !!process.env.GEMINI_API_KEY;
+  return !!geminiClientOverride || !!process.env.GEMINI_API_KEY;
+};
+
+// Gemini behind the provider interface (the default AI_PROVIDER)
+export const geminiProvider: AIProvider = {
+  name: "Gemini AI",
+  isConfigured: isGeminiConfigured,
+  setupInstructions:
+    "Please add GEMINI_API_KEY to your environment variables. Get your key from: https://aistudio.google.com/app/apikey",
+  readsImages: true,
+  generate: (prompt, options) => generateWithGemini(prompt, options),
+  generateStructured: (prompt, responseType, options) =>
+    generateWithGemini(prompt, { ...options, responseType }),
+  analyzeImage: (image, prompt, options) =>
+    generateWithGemini(prompt, {
+      ...options,
+      images: [image],
+      responseType: "item-analysis",
+    }),
+  stream: (prompt, options) => streamWithGemini(prompt, options),
 };
 
 // Build a fashion-focused prompt for Gemini
@@ -106,6 +348,7 @@ export const buildOutfitGenerationPrompt = (
   occasion: string,
   weather: string,
   style: string,
+  count = 1,
 ): string => {
   // Categorize items intelligently for better outfit creation
   const categorizedItems = categorizeItemsForOutfit(items);
@@ -129,7 +372,33 @@ export const buildOutfitGenerationPrompt = (
   // Build style preferences based on existing style tags
   const stylePreferences = extractStylePreferences(items, style);
 
-  const basePrompt = `Create a cohesive outfit combination from the user's wardrobe for a ${occasion} occasion in ${weather} weather with a ${style} aesthetic.
+  const outfitFormat = `{
+  "name": "Outfit name",
+  "description": "Brief description",
+  "items": ["ITEM_1", "ITEM_2", "ITEM_3"],
+  "reasoning": "Why this combination works",
+  "styling_tips": ["tip1", "tip2"],
+  "color_analysis": "Color coordination explanation",
+  "trend_insights": "Fashion trend relevance",
+  "confidence": 0.85,
+  "style_match_score": 0.9
+}`;
+
+  // Outfits come back wrapped in an "outfits" array, matching the
+  // outfit-list response schema
+  const responseFormat = `{
+  "outfits": [
+    ${outfitFormat.replace(/\n/g, "\n    ")}
+  ]
+}
+
+${
+  count > 1
+    ? `Return exactly ${count} outfits in the "outfits" array. No two outfits may share more than ${MAX_SHARED_ITEMS} items.`
+    : `Return exactly 1 outfit in the "outfits" array.`
+}`;
+
+  const basePrompt = `Create ${count > 1 ? `${count} distinct, cohesive outfit combinations` : "a cohesive outfit combination"} from the user's wardrobe for a ${occasion} occasion in ${weather} weather with a ${style} aesthetic.
 
 **WARDROBE ANALYSIS:**
 - Total items: ${items.length}
@@ -148,15 +417,7 @@ ${wardrobeDescription}
 
 **REQUIRED JSON RESPONSE FORMAT:**
 Please provide your response as a JSON object with this structure:
-{
-  "name": "Outfit name",
-  "description": "Brief description",
-  "items": ["ITEM_1", "ITEM_2", "ITEM_3"],
-  "reasoning": "Why this combination works",
-  "styling_tips": ["tip1", "tip2"],
-  "color_analysis": "Color coordination explanation",
-  "trend_insights": "Fashion trend relevance"
-}
+${responseFormat}
 
 IMPORTANT: Use ONLY the ITEM_ID references (like ITEM_1, ITEM_2) in the items array, NOT full item objects.
 
@@ -247,11 +508,69 @@ function extractStylePreferences(items: any[], preferredStyle: string): string {
   return preferences.join(", ") || preferredStyle;
 }
 
-// Build enhanced wardrobe analysis prompt for Gemini with deep insights
+// The task and priorities each analysis_type gives the model
+const WARDROBE_ANALYSIS_FOCUS: Record<
+  WardrobeAnalysisType,
+  { task: string; priorities: string[] }
+> = {
+  full: {
+    task: "Perform a comprehensive wardrobe analysis as an expert fashion consultant. Focus on actionable insights and personalized recommendations.",
+    priorities: [
+      "Identify high-impact investment pieces that multiply outfit options",
+      "Spot color coordination opportunities and gaps",
+      "Assess style consistency and suggest refinements",
+      "Calculate realistic outfit combinations from existing pieces",
+      "Provide actionable organization and styling advice",
+      "Consider seasonal versatility and occasion coverage",
+    ],
+  },
+  gaps: {
+    task: "Find the gaps in this wardrobe as an expert fashion consultant: the missing pieces that would unlock the most new outfits, and what to buy first.",
+    priorities: [
+      "Identify missing essentials and under-covered categories or occasions",
+      "Rank purchases by how many new outfits each one unlocks",
+      "Prefer pieces that work with the colors the user already owns",
+      "Give every investment priority a realistic estimated_price",
+    ],
+  },
+  suggestions: {
+    task: "Suggest new ways to wear this wardrobe as an expert stylist, using only pieces the user already owns.",
+    priorities: [
+      "Build complete outfits only from the inventory below",
+      "Cover a range of occasions",
+      "Bring underused pieces and unexpected combinations into play",
+      "Suggest organization habits that make outfits easier to put together",
+    ],
+  },
+  color_analysis: {
+    task: "Analyze this wardrobe's color palette as an expert color consultant.",
+    priorities: [
+      "Identify the dominant and missing colors",
+      "Score how well the palette works together (harmony_score, 0-100)",
+      "Name the best color pairings from colors the user already owns, and why they work",
+      "Recommend colors to add, and colors to avoid",
+    ],
+  },
+};
+
+// Budget instructions for the modes that recommend purchases
+const buildBudgetInstructions = (budget?: BudgetRange): string =>
+  budget
+    ? `
+
+**BUDGET:** Only recommend pieces that can be bought for ${budget.min}-${budget.max} ${budget.currency} each. Give each investment priority an estimated_price in ${budget.currency} within that range.`
+    : "";
+
+// Build enhanced wardrobe analysis prompt for Gemini with deep insights.
+// preferences.analysis_type picks the focus; style_goal and budget shape it.
 export const buildWardrobeAnalysisPrompt = (
   items: any[],
   preferences?: any,
 ): string => {
+  const analysisType: WardrobeAnalysisType =
+    preferences?.analysis_type || "full";
+  const focus = WARDROBE_ANALYSIS_FOCUS[analysisType];
+
   // Advanced categorization with detailed analysis
   const categorizedItems = categorizeItemsForOutfit(items);
   const styleAnalysis = analyzeStyleConsistency(items);
@@ -280,7 +599,7 @@ export const buildWardrobeAnalysisPrompt = (
   );
 
   return buildFashionPrompt(
-    `Perform a comprehensive wardrobe analysis as an expert fashion consultant. Focus on actionable insights and personalized recommendations.
+    `${focus.task}
 
 **WARDROBE OVERVIEW:**
 - Total Items: ${items.length}
@@ -302,7 +621,7 @@ export const buildWardrobeAnalysisPrompt = (
 **COLOR PALETTE ANALYSIS:**
 - Dominant Colors: ${colorAnalysis.dominant.join(", ")}
 - Supporting Colors: ${colorAnalysis.supporting.join(", ")}
-- Color Harmony Score: ${colorAnalysis.harmonyScore}/100
+- Color Harmony Score: ${colorAnalysis.harmonyScore}/100 (${colorAnalysis.harmonyExplanation})
 - Missing Neutrals: ${colorAnalysis.missingNeutrals.join(", ")}
 
 **WARDROBE INVENTORY:**
@@ -321,12 +640,11 @@ ${items
   .join("\n")}
 
 **ANALYSIS PRIORITIES:**
-1. Identify high-impact investment pieces that multiply outfit options
-2. Spot color coordination opportunities and gaps
-3. Assess style consistency and suggest refinements
-4. Calculate realistic outfit combinations from existing pieces
-5. Provide actionable organization and styling advice
-6. Consider seasonal versatility and occasion coverage
+${focus.priorities.map((priority, index) => `${index + 1}. ${priority}`).join("\n")}${preferences?.style_goal ? `\n\n**STYLE GOAL:** ${preferences.style_goal}` : ""}${
+      analysisType === "full" || analysisType === "gaps"
+        ? buildBudgetInstructions(preferences?.budget)
+        : ""
+    }
 
 **FOCUS ON ACTIONABILITY:** Every recommendation should be specific, achievable, and directly improve the user's styling options.`,
     {
@@ -387,21 +705,22 @@ function analyzeStyleConsistency(items: any[]) {
 
 // Analyze color palette with sophisticated color theory
 function analyzeColorPalette(items: any[]) {
-  const colors = items.map((item) => item.color).filter(Boolean);
+  // Each item counts once, by the color it mostly reads as
+  const colors = items.map((item) => getItemPrimaryColor(item)).filter(Boolean);
 
   if (colors.length === 0) {
     return {
       dominant: ["neutral tones"],
       supporting: [],
       harmonyScore: 50,
-      missingNeutrals: ["black", "white", "navy"],
+      harmonyExplanation: "No item colors recorded yet.",
+      missingNeutrals: [...ESSENTIAL_NEUTRALS],
     };
   }
 
   const colorCount = colors.reduce(
     (acc, color) => {
-      const normalizedColor = color.toLowerCase();
-      acc[normalizedColor] = (acc[normalizedColor] || 0) + 1;
+      acc[color] = (acc[color] || 0) + 1;
       return acc;
     },
     {} as Record<string, number>,
@@ -414,35 +733,19 @@ function analyzeColorPalette(items: any[]) {
   const dominant = sortedColors.slice(0, 3).map(([color]) => color);
   const supporting = sortedColors.slice(3, 6).map(([color]) => color);
 
-  // Calculate harmony score based on neutral presence and color balance
-  const neutralColors = [
-    "black",
-    "white",
-    "gray",
-    "grey",
-    "navy",
-    "beige",
-    "brown",
-    "cream",
-  ];
-  const neutralCount = dominant.filter((color) =>
-    neutralColors.some((neutral) => color.includes(neutral)),
-  ).length;
-
-  const harmonyScore = Math.min(
-    50 + neutralCount * 20 + (colors.length > 5 ? 10 : 0),
-    100,
-  );
+  const harmony = scoreWardrobePalette(colorCount);
 
-  const essentialNeutrals = ["black", "white", "navy"];
-  const missingNeutrals = essentialNeutrals.filter(
-    (neutral) => !colors.some((color) => color.toLowerCase().includes(neutral)),
+  // Secondary palette colors count too: a navy-striped shirt has navy
+  const allColors = new Set(items.flatMap((item) => getItemColorNames(item)));
+  const missingNeutrals = ESSENTIAL_NEUTRALS.filter(
+    (neutral) => !allColors.has(neutral),
   );
 
   return {
     dominant,
     supporting,
-    harmonyScore,
+    harmonyScore: harmony.score,
+    harmonyExplanation: harmony.explanation,
     missingNeutrals,
   };
 }
@@ -549,14 +852,11 @@ function calculateSophisticationScore(items: any[]): number {
   if (hasLuxuryBrands) score += 15;
 
   // Check color sophistication (neutral dominance)
-  const colors = items.map((item) => item.color).filter(Boolean);
-  const neutrals = ["black", "white", "navy", "gray", "beige", "brown"];
-  const neutralCount = colors.filter((color) =>
-    neutrals.some((neutral) => color.toLowerCase().includes(neutral)),
-  ).length;
-
-  const neutralRatio = neutralCount / colors.length;
-  score += neutralRatio * 20;
+  const colors = items.map((item) => getItemPrimaryColor(item)).filter(Boolean);
+  if (colors.length > 0) {
+    const neutralRatio = colors.filter(isNeutralColor).length / colors.length;
+    score += neutralRatio * 20;
+  }
 
   return Math.min(Math.max(score, 0), 100);
 }
@@ -621,22 +921,10 @@ function analyzeLifestylePatterns(items: any[]): string[] {
 
 // Calculate neutral color balance
 function calculateNeutralBalance(items: any[]): number {
-  const colors = items.map((item) => item.color).filter(Boolean);
+  const colors = items.map((item) => getItemPrimaryColor(item)).filter(Boolean);
   if (colors.length === 0) return 0;
 
-  const neutrals = [
-    "black",
-    "white",
-    "navy",
-    "gray",
-    "grey",
-    "beige",
-    "brown",
-    "cream",
-  ];
-  const neutralCount = colors.filter((color) =>
-    neutrals.some((neutral) => color.toLowerCase().includes(neutral)),
-  ).length;
+  const neutralCount = colors.filter(isNeutralColor).length;
 
   return Math.round((neutralCount / colors.length) * 100);
 }
@@ -0,0 +1,184 @@
+import { DEFAULT_CATEGORIES, DEFAULT_STYLE_TAGS } from "./constants";
+import type { ValidatedItemAnalysis } from "./response-schemas";
+
+// Suggested form values derived from an /api/analyze-item response
+export interface ItemSuggestions {
+  category_id?: number;
+  style_tag_ids: number[];
+  color?: string;
+  sub_category?: string;
+  material?: string;
+  pattern?: string;
+  formality_score?: number;
+  confidence: number;
+}
+
+interface NamedOption {
+  id: number;
+  name: string;
+}
+
+// Words the model tends to use for each of our style tags
+const STYLE_TAG_SYNONYMS: Record<string, string[]> = {
+  casual: [
+    "casual",
+    "relaxed",
+    "everyday",
+    "comfortable",
+    "streetwear",
+    "weekend",
+  ],
+  formal: ["formal", "elegant", "evening", "black tie", "sophisticated"],
+  business: ["business", "professional", "office", "work", "smart"],
+  sport: ["sport", "sporty", "athletic", "activewear", "gym", "athleisure"],
+  party: ["party", "night out", "festive", "glam", "cocktail"],
+  beach: ["beach", "resort", "swim", "vacation", "tropical"],
+  vintage: ["vintage", "retro", "heritage"],
+  modern: ["modern", "trendy", "contemporary", "minimalist", "minimal"],
+};
+
+// Words that point at each category when the model doesn't use our names
+const CATEGORY_SYNONYMS: Record<string, string[]> = {
+  tops: ["top", "shirt", "blouse", "tee", "sweater", "hoodie", "knit"],
+  bottoms: ["bottom", "pants", "jeans", "trouser", "skirt", "shorts", "chino"],
+  outerwear: ["outerwear", "jacket", "coat", "blazer", "parka", "cardigan"],
+  shoes: ["shoe", "sneaker", "boot", "heel", "sandal", "loafer"],
+  accessories: ["accessor", "bag", "hat", "belt", "scarf", "jewel", "watch"],
+  dresses: ["dress", "gown", "jumpsuit"],
+  activewear: ["activewear", "leggings", "sports bra", "athletic"],
+};
+
+// Placeholder values the analysis uses when it couldn't tell
+const PLACEHOLDER_VALUES = ["unknown", "unspecified", "neutral", "n/a"];
+
+const clean = (value?: string): string | undefined =>
+  value && !PLACEHOLDER_VALUES.includes(value.trim().toLowerCase())
+    ? value.trim()
+    : undefined;
+
+// Map a category name onto a category id, exact names first
+export const mapCategoryToId = (
+  category: string | undefined,
+  categories: NamedOption[] = DEFAULT_CATEGORIES,
+): number | undefined => {
+  if (!category) return undefined;
+  const value = category.trim().toLowerCase();
+
+  const exact = categories.find((c) => c.name.toLowerCase() === value);
+  if (exact) return exact.id;
+
+  const match = categories.find((c) =>
+    (CATEGORY_SYNONYMS[c.name.toLowerCase()] || []).some((word) =>
+      value.includes(word),
+    ),
+  );
+  return match?.id;
+};
+
+// Map free-form style words onto style tag ids
+export const mapStyleTagsToIds = (
+  tags: string[],
+  styleTags: NamedOption[] = DEFAULT_STYLE_TAGS,
+): number[] => {
+  const words = tags.map((tag) => tag.trim().toLowerCase());
+
+  return styleTags
+    .filter((styleTag) => {
+      const synonyms = STYLE_TAG_SYNONYMS[styleTag.name.toLowerCase()] || [
+        styleTag.name.toLowerCase(),
+      ];
+      return words.some((word) =>
+        synonyms.some((synonym) => word.includes(synonym)),
+      );
+    })
+    .map((styleTag) => styleTag.id);
+};
+
+// Turn an item analysis into values the upload form can pre-fill. Style tags
+// come from style_tags alone: occasion_suitability falls back to per-category
+// defaults, which would tag every top as Business.
+export const analysisToSuggestions = (
+  analysis: Partial<ValidatedItemAnalysis>,
+  categories: NamedOption[] = DEFAULT_CATEGORIES,
+  styleTags: NamedOption[] = DEFAULT_STYLE_TAGS,
+): ItemSuggestions => {
+  return {
+    category_id: mapCategoryToId(analysis.category, categories),
+    style_tag_ids: mapStyleTagsToIds(analysis.style_tags || [], styleTags),
+    color: clean(analysis.color),
+    sub_category: clean(analysis.sub_category),
+    material: clean(analysis.material),
+    pattern: clean(analysis.pattern),
+    formality_score: analysis.formality_score,
+    confidence: analysis.confidence ?? 0.5,
+  };
+};
+
+// Keyword heuristics behind the analysis used when no AI answer is available
+
+export const generateStylingSuggestions = (
+  category: string,
+  colors: string[],
+): string[] => {
+  const base = [
+    "Layer with complementary pieces for depth",
+    "Accessorize to elevate the look",
+    "Mix textures for visual interest",
+    "Pair with neutral basics for versatility",
+  ];
+
+  if (category.includes("Top")) {
+    base.push("Tuck into high-waisted bottoms for a polished look");
+  }
+
+  return base.slice(0, 5);
+};
+
+export const getBestOccasions = (category: string): string[] => {
+  const occasions = ["casual", "everyday"];
+
+  if (category.includes("Dress") || category.includes("formal")) {
+    occasions.push("formal events", "work");
+  }
+  if (category.includes("Top")) {
+    occasions.push("work", "weekend");
+  }
+
+  return occasions;
+};
+
+export const getPairingItems = (
+  category: string,
+  colors: string[],
+): string[] => {
+  if (category.includes("Top"))
+    return ["dark jeans", "dress pants", "midi skirt"];
+  if (category.includes("Bottom"))
+    return ["white shirt", "casual tee", "blazer"];
+  if (category.includes("Dress")) return ["cardigan", "denim jacket", "heels"];
+
+  return ["neutral basics", "complementary accessories"];
+};
+
+export const getCareInstructions = (category: string): string =>
+  "Follow care label instructions for best results. Machine wash cold, gentle cycle recommended.";
+
+// Analysis from the item's own fields, for when the AI can't be reached
+export const createFallbackAnalysis = (
+  itemData: any,
+): ValidatedItemAnalysis => {
+  const category = itemData.category || "Other";
+  const color = itemData.color || "neutral";
+
+  return {
+    category: category,
+    style_tags: ["classic", "versatile", "essential"],
+    color: color,
+    versatility_score: 7,
+    styling_suggestions: generateStylingSuggestions(category, [color]),
+    pairing_recommendations: getPairingItems(category, [color]),
+    occasion_suitability: getBestOccasions(category),
+    care_instructions: getCareInstructions(category),
+    confidence: 0.7,
+  };
+};
@@ -0,0 +1,71 @@
+// Incremental JSON scanning for streamed model output.
+//
+// Gemini streams text in arbitrary chunks, so an outfit object can be split
+// anywhere. The scanner tracks brace depth (ignoring braces inside strings)
+// and hands back each object as soon as its closing brace arrives: top-level
+// objects and objects that are array elements, e.g. each entry of
+// {"outfits": [...]}. Prose or code fences around the JSON are skipped.
+
+export interface JsonObjectScanner {
+  // Feed the next chunk; returns the objects it completed
+  push(chunk: string): any[];
+}
+
+export function createJsonObjectScanner(): JsonObjectScanner {
+  let buffer = "";
+  let position = 0;
+  let inString = false;
+  let escaped = false;
+  // Open containers: their bracket and where they start in the buffer
+  const stack: { bracket: "{" | "["; start: number }[] = [];
+
+  return {
+    push(chunk: string) {
+      const completed: any[] = [];
+      buffer += chunk;
+
+      for (; position < buffer.length; position++) {
+        const char = buffer[position];
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === "\\") escaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+
+        // Outside any object only an opening brace matters
+        if (stack.length === 0) {
+          if (char === "{") stack.push({ bracket: "{", start: position });
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === "{" || char === "[") {
+          stack.push({ bracket: char, start: position });
+        } else if (char === "}" || char === "]") {
+          const closed = stack.pop();
+          const parent = stack[stack.length - 1];
+          if (closed.bracket === "{" && (!parent || parent.bracket === "[")) {
+            try {
+              completed.push(
+                JSON.parse(buffer.slice(closed.start, position + 1)),
+              );
+            } catch {
+              // Not valid JSON after all (e.g. a brace in prose); skip it
+            }
+          }
+        }
+      }
+
+      // Nothing open: drop what's been scanned so the buffer stays small
+      if (stack.length === 0) {
+        buffer = "";
+        position = 0;
+      }
+
+      return completed;
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import { createUserStyleProfile } from "./gemini";
+import { createFallbackAnalysis } from "./item-analysis";
+import { generateSmartOutfits, generateStylingTips } from "./outfit-solver";
+import { generateValidatedResponse } from "./response-schemas";
+import type { AIResponseType } from "./response-schemas";
+import {
+  describeWardrobeItem,
+  generateSmartAnalysis,
+  generateSmartAnalysisForType,
+  generateStylingOpportunities,
+} from "./wardrobe-insights";
+import type { AIProvider, AIRequestContext } from "./ai-provider";
+
+// Offline provider (AI_PROVIDER=local): answers from the same heuristics the
+// endpoints fall back to, so development and tests need no API key. It
+// ignores the prompt and works from the request context, so the same request
+// always gets the same answer.
+
+// Solver outfits in the model's format, items referenced by ITEM_ID like the
+// outfit prompt asks for
+const buildLocalOutfits = (context: AIRequestContext) => {
+  const wardrobe = context.wardrobe || [];
+  return generateSmartOutfits(
+    wardrobe,
+    context.occasion || "casual",
+    context.weather || "mild",
+    context.style || "comfortable",
+    { count: context.count || 1 },
+  ).map((outfit) => ({
+    name: outfit.name,
+    description: outfit.description,
+    items: outfit.items.map((item) => `ITEM_${wardrobe.indexOf(item) + 1}`),
+    reasoning: outfit.reasoning,
+    styling_tips: outfit.styling_tips,
+    color_analysis: outfit.color_analysis,
+    trend_insights: outfit.trend_insights,
+    confidence: Math.max(outfit.confidence, 0.1),
+    style_match_score: outfit.style_match_score,
+  }));
+};
+
+// The analysis_type behind each focused wardrobe response
+const LOCAL_ANALYSIS_TYPES = {
+  "wardrobe-gaps": "gaps",
+  "wardrobe-suggestions": "suggestions",
+  "wardrobe-colors": "color_analysis",
+} as const;
+
+const buildLocalResponse = (
+  responseType: AIResponseType,
+  context: AIRequestContext = {},
+): unknown => {
+  const wardrobe = context.wardrobe || [];
+  const occasion = context.occasion || "casual";
+  const weather = context.weather || "mild";
+
+  switch (responseType) {
+    case "outfit-list":
+      return { outfits: buildLocalOutfits(context) };
+
+    case "outfit-generation":
+      return buildLocalOutfits({ ...context, count: 1 })[0] || {};
+
+    case "wardrobe-analysis": {
+      const analysis = generateSmartAnalysis(
+        wardrobe,
+        context.preferences || {},
+        context.style,
+        context.budget,
+      );
+      return {
+        ...analysis,
+        strengths: analysis.strengths.length
+          ? analysis.strengths
+          : [`A starting wardrobe of ${wardrobe.length} items to build on`],
+        styling_opportunities: generateStylingOpportunities(
+          wardrobe,
+          occasion,
+          weather,
+          context.style || "comfortable",
+        ),
+        confidence: 0.6,
+      };
+    }
+
+    case "wardrobe-gaps":
+    case "wardrobe-suggestions":
+    case "wardrobe-colors":
+      return generateSmartAnalysisForType(
+        LOCAL_ANALYSIS_TYPES[responseType],
+        wardrobe,
+        context.preferences || {},
+        context.style,
+        context.budget,
+      );
+
+    case "item-analysis":
+      return createFallbackAnalysis(wardrobe[0] || {});
+
+    case "styling-advice": {
+      const profile = createUserStyleProfile(wardrobe, context.preferences);
+      return {
+        advice: `For ${occasion} in ${weather} weather, build around your ${profile.stylePreferences.primaryStyles.join(", ")} pieces in ${profile.colorPreferences.dominantColors.join(", ")} and keep the palette cohesive.`,
+        specific_recommendations: profile.personalizedRecommendations.length
+          ? profile.personalizedRecommendations
+          : ["Build outfits around your most versatile neutral pieces"],
+        styling_tips: generateStylingTips(wardrobe, occasion, weather),
+        confidence: 0.6,
+      };
+    }
+  }
+};
+
+// Plain-text notes for the free-form calls
+const buildLocalText = (context: AIRequestContext = {}): string => {
+  const occasion = context.occasion || "casual";
+  const weather = context.weather || "mild";
+  const items = (context.wardrobe || []).map(describeWardrobeItem).join(", ");
+
+  return [
+    `Styling notes${items ? ` for ${items}` : ""} (${occasion}, ${weather} weather):`,
+    ...generateStylingTips(context.wardrobe || [], occasion, weather).map(
+      (tip) => `- ${tip}`,
+    ),
+  ].join("\n");
+};
+
+export const localProvider: AIProvider = {
+  name: "Local Heuristics",
+  isConfigured: () => true,
+  setupInstructions: "",
+  readsImages: false,
+  generate: async (prompt, options) => buildLocalText(options?.context),
+  // One attempt: asking again would give the same answer
+  generateStructured: (prompt, responseType, options) =>
+    generateValidatedResponse(
+      async () =>
+        JSON.stringify(buildLocalResponse(responseType, options?.context)),
+      prompt,
+      responseType,
+      1,
+    ),
+  analyzeImage: (image, prompt, options) =>
+    localProvider.generateStructured(prompt, "item-analysis", options),
+  async *stream(prompt, options) {
+    yield options?.responseType
+      ? JSON.stringify(
+          buildLocalResponse(options.responseType, options.context),
+        )
+      : buildLocalText(options?.context);
+  },
+};
@@ -0,0 +1,168 @@
+import { generateValidatedResponse } from "./response-schemas";
+import type { AIResponseType } from "./response-schemas";
+import type {
+  AIGenerateOptions,
+  AIImageInput,
+  AIProvider,
+} from "./ai-provider";
+
+// Provider for any server speaking the OpenAI chat completions API (OpenAI
+// itself, or a locally hosted model behind Ollama, llama.cpp, vLLM, ...).
+// Structured calls ask for JSON mode; the schema itself travels in the
+// prompt template and is enforced by the repair loop.
+
+export interface OpenAICompatibleConfig {
+  baseUrl?: string; // e.g. http://localhost:11434/v1
+  apiKey?: string; // optional for local servers
+  model?: string;
+  fetchImpl?: typeof fetch;
+}
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+export const createOpenAICompatibleProvider = ({
+  baseUrl,
+  apiKey,
+  model = DEFAULT_MODEL,
+  fetchImpl = fetch,
+}: OpenAICompatibleConfig): AIProvider => {
+  const requestCompletion = async (
+    prompt: string,
+    options: AIGenerateOptions & {
+      images?: AIImageInput[];
+      json?: boolean;
+      stream?: boolean;
+    } = {},
+  ): Promise<Response> => {
+    if (!baseUrl) {
+      throw new Error(
+        "OpenAI-compatible provider not configured. Please add OPENAI_BASE_URL to your environment variables.",
+      );
+    }
+
+    // Images go first so the prompt can refer to "this image"
+    const content = options.images?.length
+      ? [
+          ...options.images.map((image) => ({
+            type: "image_url",
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+          })),
+          { type: "text", text: prompt },
+        ]
+      : prompt;
+
+    const response = await fetchImpl(
+      `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: options.model || model,
+          messages: [{ role: "user", content }],
+          temperature: options.temperature ?? 0.7,
+          max_tokens: options.maxOutputTokens || 1200,
+          ...(options.json && { response_format: { type: "json_object" } }),
+          ...(options.stream && { stream: true }),
+        }),
+        signal: options.signal,
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to generate content with ${model}: ${response.status} ${await response.text()}`,
+      );
+    }
+    return response;
+  };
+
+  const generateText = async (
+    prompt: string,
+    options?: Parameters<typeof requestCompletion>[1],
+  ): Promise<string> => {
+    const startTime = Date.now();
+    const response = await requestCompletion(prompt, options);
+    const body = await response.json();
+    console.log(`${model} response generated in ${Date.now() - startTime}ms`);
+    return body.choices?.[0]?.message?.content || "";
+  };
+
+  // Images are only sent with the first attempt; repairs just need the JSON
+  const generateStructured = <T extends AIResponseType>(
+    prompt: string,
+    responseType: T,
+    options?: AIGenerateOptions,
+    images?: AIImageInput[],
+  ) =>
+    generateValidatedResponse(
+      (text, attempt) =>
+        generateText(text, {
+          ...options,
+          json: true,
+          images: attempt === 1 ? images : undefined,
+        }),
+      prompt,
+      responseType,
+      undefined,
+      options?.deadline,
+    );
+
+  return {
+    name: `OpenAI-compatible (${model})`,
+    isConfigured: () => !!baseUrl,
+    setupInstructions:
+      "Please add OPENAI_BASE_URL to your environment variables, e.g. http://localhost:11434/v1 for Ollama.",
+    readsImages: true,
+    generate: (prompt, options) => generateText(prompt, options),
+    generateStructured: (prompt, responseType, options) =>
+      generateStructured(prompt, responseType, options),
+    analyzeImage: (image, prompt, options) =>
+      generateStructured(prompt, "item-analysis", options, [image]),
+    // Streamed completions arrive as Server-Sent Events: "data: {...}" lines
+    // ending with "data: [DONE]". Lines that aren't JSON (keep-alives, server
+    // quirks) are skipped. The body is released however the stream ends,
+    // including when the consumer stops early.
+    async *stream(prompt, options) {
+      const response = await requestCompletion(prompt, {
+        ...options,
+        json: !!options?.responseType,
+        stream: true,
+      });
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          buffer += decoder.decode(value, { stream: !done });
+
+          const lines = buffer.split("\n");
+          buffer = done ? "" : lines.pop();
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, "").trim();
+            if (!line.startsWith("data:") || !data) continue;
+            if (data === "[DONE]") return;
+
+            let chunk: any;
+            try {
+              chunk = JSON.parse(data);
+            } catch {
+              console.warn(`Skipping unreadable ${model} stream line:`, data);
+              continue;
+            }
+            const text = chunk.choices?.[0]?.delta?.content;
+            if (text) yield text;
+          }
+
+          if (done) return;
+        }
+      } finally {
+        await reader.cancel().catch(() => {});
+      }
+    },
+  };
+};
@@ -0,0 +1,530 @@
+import { getItemPrimaryColor, scoreColorHarmony } from "./color";
+import type { HarmonyResult } from "./color";
+
+// Deterministic outfit solver: enumerates structurally valid outfits from a
+// categorised wardrobe, scores each against the occasion, weather and style,
+// and returns a ranked top-K. The seed only breaks near-ties, so the same
+// wardrobe, preferences and seed always give the same outfits.
+
+export interface CategorizedWardrobe {
+  tops: any[];
+  bottoms: any[];
+  outerwear: any[];
+  shoes: any[];
+  dresses: any[];
+  accessories: any[];
+  activewear: any[];
+  other: any[];
+}
+
+export interface SolverOptions {
+  occasion?: string;
+  weather?: string;
+  style?: string;
+  // How many ranked outfits to return
+  topK?: number;
+  seed?: number | string;
+  // Most items any two returned outfits may have in common
+  maxSharedItems?: number;
+}
+
+export interface OutfitScoreBreakdown {
+  formality: number;
+  color: number;
+  style: number;
+  weather: number;
+}
+
+export interface SolvedOutfit {
+  items: any[];
+  score: number; // 0-1
+  breakdown: OutfitScoreBreakdown;
+  harmony: HarmonyResult;
+}
+
+// How much each criterion contributes to an outfit's score
+const SCORE_WEIGHTS: OutfitScoreBreakdown = {
+  formality: 0.35,
+  color: 0.3,
+  style: 0.25,
+  weather: 0.1,
+};
+
+// Candidates kept per slot; bounds the search to a few thousand outfits
+const CANDIDATES_PER_SLOT = 6;
+
+// Default for maxSharedItems: outfits may repeat a pair, e.g. the same jeans
+// and shoes, but never three pieces
+export const MAX_SHARED_ITEMS = 2;
+
+// Largest tie-break nudge the seed can apply to a score
+const SEED_JITTER = 0.01;
+
+// Target formality (1-5, same scale as formality_score) per occasion
+const OCCASION_FORMALITY: Record<string, number> = {
+  casual: 2,
+  travel: 2,
+  sport: 1,
+  date: 3,
+  party: 3,
+  work: 4,
+  business: 4,
+  formal: 5,
+};
+
+// Formality implied by a style tag when an item has no formality_score
+const STYLE_TAG_FORMALITY: Record<string, number> = {
+  formal: 5,
+  business: 4,
+  party: 3,
+  modern: 3,
+  vintage: 3,
+  casual: 2,
+  beach: 1,
+  sport: 1,
+};
+
+// Style tags that suit each occasion and style preference
+const PREFERRED_TAGS: Record<string, string[]> = {
+  casual: ["casual", "modern"],
+  travel: ["casual", "sport"],
+  sport: ["sport"],
+  date: ["party", "modern", "vintage"],
+  party: ["party", "modern"],
+  work: ["business", "modern"],
+  business: ["business", "formal"],
+  formal: ["formal", "business"],
+  comfortable: ["casual", "sport"],
+  elegant: ["formal", "party"],
+  edgy: ["modern", "party"],
+  romantic: ["party", "vintage"],
+  minimalist: ["modern", "business"],
+  classic: ["business", "vintage", "formal"],
+};
+
+const getCategoryName = (item: any): string =>
+  (typeof item.category === "string"
+    ? item.category
+    : item.category?.name || "other"
+  ).toLowerCase();
+
+const getStyleTagNames = (item: any): string[] => {
+  if (item.style_tags?.length) {
+    return item.style_tags.map((tag: any) => tag.name.toLowerCase());
+  }
+  return (item.clothing_item_style_tags || [])
+    .map((itemTag: any) => itemTag.style_tag?.name?.toLowerCase())
+    .filter(Boolean);
+};
+
+// Sort items into outfit slots by their category name
+export function categorizeWardrobe(items: any[]): CategorizedWardrobe {
+  const categories: CategorizedWardrobe = {
+    tops: [],
+    bottoms: [],
+    outerwear: [],
+    shoes: [],
+    dresses: [],
+    accessories: [],
+    activewear: [],
+    other: [],
+  };
+
+  items.forEach((item) => {
+    const category = getCategoryName(item);
+
+    if (
+      category.includes("top") ||
+      category.includes("shirt") ||
+      category.includes("blouse") ||
+      category.includes("sweater")
+    ) {
+      categories.tops.push(item);
+    } else if (
+      category.includes("bottom") ||
+      category.includes("pant") ||
+      category.includes("jean") ||
+      category.includes("short") ||
+      category.includes("skirt")
+    ) {
+      categories.bottoms.push(item);
+    } else if (
+      category.includes("outerwear") ||
+      category.includes("jacket") ||
+      category.includes("coat") ||
+      category.includes("blazer")
+    ) {
+      categories.outerwear.push(item);
+    } else if (
+      category.includes("shoe") ||
+      category.includes("boot") ||
+      category.includes("sandal") ||
+      category.includes("sneaker")
+    ) {
+      categories.shoes.push(item);
+    } else if (category.includes("dress")) {
+      categories.dresses.push(item);
+    } else if (category.includes("accessor")) {
+      categories.accessories.push(item);
+    } else if (category.includes("active") || category.includes("sport")) {
+      categories.activewear.push(item);
+    } else {
+      categories.other.push(item);
+    }
+  });
+
+  return categories;
+}
+
+// Turn a string seed into a 32-bit integer (FNV-1a)
+const hashSeed = (seed: number | string): number => {
+  if (typeof seed === "number") return seed >>> 0;
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Small seedable PRNG (mulberry32); returns floats in [0, 1)
+export const createRng = (seed: number | string) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// An item's formality: its own score, else what its style tags imply
+export const getItemFormality = (item: any): number => {
+  if (item.formality_score) return item.formality_score;
+
+  const implied = getStyleTagNames(item)
+    .map((tag) => STYLE_TAG_FORMALITY[tag])
+    .filter(Boolean);
+  return implied.length > 0
+    ? implied.reduce((sum, value) => sum + value, 0) / implied.length
+    : 3;
+};
+
+const findKey = (value: string, table: Record<string, unknown>) =>
+  Object.keys(table).find((key) => value.toLowerCase().includes(key));
+
+const getTargetFormality = (occasion: string) =>
+  OCCASION_FORMALITY[findKey(occasion, OCCASION_FORMALITY)] ?? 3;
+
+const getPreferredTags = (occasion: string, style: string): Set<string> =>
+  new Set([
+    ...(PREFERRED_TAGS[findKey(occasion, PREFERRED_TAGS)] || []),
+    ...(PREFERRED_TAGS[findKey(style, PREFERRED_TAGS)] || []),
+  ]);
+
+const isCold = (weather: string) => /cold|rain|snow|winter/i.test(weather);
+const isHot = (weather: string) => /hot|warm|summer/i.test(weather);
+
+const scoreFormality = (items: any[], target: number) =>
+  items.reduce(
+    (sum, item) => sum + 1 - Math.abs(getItemFormality(item) - target) / 4,
+    0,
+  ) / items.length;
+
+// Share of items carrying a preferred tag, blended with how much the
+// items' tags agree with each other
+const scoreStyle = (items: any[], preferred: Set<string>) => {
+  const tagSets = items.map((item) => new Set(getStyleTagNames(item)));
+  const tagged = tagSets.filter((tags) => tags.size > 0);
+  if (tagged.length === 0) return 0.5;
+
+  const matching =
+    tagged.filter((tags) => [...tags].some((tag) => preferred.has(tag)))
+      .length / tagged.length;
+
+  let overlap = 0;
+  let pairs = 0;
+  for (let i = 0; i < tagged.length; i++) {
+    for (let j = i + 1; j < tagged.length; j++) {
+      const shared = [...tagged[i]].filter((tag) => tagged[j].has(tag)).length;
+      const union = new Set([...tagged[i], ...tagged[j]]).size;
+      overlap += shared / union;
+      pairs++;
+    }
+  }
+
+  return preferred.size > 0
+    ? matching * 0.6 + (pairs > 0 ? overlap / pairs : 1) * 0.4
+    : pairs > 0
+      ? overlap / pairs
+      : 1;
+};
+
+const scoreWeather = (
+  items: any[],
+  wardrobe: CategorizedWardrobe,
+  weather: string,
+) => {
+  const hasOuterwear = items.some((item) => wardrobe.outerwear.includes(item));
+  if (isCold(weather)) return hasOuterwear ? 1 : 0.3;
+  if (isHot(weather)) return hasOuterwear ? 0.3 : 1;
+  return 0.9;
+};
+
+// Rank one slot's items on their own so the search only pairs good ones
+const shortlist = (
+  items: any[],
+  target: number,
+  preferred: Set<string>,
+): any[] =>
+  [...items]
+    .map((item) => ({
+      item,
+      score: scoreFormality([item], target) + scoreStyle([item], preferred),
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score || String(a.item.id).localeCompare(String(b.item.id)),
+    )
+    .slice(0, CANDIDATES_PER_SLOT)
+    .map(({ item }) => item);
+
+// Every combination picking one item from each slot
+const combinations = (slots: any[][]): any[][] =>
+  slots.reduce<any[][]>(
+    (acc, slot) => acc.flatMap((combo) => slot.map((item) => [...combo, item])),
+    [[]],
+  );
+
+export function scoreOutfit(
+  items: any[],
+  wardrobe: CategorizedWardrobe,
+  {
+    occasion = "casual",
+    weather = "mild",
+    style = "comfortable",
+  }: SolverOptions = {},
+): Omit<SolvedOutfit, "items"> {
+  const colors = items.map((item) => getItemPrimaryColor(item)).filter(Boolean);
+  const harmony = scoreColorHarmony(colors);
+
+  const breakdown: OutfitScoreBreakdown = {
+    formality: scoreFormality(items, getTargetFormality(occasion)),
+    color: harmony.score / 100,
+    style: scoreStyle(items, getPreferredTags(occasion, style)),
+    weather: scoreWeather(items, wardrobe, weather),
+  };
+
+  const score = (
+    Object.keys(SCORE_WEIGHTS) as (keyof OutfitScoreBreakdown)[]
+  ).reduce((sum, key) => sum + breakdown[key] * SCORE_WEIGHTS[key], 0);
+
+  return { score, breakdown, harmony };
+}
+
+// Whether the wardrobe has what every outfit is built on: a dress, or a top
+// (activewear counts) and bottoms. Without it solveOutfits finds nothing.
+export function canBuildOutfit(items: any[]): boolean {
+  const { tops, activewear, bottoms, dresses } = categorizeWardrobe(items);
+  return (
+    dresses.length > 0 ||
+    (tops.length + activewear.length > 0 && bottoms.length > 0)
+  );
+}
+
+// Build and rank outfits from a wardrobe. Structural rules: a dress, or a
+// top with bottoms; shoes whenever the wardrobe has any; outerwear when it's
+// cold (optional otherwise); at most one accessory.
+export function solveOutfits(
+  items: any[],
+  options: SolverOptions = {},
+): SolvedOutfit[] {
+  const {
+    occasion = "casual",
+    weather = "mild",
+    style = "comfortable",
+    topK = 3,
+    seed = 0,
+    maxSharedItems = MAX_SHARED_ITEMS,
+  } = options;
+  const wardrobe = categorizeWardrobe(items);
+  const target = getTargetFormality(occasion);
+  const preferred = getPreferredTags(occasion, style);
+  const pick = (slotItems: any[]) => shortlist(slotItems, target, preferred);
+
+  // Activewear stands in for tops when the occasion or style is sporty, or
+  // when there are no other tops
+  const sporty = preferred.has("sport") || wardrobe.tops.length === 0;
+  const tops = pick(
+    sporty ? [...wardrobe.tops, ...wardrobe.activewear] : wardrobe.tops,
+  );
+  const bottoms = pick(wardrobe.bottoms);
+  const dresses = pick(wardrobe.dresses);
+  const shoes = pick(wardrobe.shoes);
+  const outerwear = pick(wardrobe.outerwear);
+  const accessories = pick(wardrobe.accessories);
+
+  const bases: any[][] = [
+    ...(tops.length > 0 && bottoms.length > 0
+      ? combinations([tops, bottoms])
+      : []),
+    ...dresses.map((dress) => [dress]),
+  ];
+
+  // Optional slots include an empty choice so "without" competes too
+  const shoeOptions = shoes.length > 0 ? shoes.map((shoe) => [shoe]) : [[]];
+  const outerwearOptions =
+    isCold(weather) && outerwear.length > 0
+      ? outerwear.map((layer) => [layer])
+      : [[], ...outerwear.map((layer) => [layer])];
+  const accessoryOptions = [[], ...accessories.map((accessory) => [accessory])];
+
+  const rng = createRng(seed);
+  const candidates: SolvedOutfit[] = [];
+  bases.forEach((base) => {
+    shoeOptions.forEach((shoe) => {
+      outerwearOptions.forEach((layer) => {
+        accessoryOptions.forEach((accessory) => {
+          const outfit = [...base, ...shoe, ...layer, ...accessory];
+          const result = scoreOutfit(outfit, wardrobe, {
+            occasion,
+            weather,
+            style,
+          });
+          candidates.push({
+            items: outfit,
+            ...result,
+            score: result.score + (rng() - 0.5) * SEED_JITTER,
+          });
+        });
+      });
+    });
+  });
+
+  return selectDiverseOutfits(
+    candidates.sort((a, b) => b.score - a.score),
+    topK,
+    maxSharedItems,
+  ).map((candidate) => ({
+    ...candidate,
+    score: Math.round(Math.min(Math.max(candidate.score, 0), 1) * 100) / 100,
+  }));
+}
+
+// How many items two outfits have in common
+export const countSharedItems = (a: { items: any[] }, b: { items: any[] }) => {
+  const ids = new Set(a.items.map((item) => item.id));
+  return b.items.filter((item) => ids.has(item.id)).length;
+};
+
+// Walk a ranked list, keeping each outfit that shares at most maxSharedItems
+// with every outfit already kept. May return fewer than count when the
+// wardrobe can't produce enough distinct outfits.
+export function selectDiverseOutfits<T extends { items: any[] }>(
+  ranked: T[],
+  count: number,
+  maxSharedItems = MAX_SHARED_ITEMS,
+): T[] {
+  const selected: T[] = [];
+  for (const outfit of ranked) {
+    if (selected.length >= count) break;
+    if (
+      selected.every(
+        (chosen) => countSharedItems(chosen, outfit) <= maxSharedItems,
+      )
+    ) {
+      selected.push(outfit);
+    }
+  }
+  return selected;
+}
+
+// Smart outfit generation with actual wardrobe items, ranked by the
+// deterministic solver so the same request always gets the same outfits
+export function generateSmartOutfits(
+  items: any[],
+  occasion: string,
+  weather: string,
+  style: string,
+  { count = 1, seed = 0 }: { count?: number; seed?: number } = {},
+): any[] {
+  const solved = solveOutfits(items, {
+    occasion,
+    weather,
+    style,
+    topK: count,
+    seed,
+  });
+
+  return solved.map(({ items: selectedItems, score, breakdown }) => ({
+    id: `smart-outfit-${selectedItems.map((item) => item.id).join("-")}`,
+    name: `${style.charAt(0).toUpperCase() + style.slice(1)} ${occasion.charAt(0).toUpperCase() + occasion.slice(1)} Look`,
+    description: `A carefully curated ${style} outfit perfect for ${occasion} occasions in ${weather} weather. This combination uses your existing wardrobe pieces to create a cohesive, stylish look.`,
+    items: selectedItems,
+    occasion,
+    weather,
+    confidence: score,
+    reasoning: `This outfit combines ${selectedItems
+      .map((item) => {
+        const category =
+          typeof item.category === "string"
+            ? item.category
+            : item.category?.name || "piece";
+        return `your ${item.color || ""} ${category}`.trim();
+      })
+      .join(
+        ", ",
+      )} to create a balanced look that's appropriate for ${occasion} while maintaining your ${style} aesthetic.`,
+    styling_tips: generateStylingTips(selectedItems, occasion, weather),
+    color_analysis: generateColorAnalysis(selectedItems),
+    trend_insights: `The ${style} aesthetic is trending and works perfectly for ${occasion} settings. The color combination you have creates visual harmony while remaining versatile.`,
+    style_match_score: Math.round(breakdown.style * 100) / 100,
+  }));
+}
+
+// Generate styling tips based on selected items
+export function generateStylingTips(
+  items: any[],
+  occasion: string,
+  weather: string,
+): string[] {
+  const tips = [
+    "Ensure all pieces fit well for the most polished look",
+    "Pay attention to proportions when layering pieces",
+  ];
+
+  // Add occasion-specific tips
+  if (occasion.includes("formal") || occasion.includes("business")) {
+    tips.push(
+      "Keep accessories minimal and elegant for a professional appearance",
+    );
+    tips.push("Make sure shoes are clean and in good condition");
+  } else if (occasion.includes("casual")) {
+    tips.push("Feel free to mix textures for added visual interest");
+    tips.push(
+      "Roll up sleeves or add casual accessories to personalize the look",
+    );
+  }
+
+  // Add weather-specific tips
+  if (weather.includes("cold")) {
+    tips.push("Layer thoughtfully to stay warm while maintaining style");
+  } else if (weather.includes("hot")) {
+    tips.push("Choose breathable fabrics and lighter colors");
+  }
+
+  return tips.slice(0, 4);
+}
+
+// Generate color analysis for selected items via the shared harmony engine
+export function generateColorAnalysis(items: any[]): string {
+  const colors = items.map((item) => getItemPrimaryColor(item)).filter(Boolean);
+
+  if (colors.length === 0) {
+    return "The neutral tones in this outfit create a timeless, versatile look.";
+  }
+
+  const harmony = scoreColorHarmony(colors);
+  return `Color harmony ${harmony.score}/100 (${harmony.type}). ${harmony.explanation}`;
+}
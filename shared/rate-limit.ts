@@ -0,0 +1,244 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseAdmin } from "./supabase-admin";
+
+// Token-bucket rate limiting shared by the API functions. Each caller gets a
+// bucket of `limit` tokens that refills evenly over `windowMs`; a request
+// takes one token. Signed-in users are limited per user id, and every caller
+// per IP address, so neither spreading requests over addresses nor opening
+// accounts on one address gets around the limit; the address bucket of
+// signed-in users is roomier, so people behind one NAT don't share a quota.
+// A request refused by one bucket takes nothing from the others. Buckets
+// live in Postgres (rate_limit_buckets) when the service role is configured,
+// so they survive cold starts and are shared by every instance; otherwise,
+// and in tests, they live in memory.
+
+export interface RateLimitPolicy {
+  name: string; // namespaces the buckets, e.g. the endpoint
+  limit: number; // bucket capacity: requests allowed in a burst
+  windowMs: number; // time for an empty bucket to refill completely
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number; // until the next token (0 when allowed)
+  resetMs: number; // until the bucket is full again
+}
+
+export interface RateLimitStore {
+  // Refill the bucket, take a token if one is left, and report the outcome.
+  // Must be atomic per key.
+  take(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number,
+  ): Promise<RateLimitResult>;
+  // Put back a token taken for a request that went on to be refused
+  giveBack(key: string, policy: RateLimitPolicy): Promise<void>;
+}
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+// Describe a bucket left with `tokens` after a take attempt
+const describeBucket = (
+  tokens: number,
+  allowed: boolean,
+  policy: RateLimitPolicy,
+): RateLimitResult => {
+  const refillPerMs = policy.limit / policy.windowMs;
+  return {
+    allowed,
+    limit: policy.limit,
+    remaining: Math.max(Math.floor(tokens), 0),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    resetMs: Math.ceil((policy.limit - tokens) / refillPerMs),
+  };
+};
+
+// Beyond this, full buckets are dropped: a missing bucket counts as full
+const MAX_MEMORY_BUCKETS = 10_000;
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<
+    string,
+    { tokens: number; updatedAt: number; fullAt: number }
+  >();
+
+  return {
+    async take(key, policy, now) {
+      const bucket = buckets.get(key);
+      let tokens = bucket
+        ? Math.min(
+            policy.limit,
+            bucket.tokens +
+              ((now - bucket.updatedAt) * policy.limit) / policy.windowMs,
+          )
+        : policy.limit;
+
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+
+      if (!bucket && buckets.size >= MAX_MEMORY_BUCKETS) {
+        buckets.forEach((idle, idleKey) => {
+          if (now >= idle.fullAt) buckets.delete(idleKey);
+        });
+      }
+
+      const result = describeBucket(tokens, allowed, policy);
+      buckets.set(key, {
+        tokens,
+        updatedAt: now,
+        fullAt: now + result.resetMs,
+      });
+      return result;
+    },
+    async giveBack(key, policy) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.tokens = Math.min(policy.limit, bucket.tokens + 1);
+    },
+  };
+};
+
+// Buckets in Postgres, updated atomically by take_rate_limit_token()
+// (see complete-database-setup.sql)
+export const createSupabaseRateLimitStore = (
+  supabase: SupabaseClient,
+): RateLimitStore => ({
+  async take(key, policy) {
+    const { data, error } = await supabase
+      .rpc("take_rate_limit_token", {
+        bucket_key: key,
+        bucket_capacity: policy.limit,
+        window_seconds: policy.windowMs / 1000,
+      })
+      .single<{ allowed: boolean; remaining_tokens: number }>();
+    if (error) throw new Error(`Rate limit check failed: ${error.message}`);
+
+    return describeBucket(data.remaining_tokens, data.allowed, policy);
+  },
+  async giveBack(key, policy) {
+    const { error } = await supabase.rpc("return_rate_limit_token", {
+      bucket_key: key,
+      bucket_capacity: policy.limit,
+    });
+    if (error) throw new Error(`Rate limit refund failed: ${error.message}`);
+  },
+});
+
+const memoryStore = createMemoryRateLimitStore();
+let storeOverride: RateLimitStore | null = null;
+
+// Swap the store, e.g. for a fresh in-memory one in tests; pass null to restore
+export const setRateLimitStore = (store: RateLimitStore | null) => {
+  storeOverride = store;
+};
+
+const getRateLimitStore = (): RateLimitStore => {
+  if (storeOverride) return storeOverride;
+  const supabase = getSupabaseAdmin();
+  return supabase ? createSupabaseRateLimitStore(supabase) : memoryStore;
+};
+
+// The caller's address as seen by Vercel's proxy
+export const getClientIp = (req: VercelRequest): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)
+    ?.split(",")[0]
+    ?.trim();
+  return (
+    first ||
+    (req.headers["x-real-ip"] as string) ||
+    req.socket?.remoteAddress ||
+    "unknown"
+  );
+};
+
+// Take a token from one bucket. If the store fails, the in-memory buckets
+// stand in rather than taking the AI features down with it.
+const takeToken = async (
+  key: string,
+  policy: RateLimitPolicy,
+  now: number,
+): Promise<RateLimitResult> => {
+  try {
+    return await getRateLimitStore().take(key, policy, now);
+  } catch (error) {
+    console.warn("Rate limit store unavailable, using memory:", error);
+    return memoryStore.take(key, policy, now);
+  }
+};
+
+// Put a token back, best effort: a lost refund only costs the caller a token
+const giveBackToken = async (key: string, policy: RateLimitPolicy) => {
+  try {
+    await getRateLimitStore().giveBack(key, policy);
+  } catch (error) {
+    console.warn("Could not return a rate limit token:", error);
+  }
+};
+
+// How many times larger a signed-in caller's address bucket is than their
+// user bucket: room for a few accounts on one network, not for a farm of them
+const SIGNED_IN_IP_FACTOR = 5;
+
+// The bucket that limits the caller most: a refusal over an allowance (the
+// longest wait first), else the fewest tokens left
+const tightest = (results: RateLimitResult[]): RateLimitResult =>
+  results.reduce((tight, result) => {
+    if (tight.allowed !== result.allowed) return tight.allowed ? result : tight;
+    if (!result.allowed) {
+      return result.retryAfterMs > tight.retryAfterMs ? result : tight;
+    }
+    return result.remaining < tight.remaining ? result : tight;
+  });
+
+// Take a token from the caller's IP bucket, and their user bucket when signed
+// in, and set the X-RateLimit-* headers (plus Retry-After when refused) from
+// the tighter one. Returns whether the request may go ahead; the caller sends
+// its own 429 body.
+export const checkRateLimit = async (
+  req: VercelRequest,
+  res: VercelResponse,
+  policy: RateLimitPolicy,
+  { userId }: { userId?: string } = {},
+): Promise<boolean> => {
+  const ip = getClientIp(req);
+  const buckets: { key: string; policy: RateLimitPolicy }[] = userId
+    ? [
+        { key: `${policy.name}:user:${userId}`, policy },
+        {
+          key: `${policy.name}:users-ip:${ip}`,
+          policy: { ...policy, limit: policy.limit * SIGNED_IN_IP_FACTOR },
+        },
+      ]
+    : [{ key: `${policy.name}:ip:${ip}`, policy }];
+  const now = Date.now();
+
+  const results = await Promise.all(
+    buckets.map((bucket) => takeToken(bucket.key, bucket.policy, now)),
+  );
+  const result = tightest(results);
+
+  // A refused request doesn't count against the buckets that allowed it
+  if (!result.allowed) {
+    await Promise.all(
+      buckets
+        .filter((bucket, index) => results[index].allowed)
+        .map((bucket) => giveBackToken(bucket.key, bucket.policy)),
+    );
+  }
+
+  res.setHeader("X-RateLimit-Limit", String(result.limit));
+  res.setHeader("X-RateLimit-Remaining", String(result.remaining));
+  res.setHeader(
+    "X-RateLimit-Reset",
+    String(Math.ceil((now + result.resetMs) / 1000)),
+  );
+  if (!result.allowed) {
+    res.setHeader("Retry-After", String(Math.ceil(result.retryAfterMs / 1000)));
+  }
+
+  return result.allowed;
+};
@@ -1,4 +1,7 @@
 import { z } from "zod";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { sendError } from "./api-errors";
+import type { WardrobeAnalysisType } from "./types";
 
 /**
  * Comprehensive JSON schema validation for all AI responses
@@ -28,6 +31,30 @@ export const OutfitResponseSchema = BaseResponseSchema.extend({
   weather_appropriateness: z.number().min(0).max(1).optional(),
 });
 
+// Parts shared by the full wardrobe analysis and the focused modes
+const ColorAnalysisSchema = z.object({
+  dominant_colors: z.array(z.string()),
+  missing_colors: z.array(z.string()),
+  harmony_score: z.number().min(0).max(100),
+  recommendations: z.string().min(20),
+});
+
+const InvestmentPrioritySchema = z.object({
+  item: z.string().min(1),
+  reason: z.string().min(20),
+  impact: z.string().min(10),
+  priority: z.number().min(1).max(5),
+  // Typical price in the request's budget currency
+  estimated_price: z.number().min(0).optional(),
+});
+
+const StylingOpportunitySchema = z.object({
+  outfit_name: z.string().min(1),
+  items: z.array(z.string()).min(1),
+  occasion: z.string().min(1),
+  styling_notes: z.string().min(10),
+});
+
 // Wardrobe analysis response schema
 export const WardrobeAnalysisSchema = BaseResponseSchema.extend({
   overall_assessment: z.string().min(50, "Assessment must be comprehensive"),
@@ -35,12 +62,7 @@ export const WardrobeAnalysisSchema = BaseResponseSchema.extend({
     .array(z.string())
     .min(1, "At least one strength must be identified"),
   gaps: z.array(z.string()).min(0, "Gaps array is required"),
-  color_analysis: z.object({
-    dominant_colors: z.array(z.string()),
-    missing_colors: z.array(z.string()),
-    harmony_score: z.number().min(0).max(100),
-    recommendations: z.string().min(20),
-  }),
+  color_analysis: ColorAnalysisSchema,
   style_consistency: z.object({
     score: z.number().min(0).max(100),
     description: z.string().min(20),
@@ -50,21 +72,43 @@ export const WardrobeAnalysisSchema = BaseResponseSchema.extend({
     possible_outfits: z.string(),
     description: z.string().min(20),
   }),
-  investment_priorities: z.array(
-    z.object({
-      item: z.string().min(1),
-      reason: z.string().min(20),
-      impact: z.string().min(10),
-      priority: z.number().min(1).max(5),
-    }),
-  ),
+  // How well the wardrobe dresses each season, 0-100
+  seasonal_coverage: z.object({
+    spring: z.number().min(0).max(100),
+    summer: z.number().min(0).max(100),
+    fall: z.number().min(0).max(100),
+    winter: z.number().min(0).max(100),
+    recommendations: z.string().min(20),
+  }),
+  investment_priorities: z.array(InvestmentPrioritySchema),
   organization_tips: z.array(z.string()).min(1),
-  styling_opportunities: z.array(
+  styling_opportunities: z.array(StylingOpportunitySchema),
+});
+
+// analysis_type "gaps": what's missing and what to buy
+export const WardrobeGapsSchema = BaseResponseSchema.extend({
+  summary: z.string().min(20, "Summary is required"),
+  gaps: z.array(z.string()),
+  investment_priorities: z.array(InvestmentPrioritySchema),
+});
+
+// analysis_type "suggestions": outfits and habits from what's already owned
+export const WardrobeSuggestionsSchema = BaseResponseSchema.extend({
+  summary: z.string().min(20, "Summary is required"),
+  styling_opportunities: z
+    .array(StylingOpportunitySchema)
+    .min(1, "At least one styling opportunity is required"),
+  organization_tips: z.array(z.string()).min(1),
+});
+
+// analysis_type "color_analysis": the palette and which colors pair well
+export const WardrobeColorsSchema = BaseResponseSchema.extend({
+  summary: z.string().min(20, "Summary is required"),
+  color_analysis: ColorAnalysisSchema,
+  color_pairings: z.array(
     z.object({
-      outfit_name: z.string().min(1),
-      items: z.array(z.string()).min(1),
-      occasion: z.string().min(1),
-      styling_notes: z.string().min(10),
+      colors: z.array(z.string()).min(2),
+      notes: z.string().min(10),
     }),
   ),
 });
@@ -89,6 +133,10 @@ export const ItemAnalysisSchema = BaseResponseSchema.extend({
   category: z.string().min(1, "Category is required"),
   style_tags: z.array(z.string()).min(1, "At least one style tag is required"),
   color: z.string().min(1, "Color is required"),
+  sub_category: z.string().optional(),
+  pattern: z.string().optional(),
+  material: z.string().optional(),
+  formality_score: z.number().int().min(1).max(5).optional(),
   versatility_score: z.number().min(0).max(10),
   styling_suggestions: z.array(z.string()).min(1),
   pairing_recommendations: z.array(z.string()).min(1),
@@ -97,23 +145,328 @@ export const ItemAnalysisSchema = BaseResponseSchema.extend({
   confidence: z.number().min(0.1).max(1),
 });
 
+// Several outfits in one response ({"outfits": [...]})
+export const OutfitListResponseSchema = z.object({
+  outfits: z
+    .array(OutfitResponseSchema)
+    .min(1, "At least one outfit is required"),
+});
+
+// Schema for each kind of structured AI response
+export const AI_RESPONSE_SCHEMAS = {
+  "outfit-generation": OutfitResponseSchema,
+  "outfit-list": OutfitListResponseSchema,
+  "wardrobe-analysis": WardrobeAnalysisSchema,
+  "wardrobe-gaps": WardrobeGapsSchema,
+  "wardrobe-suggestions": WardrobeSuggestionsSchema,
+  "wardrobe-colors": WardrobeColorsSchema,
+  "styling-advice": StylingAdviceSchema,
+  "item-analysis": ItemAnalysisSchema,
+};
+
+export type AIResponseType = keyof typeof AI_RESPONSE_SCHEMAS;
+
 // Type definitions for validated responses
 export type ValidatedOutfitResponse = z.infer<typeof OutfitResponseSchema>;
+export type ValidatedOutfitList = z.infer<typeof OutfitListResponseSchema>;
 export type ValidatedWardrobeAnalysis = z.infer<typeof WardrobeAnalysisSchema>;
+export type ValidatedWardrobeGaps = z.infer<typeof WardrobeGapsSchema>;
+export type ValidatedWardrobeSuggestions = z.infer<
+  typeof WardrobeSuggestionsSchema
+>;
+export type ValidatedWardrobeColors = z.infer<typeof WardrobeColorsSchema>;
 export type ValidatedStylingAdvice = z.infer<typeof StylingAdviceSchema>;
 export type ValidatedItemAnalysis = z.infer<typeof ItemAnalysisSchema>;
+export type ValidatedAIResponse<T extends AIResponseType> = z.infer<
+  (typeof AI_RESPONSE_SCHEMAS)[T]
+>;
+
+// API request bodies. Handlers parse req.body with these before doing
+// anything else; the client builds its fetch bodies from the input types.
+
+const OptionalText = z.string().max(500).optional();
+
+// The AI response type each wardrobe analysis_type asks for
+export const WARDROBE_ANALYSIS_RESPONSE_TYPES: Record<
+  WardrobeAnalysisType,
+  AIResponseType
+> = {
+  full: "wardrobe-analysis",
+  gaps: "wardrobe-gaps",
+  suggestions: "wardrobe-suggestions",
+  color_analysis: "wardrobe-colors",
+};
+
+// Price range per recommended item
+export const BudgetSchema = z
+  .object({
+    min: z.number().min(0).default(0),
+    max: z.number().positive(),
+    currency: z.string().length(3).toUpperCase().default("USD"),
+  })
+  .refine((budget) => budget.min <= budget.max, {
+    message: "min must not be more than max",
+    path: ["min"],
+  });
+
+// POST /api/generate-outfits (the wardrobe is loaded server-side)
+export const OutfitRequestSchema = z.object({
+  preferences: z
+    .object({
+      occasion: OptionalText,
+      weather: OptionalText,
+      style: OptionalText,
+      colors: z.array(z.string().max(50)).max(20).optional(),
+    })
+    .default({}),
+  userProfile: z
+    .object({
+      style_inspiration: OptionalText,
+      lifestyle: OptionalText,
+    })
+    .default({}),
+  maxOutfits: z.number().int().min(1).default(1),
+  exclude_items: z.array(z.string()).max(1000).default([]),
+  // Seeds the local solver's tie-breaks so fallback results are reproducible
+  seed: z.number().int().default(0),
+});
+
+// POST /api/wardrobe-analysis (the wardrobe is loaded server-side)
+export const WardrobeAnalysisRequestSchema = z.object({
+  preferences: z
+    .object({
+      style: OptionalText,
+      occasion: OptionalText,
+    })
+    .default({}),
+  analysis_type: z
+    .enum(["full", "gaps", "suggestions", "color_analysis"])
+    .default("full"),
+  style_goal: OptionalText,
+  budget: BudgetSchema.optional(),
+  // Skip the cached analysis of an unchanged wardrobe
+  refresh: z.boolean().default(false),
+});
+
+// POST /api/analyze-item: a saved item by id, an unsaved item object, or
+// individual fields, optionally with a photo
+export const ItemAnalysisRequestSchema = z.object({
+  item_id: z.string().min(1).optional(),
+  item: z.record(z.any()).optional(),
+  image_url: z.string().max(2048).optional(),
+  imageUrl: z.string().max(2048).optional(),
+  image_base64: z.string().optional(),
+  imageBase64: z.string().optional(),
+  mime_type: z.string().max(100).optional(),
+  category: OptionalText,
+  color: OptionalText,
+  brand: OptionalText,
+  style: OptionalText,
+  userProfile: z.record(z.any()).default({}),
+  context: z.string().max(2000).default(""),
+  detailed: z.boolean().default(false),
+  analysis_type: z.string().max(50).default("general"),
+  // Skip the cached analysis of an unchanged item
+  refresh: z.boolean().default(false),
+});
+
+export type OutfitRequest = z.input<typeof OutfitRequestSchema>;
+export type WardrobeAnalysisRequest = z.input<
+  typeof WardrobeAnalysisRequestSchema
+>;
+export type ItemAnalysisRequest = z.input<typeof ItemAnalysisRequestSchema>;
+
+/**
+ * Parse a request body against its schema. Returns the parsed body, or
+ * sends a VALIDATION_FAILED error (with the failing field paths in
+ * details.issues) and returns null.
+ */
+export function parseRequestBody<S extends z.ZodTypeAny>(
+  schema: S,
+  req: VercelRequest,
+  res: VercelResponse,
+): z.infer<S> | null {
+  const result = schema.safeParse(req.body ?? {});
+  if (result.success) return result.data;
+
+  sendError(res, "VALIDATION_FAILED", "Invalid request body", {
+    issues: summarizeIssues(result.error.issues),
+  });
+  return null;
+}
+
+interface ValidationResult {
+  success: boolean;
+  data?: any;
+  error?: string;
+  issues?: z.ZodIssue[];
+  fallback?: any;
+}
+
+/**
+ * Thrown when a structured AI response doesn't match its schema. Carries the
+ * best-effort fallback so callers can still use what the model returned.
+ */
+export class AIResponseValidationError extends Error {
+  issues: z.ZodIssue[];
+  fallback: any;
+  rawResponse: string;
+  attempts: number;
+
+  constructor(
+    message: string,
+    issues: z.ZodIssue[],
+    fallback: any,
+    rawResponse: string,
+    attempts = 1,
+  ) {
+    super(message);
+    this.name = "AIResponseValidationError";
+    this.issues = issues;
+    this.fallback = fallback;
+    this.rawResponse = rawResponse;
+    this.attempts = attempts;
+  }
+}
+
+// Total tries (first answer plus repairs) before giving up on a response
+export const MAX_STRUCTURED_ATTEMPTS = 3;
+
+// A validated response and how much repair it took
+export interface StructuredResponse<T> {
+  data: T;
+  attempts: number;
+  // Issues found in the attempts that had to be repaired
+  issues: z.ZodIssue[];
+}
+
+// Compact issue list for prompts and response metadata
+export const summarizeIssues = (issues: z.ZodIssue[]) =>
+  issues.map((issue) => ({
+    path: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+
+// What the repair loop went through, as reported in API response metadata
+export interface RepairMetadata {
+  ai_attempts: number;
+  validation_issues: { path: string; message: string }[];
+}
+
+export const toRepairMetadata = ({
+  attempts,
+  issues,
+}: {
+  attempts: number;
+  issues: z.ZodIssue[];
+}): RepairMetadata => ({
+  ai_attempts: attempts,
+  validation_issues: summarizeIssues(issues),
+});
 
 /**
- * Validate and parse AI response based on prompt type
+ * Validate structured output. Bare JSON is checked directly; anything else
+ * goes through validateAIResponse to dig the JSON out first.
+ */
+export function validateStructuredResponse(
+  response: string,
+  promptType: AIResponseType,
+): ValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response);
+  } catch {
+    return validateAIResponse(response, promptType);
+  }
+  return validateParsedResponse(parsed, promptType);
+}
+
+/**
+ * Ask the model to fix a response that failed validation
+ */
+export function buildRepairPrompt(
+  brokenResponse: string,
+  issues: z.ZodIssue[],
+  promptType: AIResponseType,
+): string {
+  const problems = summarizeIssues(issues)
+    .map(({ path, message }) => `- ${path}: ${message}`)
+    .join("\n");
+
+  return `Your previous ${promptType} response did not pass validation.
+
+**PROBLEMS:**
+${problems || "- The response was not valid JSON"}
+
+**PREVIOUS RESPONSE:**
+${brokenResponse}
+
+Return the corrected JSON only. Keep every valid field as it is, fix the problems listed above, and do not add commentary.`;
+}
+
+/**
+ * Generate a response and validate it, feeding the zod issues and the broken
+ * JSON back to the model until it validates or maxAttempts runs out. Throws
+ * an AIResponseValidationError (with the last fallback) after that. With a
+ * deadline (epoch ms), a repair that would likely finish after it, going by
+ * how long the last call took, isn't attempted.
+ */
+export async function generateValidatedResponse<T extends AIResponseType>(
+  generate: (prompt: string, attempt: number) => Promise<string>,
+  prompt: string,
+  promptType: T,
+  maxAttempts = MAX_STRUCTURED_ATTEMPTS,
+  deadline?: number,
+): Promise<StructuredResponse<ValidatedAIResponse<T>>> {
+  const issues: z.ZodIssue[] = [];
+  let callStarted = Date.now();
+  let response = await generate(prompt, 1);
+
+  for (let attempt = 1; ; attempt++) {
+    const validation = validateStructuredResponse(response, promptType);
+    if (validation.success) {
+      return { data: validation.data, attempts: attempt, issues };
+    }
+
+    const attemptIssues = validation.issues || [];
+    issues.push(...attemptIssues);
+
+    const lastCallMs = Date.now() - callStarted;
+    const outOfTime = deadline != null && Date.now() + lastCallMs > deadline;
+    if (outOfTime && attempt < maxAttempts) {
+      console.warn(`Not enough time left to repair ${promptType} response`);
+    }
+
+    if (attempt >= maxAttempts || outOfTime) {
+      throw new AIResponseValidationError(
+        validation.error,
+        issues,
+        validation.fallback,
+        response,
+        attempt,
+      );
+    }
+
+    console.warn(
+      `Repairing ${promptType} response (attempt ${attempt + 1} of ${maxAttempts})`,
+    );
+    callStarted = Date.now();
+    response = await generate(
+      buildRepairPrompt(response, attemptIssues, promptType),
+      attempt + 1,
+    );
+  }
+}
+
+/**
+ * Validate and parse AI response based on prompt type. Digs the JSON out of
+ * free-form text; structured (responseSchema) output goes straight to
+ * validateParsedResponse, so this is the compatibility path.
  */
 export function validateAIResponse(
   response: string,
-  promptType:
-    | "outfit-generation"
-    | "wardrobe-analysis"
-    | "styling-advice"
-    | "item-analysis",
-): { success: boolean; data?: any; error?: string; fallback?: any } {
+  promptType: AIResponseType,
+): ValidationResult {
   try {
     // Extract JSON from response
     const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -136,54 +489,7 @@ export function validateAIResponse(
       };
     }
 
-    // Validate against appropriate schema
-    let validationResult;
-    switch (promptType) {
-      case "outfit-generation":
-        validationResult = OutfitResponseSchema.safeParse(parsedResponse);
-        break;
-      case "wardrobe-analysis":
-        validationResult = WardrobeAnalysisSchema.safeParse(parsedResponse);
-        break;
-      case "styling-advice":
-        validationResult = StylingAdviceSchema.safeParse(parsedResponse);
-        break;
-      case "item-analysis":
-        validationResult = ItemAnalysisSchema.safeParse(parsedResponse);
-        break;
-      default:
-        return {
-          success: false,
-          error: `Unknown prompt type: ${promptType}`,
-          fallback: { rawResponse: response },
-        };
-    }
-
-    if (validationResult.success) {
-      console.log(`Response validation successful for ${promptType}`);
-      return {
-        success: true,
-        data: validationResult.data,
-      };
-    } else {
-      console.warn(
-        `Response validation failed for ${promptType}:`,
-        validationResult.error.issues,
-      );
-
-      // Attempt to create a fallback response with available data
-      const fallback = createFallbackResponse(
-        parsedResponse,
-        promptType,
-        validationResult.error,
-      );
-
-      return {
-        success: false,
-        error: `Validation failed: ${validationResult.error.issues.map((i) => i.message).join(", ")}`,
-        fallback,
-      };
-    }
+    return validateParsedResponse(parsedResponse, promptType);
   } catch (error) {
     return {
       success: false,
@@ -193,6 +499,53 @@ export function validateAIResponse(
   }
 }
 
+/**
+ * Validate an already-parsed AI response against its schema
+ */
+export function validateParsedResponse(
+  parsedResponse: unknown,
+  promptType: AIResponseType,
+): ValidationResult {
+  // Validate against appropriate schema
+  const schema = AI_RESPONSE_SCHEMAS[promptType];
+  if (!schema) {
+    return {
+      success: false,
+      error: `Unknown prompt type: ${promptType}`,
+      fallback: { rawResponse: JSON.stringify(parsedResponse) },
+    };
+  }
+
+  const validationResult = schema.safeParse(parsedResponse);
+
+  if (validationResult.success) {
+    console.log(`Response validation successful for ${promptType}`);
+    return {
+      success: true,
+      data: validationResult.data,
+    };
+  }
+
+  console.warn(
+    `Response validation failed for ${promptType}:`,
+    validationResult.error.issues,
+  );
+
+  // Attempt to create a fallback response with available data
+  const fallback = createFallbackResponse(
+    parsedResponse ?? {},
+    promptType,
+    validationResult.error,
+  );
+
+  return {
+    success: false,
+    error: `Validation failed: ${validationResult.error.issues.map((i) => i.message).join(", ")}`,
+    issues: validationResult.error.issues,
+    fallback,
+  };
+}
+
 /**
  * Create fallback response when validation fails
  */
@@ -208,6 +561,21 @@ function createFallbackResponse(
   };
 
   switch (promptType) {
+    case "outfit-list":
+      return {
+        ...base,
+        outfits: (Array.isArray(parsedResponse.outfits)
+          ? parsedResponse.outfits
+          : [parsedResponse]
+        ).map((outfit: any) =>
+          createFallbackResponse(
+            outfit ?? {},
+            "outfit-generation",
+            validationError,
+          ),
+        ),
+      };
+
     case "outfit-generation":
       return {
         ...base,
@@ -268,6 +636,47 @@ function createFallbackResponse(
           : [],
       };
 
+    case "wardrobe-gaps":
+      return {
+        ...base,
+        summary: parsedResponse.summary || "Gap analysis completed",
+        gaps: Array.isArray(parsedResponse.gaps) ? parsedResponse.gaps : [],
+        investment_priorities: Array.isArray(
+          parsedResponse.investment_priorities,
+        )
+          ? parsedResponse.investment_priorities
+          : [],
+      };
+
+    case "wardrobe-suggestions":
+      return {
+        ...base,
+        summary: parsedResponse.summary || "Styling suggestions completed",
+        styling_opportunities: Array.isArray(
+          parsedResponse.styling_opportunities,
+        )
+          ? parsedResponse.styling_opportunities
+          : [],
+        organization_tips: Array.isArray(parsedResponse.organization_tips)
+          ? parsedResponse.organization_tips
+          : ["Organize by category"],
+      };
+
+    case "wardrobe-colors":
+      return {
+        ...base,
+        summary: parsedResponse.summary || "Color analysis completed",
+        color_analysis: parsedResponse.color_analysis || {
+          dominant_colors: [],
+          missing_colors: [],
+          harmony_score: 50,
+          recommendations: "Color analysis unavailable",
+        },
+        color_pairings: Array.isArray(parsedResponse.color_pairings)
+          ? parsedResponse.color_pairings
+          : [],
+      };
+
     case "styling-advice":
       return {
         ...base,
@@ -290,6 +699,16 @@ function createFallbackResponse(
           ? parsedResponse.style_tags
           : ["casual"],
         color: parsedResponse.color || "unknown",
+        sub_category: parsedResponse.sub_category,
+        pattern: parsedResponse.pattern,
+        material: parsedResponse.material,
+        formality_score:
+          typeof parsedResponse.formality_score === "number"
+            ? Math.min(
+                5,
+                Math.max(1, Math.round(parsedResponse.formality_score)),
+              )
+            : undefined,
         versatility_score:
           typeof parsedResponse.versatility_score === "number"
             ? parsedResponse.versatility_score
@@ -359,12 +778,20 @@ export const STRUCTURED_PROMPT_TEMPLATES = {
     "possible_outfits": "Outfit possibilities description",
     "description": "Versatility description (minimum 20 characters)"
   },
+  "seasonal_coverage": {
+    "spring": 70,
+    "summer": 60,
+    "fall": 75,
+    "winter": 40,
+    "recommendations": "What to add for the weakest season (minimum 20 characters)"
+  },
   "investment_priorities": [
     {
       "item": "Specific item recommendation",
       "reason": "Detailed reason (minimum 20 characters)",
       "impact": "Impact description (minimum 10 characters)",
-      "priority": 1
+      "priority": 1,
+      "estimated_price": 60
     }
   ],
   "organization_tips": ["Tip 1", "Tip 2"],
@@ -378,6 +805,61 @@ export const STRUCTURED_PROMPT_TEMPLATES = {
   ],
   "confidence": 0.85
 }
+`,
+
+  wardrobe_gaps: `
+**CRITICAL: Your response MUST be valid JSON matching this exact structure:**
+{
+  "summary": "Short summary of what the wardrobe is missing (minimum 20 characters)",
+  "gaps": ["Gap 1", "Gap 2"],
+  "investment_priorities": [
+    {
+      "item": "Specific item recommendation",
+      "reason": "Detailed reason (minimum 20 characters)",
+      "impact": "Impact description (minimum 10 characters)",
+      "priority": 1,
+      "estimated_price": 60
+    }
+  ],
+  "confidence": 0.85
+}
+`,
+
+  wardrobe_suggestions: `
+**CRITICAL: Your response MUST be valid JSON matching this exact structure:**
+{
+  "summary": "Short summary of how to get more from the wardrobe (minimum 20 characters)",
+  "styling_opportunities": [
+    {
+      "outfit_name": "Outfit name",
+      "items": ["item1", "item2"],
+      "occasion": "Occasion type",
+      "styling_notes": "Styling notes (minimum 10 characters)"
+    }
+  ],
+  "organization_tips": ["Tip 1", "Tip 2"],
+  "confidence": 0.85
+}
+`,
+
+  wardrobe_colors: `
+**CRITICAL: Your response MUST be valid JSON matching this exact structure:**
+{
+  "summary": "Short summary of the palette (minimum 20 characters)",
+  "color_analysis": {
+    "dominant_colors": ["color1", "color2"],
+    "missing_colors": ["color3", "color4"],
+    "harmony_score": 75,
+    "recommendations": "Color recommendations (minimum 20 characters)"
+  },
+  "color_pairings": [
+    {
+      "colors": ["color1", "color2"],
+      "notes": "Why these work together (minimum 10 characters)"
+    }
+  ],
+  "confidence": 0.85
+}
 `,
 
   styling_advice: `
@@ -401,6 +883,10 @@ export const STRUCTURED_PROMPT_TEMPLATES = {
   "category": "Item category",
   "style_tags": ["tag1", "tag2", "tag3"],
   "color": "Primary color",
+  "sub_category": "Specific type, e.g. T-shirt, Chinos, Sneakers",
+  "pattern": "Solid, Striped, Floral, Plaid, ...",
+  "material": "Cotton, Denim, Wool, Leather, ...",
+  "formality_score": 3,
   "versatility_score": 8,
   "styling_suggestions": ["Suggestion 1", "Suggestion 2"],
   "pairing_recommendations": ["Pairs with X", "Pairs with Y"],
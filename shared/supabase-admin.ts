@@ -0,0 +1,23 @@
+import { createClient } from "@supabase/supabase-js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Server-side Supabase client with the service role key. It bypasses RLS, so
+// it must only ever be used from the API functions, never shipped to the
+// browser.
+
+let adminClient: SupabaseClient | null | undefined;
+
+// The shared admin client, or null when the service role isn't configured
+export const getSupabaseAdmin = (): SupabaseClient | null => {
+  if (adminClient !== undefined) return adminClient;
+
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  adminClient =
+    url && serviceKey
+      ? createClient(url, serviceKey, {
+          auth: { persistSession: false, autoRefreshToken: false },
+        })
+      : null;
+  return adminClient;
+};
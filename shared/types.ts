@@ -24,18 +24,31 @@ export interface AuthSession {
 }
 
 // Clothing Item Types
+// One swatch of an item's dominant palette, extracted from the photo
+export interface ItemColor {
+  hex: string; // "#rrggbb"
+  name: string; // nearest named color, e.g. "navy"
+  share: number; // fraction of the garment's pixels, 0-1
+}
+
 export interface ClothingItem {
   id: string;
   user_id: string;
   category_id: number;
   image_url: string;
+  // Background-removed PNG stored next to the original, if one was made
+  cutout_url?: string | null;
   brand?: string;
   color?: string;
+  colors?: ItemColor[] | null;
   sub_category?: string;
   material?: string;
   pattern?: string;
   formality_score?: number;
-  style_tag_ids: number[];
+  purchase_price?: number;
+  currency?: string;
+  purchase_date?: string;
+  style_tag_ids?: number[];
   created_at: string;
   updated_at: string;
   // Computed fields
@@ -62,6 +75,7 @@ export interface WardrobeAnalysis {
   color_analysis: ColorAnalysis;
   style_consistency: StyleConsistency;
   versatility: VersatilityAnalysis;
+  seasonal_coverage?: SeasonalCoverage;
   investment_priorities: InvestmentPriority[];
   organization_tips: string[];
   styling_opportunities: StylingOpportunity[];
@@ -86,11 +100,20 @@ export interface VersatilityAnalysis {
   description: string;
 }
 
+export interface SeasonalCoverage {
+  spring: number;
+  summer: number;
+  fall: number;
+  winter: number;
+  recommendations: string;
+}
+
 export interface InvestmentPriority {
   item: string;
   reason: string;
   impact: string;
   priority: number;
+  estimated_price?: number; // in the requested budget's currency
 }
 
 export interface StylingOpportunity {
@@ -100,6 +123,51 @@ export interface StylingOpportunity {
   styling_notes: string;
 }
 
+// Focused analyses (analysis_type other than 'full'): one part of the full
+// analysis each, with a short summary instead of the overall assessment
+export type WardrobeAnalysisType = 'full' | 'gaps' | 'suggestions' | 'color_analysis';
+
+export interface WardrobeGapsAnalysis {
+  summary: string;
+  gaps: string[];
+  investment_priorities: InvestmentPriority[];
+  confidence?: number;
+}
+
+export interface WardrobeSuggestions {
+  summary: string;
+  styling_opportunities: StylingOpportunity[];
+  organization_tips: string[];
+  confidence?: number;
+}
+
+export interface ColorPairing {
+  colors: string[];
+  notes: string;
+}
+
+export interface WardrobeColorReport {
+  summary: string;
+  color_analysis: ColorAnalysis;
+  color_pairings: ColorPairing[];
+  confidence?: number;
+}
+
+// The result for each analysis_type
+export interface WardrobeAnalysisResults {
+  full: WardrobeAnalysis;
+  gaps: WardrobeGapsAnalysis;
+  suggestions: WardrobeSuggestions;
+  color_analysis: WardrobeColorReport;
+}
+
+// Price range for recommended purchases, per item
+export interface BudgetRange {
+  min: number;
+  max: number;
+  currency: string;
+}
+
 // Outfit Generation Types
 export interface OutfitRequest {
   user_id: string;
@@ -180,6 +248,14 @@ export interface UserStyleProfile {
 }
 
 // Wardrobe Statistics Types
+export interface ItemValueStats {
+  item_id: string;
+  purchase_price: number;
+  currency: string;
+  wear_count: number;
+  cost_per_wear: number;
+}
+
 export interface WardrobeStats {
   total_items: number;
   items_by_category: Record<string, number>;
@@ -187,6 +263,15 @@ export interface WardrobeStats {
   items_by_style: Record<string, number>;
   formality_distribution: Record<number, number>;
   completeness_score: number;
+  // Value tracking (items without a purchase price are left out)
+  priced_items: number;
+  total_value: Record<string, number>; // keyed by currency code
+  primary_currency: string;
+  total_wears: number;
+  average_cost_per_wear: number | null;
+  cost_per_wear: ItemValueStats[];
+  best_value_items: ItemValueStats[];
+  worst_value_items: ItemValueStats[];
 }
 
 // API Response Types
@@ -195,6 +280,28 @@ export interface ApiResponse<T = unknown> {
   data?: T;
   error?: string;
   message?: string;
+  code?: ApiErrorCode;
+  request_id?: string;
+  details?: Record<string, unknown>;
+}
+
+// Stable, machine-readable reasons an API request failed
+export type ApiErrorCode =
+  | 'VALIDATION_FAILED' // body failed its schema; details.issues lists fields
+  | 'UNAUTHENTICATED' // missing, expired or forged session token
+  | 'RATE_LIMITED' // bucket empty; see the Retry-After header
+  | 'AI_UNAVAILABLE' // no AI provider configured
+  | 'WARDROBE_TOO_SMALL' // not enough items for the request
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'INTERNAL_ERROR';
+
+// Body of every API error response
+export interface ApiErrorResponse extends ApiResponse<never> {
+  success: false;
+  error: string; // human-readable, safe to show
+  code: ApiErrorCode;
+  request_id: string; // also sent as X-Request-Id; quote it in bug reports
 }
 
 export interface ValidationResult<T = unknown> {
@@ -260,7 +367,7 @@ export type StyleSelectHandler = (style: string) => void;
 
 // Error Types
 export interface AppError extends Error {
-  code?: string;
+  code?: ApiErrorCode | string;
   statusCode?: number;
   details?: Record<string, unknown>;
 }
@@ -271,12 +378,17 @@ export interface DatabaseClothingItem {
   user_id: string;
   category_id: number;
   image_url: string;
+  cutout_url: string | null;
   brand: string | null;
   color: string | null;
+  colors: ItemColor[] | null;
   sub_category: string | null;
   material: string | null;
   pattern: string | null;
   formality_score: number | null;
+  purchase_price: number | null;
+  currency: string | null;
+  purchase_date: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -296,12 +408,17 @@ export interface DatabaseCategory {
 // Form Types
 export interface ClothingItemFormData {
   category_id: number;
+  cutout_url?: string | null;
   brand?: string;
   color?: string;
+  colors?: ItemColor[] | null;
   sub_category?: string;
   material?: string;
   pattern?: string;
   formality_score?: number;
+  purchase_price?: number;
+  currency?: string;
+  purchase_date?: string;
   style_tag_ids: number[];
 }
 
@@ -0,0 +1,60 @@
+import type { AuthenticatedUser } from "./auth";
+import { toAnalysisRow } from "./analysis-history";
+import type { WardrobeAnalysis } from "./types";
+
+// Server-side wardrobe reads and writes for the API functions. Items come
+// from the database rather than the request body, so a client can only use
+// its own wardrobe. Rows have the same shape the client loads (category and
+// style tags joined in).
+
+const CLOTHING_ITEM_SELECT = `
+  *,
+  category:categories(*),
+  clothing_item_style_tags(
+    style_tag:style_tags(*)
+  )
+`;
+
+// Every item in the user's wardrobe, newest first
+export const loadUserWardrobe = async (
+  user: AuthenticatedUser,
+): Promise<any[]> => {
+  const { data, error } = await user.supabase
+    .from("clothing_items")
+    .select(CLOTHING_ITEM_SELECT)
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false });
+
+  if (error) throw new Error(`Failed to load wardrobe: ${error.message}`);
+  return data || [];
+};
+
+// One of the user's items, or null when it doesn't exist or isn't theirs
+export const loadUserItem = async (
+  user: AuthenticatedUser,
+  itemId: string,
+): Promise<any | null> => {
+  const { data, error } = await user.supabase
+    .from("clothing_items")
+    .select(CLOTHING_ITEM_SELECT)
+    .eq("user_id", user.id)
+    .eq("id", itemId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load item: ${error.message}`);
+  return data;
+};
+
+// Add an analysis to the user's history. Never fails the request: a history
+// that's missing an entry is better than an analysis the user can't see.
+export const saveWardrobeAnalysis = async (
+  user: AuthenticatedUser,
+  analysis: Partial<WardrobeAnalysis>,
+  itemCount: number,
+): Promise<void> => {
+  const { error } = await user.supabase
+    .from("wardrobe_analyses")
+    .insert({ user_id: user.id, ...toAnalysisRow(analysis, itemCount) });
+
+  if (error) console.warn("Failed to save wardrobe analysis:", error.message);
+};
@@ -0,0 +1,583 @@
+import {
+  ESSENTIAL_NEUTRALS,
+  getItemPrimaryColor,
+  scoreColorHarmony,
+  scoreWardrobePalette,
+} from "./color";
+import { generateSmartOutfits } from "./outfit-solver";
+import type {
+  BudgetRange,
+  ItemColor,
+  SeasonalCoverage,
+  WardrobeAnalysisType,
+} from "./types";
+
+// Rule-based wardrobe analysis: category coverage, palette and style scores
+// computed from the items alone. Used whenever an AI analysis isn't available.
+
+export interface WardrobeItem {
+  id: string;
+  category: string | { name: string };
+  sub_category?: string;
+  material?: string;
+  color?: string;
+  colors?: ItemColor[] | null;
+  brand?: string;
+  image_url?: string;
+  clothing_item_style_tags?: Array<{ style_tag: { name: string } }>;
+}
+
+// Generate smart analysis when AI is unavailable
+export function generateSmartAnalysis(
+  items: WardrobeItem[],
+  preferences: any,
+  styleGoal?: string,
+  budget?: BudgetRange,
+) {
+  // Categorize items
+  const categories = categorizeItems(items);
+  const colors = extractColors(items);
+
+  // Analyze strengths and gaps
+  const { strengths, gaps } = analyzeWardrobeGaps(categories, items.length);
+
+  // Generate investment priorities
+  const investmentPriorities = generateInvestmentPriorities(
+    categories,
+    colors,
+    gaps,
+    budget,
+  );
+
+  // Calculate scores
+  const versatilityScore = calculateVersatilityScore(
+    categories,
+    colors,
+    items.length,
+  );
+  const styleConsistencyScore = calculateStyleConsistencyScore(items);
+  const colorHarmonyScore = calculateColorHarmonyScore(colors);
+
+  return {
+    overall_assessment: `Your wardrobe contains ${items.length} items across ${Object.keys(categories).length} different categories. ${getOverallAssessment(versatilityScore, styleConsistencyScore)}`,
+    strengths,
+    gaps,
+    color_analysis: {
+      dominant_colors: Object.keys(colors).slice(0, 3),
+      missing_colors: getMissingEssentialColors(colors),
+      harmony_score: colorHarmonyScore,
+      recommendations: generateColorRecommendations(colors),
+    },
+    style_consistency: {
+      score: styleConsistencyScore,
+      description: getStyleConsistencyDescription(styleConsistencyScore),
+    },
+    versatility: {
+      score: versatilityScore,
+      possible_outfits: String(Math.floor(items.length * 2.2)),
+      description: getVersatilityDescription(versatilityScore),
+    },
+    seasonal_coverage: calculateSeasonalCoverage(items),
+    investment_priorities: investmentPriorities,
+    organization_tips: [
+      "Group similar items together (all shirts, all pants)",
+      "Organize by color within each category",
+      "Keep frequently used items easily accessible",
+      "Store out-of-season items separately",
+    ],
+  };
+}
+
+// Smart analysis for one analysis_type: the matching part of the full
+// analysis, plus the outfit ideas and color pairings the focused modes add
+export function generateSmartAnalysisForType(
+  type: WardrobeAnalysisType,
+  items: WardrobeItem[],
+  preferences: any,
+  styleGoal?: string,
+  budget?: BudgetRange,
+) {
+  const analysis = generateSmartAnalysis(items, preferences, styleGoal, budget);
+
+  switch (type) {
+    case "gaps":
+      return {
+        summary: analysis.gaps.length
+          ? `Your ${items.length} items leave ${analysis.gaps.length} gaps worth filling.`
+          : `Your ${items.length} items cover the essentials well.`,
+        gaps: analysis.gaps,
+        investment_priorities: analysis.investment_priorities,
+        confidence: 0.6,
+      };
+
+    case "suggestions":
+      return {
+        summary: `Ideas for getting more out of the ${items.length} items you already own.`,
+        styling_opportunities: generateStylingOpportunities(
+          items,
+          preferences?.occasion || "casual",
+          "mild",
+          preferences?.style || styleGoal || "comfortable",
+        ),
+        organization_tips: analysis.organization_tips,
+        confidence: 0.6,
+      };
+
+    case "color_analysis":
+      return {
+        summary: analysis.color_analysis.recommendations,
+        color_analysis: analysis.color_analysis,
+        color_pairings: generateColorPairings(extractColors(items)),
+        confidence: 0.6,
+      };
+
+    default:
+      return analysis;
+  }
+}
+
+// Keep the priorities priced within the budget, renumbered from 1. Unpriced
+// ones can't be shown to fit, so they go too.
+export function applyBudget<
+  T extends { priority: number; estimated_price?: number },
+>(priorities: T[], budget?: BudgetRange): T[] {
+  if (!budget) return priorities;
+
+  return priorities
+    .filter(
+      ({ estimated_price }) =>
+        typeof estimated_price === "number" &&
+        estimated_price >= budget.min &&
+        estimated_price <= budget.max,
+    )
+    .sort((a, b) => a.priority - b.priority)
+    .map((priority, index) => ({ ...priority, priority: index + 1 }));
+}
+
+// "white Tops"-style label for an item, as used in outfit suggestions
+export const describeWardrobeItem = (item: any): string => {
+  const category =
+    typeof item.category === "string"
+      ? item.category
+      : item.category?.name || "piece";
+  return `${item.color || ""} ${category}`.trim();
+};
+
+// Solver outfits from the wardrobe as styling opportunities
+export function generateStylingOpportunities(
+  items: WardrobeItem[],
+  occasion: string,
+  weather: string,
+  style: string,
+  count = 2,
+) {
+  return generateSmartOutfits(items, occasion, weather, style, { count }).map(
+    (outfit) => ({
+      outfit_name: outfit.name,
+      items: outfit.items.map(describeWardrobeItem),
+      occasion,
+      styling_notes: outfit.reasoning,
+    }),
+  );
+}
+
+// Helper functions
+function categorizeItems(items: WardrobeItem[]) {
+  const categories: { [key: string]: number } = {};
+
+  items.forEach((item) => {
+    const category =
+      typeof item.category === "string"
+        ? item.category.toLowerCase()
+        : item.category?.name?.toLowerCase() || "other";
+    categories[category] = (categories[category] || 0) + 1;
+  });
+
+  return categories;
+}
+
+// Count items by the named color they mostly read as (palette first)
+function extractColors(items: WardrobeItem[]) {
+  const colors: { [key: string]: number } = {};
+
+  items.forEach((item) => {
+    const color = getItemPrimaryColor(item);
+    if (color) {
+      colors[color] = (colors[color] || 0) + 1;
+    }
+  });
+
+  return colors;
+}
+
+export function extractDominantColors(items: WardrobeItem[]): string[] {
+  const colors = extractColors(items);
+  return Object.entries(colors)
+    .sort(([, a], [, b]) => (b as number) - (a as number))
+    .slice(0, 3)
+    .map(([color]) => color);
+}
+
+function analyzeWardrobeGaps(categories: any, totalItems: number) {
+  const strengths: string[] = [];
+  const gaps: string[] = [];
+
+  const essentialCategories = {
+    tops: { min: 3, name: "tops" },
+    bottoms: { min: 2, name: "bottoms" },
+    shoes: { min: 2, name: "shoes" },
+    outerwear: { min: 1, name: "outerwear/jackets" },
+  };
+
+  Object.entries(essentialCategories).forEach(([key, config]) => {
+    const count = Object.keys(categories)
+      .filter((cat) => cat.includes(key))
+      .reduce((sum, cat) => sum + categories[cat], 0);
+
+    if (count >= config.min) {
+      strengths.push(`Good selection of ${config.name} (${count} items)`);
+    } else if (count === 0) {
+      gaps.push(`Missing ${config.name} entirely`);
+    } else {
+      gaps.push(`Need more ${config.name} (only ${count} items)`);
+    }
+  });
+
+  // Check for variety
+  const categoryCount = Object.keys(categories).length;
+  if (categoryCount >= 5) {
+    strengths.push("Good variety across different categories");
+  } else if (categoryCount < 3) {
+    gaps.push("Limited variety in clothing categories");
+  }
+
+  return { strengths, gaps };
+}
+
+// Rough price range (low, typical, high) of a recommended piece. Read in
+// the budget's currency: close enough across USD, EUR and GBP for a
+// shopping hint.
+type PriceRange = [number, number, number];
+
+// Price to suggest for a piece within the budget, or null when it can't be
+// bought within it
+function fitPrice(
+  [low, typical, high]: PriceRange,
+  budget?: BudgetRange,
+): number | null {
+  if (!budget) return typical;
+  if (low > budget.max || high < budget.min) return null;
+  return Math.min(Math.max(typical, budget.min, low), budget.max, high);
+}
+
+function generateInvestmentPriorities(
+  categories: any,
+  colors: any,
+  gaps: string[],
+  budget?: BudgetRange,
+): Array<{
+  item: string;
+  reason: string;
+  impact: string;
+  priority: number;
+  estimated_price: number;
+}> {
+  const priorities: Array<{
+    item: string;
+    reason: string;
+    impact: string;
+    priority: number;
+    estimated_price: number;
+  }> = [];
+
+  // Check for missing basics
+  const essentials: Array<{
+    item: string;
+    category: string;
+    reason: string;
+    price: PriceRange;
+  }> = [
+    {
+      item: "White button-down shirt",
+      category: "tops",
+      reason: "Versatile for both casual and formal occasions",
+      price: [20, 50, 150],
+    },
+    {
+      item: "Well-fitted jeans",
+      category: "bottoms",
+      reason: "Essential for casual wear",
+      price: [30, 70, 200],
+    },
+    {
+      item: "Black dress shoes",
+      category: "shoes",
+      reason: "Needed for formal occasions",
+      price: [50, 120, 350],
+    },
+    {
+      item: "Blazer or jacket",
+      category: "outerwear",
+      reason: "Instantly elevates any outfit",
+      price: [60, 150, 400],
+    },
+  ];
+
+  let priority = 1;
+  essentials.forEach((essential) => {
+    const hasCategory = Object.keys(categories).some((cat) =>
+      cat.includes(essential.category),
+    );
+    const price = fitPrice(essential.price, budget);
+    if (
+      (!hasCategory || categories[essential.category] < 2) &&
+      price !== null
+    ) {
+      priorities.push({
+        item: essential.item,
+        reason: essential.reason,
+        impact: "High - will significantly increase outfit options",
+        priority: priority++,
+        estimated_price: price,
+      });
+    }
+  });
+
+  // Color-based recommendations
+  const neutralColors = ["black", "white", "gray", "navy"];
+  const missingNeutrals = neutralColors.filter((color) => !colors[color]);
+  const basicsPrice = fitPrice([10, 25, 60], budget);
+
+  if (missingNeutrals.length > 0 && basicsPrice !== null) {
+    priorities.push({
+      item: `${missingNeutrals[0].charAt(0).toUpperCase() + missingNeutrals[0].slice(1)} basic pieces`,
+      reason: "Neutral colors are the foundation of a versatile wardrobe",
+      impact:
+        "Medium - improves color coordination and mix-and-match potential",
+      priority: priority++,
+      estimated_price: basicsPrice,
+    });
+  }
+
+  return priorities.slice(0, 5);
+}
+
+export function generateDefaultInvestmentPriorities(items: WardrobeItem[]) {
+  return [
+    {
+      item: "Quality basic t-shirts",
+      reason: "Foundation pieces that work with everything",
+      impact: "High - essential for daily wear",
+      priority: 1,
+    },
+    {
+      item: "Well-fitted jeans",
+      reason: "Versatile for casual occasions",
+      impact: "High - can be dressed up or down",
+      priority: 2,
+    },
+    {
+      item: "Structured blazer",
+      reason: "Instantly elevates any casual outfit",
+      impact: "Medium - great for professional settings",
+      priority: 3,
+    },
+  ];
+}
+
+function calculateVersatilityScore(
+  categories: any,
+  colors: any,
+  totalItems: number,
+): number {
+  let score = 50; // Base score
+
+  // Category diversity bonus
+  const categoryCount = Object.keys(categories).length;
+  score += Math.min(categoryCount * 8, 40);
+
+  // Color variety bonus
+  const colorCount = Object.keys(colors).length;
+  score += Math.min(colorCount * 5, 25);
+
+  // Neutral colors bonus
+  const neutrals = ["black", "white", "gray", "navy"];
+  const neutralCount = neutrals.filter((color) => colors[color]).length;
+  score += neutralCount * 8;
+
+  // Item quantity consideration
+  if (totalItems >= 15) score += 10;
+  else if (totalItems >= 8) score += 5;
+
+  return Math.min(Math.max(score, 0), 100);
+}
+
+// Words in an item's category, type or material that make it right for a
+// season, and what to add when the season is the weakest
+const SEASON_KEYWORDS: Record<
+  keyof Omit<SeasonalCoverage, "recommendations">,
+  { keywords: string[]; suggestion: string }
+> = {
+  spring: {
+    keywords: ["jacket", "blazer", "cardigan", "trench", "skirt", "dress"],
+    suggestion: "a light jacket or cardigan for layering",
+  },
+  summer: {
+    keywords: ["short", "sandal", "tank", "tee", "t-shirt", "linen", "dress"],
+    suggestion: "shorts, sandals or linen pieces",
+  },
+  fall: {
+    keywords: ["jacket", "blazer", "cardigan", "sweater", "boot", "trench"],
+    suggestion: "a sweater or a pair of boots",
+  },
+  winter: {
+    keywords: ["coat", "sweater", "boot", "knit", "wool", "puffer", "parka"],
+    suggestion: "a warm coat or wool knitwear",
+  },
+};
+
+// How well the wardrobe dresses each season, 0-100: up to 60 for the basics
+// (tops, bottoms or dresses, shoes) that work all year, plus up to 40 for
+// pieces made for the season
+export function calculateSeasonalCoverage(
+  items: WardrobeItem[],
+): SeasonalCoverage {
+  const descriptions = items.map((item) =>
+    [
+      typeof item.category === "string" ? item.category : item.category?.name,
+      item.sub_category,
+      item.material,
+    ]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase(),
+  );
+  const has = (word: string) =>
+    descriptions.some((description) => description.includes(word));
+  const basics =
+    (has("top") ? 20 : 0) +
+    (has("bottom") || has("dress") ? 20 : 0) +
+    (has("shoe") ? 20 : 0);
+
+  const coverage = Object.fromEntries(
+    Object.entries(SEASON_KEYWORDS).map(([season, { keywords }]) => {
+      const seasonal = descriptions.filter((description) =>
+        keywords.some((keyword) => description.includes(keyword)),
+      ).length;
+      return [season, basics + Math.min(seasonal * 10, 40)];
+    }),
+  ) as Omit<SeasonalCoverage, "recommendations">;
+
+  const [weakest] = Object.entries(coverage).sort(([, a], [, b]) => a - b);
+  const recommendations =
+    weakest[1] >= 80
+      ? "Your wardrobe covers every season well."
+      : `Your wardrobe is thinnest for ${weakest[0]}; consider ${SEASON_KEYWORDS[weakest[0]].suggestion}.`;
+
+  return { ...coverage, recommendations };
+}
+
+function calculateStyleConsistencyScore(items: WardrobeItem[]): number {
+  // This is a simplified calculation - in a real scenario, you'd analyze style tags
+  const styleTags = items.flatMap(
+    (item) =>
+      item.clothing_item_style_tags?.map((tag) => tag.style_tag.name) || [],
+  );
+
+  if (styleTags.length === 0) return 60;
+
+  // Count frequency of style tags
+  const styleFrequency = styleTags.reduce(
+    (acc, style) => {
+      acc[style] = (acc[style] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+
+  // Calculate consistency based on how often the same styles appear
+  const totalTags = styleTags.length;
+  const dominantStyleCount = Math.max(...Object.values(styleFrequency));
+  const consistencyRatio = dominantStyleCount / totalTags;
+
+  return Math.round(consistencyRatio * 100);
+}
+
+// The best-matching pairs among the wardrobe's main colors. Pairs with an
+// accent come first: two neutrals always work, so they say the least.
+function generateColorPairings(colors: Record<string, number>) {
+  const mainColors = Object.entries(colors)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 6)
+    .map(([color]) => color);
+
+  const pairs: {
+    colors: string[];
+    score: number;
+    neutral: boolean;
+    notes: string;
+  }[] = [];
+  mainColors.forEach((first, index) =>
+    mainColors.slice(index + 1).forEach((second) => {
+      const harmony = scoreColorHarmony([first, second]);
+      pairs.push({
+        colors: [first, second],
+        score: harmony.score,
+        neutral: harmony.type === "neutral",
+        notes:
+          harmony.explanation || `${first} and ${second} work well together.`,
+      });
+    }),
+  );
+
+  return pairs
+    .sort((a, b) => Number(a.neutral) - Number(b.neutral) || b.score - a.score)
+    .slice(0, 3)
+    .map(({ colors, notes }) => ({ colors, notes }));
+}
+
+// Palette score from the shared color-harmony engine
+function calculateColorHarmonyScore(colors: any): number {
+  return scoreWardrobePalette(colors).score;
+}
+
+function getMissingEssentialColors(colors: any): string[] {
+  return ESSENTIAL_NEUTRALS.filter((color) => !colors[color]);
+}
+
+function generateColorRecommendations(colors: any): string {
+  const { explanation } = scoreWardrobePalette(colors);
+  const missing = getMissingEssentialColors(colors);
+  if (missing.length === 0) {
+    return `${explanation} Your color palette is well-balanced with good neutral foundation.`.trim();
+  }
+  return `${explanation} Consider adding ${missing.join(" and ")} pieces to strengthen your neutral foundation and increase versatility.`.trim();
+}
+
+function getOverallAssessment(
+  versatilityScore: number,
+  styleScore: number,
+): string {
+  const averageScore = (versatilityScore + styleScore) / 2;
+
+  if (averageScore >= 80) {
+    return "Your wardrobe shows excellent balance and versatility.";
+  } else if (averageScore >= 60) {
+    return "Your wardrobe has good potential with some room for strategic improvements.";
+  } else {
+    return "There are several opportunities to enhance your wardrobe's versatility and style.";
+  }
+}
+
+function getStyleConsistencyDescription(score: number): string {
+  if (score >= 80) return "Excellent style consistency across your wardrobe";
+  if (score >= 60) return "Good style consistency with some variety";
+  return "Mixed styles - consider focusing on a more cohesive aesthetic";
+}
+
+function getVersatilityDescription(score: number): string {
+  if (score >= 80)
+    return "Highly versatile wardrobe with excellent mix-and-match potential";
+  if (score >= 60) return "Good versatility with solid outfit creation options";
+  return "Limited versatility - adding key pieces would greatly expand your options";
+}
@@ -0,0 +1,143 @@
+import { DEFAULT_CATEGORIES, DEFAULT_CURRENCY } from "./constants";
+import type { ClothingItem, ItemValueStats, WardrobeStats } from "./types";
+
+// Categories every wardrobe needs to build a complete outfit
+const ESSENTIAL_CATEGORIES = ["Tops", "Bottoms", "Shoes", "Outerwear"];
+
+// How many items to surface in the best/worst value lists
+const VALUE_RANKING_SIZE = 3;
+
+// Resolve an item's category name from the joined row or the defaults
+const getCategoryName = (item: ClothingItem): string => {
+  if (item.category?.name) return item.category.name;
+  return (
+    DEFAULT_CATEGORIES.find((category) => category.id === item.category_id)
+      ?.name || "Unknown"
+  );
+};
+
+// Collect style tag names from whichever shape the item was loaded in
+const getStyleNames = (item: ClothingItem): string[] => {
+  if (item.style_tags?.length) {
+    return item.style_tags.map((tag) => tag.name);
+  }
+  return (item.clothing_item_style_tags || [])
+    .map((itemTag) => itemTag.style_tag?.name)
+    .filter(Boolean);
+};
+
+const increment = <K extends string | number>(
+  counts: Record<K, number>,
+  key: K,
+) => {
+  counts[key] = (counts[key] || 0) + 1;
+};
+
+// Cost per wear for a priced item; unworn items cost their full price
+export const calculateCostPerWear = (
+  purchasePrice: number,
+  wearCount: number,
+): number => purchasePrice / Math.max(wearCount, 1);
+
+// Build wardrobe statistics, including value tracking from the wear log
+export const calculateWardrobeStats = (
+  items: ClothingItem[],
+  wearCounts: Record<string, number> = {},
+): WardrobeStats => {
+  const itemsByCategory: Record<string, number> = {};
+  const itemsByColor: Record<string, number> = {};
+  const itemsByStyle: Record<string, number> = {};
+  const formalityDistribution: Record<number, number> = {};
+  const totalValue: Record<string, number> = {};
+  const pricedCounts: Record<string, number> = {};
+  const costPerWear: ItemValueStats[] = [];
+
+  items.forEach((item) => {
+    increment(itemsByCategory, getCategoryName(item));
+    if (item.color) increment(itemsByColor, item.color.trim().toLowerCase());
+    getStyleNames(item).forEach((style) => increment(itemsByStyle, style));
+    if (item.formality_score) {
+      increment(formalityDistribution, item.formality_score);
+    }
+
+    const price = Number(item.purchase_price);
+    if (item.purchase_price == null || Number.isNaN(price)) return;
+
+    const currency = item.currency || DEFAULT_CURRENCY;
+    const wearCount = wearCounts[item.id] || 0;
+    totalValue[currency] = (totalValue[currency] || 0) + price;
+    increment(pricedCounts, currency);
+    costPerWear.push({
+      item_id: item.id,
+      purchase_price: price,
+      currency,
+      wear_count: wearCount,
+      cost_per_wear: calculateCostPerWear(price, wearCount),
+    });
+  });
+
+  // Rankings only compare items priced in the most common currency
+  const primaryCurrency =
+    Object.entries(pricedCounts).sort((a, b) => b[1] - a[1])[0]?.[0] ||
+    DEFAULT_CURRENCY;
+  const comparable = costPerWear
+    .filter((entry) => entry.currency === primaryCurrency)
+    .sort((a, b) => a.cost_per_wear - b.cost_per_wear);
+  const bestValue = comparable
+    .filter((entry) => entry.wear_count > 0)
+    .slice(0, VALUE_RANKING_SIZE);
+  const worstValue = comparable
+    .filter((entry) => !bestValue.includes(entry))
+    .reverse()
+    .slice(0, VALUE_RANKING_SIZE);
+
+  const comparableWears = comparable.reduce(
+    (sum, entry) => sum + entry.wear_count,
+    0,
+  );
+  const comparableValue = comparable.reduce(
+    (sum, entry) => sum + entry.purchase_price,
+    0,
+  );
+
+  const essentialsCovered = ESSENTIAL_CATEGORIES.filter(
+    (category) => itemsByCategory[category],
+  ).length;
+
+  return {
+    total_items: items.length,
+    items_by_category: itemsByCategory,
+    items_by_color: itemsByColor,
+    items_by_style: itemsByStyle,
+    formality_distribution: formalityDistribution,
+    completeness_score: Math.round(
+      (essentialsCovered / ESSENTIAL_CATEGORIES.length) * 100,
+    ),
+    priced_items: costPerWear.length,
+    total_value: totalValue,
+    primary_currency: primaryCurrency,
+    total_wears: items.reduce(
+      (sum, item) => sum + (wearCounts[item.id] || 0),
+      0,
+    ),
+    average_cost_per_wear:
+      comparableWears > 0 ? comparableValue / comparableWears : null,
+    cost_per_wear: costPerWear,
+    best_value_items: bestValue,
+    worst_value_items: worstValue,
+  };
+};
+
+// Format an amount in the given currency for display
+export const formatCurrency = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: amount >= 100 ? 0 : 2,
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
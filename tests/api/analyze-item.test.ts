@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import handler from "../../api/analyze-item";
+import { setAIProvider } from "../../shared/ai-provider";
+import { setAuthenticator } from "../../shared/auth";
+import { setGeminiClient } from "../../shared/gemini";
+import {
+  createMemoryRateLimitStore,
+  setRateLimitStore,
+} from "../../shared/rate-limit";
+import {
+  createFakeSupabase,
+  createStubProvider,
+  makeItem,
+  postJson,
+  serveHandler,
+  signInWith,
+} from "../helpers";
+
+const ANALYSIS = {
+  category: "Tops",
+  style_tags: ["casual"],
+  color: "white",
+  versatility_score: 8,
+  styling_suggestions: ["Tuck into high-waisted jeans"],
+  pairing_recommendations: ["Blue jeans"],
+  occasion_suitability: ["Weekend"],
+  confidence: 0.9,
+};
+
+let server: Awaited<ReturnType<typeof serveHandler>>;
+let supabase: any;
+let generateStructured: ReturnType<typeof vi.fn>;
+
+const analyze = async (body: object = {}) => {
+  const response = await postJson(`${server.url}/api/analyze-item`, {
+    category: "Tops",
+    color: "white",
+    ...body,
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+beforeEach(async () => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  supabase = createFakeSupabase();
+  signInWith(supabase);
+  setRateLimitStore(createMemoryRateLimitStore());
+  generateStructured = vi.fn(async () => ({
+    data: ANALYSIS,
+    attempts: 1,
+    issues: [],
+  }));
+  setAIProvider(createStubProvider({ generateStructured }));
+  server = await serveHandler(handler);
+});
+
+afterEach(async () => {
+  await server.close();
+  setAIProvider(null);
+  setAuthenticator(null);
+  setRateLimitStore(null);
+  vi.restoreAllMocks();
+});
+
+describe("caching", () => {
+  it("serves a repeated analysis from the cache", async () => {
+    const first = await analyze();
+    expect(first.status).toBe(200);
+    expect(first.body.cached).toBe(false);
+    expect(first.body.analysis.style_tags).toEqual(["casual"]);
+
+    const second = await analyze();
+    expect(second.body.cached).toBe(true);
+    expect(second.body.analysis).toEqual(first.body.analysis);
+    expect(generateStructured).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips the cache on refresh", async () => {
+    await analyze();
+    const refreshed = await analyze({ refresh: true });
+
+    expect(refreshed.body.cached).toBe(false);
+    expect(generateStructured).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't cache an analysis the AI couldn't produce", async () => {
+    generateStructured.mockRejectedValue(new Error("quota exceeded"));
+
+    const { status, body } = await analyze();
+
+    expect(status).toBe(200);
+    expect(body.analysis).toBeDefined();
+    expect(body.cached).toBeUndefined();
+    expect(supabase.tables.gemini_cache ?? []).toHaveLength(0);
+  });
+
+  it("doesn't cache an image analysis when the image can't be read", async () => {
+    const { status, body } = await analyze({
+      image_url: "https://example.com/not-allowed.jpg",
+    });
+
+    expect(status).toBe(200);
+    expect(body.metadata.image_analyzed).toBe(false);
+    expect(supabase.tables.gemini_cache ?? []).toHaveLength(0);
+  });
+});
+
+describe("photo analysis", () => {
+  it("reports the vision call's own confidence and occasions", async () => {
+    setAIProvider(
+      createStubProvider({
+        generateStructured,
+        analyzeImage: async () => ({
+          data: {
+            ...ANALYSIS,
+            occasion_suitability: ["Office"],
+            confidence: 0.6,
+          },
+          attempts: 1,
+          issues: [],
+        }),
+      }),
+    );
+
+    const { body } = await analyze({
+      image_base64: "data:image/png;base64,iVBORw==",
+    });
+
+    expect(body.metadata.image_analyzed).toBe(true);
+    expect(body.analysis.confidence).toBe(0.6);
+    expect(body.analysis.occasion_suitability).toEqual(["Office"]);
+  });
+
+  it("doesn't claim to have read the photo when the vision call fails", async () => {
+    const { body } = await analyze({
+      image_base64: "data:image/png;base64,iVBORw==",
+    });
+
+    expect(body.metadata.image_analyzed).toBe(false);
+    expect(supabase.tables.gemini_cache ?? []).toHaveLength(0);
+  });
+});
+
+describe("saved items", () => {
+  it("caches the analysis of an item with empty columns", async () => {
+    supabase.tables.clothing_items = [
+      makeItem("item-1", "Tops", "white", {
+        sub_category: null,
+        pattern: null,
+        material: null,
+        formality_score: null,
+      }),
+    ];
+    setAIProvider(
+      createStubProvider({
+        generate: async () => "A versatile everyday top",
+        generateStructured,
+        analyzeImage: generateStructured,
+      }),
+    );
+
+    const { status, body } = await analyze({
+      item_id: "item-1",
+      image_base64: "data:image/png;base64,iVBORw==",
+    });
+
+    expect(status).toBe(200);
+    expect(body.metadata.validated).toBe(true);
+    expect(body.cached).toBe(false);
+    expect(supabase.tables.gemini_cache).toHaveLength(1);
+  });
+});
+
+describe("with Gemini", () => {
+  afterEach(() => setGeminiClient(null));
+
+  it("sends the uploaded photo to the vision model", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    setAIProvider(null);
+    const generateContent = vi.fn(async () => ({
+      response: {
+        text: () =>
+          JSON.stringify({ ...ANALYSIS, sub_category: "Oxford shirt" }),
+      },
+    }));
+    setGeminiClient({
+      getGenerativeModel: () => ({ generateContent }) as any,
+    });
+
+    const { status, body } = await analyze({
+      image_base64: "data:image/png;base64,iVBORw==",
+    });
+
+    expect(status).toBe(200);
+    expect(body.metadata.image_analyzed).toBe(true);
+    expect(body.metadata.aiProvider).toBe("Gemini AI");
+    expect(body.analysis.sub_category).toBe("Oxford shirt");
+    expect(generateContent).toHaveBeenCalledWith([
+      { inlineData: { data: "iVBORw==", mimeType: "image/png" } },
+      expect.objectContaining({ text: expect.any(String) }),
+    ]);
+    expect(body.cached).toBe(false);
+  });
+});
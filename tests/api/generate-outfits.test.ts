@@ -0,0 +1,138 @@
+import http from "node:http";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import handler from "../../api/generate-outfits";
+import { setAIProvider } from "../../shared/ai-provider";
+import { setAuthenticator } from "../../shared/auth";
+import {
+  createMemoryRateLimitStore,
+  setRateLimitStore,
+} from "../../shared/rate-limit";
+import {
+  BASIC_WARDROBE,
+  createFakeSupabase,
+  createStubProvider,
+  makeItem,
+  postJson,
+  serveHandler,
+  signInWith,
+} from "../helpers";
+
+let server: Awaited<ReturnType<typeof serveHandler>>;
+
+beforeEach(async () => {
+  signInWith(createFakeSupabase({ clothing_items: [...BASIC_WARDROBE] }));
+  setRateLimitStore(createMemoryRateLimitStore());
+  server = await serveHandler(handler);
+});
+
+afterEach(async () => {
+  await server.close();
+  setAIProvider(null);
+  setAuthenticator(null);
+  setRateLimitStore(null);
+});
+
+describe("wardrobe checks", () => {
+  it("refuses a wardrobe that can't make an outfit", async () => {
+    signInWith(
+      createFakeSupabase({
+        clothing_items: [
+          makeItem("shoes-1", "Shoes", "black"),
+          makeItem("shoes-2", "Shoes", "white"),
+          makeItem("bag-1", "Accessories", "brown"),
+        ],
+      }),
+    );
+
+    const response = await postJson(`${server.url}/api/generate-outfits`, {});
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.code).toBe("WARDROBE_TOO_SMALL");
+  });
+});
+
+describe("seeds", () => {
+  it("gives the same outfits for the same seed when the AI picks too few items", async () => {
+    // One matching item per outfit, so the rest is filled in at random
+    setAIProvider(
+      createStubProvider({
+        generateStructured: async () => ({
+          data: {
+            outfits: [{ items: ["ITEM_1"] }, { items: ["ITEM_2"] }],
+          } as any,
+          attempts: 1,
+          issues: [],
+        }),
+      }),
+    );
+
+    const generate = async (seed: number) => {
+      const response = await postJson(`${server.url}/api/generate-outfits`, {
+        maxOutfits: 2,
+        seed,
+      });
+      const { outfits } = await response.json();
+      return outfits.map((outfit: any) => ({
+        name: outfit.name,
+        items: outfit.items.map((item: any) => item.id),
+      }));
+    };
+
+    const first = await generate(42);
+    expect(first).toHaveLength(2);
+    expect(await generate(42)).toEqual(first);
+  });
+});
+
+describe("streaming", () => {
+  it("stops the provider stream when the client disconnects", async () => {
+    let signal: AbortSignal;
+    let aborted: () => void;
+    const abortedPromise = new Promise<void>((resolve) => {
+      aborted = resolve;
+    });
+
+    setAIProvider(
+      createStubProvider({
+        async *stream(prompt, options) {
+          signal = options.signal;
+          signal.addEventListener("abort", () => aborted(), { once: true });
+          // One complete outfit, then a model that never finishes
+          yield '{"outfits": [{"name": "First", "items": ["ITEM_1", "ITEM_3"]}';
+          await abortedPromise;
+        },
+      }),
+    );
+
+    // Read until the first outfit arrives, then hang up
+    await new Promise<void>((resolve, reject) => {
+      const req = http.request(
+        `${server.url}/api/generate-outfits`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "text/event-stream",
+            Authorization: "Bearer test-token",
+          },
+        },
+        (res) => {
+          res.on("data", (chunk) => {
+            if (String(chunk).includes("event: outfit")) {
+              req.destroy();
+              resolve();
+            }
+          });
+        },
+      );
+      req.on("error", reject);
+      req.end(JSON.stringify({ maxOutfits: 3 }));
+    });
+
+    await abortedPromise;
+    await server.served[0].done;
+    expect(signal.aborted).toBe(true);
+    expect(server.served[0].lateWrites).toBe(0);
+  });
+});
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import handler from "../../api/wardrobe-analysis";
+import { setAIProvider } from "../../shared/ai-provider";
+import { setAuthenticator } from "../../shared/auth";
+import { AIResponseValidationError } from "../../shared/response-schemas";
+import {
+  createMemoryRateLimitStore,
+  setRateLimitStore,
+} from "../../shared/rate-limit";
+import {
+  BASIC_WARDROBE,
+  createFakeSupabase,
+  createStubProvider,
+  postJson,
+  serveHandler,
+  signInWith,
+} from "../helpers";
+
+let server: Awaited<ReturnType<typeof serveHandler>>;
+let supabase: any;
+
+const analyze = async (body: object = {}) => {
+  const response = await postJson(`${server.url}/api/wardrobe-analysis`, body);
+  return { status: response.status, body: await response.json() };
+};
+
+beforeEach(async () => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  supabase = createFakeSupabase({ clothing_items: [...BASIC_WARDROBE] });
+  signInWith(supabase);
+  setRateLimitStore(createMemoryRateLimitStore());
+  setAIProvider(createStubProvider());
+  server = await serveHandler(handler);
+});
+
+afterEach(async () => {
+  await server.close();
+  setAIProvider(null);
+  setAuthenticator(null);
+  setRateLimitStore(null);
+  vi.restoreAllMocks();
+});
+
+describe("wardrobe loading", () => {
+  it("sends an error envelope when the wardrobe can't be read", async () => {
+    const from = supabase.from;
+    supabase.from = (table: string) =>
+      table === "clothing_items"
+        ? {
+            select: () => ({
+              eq: () => ({
+                order: async () => ({
+                  data: null,
+                  error: { message: "connection refused" },
+                }),
+              }),
+            }),
+          }
+        : from(table);
+
+    const { status, body } = await analyze();
+
+    expect(status).toBe(500);
+    expect(body.success).toBe(false);
+    expect(body.code).toBe("INTERNAL_ERROR");
+  });
+
+  it("refuses an empty wardrobe", async () => {
+    supabase.tables.clothing_items = [];
+
+    const { status, body } = await analyze();
+
+    expect(status).toBe(422);
+    expect(body.code).toBe("WARDROBE_TOO_SMALL");
+  });
+});
+
+describe("caching", () => {
+  it("doesn't cache the fallback for a response with no JSON in it", async () => {
+    setAIProvider(
+      createStubProvider({
+        generateStructured: async () => {
+          throw new AIResponseValidationError(
+            "Invalid response",
+            [],
+            null,
+            "Sorry, I can't help with that.",
+          );
+        },
+      }),
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { status, body } = await analyze();
+
+    expect(status).toBe(200);
+    expect(body.analysis.overall_assessment).toBeDefined();
+    expect(body.cached).toBeUndefined();
+    expect(supabase.tables.gemini_cache ?? []).toHaveLength(0);
+  });
+});
+
+describe("history", () => {
+  it("saves a full AI analysis", async () => {
+    setAIProvider(
+      createStubProvider({
+        generateStructured: async () => ({
+          data: { overall_assessment: "A focused, versatile wardrobe" } as any,
+          attempts: 1,
+          issues: [],
+        }),
+      }),
+    );
+
+    await analyze({ analysis_type: "full" });
+
+    expect(supabase.tables.wardrobe_analyses).toHaveLength(1);
+    expect(
+      supabase.tables.wardrobe_analyses[0].analysis.overall_assessment,
+    ).toBe("A focused, versatile wardrobe");
+  });
+
+  it("leaves out an analysis rescued from raw text", async () => {
+    setAIProvider(
+      createStubProvider({
+        generateStructured: async () => {
+          throw new AIResponseValidationError(
+            "Invalid response",
+            [],
+            null,
+            '{"overall_assessment": "Mostly basics"}',
+          );
+        },
+      }),
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { status, body } = await analyze({ analysis_type: "full" });
+
+    expect(status).toBe(200);
+    expect(body.analysis.overall_assessment).toBe("Mostly basics");
+    expect(body.cached).toBeUndefined();
+    expect(supabase.tables.gemini_cache ?? []).toHaveLength(0);
+    expect(supabase.tables.wardrobe_analyses ?? []).toHaveLength(0);
+  });
+
+  it("leaves a fallback analysis out", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { status, body } = await analyze({ analysis_type: "full" });
+
+    expect(status).toBe(200);
+    expect(body.note).toMatch(/smart analysis/);
+    expect(supabase.tables.wardrobe_analyses ?? []).toHaveLength(0);
+  });
+});
+
+describe("budget", () => {
+  const budget = { min: 20, max: 60, currency: "USD" };
+
+  it("drops unpriced priorities and fills missing ones within the budget", async () => {
+    setAIProvider(
+      createStubProvider({
+        generateStructured: async () => ({
+          data: {
+            summary: "A few gaps to fill",
+            investment_priorities: [
+              { item: "Mystery coat", reason: "No price given", priority: 1 },
+            ],
+          } as any,
+          attempts: 1,
+          issues: [],
+        }),
+      }),
+    );
+
+    const priced = await analyze({ analysis_type: "gaps", budget });
+    expect(priced.body.analysis.investment_priorities).toEqual([]);
+
+    setAIProvider(
+      createStubProvider({
+        generateStructured: async () => ({
+          data: { summary: "A few gaps to fill" } as any,
+          attempts: 1,
+          issues: [],
+        }),
+      }),
+    );
+
+    const filled = await analyze({
+      analysis_type: "gaps",
+      budget,
+      refresh: true,
+    });
+    const priorities = filled.body.analysis.investment_priorities;
+    expect(priorities.length).toBeGreaterThan(0);
+    priorities.forEach(({ estimated_price }) => {
+      expect(estimated_price).toBeGreaterThanOrEqual(budget.min);
+      expect(estimated_price).toBeLessThanOrEqual(budget.max);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import analyzeItem from "../../api/analyze-item";
+import generateOutfits from "../../api/generate-outfits";
+import wardrobeAnalysis from "../../api/wardrobe-analysis";
+import { setAuthenticator } from "../../shared/auth";
+import {
+  createMemoryRateLimitStore,
+  setRateLimitStore,
+} from "../../shared/rate-limit";
+import {
+  BASIC_WARDROBE,
+  createFakeSupabase,
+  postJson,
+  serveHandler,
+  signInWith,
+} from "../helpers";
+
+// The handlers with no Gemini key: the AI endpoints refuse, outfit
+// generation falls back to the solver, and AI_PROVIDER=local answers offline
+
+const call = async (handler: any, body: object = {}) => {
+  const server = await serveHandler(handler);
+  try {
+    const response = await postJson(`${server.url}/api`, body);
+    return { status: response.status, body: await response.json() };
+  } finally {
+    await server.close();
+  }
+};
+
+beforeEach(() => {
+  vi.stubEnv("GEMINI_API_KEY", "");
+  vi.stubEnv("AI_PROVIDER", "");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  signInWith(createFakeSupabase({ clothing_items: [...BASIC_WARDROBE] }));
+  setRateLimitStore(createMemoryRateLimitStore());
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  setAuthenticator(null);
+  setRateLimitStore(null);
+});
+
+describe("without a Gemini key", () => {
+  it("refuses wardrobe and item analysis", async () => {
+    const analysis = await call(wardrobeAnalysis);
+    const item = await call(analyzeItem, { category: "Tops", color: "red" });
+
+    expect(analysis.body.code).toBe("AI_UNAVAILABLE");
+    expect(analysis.body.error).toMatch(/GEMINI_API_KEY/);
+    expect(item.body.code).toBe("AI_UNAVAILABLE");
+  });
+
+  it("still generates outfits from the wardrobe", async () => {
+    const { status, body } = await call(generateOutfits, { maxOutfits: 2 });
+
+    expect(status).toBe(200);
+    expect(body.outfits.length).toBeGreaterThan(0);
+  });
+});
+
+describe("with AI_PROVIDER=openai and no server", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "openai");
+    vi.stubEnv("OPENAI_BASE_URL", "");
+  });
+
+  it("asks for the server's address, not a Gemini key", async () => {
+    const analysis = await call(wardrobeAnalysis);
+    const outfits = await call(generateOutfits, { maxOutfits: 2 });
+
+    expect(analysis.body.error).toMatch(/OPENAI_BASE_URL/);
+    expect(outfits.body.note).toMatch(/OPENAI_BASE_URL/);
+    expect(outfits.body.note).not.toMatch(/GEMINI_API_KEY/);
+  });
+});
+
+describe("with AI_PROVIDER=local", () => {
+  beforeEach(() => vi.stubEnv("AI_PROVIDER", "local"));
+
+  it("analyzes the wardrobe offline", async () => {
+    const { status, body } = await call(wardrobeAnalysis);
+
+    expect(status).toBe(200);
+    expect(body.metadata.ai_attempts).toBe(1);
+    expect(body.analysis.seasonal_coverage).toBeDefined();
+  });
+
+  it("analyzes an item offline", async () => {
+    const { status, body } = await call(analyzeItem, {
+      category: "Tops",
+      color: "red",
+    });
+
+    expect(status).toBe(200);
+    expect(body.metadata.aiProvider).toBe("Local Heuristics");
+    expect(body.analysis.category).toBeTruthy();
+  });
+
+  it("doesn't claim to read photos", async () => {
+    const { status, body } = await call(analyzeItem, {
+      image_base64: "data:image/png;base64,iVBORw==",
+    });
+
+    expect(status).toBe(200);
+    expect(body.metadata.image_analyzed).toBeUndefined();
+  });
+});
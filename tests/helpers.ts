@@ -0,0 +1,201 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { setAuthenticator } from "../shared/auth";
+import type { AIProvider } from "../shared/ai-provider";
+
+// Test doubles for the API functions: a real HTTP server in front of a
+// handler (so sockets open and close the way they do on Vercel), an
+// in-memory stand-in for the Supabase tables the handlers touch, and
+// wardrobe fixtures.
+
+type Handler = (req: any, res: any) => Promise<unknown> | unknown;
+
+export interface ServedRequest {
+  done: Promise<void>; // settles when the handler returns
+  lateWrites: number; // writes attempted after the client went away
+}
+
+// Serve a handler on a random local port, with the body parsing and the
+// res.status() / res.json() helpers Vercel adds
+export const serveHandler = async (handler: Handler) => {
+  const served: ServedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const request: ServedRequest = { done: null, lateWrites: 0 };
+    served.push(request);
+
+    const write = res.write.bind(res);
+    (res as any).write = (...args: any[]) => {
+      if (res.destroyed) request.lateWrites++;
+      return write(...args);
+    };
+    (res as any).status = (code: number) => {
+      res.statusCode = code;
+      return res;
+    };
+    (res as any).json = (body: unknown) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(body));
+      return res;
+    };
+
+    request.done = (async () => {
+      let raw = "";
+      for await (const chunk of req) raw += chunk;
+      (req as any).body = raw ? JSON.parse(raw) : {};
+      await handler(req, res);
+    })();
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve()),
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    served,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+};
+
+// POST a JSON body the way the API client does
+export const postJson = (url: string, body: unknown, headers = {}) =>
+  fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: "Bearer test-token",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+// In-memory tables answering the query chains the API functions build:
+// select/eq/gt/order then await or maybeSingle, insert, upsert and update
+export const createFakeSupabase = (tables: Record<string, any[]> = {}) => {
+  const rows = (table: string) => (tables[table] ??= []);
+
+  const from = (table: string) => {
+    const filters: ((row: any) => boolean)[] = [];
+    let changes: object | null = null;
+
+    const run = () => {
+      const matched = rows(table).filter((row) =>
+        filters.every((filter) => filter(row)),
+      );
+      if (changes) matched.forEach((row) => Object.assign(row, changes));
+      return matched;
+    };
+
+    const query: any = {
+      select: () => query,
+      order: () => query,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return query;
+      },
+      gt: (column: string, value: any) => {
+        filters.push((row) => row[column] > value);
+        return query;
+      },
+      update: (values: object) => {
+        changes = values;
+        return query;
+      },
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      insert: async (row: any) => {
+        rows(table).push({
+          id: `${table}-${rows(table).length + 1}`,
+          created_at: new Date().toISOString(),
+          ...row,
+        });
+        return { error: null };
+      },
+      upsert: async (row: any, { onConflict }: { onConflict: string }) => {
+        const keys = onConflict.split(",");
+        tables[table] = rows(table).filter((existing) =>
+          keys.some((key) => existing[key] !== row[key]),
+        );
+        rows(table).push({ id: `${table}-${rows(table).length + 1}`, ...row });
+        return { error: null };
+      },
+      then: (resolve: any, reject: any) =>
+        Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return query;
+  };
+
+  return { from, tables } as any;
+};
+
+export const TEST_USER_ID = "user-1";
+
+// Sign every request with a bearer token in as TEST_USER_ID
+export const signInWith = (supabase: any) =>
+  setAuthenticator(async (req) =>
+    req.headers.authorization
+      ? { id: TEST_USER_ID, email: "test@example.com", supabase }
+      : null,
+  );
+
+// An AI provider whose calls fail unless the test supplies them
+export const createStubProvider = (
+  overrides: Partial<AIProvider> = {},
+): AIProvider => ({
+  name: "Stub AI",
+  isConfigured: () => true,
+  setupInstructions: "Stub the provider in the test.",
+  readsImages: true,
+  generate: async () => {
+    throw new Error("generate is not stubbed");
+  },
+  generateStructured: async () => {
+    throw new Error("generateStructured is not stubbed");
+  },
+  analyzeImage: async () => {
+    throw new Error("analyzeImage is not stubbed");
+  },
+  async *stream() {
+    throw new Error("stream is not stubbed");
+  },
+  ...overrides,
+});
+
+// A wardrobe row as loadUserWardrobe returns it
+export const makeItem = (
+  id: string,
+  category: string,
+  color: string,
+  extra: Record<string, unknown> = {},
+) => ({
+  id,
+  user_id: TEST_USER_ID,
+  category: { id: 1, name: category },
+  color,
+  clothing_item_style_tags: [],
+  ...extra,
+});
+
+export const BASIC_WARDROBE = [
+  makeItem("top-1", "Tops", "white"),
+  makeItem("top-2", "Tops", "navy"),
+  makeItem("bottom-1", "Bottoms", "blue"),
+  makeItem("bottom-2", "Bottoms", "black"),
+  makeItem("shoes-1", "Shoes", "white"),
+  makeItem("jacket-1", "Outerwear", "beige"),
+];
+
+// Read a Server-Sent Events body into { event, data } pairs
+export const parseEvents = (text: string) =>
+  text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      return { event, data: data ? JSON.parse(data) : undefined };
+    });
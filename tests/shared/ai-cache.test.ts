@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { fingerprint, wardrobeFingerprint } from "../../shared/ai-cache";
+import { makeItem } from "../helpers";
+
+describe("fingerprint", () => {
+  it("ignores key order and undefined values", () => {
+    expect(fingerprint({ a: 1, b: [1, 2], c: undefined })).toBe(
+      fingerprint({ b: [1, 2], a: 1 }),
+    );
+  });
+
+  it("tells different values apart", () => {
+    expect(fingerprint({ b: [1, 2] })).not.toBe(fingerprint({ b: [2, 1] }));
+  });
+});
+
+describe("wardrobeFingerprint", () => {
+  const wardrobe = [
+    makeItem("top-1", "Tops", "white", { created_at: "2024-01-01" }),
+    makeItem("bottom-1", "Bottoms", "blue"),
+  ];
+
+  it("is the same for the same items in any order", () => {
+    expect(wardrobeFingerprint([...wardrobe].reverse())).toBe(
+      wardrobeFingerprint(wardrobe),
+    );
+  });
+
+  it("ignores fields the AI doesn't see", () => {
+    const touched = [{ ...wardrobe[0], created_at: "2025-06-01" }, wardrobe[1]];
+    expect(wardrobeFingerprint(touched)).toBe(wardrobeFingerprint(wardrobe));
+  });
+
+  it("changes when an item changes", () => {
+    const recolored = [{ ...wardrobe[0], color: "black" }, wardrobe[1]];
+    expect(wardrobeFingerprint(recolored)).not.toBe(
+      wardrobeFingerprint(wardrobe),
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { diffAnalyses, toAnalysisRow } from "../../shared/analysis-history";
+import type { AnalysisSnapshot } from "../../shared/analysis-history";
+
+const snapshot = (
+  overrides: Partial<AnalysisSnapshot> = {},
+): AnalysisSnapshot => ({
+  id: "analysis-1",
+  created_at: "2025-03-01T10:00:00Z",
+  harmony_score: 70,
+  style_consistency_score: 60,
+  versatility_score: null,
+  seasonal_coverage: null,
+  investment_priorities: [],
+  gaps: [],
+  item_count: 10,
+  ...overrides,
+});
+
+const priority = (item: string) => ({
+  item,
+  reason: "Fills a gap in the wardrobe",
+  impact: "High",
+  priority: 1,
+});
+
+describe("diffAnalyses", () => {
+  it("reports score changes, with no delta when a side is missing", () => {
+    const { scores } = diffAnalyses(
+      snapshot(),
+      snapshot({ harmony_score: 78, versatility_score: 80 }),
+    );
+
+    expect(scores.map(({ key, delta }) => [key, delta])).toEqual([
+      ["harmony_score", 8],
+      ["style_consistency_score", 0],
+      ["versatility_score", 0],
+    ]);
+  });
+
+  it("compares seasonal coverage season by season", () => {
+    const coverage = (winter: number) => ({
+      spring: 70,
+      summer: 60,
+      fall: 70,
+      winter,
+      recommendations: "Add a warm coat for the winter months",
+    });
+
+    const { seasons } = diffAnalyses(
+      snapshot({ seasonal_coverage: coverage(40) }),
+      snapshot({ seasonal_coverage: coverage(65) }),
+    );
+
+    expect(seasons.map(({ key, delta }) => [key, delta])).toEqual([
+      ["spring", 0],
+      ["summer", 0],
+      ["fall", 0],
+      ["winter", 25],
+    ]);
+    expect(
+      diffAnalyses(snapshot(), snapshot({ seasonal_coverage: coverage(65) }))
+        .seasons[3],
+    ).toMatchObject({ from: null, to: 65, delta: 0 });
+  });
+
+  it("matches gaps worded differently", () => {
+    const diff = diffAnalyses(
+      snapshot({ gaps: ["Missing white sneakers", "No outerwear"] }),
+      snapshot({ gaps: ["missing white sneakers!", "Too few formal shoes"] }),
+    );
+
+    expect(diff.resolvedGaps).toEqual(["No outerwear"]);
+    expect(diff.newGaps).toEqual(["Too few formal shoes"]);
+  });
+
+  it("tracks priorities and the item count", () => {
+    const diff = diffAnalyses(
+      snapshot({ investment_priorities: [priority("Navy blazer")] }),
+      snapshot({
+        investment_priorities: [priority("Leather boots")],
+        item_count: 13,
+      }),
+    );
+
+    expect(diff.resolvedPriorities).toEqual(["Navy blazer"]);
+    expect(diff.newPriorities).toEqual(["Leather boots"]);
+    expect(diff.itemCountChange).toBe(3);
+  });
+});
+
+describe("toAnalysisRow", () => {
+  it("copies the scores into columns and keeps the full analysis", () => {
+    const analysis = {
+      color_analysis: { harmony_score: 72 },
+      versatility: { score: 64 },
+      gaps: ["No outerwear"],
+    } as any;
+
+    expect(toAnalysisRow(analysis, 12)).toEqual({
+      harmony_score: 72,
+      style_consistency_score: null,
+      versatility_score: 64,
+      seasonal_coverage: null,
+      investment_priorities: [],
+      gaps: ["No outerwear"],
+      item_count: 12,
+      analysis,
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  deltaE,
+  extractPalette,
+  hexToLab,
+  normalizeColor,
+  scoreColorHarmony,
+  scoreWardrobePalette,
+} from "../../shared/color";
+
+describe("normalizeColor", () => {
+  it("maps names, free text and hex onto the named palette", () => {
+    expect(normalizeColor("Navy Blue")?.name).toBe("navy");
+    expect(normalizeColor("off-white")?.neutral).toBe(true);
+    expect(normalizeColor("#000000")?.name).toBe("black");
+  });
+
+  it("returns null for text with no color in it", () => {
+    expect(normalizeColor("sparkly")).toBeNull();
+  });
+});
+
+describe("deltaE", () => {
+  it("is zero for the same color and grows with the difference", () => {
+    const red = hexToLab("#ff0000");
+    expect(deltaE(red, red)).toBe(0);
+    expect(deltaE(red, hexToLab("#ee1111"))).toBeLessThan(
+      deltaE(red, hexToLab("#0000ff")),
+    );
+  });
+});
+
+describe("extractPalette", () => {
+  it("finds the dominant colors with their shares", () => {
+    const pixels = [
+      ...Array(30).fill([250, 250, 250]).flat(),
+      ...Array(10).fill([10, 10, 10]).flat(),
+    ];
+
+    const palette = extractPalette(pixels);
+
+    expect(palette.map((color) => color.name)).toEqual(["white", "black"]);
+    expect(palette[0].share).toBeCloseTo(0.75, 2);
+  });
+});
+
+describe("scoreColorHarmony", () => {
+  it("rates neutrals as safe and explains the score", () => {
+    const result = scoreColorHarmony(["black", "white", "gray"]);
+
+    expect(result.type).toBe("neutral");
+    expect(result.explanation).not.toBe("");
+  });
+
+  it("scores a clash below a neutral-anchored accent", () => {
+    const anchored = scoreColorHarmony(["navy", "white", "red"]);
+    const clash = scoreColorHarmony(["red", "green", "purple", "orange"]);
+
+    expect(anchored.score).toBeGreaterThan(clash.score);
+  });
+
+  it("reports colors it couldn't place", () => {
+    expect(scoreColorHarmony(["black", "sparkly"]).unrecognized).toEqual([
+      "sparkly",
+    ]);
+  });
+});
+
+describe("scoreWardrobePalette", () => {
+  it("rewards a neutral base over a wardrobe of accents", () => {
+    const balanced = scoreWardrobePalette({ black: 3, white: 3, red: 2 });
+    const accents = scoreWardrobePalette({ red: 3, green: 3, purple: 2 });
+
+    expect(balanced.score).toBeGreaterThan(accents.score);
+    expect(accents.neutralShare).toBe(0);
+  });
+});
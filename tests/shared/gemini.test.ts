@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  fetchImageAsInlineData,
+  generateWithGemini,
+  parseBase64Image,
+  setGeminiClient,
+} from "../../shared/gemini";
+
+// A Gemini client whose model answers with `responses` in turn
+const stubGemini = (...responses: string[]) => {
+  const generateContent = vi.fn();
+  responses.forEach((text) =>
+    generateContent.mockResolvedValueOnce({ response: { text: () => text } }),
+  );
+  setGeminiClient({
+    getGenerativeModel: () => ({ generateContent }) as any,
+  });
+  return generateContent;
+};
+
+afterEach(() => {
+  setGeminiClient(null);
+  vi.restoreAllMocks();
+});
+
+describe("parseBase64Image", () => {
+  it("reads the type from a data URL", () => {
+    expect(parseBase64Image("data:image/png;base64,iVBO\nRw==")).toEqual({
+      data: "iVBORw==",
+      mimeType: "image/png",
+    });
+  });
+
+  it("refuses types Gemini can't read", () => {
+    expect(() => parseBase64Image("R0lGOD", "image/gif")).toThrow(
+      "Unsupported image type: image/gif",
+    );
+  });
+});
+
+describe("fetchImageAsInlineData", () => {
+  it("downloads the image as base64", async () => {
+    const fetchImpl = vi.fn(
+      async () =>
+        new Response(Buffer.from("pixels"), {
+          headers: { "content-type": "image/jpeg; charset=binary" },
+        }),
+    );
+
+    expect(
+      await fetchImageAsInlineData("https://example.com/a.jpg", fetchImpl),
+    ).toEqual({
+      data: Buffer.from("pixels").toString("base64"),
+      mimeType: "image/jpeg",
+    });
+  });
+
+  it("fails on a missing image", async () => {
+    const fetchImpl = vi.fn(async () => new Response("", { status: 404 }));
+
+    await expect(
+      fetchImageAsInlineData("https://example.com/a.jpg", fetchImpl),
+    ).rejects.toThrow("Failed to fetch image: 404");
+  });
+});
+
+describe("generateWithGemini", () => {
+  it("sends images before the prompt, and repairs without them", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const generateContent = stubGemini(
+      '{"summary": "short"}',
+      JSON.stringify({
+        summary: "A solid wardrobe with a couple of gaps",
+        gaps: [],
+        investment_priorities: [],
+      }),
+    );
+
+    const { attempts } = await generateWithGemini("Find the gaps", {
+      responseType: "wardrobe-gaps",
+      images: [{ data: "iVBORw==", mimeType: "image/png" }],
+    });
+
+    expect(attempts).toBe(2);
+    expect(generateContent.mock.calls[0][0]).toEqual([
+      { inlineData: { data: "iVBORw==", mimeType: "image/png" } },
+      { text: "Find the gaps" },
+    ]);
+    expect(typeof generateContent.mock.calls[1][0]).toBe("string");
+  });
+
+  it("sends a plain prompt without images", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const generateContent = stubGemini("Looks good");
+
+    await generateWithGemini("Rate this outfit");
+
+    expect(generateContent).toHaveBeenCalledWith("Rate this outfit");
+  });
+});
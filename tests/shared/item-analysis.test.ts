@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import {
+  analysisToSuggestions,
+  mapCategoryToId,
+  mapStyleTagsToIds,
+} from "../../shared/item-analysis";
+
+describe("mapCategoryToId", () => {
+  it("matches names, then the words the model uses", () => {
+    expect(mapCategoryToId("Tops")).toBe(1);
+    expect(mapCategoryToId("Denim jacket")).toBe(mapCategoryToId("Outerwear"));
+    expect(mapCategoryToId("Spaceship")).toBeUndefined();
+  });
+});
+
+describe("mapStyleTagsToIds", () => {
+  it("maps style words onto tags through their synonyms", () => {
+    expect(mapStyleTagsToIds(["Relaxed fit", "athleisure"])).toEqual([1, 4]);
+  });
+});
+
+describe("analysisToSuggestions", () => {
+  it("suggests style tags from style_tags alone", () => {
+    const suggestions = analysisToSuggestions({
+      category: "Tops",
+      style_tags: ["minimalist"],
+      occasion_suitability: ["casual", "everyday", "work"],
+      color: "unknown",
+      confidence: 0.6,
+    });
+
+    expect(suggestions.style_tag_ids).toEqual([8]);
+    expect(suggestions.color).toBeUndefined();
+    expect(suggestions.confidence).toBe(0.6);
+  });
+});
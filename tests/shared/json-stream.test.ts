@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { createJsonObjectScanner } from "../../shared/json-stream";
+
+// Feed text to a fresh scanner in chunks of `size` characters
+const scan = (text: string, size: number) => {
+  const scanner = createJsonObjectScanner();
+  const completed: any[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    completed.push(...scanner.push(text.slice(i, i + size)));
+  }
+  return completed;
+};
+
+describe("createJsonObjectScanner", () => {
+  const response =
+    'Here you go:\n```json\n{"outfits": [{"name": "First {look}", "items": ["ITEM_1"]}, {"name": "Say \\"hi\\"", "items": []}]}\n```';
+
+  it("hands back each array element as soon as it closes", () => {
+    const scanner = createJsonObjectScanner();
+
+    expect(
+      scanner.push('{"outfits": [{"name": "First", "items": ["ITEM_1"]}'),
+    ).toEqual([{ name: "First", items: ["ITEM_1"] }]);
+    expect(scanner.push(', {"name": "Sec')).toEqual([]);
+    expect(scanner.push('ond", "items": []}]}')).toEqual([
+      { name: "Second", items: [] },
+      {
+        outfits: [
+          { name: "First", items: ["ITEM_1"] },
+          { name: "Second", items: [] },
+        ],
+      },
+    ]);
+  });
+
+  it("gives the same objects however the text is split", () => {
+    const whole = scan(response, response.length);
+
+    expect(whole.map((object) => object.name ?? "outer")).toEqual([
+      "First {look}",
+      'Say "hi"',
+      "outer",
+    ]);
+    [1, 3, 7].forEach((size) => expect(scan(response, size)).toEqual(whole));
+  });
+
+  it("skips braces in prose that aren't JSON", () => {
+    expect(scan('Use {curly} braces, then {"ok": true}', 4)).toEqual([
+      { ok: true },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { localProvider } from "../../shared/local-provider";
+import { AI_RESPONSE_SCHEMAS } from "../../shared/response-schemas";
+import type { AIResponseType } from "../../shared/response-schemas";
+import { BASIC_WARDROBE } from "../helpers";
+
+const context = {
+  wardrobe: BASIC_WARDROBE,
+  occasion: "work",
+  weather: "cold",
+  style: "classic",
+  count: 2,
+};
+
+describe("localProvider", () => {
+  it.each(Object.keys(AI_RESPONSE_SCHEMAS) as AIResponseType[])(
+    "answers %s with JSON that validates the first time",
+    async (responseType) => {
+      // analyze-item sends the item with its category name
+      const { attempts, data } = await localProvider.generateStructured(
+        "ignored",
+        responseType,
+        responseType === "item-analysis"
+          ? { context: { wardrobe: [{ category: "Tops", color: "white" }] } }
+          : { context },
+      );
+
+      expect(attempts).toBe(1);
+      expect(data).toBeTruthy();
+    },
+  );
+
+  it("references outfit items by their ITEM_ID", async () => {
+    const { data } = await localProvider.generateStructured(
+      "ignored",
+      "outfit-list",
+      { context },
+    );
+
+    expect(data.outfits).toHaveLength(2);
+    data.outfits
+      .flatMap((outfit) => outfit.items)
+      .forEach((id) => expect(id).toMatch(/^ITEM_[1-6]$/));
+  });
+
+  it("gives the same answer for the same request", async () => {
+    const answer = () =>
+      localProvider.generateStructured("ignored", "wardrobe-analysis", {
+        context,
+      });
+
+    expect((await answer()).data).toEqual((await answer()).data);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createOpenAICompatibleProvider } from "../../shared/openai-provider";
+
+// A fetch answering every request with `body`, recording the request bodies
+const stubFetch = (body: BodyInit) => {
+  const requests: any[] = [];
+  const fetchImpl = vi.fn(async (url: string, init: RequestInit) => {
+    requests.push(JSON.parse(init.body as string));
+    return new Response(body);
+  });
+  return { fetchImpl: fetchImpl as unknown as typeof fetch, requests };
+};
+
+afterEach(() => vi.restoreAllMocks());
+
+describe("createOpenAICompatibleProvider", () => {
+  it("sends a temperature of 0 as is", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { fetchImpl, requests } = stubFetch(
+      JSON.stringify({ choices: [{ message: { content: "Hi" } }] }),
+    );
+    const provider = createOpenAICompatibleProvider({
+      baseUrl: "http://localhost:11434/v1/",
+      fetchImpl,
+    });
+
+    expect(await provider.generate("Hello", { temperature: 0 })).toBe("Hi");
+    expect(requests[0].temperature).toBe(0);
+  });
+
+  it("streams the deltas, skipping lines that aren't JSON", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const delta = (content: string) =>
+      `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n`;
+    const { fetchImpl } = stubFetch(
+      delta("Navy ") + "data: {not json\n" + delta("blazer") + "data: [DONE]\n",
+    );
+    const provider = createOpenAICompatibleProvider({
+      baseUrl: "http://localhost:11434/v1",
+      fetchImpl,
+    });
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream("Describe it")) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(["Navy ", "blazer"]);
+  });
+
+  it("releases the response body when the consumer stops early", async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream({
+      pull(controller) {
+        controller.enqueue(
+          new TextEncoder().encode(
+            `data: ${JSON.stringify({ choices: [{ delta: { content: "more" } }] })}\n`,
+          ),
+        );
+      },
+      cancel,
+    });
+    const { fetchImpl } = stubFetch(body);
+    const provider = createOpenAICompatibleProvider({
+      baseUrl: "http://localhost:11434/v1",
+      fetchImpl,
+    });
+
+    for await (const chunk of provider.stream("Describe it")) {
+      expect(chunk).toBe("more");
+      break;
+    }
+
+    expect(cancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  canBuildOutfit,
+  categorizeWardrobe,
+  countSharedItems,
+  createRng,
+  generateSmartOutfits,
+  solveOutfits,
+} from "../../shared/outfit-solver";
+import { BASIC_WARDROBE, makeItem } from "../helpers";
+
+const WARDROBE = [
+  ...BASIC_WARDROBE,
+  makeItem("top-3", "Tops", "gray"),
+  makeItem("bottom-3", "Bottoms", "beige"),
+  makeItem("dress-1", "Dresses", "black"),
+  makeItem("shoes-2", "Shoes", "black"),
+  makeItem("bag-1", "Accessories", "brown"),
+];
+
+const ids = (outfits: { items: { id: string }[] }[]) =>
+  outfits.map((outfit) => outfit.items.map((item) => item.id));
+
+describe("createRng", () => {
+  it("repeats its sequence for the same seed", () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const c = createRng(43);
+    const first = [a(), a(), a()];
+
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    first.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it("accepts string seeds", () => {
+    expect(createRng("monday")()).toBe(createRng("monday")());
+  });
+});
+
+describe("categorizeWardrobe", () => {
+  it("sorts items into slots by category name", () => {
+    const wardrobe = categorizeWardrobe([
+      ...WARDROBE,
+      makeItem("gym-1", "Activewear", "black"),
+    ]);
+
+    expect(wardrobe.tops).toHaveLength(3);
+    expect(wardrobe.dresses.map(({ id }) => id)).toEqual(["dress-1"]);
+    expect(wardrobe.activewear.map(({ id }) => id)).toEqual(["gym-1"]);
+  });
+});
+
+describe("solveOutfits", () => {
+  it("gives the same outfits for the same seed", () => {
+    const options = { topK: 3, seed: 7 };
+
+    expect(ids(solveOutfits(WARDROBE, options))).toEqual(
+      ids(solveOutfits([...WARDROBE].reverse(), options)),
+    );
+  });
+
+  it("builds every outfit on a dress or a top with bottoms", () => {
+    solveOutfits(WARDROBE, { topK: 3 }).forEach(({ items }) => {
+      const categories = items.map((item: any) => item.category.name);
+      expect(
+        categories.includes("Dresses") ||
+          (categories.includes("Tops") && categories.includes("Bottoms")),
+      ).toBe(true);
+      expect(categories).toContain("Shoes");
+      expect(
+        categories.filter((category) => category === "Accessories").length,
+      ).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it("layers outerwear when it's cold", () => {
+    solveOutfits(WARDROBE, { weather: "cold", topK: 3 }).forEach(
+      ({ items }) => {
+        expect(items.map(({ id }) => id)).toContain("jacket-1");
+      },
+    );
+  });
+
+  it("keeps outfits apart", () => {
+    const outfits = solveOutfits(WARDROBE, { topK: 3, maxSharedItems: 1 });
+
+    outfits.forEach((outfit, index) =>
+      outfits.slice(index + 1).forEach((other) => {
+        expect(countSharedItems(outfit, other)).toBeLessThanOrEqual(1);
+      }),
+    );
+  });
+
+  it("uses activewear as tops when there are no other tops", () => {
+    const outfits = solveOutfits([
+      makeItem("gym-1", "Activewear", "black"),
+      makeItem("bottom-1", "Bottoms", "gray"),
+    ]);
+
+    expect(ids(outfits)).toEqual([["gym-1", "bottom-1"]]);
+  });
+});
+
+describe("canBuildOutfit", () => {
+  it("needs a dress, or a top with bottoms", () => {
+    expect(canBuildOutfit(BASIC_WARDROBE)).toBe(true);
+    expect(canBuildOutfit([makeItem("dress-1", "Dresses", "red")])).toBe(true);
+    expect(
+      canBuildOutfit([
+        makeItem("top-1", "Tops", "white"),
+        makeItem("shoes-1", "Shoes", "black"),
+      ]),
+    ).toBe(false);
+  });
+});
+
+describe("generateSmartOutfits", () => {
+  it("returns as many outfits as asked for, with stable ids", () => {
+    const outfits = generateSmartOutfits(WARDROBE, "work", "cold", "classic", {
+      count: 2,
+      seed: 3,
+    });
+
+    expect(outfits).toHaveLength(2);
+    expect(
+      generateSmartOutfits(WARDROBE, "work", "cold", "classic", {
+        count: 2,
+        seed: 3,
+      }).map((outfit) => outfit.id),
+    ).toEqual(outfits.map((outfit) => outfit.id));
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  checkRateLimit,
+  createMemoryRateLimitStore,
+  setRateLimitStore,
+} from "../../shared/rate-limit";
+
+const POLICY = { name: "test", limit: 2, windowMs: 60_000 };
+
+const request = (ip: string) =>
+  ({ headers: { "x-forwarded-for": ip }, socket: {} }) as any;
+
+const response = () => {
+  const headers: Record<string, string> = {};
+  return {
+    headers,
+    setHeader: (name: string, value: string) => {
+      headers[name] = value;
+    },
+  } as any;
+};
+
+describe("createMemoryRateLimitStore", () => {
+  it("refuses once the bucket is empty and refills over the window", async () => {
+    const store = createMemoryRateLimitStore();
+
+    expect((await store.take("key", POLICY, 0)).remaining).toBe(1);
+    expect((await store.take("key", POLICY, 0)).allowed).toBe(true);
+
+    const refused = await store.take("key", POLICY, 0);
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfterMs).toBe(30_000);
+
+    expect((await store.take("key", POLICY, 30_000)).allowed).toBe(true);
+  });
+
+  it("keeps keys apart", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.take("a", POLICY, 0);
+    await store.take("a", POLICY, 0);
+
+    expect((await store.take("b", POLICY, 0)).allowed).toBe(true);
+  });
+});
+
+describe("checkRateLimit", () => {
+  beforeEach(() => setRateLimitStore(createMemoryRateLimitStore()));
+  afterEach(() => setRateLimitStore(null));
+
+  it("limits a signed-in user across addresses", async () => {
+    const check = (ip: string) =>
+      checkRateLimit(request(ip), response(), POLICY, { userId: "user-1" });
+
+    expect(await check("10.0.0.1")).toBe(true);
+    expect(await check("10.0.0.2")).toBe(true);
+    expect(await check("10.0.0.3")).toBe(false);
+  });
+
+  it("gives accounts behind one address a quota each", async () => {
+    const check = (userId: string) =>
+      checkRateLimit(request("10.0.0.1"), response(), POLICY, { userId });
+
+    expect(await check("user-1")).toBe(true);
+    expect(await check("user-1")).toBe(true);
+    expect(await check("user-1")).toBe(false);
+    expect(await check("user-2")).toBe(true);
+  });
+
+  it("still limits one address across many accounts", async () => {
+    const check = (userId: string) =>
+      checkRateLimit(request("10.0.0.1"), response(), POLICY, { userId });
+
+    // The address bucket of signed-in callers holds five user buckets
+    for (let user = 1; user <= 10; user++) {
+      expect(await check(`user-${user}`)).toBe(true);
+    }
+    expect(await check("user-11")).toBe(false);
+  });
+
+  it("limits anonymous callers per address", async () => {
+    const check = () => checkRateLimit(request("10.0.0.1"), response(), POLICY);
+
+    expect(await check()).toBe(true);
+    expect(await check()).toBe(true);
+    expect(await check()).toBe(false);
+  });
+
+  it("doesn't charge the address for requests the user bucket refused", async () => {
+    const check = (userId: string) =>
+      checkRateLimit(request("10.0.0.1"), response(), POLICY, { userId });
+
+    for (let attempt = 0; attempt < 7; attempt++) await check("user-1");
+
+    // Only user-1's two allowed requests came out of the address bucket
+    for (let user = 2; user <= 5; user++) {
+      expect(await check(`user-${user}`)).toBe(true);
+      expect(await check(`user-${user}`)).toBe(true);
+    }
+  });
+
+  it("reports the tighter bucket in the headers", async () => {
+    const first = response();
+    await checkRateLimit(request("10.0.0.1"), first, POLICY, {
+      userId: "user-1",
+    });
+    expect(first.headers["X-RateLimit-Remaining"]).toBe("1");
+
+    const res = response();
+    expect(
+      await checkRateLimit(request("10.0.0.1"), res, POLICY, {
+        userId: "user-1",
+      }),
+    ).toBe(true);
+    expect(res.headers["X-RateLimit-Remaining"]).toBe("0");
+
+    const refused = response();
+    expect(
+      await checkRateLimit(request("10.0.0.1"), refused, POLICY, {
+        userId: "user-1",
+      }),
+    ).toBe(false);
+    expect(refused.headers["Retry-After"]).toBe("30");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  AIResponseValidationError,
+  generateValidatedResponse,
+} from "../../shared/response-schemas";
+
+const VALID_GAPS = JSON.stringify({
+  summary: "A solid wardrobe with a couple of gaps",
+  gaps: ["No outerwear"],
+  investment_priorities: [],
+});
+const INVALID_GAPS = JSON.stringify({ summary: "Too short", gaps: [] });
+
+describe("generateValidatedResponse", () => {
+  it("feeds the validation issues back until the response validates", async () => {
+    const generate = vi
+      .fn()
+      .mockResolvedValueOnce(INVALID_GAPS)
+      .mockResolvedValueOnce(VALID_GAPS);
+
+    const result = await generateValidatedResponse(
+      generate,
+      "prompt",
+      "wardrobe-gaps",
+    );
+
+    expect(result.attempts).toBe(2);
+    expect(result.data.gaps).toEqual(["No outerwear"]);
+    expect(result.issues.map((issue) => issue.path.join("."))).toContain(
+      "investment_priorities",
+    );
+    expect(generate.mock.calls[1][0]).toContain("did not pass validation");
+  });
+
+  it("gives up after maxAttempts with the raw response", async () => {
+    const generate = vi.fn().mockResolvedValue(INVALID_GAPS);
+
+    const error = await generateValidatedResponse(
+      generate,
+      "prompt",
+      "wardrobe-gaps",
+      2,
+    ).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(AIResponseValidationError);
+    expect(error.attempts).toBe(2);
+    expect(error.rawResponse).toBe(INVALID_GAPS);
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips repairs that wouldn't finish before the deadline", async () => {
+    const generate = vi.fn().mockResolvedValue(INVALID_GAPS);
+
+    const error = await generateValidatedResponse(
+      generate,
+      "prompt",
+      "wardrobe-gaps",
+      3,
+      Date.now() - 1,
+    ).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(AIResponseValidationError);
+    expect(error.attempts).toBe(1);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyBudget,
+  calculateSeasonalCoverage,
+  generateSmartAnalysis,
+  generateSmartAnalysisForType,
+} from "../../shared/wardrobe-insights";
+import { BASIC_WARDROBE, makeItem } from "../helpers";
+
+describe("calculateSeasonalCoverage", () => {
+  it("scores the basics for every season", () => {
+    const coverage = calculateSeasonalCoverage([
+      makeItem("top-1", "Tops", "white"),
+      makeItem("bottom-1", "Bottoms", "blue"),
+      makeItem("shoes-1", "Shoes", "white"),
+    ]);
+
+    expect(coverage).toMatchObject({
+      spring: 60,
+      summer: 60,
+      fall: 60,
+      winter: 60,
+    });
+  });
+
+  it("adds seasonal pieces and names the weakest season", () => {
+    const coverage = calculateSeasonalCoverage([
+      ...BASIC_WARDROBE,
+      makeItem("coat-1", "Outerwear", "camel", { sub_category: "Wool coat" }),
+      makeItem("boots-1", "Shoes", "brown", { sub_category: "Boots" }),
+      makeItem("knit-1", "Tops", "cream", { sub_category: "Sweater" }),
+      makeItem("sandals-1", "Shoes", "tan", { sub_category: "Sandals" }),
+    ]);
+
+    expect(coverage.winter).toBe(90);
+    expect(coverage.summer).toBe(70);
+    expect(coverage.spring).toBe(60);
+    expect(coverage.recommendations).toMatch(/thinnest for spring/);
+  });
+
+  it("is part of the smart analysis", () => {
+    expect(generateSmartAnalysis(BASIC_WARDROBE, {}).seasonal_coverage).toEqual(
+      calculateSeasonalCoverage(BASIC_WARDROBE),
+    );
+  });
+});
+
+describe("applyBudget", () => {
+  const budget = { min: 20, max: 100, currency: "USD" };
+
+  it("keeps priorities priced within the budget, renumbered", () => {
+    expect(
+      applyBudget(
+        [
+          { item: "Coat", priority: 1, estimated_price: 250 },
+          { item: "Jeans", priority: 2, estimated_price: 80 },
+          { item: "Tee", priority: 3, estimated_price: 25 },
+        ],
+        budget,
+      ),
+    ).toEqual([
+      { item: "Jeans", priority: 1, estimated_price: 80 },
+      { item: "Tee", priority: 2, estimated_price: 25 },
+    ]);
+  });
+
+  it("drops unpriced priorities under a budget", () => {
+    const priorities = [{ item: "Blazer", priority: 1 }];
+
+    expect(applyBudget(priorities, budget)).toEqual([]);
+    expect(applyBudget(priorities)).toBe(priorities);
+  });
+});
+
+describe("generateSmartAnalysisForType", () => {
+  it("prices every gap priority within the budget", () => {
+    const budget = { min: 20, max: 60, currency: "USD" };
+    const { investment_priorities } = generateSmartAnalysisForType(
+      "gaps",
+      BASIC_WARDROBE,
+      {},
+      "minimalist",
+      budget,
+    ) as any;
+
+    expect(investment_priorities.length).toBeGreaterThan(0);
+    investment_priorities.forEach(({ estimated_price }) => {
+      expect(estimated_price).toBeGreaterThanOrEqual(budget.min);
+      expect(estimated_price).toBeLessThanOrEqual(budget.max);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateCostPerWear,
+  calculateWardrobeStats,
+} from "../../shared/wardrobe-stats";
+
+const item = (id: string, extra: Record<string, unknown> = {}) =>
+  ({ id, category_id: 1, color: "White", ...extra }) as any;
+
+describe("calculateCostPerWear", () => {
+  it("divides the price by the wears, counting unworn items once", () => {
+    expect(calculateCostPerWear(90, 3)).toBe(30);
+    expect(calculateCostPerWear(90, 0)).toBe(90);
+  });
+});
+
+describe("calculateWardrobeStats", () => {
+  it("counts items by category, color and style", () => {
+    const stats = calculateWardrobeStats([
+      item("a", { style_tags: [{ id: 1, name: "Casual" }] }),
+      item("b", {
+        category: { id: 2, name: "Bottoms" },
+        color: " white ",
+        clothing_item_style_tags: [{ style_tag: { name: "Casual" } }],
+      }),
+    ]);
+
+    expect(stats.total_items).toBe(2);
+    expect(stats.items_by_category).toEqual({ Tops: 1, Bottoms: 1 });
+    expect(stats.items_by_color).toEqual({ white: 2 });
+    expect(stats.items_by_style).toEqual({ Casual: 2 });
+    expect(stats.completeness_score).toBe(50);
+  });
+
+  it("totals value per currency and skips unpriced items", () => {
+    const stats = calculateWardrobeStats([
+      item("a", { purchase_price: 40, currency: "USD" }),
+      item("b", { purchase_price: "60", currency: "USD" }),
+      item("c", { purchase_price: 100, currency: "EUR" }),
+      item("d"),
+    ]);
+
+    expect(stats.priced_items).toBe(3);
+    expect(stats.total_value).toEqual({ USD: 100, EUR: 100 });
+    expect(stats.primary_currency).toBe("USD");
+  });
+
+  it("ranks cost per wear within the main currency", () => {
+    const stats = calculateWardrobeStats(
+      [
+        item("cheap", { purchase_price: 20, currency: "USD" }),
+        item("worn", { purchase_price: 100, currency: "USD" }),
+        item("unworn", { purchase_price: 80, currency: "USD" }),
+        item("euro", { purchase_price: 500, currency: "EUR" }),
+      ],
+      { cheap: 2, worn: 20, euro: 1 },
+    );
+
+    expect(stats.best_value_items.map((entry) => entry.item_id)).toEqual([
+      "worn",
+      "cheap",
+    ]);
+    expect(stats.worst_value_items.map((entry) => entry.item_id)).toEqual([
+      "unworn",
+    ]);
+    expect(stats.total_wears).toBe(23);
+    // (20 + 100 + 80) USD over 22 wears; the EUR item isn't comparable
+    expect(stats.average_cost_per_wear).toBeCloseTo(200 / 22);
+  });
+
+  it("has no average until something is worn", () => {
+    const stats = calculateWardrobeStats([item("a", { purchase_price: 50 })]);
+
+    expect(stats.average_cost_per_wear).toBeNull();
+    expect(stats.best_value_items).toEqual([]);
+    expect(stats.worst_value_items.map((entry) => entry.item_id)).toEqual([
+      "a",
+    ]);
+  });
+});